@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  authenticateUser,
+  createSession,
+  getClientIp,
+  isAuthEnabled,
+  setSessionCookie
+} from '@/lib/auth'
+
+const MAX_FAILED_ATTEMPTS = 5
+const MAX_FAILED_ATTEMPTS_PER_IP = 20
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000
+const MAX_USERNAME_DELAY_MS = 10000
+// Oldest entries are dropped beyond this, so a flood of usernames cannot exhaust memory
+const MAX_TRACKED_KEYS = 10000
+
+// Failed login attempts per client IP, per IP and username, and per username
+const failedAttempts = new Map<string, { count: number; resetAt: number }>()
+
+// Hard lockouts need a client IP, so nobody can lock a user out from elsewhere
+function getLockoutKeys(ip: string | null, username: string): { key: string; limit: number }[] {
+  if (!ip) return []
+  return [
+    { key: `ip:${ip}|user:${username.toLowerCase()}`, limit: MAX_FAILED_ATTEMPTS },
+    { key: `ip:${ip}`, limit: MAX_FAILED_ATTEMPTS_PER_IP }
+  ]
+}
+
+function getUsernameKey(username: string): string {
+  return `user:${username.toLowerCase()}`
+}
+
+function getFailedCount(key: string): number {
+  const entry = failedAttempts.get(key)
+  if (!entry) return 0
+  if (entry.resetAt < Date.now()) {
+    failedAttempts.delete(key)
+    return 0
+  }
+  return entry.count
+}
+
+// Past the limit, attempts for a username are slowed down (1s, 2s, 4s, ... up to 10s), not refused
+function getUsernameDelayMs(username: string): number {
+  const excess = getFailedCount(getUsernameKey(username)) - MAX_FAILED_ATTEMPTS
+  if (excess < 0) return 0
+  return Math.min(1000 * 2 ** excess, MAX_USERNAME_DELAY_MS)
+}
+
+function pruneFailedAttempts() {
+  const now = Date.now()
+  for (const [key, entry] of failedAttempts) {
+    if (entry.resetAt < now) failedAttempts.delete(key)
+  }
+  // Maps iterate in insertion order, so the first keys are the oldest
+  for (const key of failedAttempts.keys()) {
+    if (failedAttempts.size < MAX_TRACKED_KEYS) break
+    failedAttempts.delete(key)
+  }
+}
+
+function recordFailedAttempt(key: string) {
+  pruneFailedAttempts()
+  const entry = failedAttempts.get(key)
+  if (!entry) {
+    failedAttempts.set(key, { count: 1, resetAt: Date.now() + LOCKOUT_WINDOW_MS })
+  } else {
+    entry.count++
+  }
+}
+
+// POST /api/auth/login - Sign in with username and password
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthEnabled()) {
+      return NextResponse.json(
+        { error: 'Authentication is not available - database not configured' },
+        { status: 503 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    const body = await request.json()
+    const { username, password } = body
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const lockoutKeys = getLockoutKeys(ip, username.trim())
+    if (lockoutKeys.some(({ key, limit }) => getFailedCount(key) >= limit)) {
+      return NextResponse.json(
+        { error: 'Too many failed login attempts. Try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const delayMs = getUsernameDelayMs(username.trim())
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+
+    const user = await authenticateUser(username.trim(), password)
+    const attemptKeys = [getUsernameKey(username.trim()), ...lockoutKeys.map(({ key }) => key)]
+
+    if (!user) {
+      attemptKeys.forEach(recordFailedAttempt)
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      )
+    }
+
+    attemptKeys.forEach(key => failedAttempts.delete(key))
+
+    const { token, expiresAt } = await createSession(user.id, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: ip
+    })
+
+    const response = NextResponse.json({ user })
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    console.error('POST /api/auth/login error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
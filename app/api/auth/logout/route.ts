@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE_NAME, clearSessionCookie, destroySession } from '@/lib/auth'
+
+// POST /api/auth/logout - End the current session
+export async function POST(request: NextRequest) {
+  try {
+    await destroySession(request.cookies.get(SESSION_COOKIE_NAME)?.value)
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    console.error('POST /api/auth/logout error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    )
+  }
+}
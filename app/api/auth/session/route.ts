@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, isAuthEnabled } from '@/lib/auth'
+
+// GET /api/auth/session - Return the signed-in user, if any
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+
+    return NextResponse.json({
+      user,
+      authEnabled: isAuthEnabled()
+    }, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/auth/session error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, updateUser, deleteUser, countAdmins, getUsers, isValidPassword } from '@/lib/auth'
+import { isValidRole } from '@/lib/permissions'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/auth/users/[id] - Change a user's role or password (admin only)
+// Body: { role?: 'viewer' | 'operator' | 'admin', password?: string }
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { role, password } = body
+
+    if (role !== undefined && !isValidRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be viewer, operator, or admin' },
+        { status: 400 }
+      )
+    }
+
+    if (password !== undefined && !isValidPassword(password)) {
+      return NextResponse.json(
+        { error: 'Password must be at least 8 characters long' },
+        { status: 400 }
+      )
+    }
+
+    // Never demote the last admin, otherwise nobody can manage the dashboard
+    if (role !== undefined && role !== 'admin') {
+      const users = await getUsers()
+      const target = users.find(user => user.id === id)
+      if (target?.role === 'admin' && await countAdmins() <= 1) {
+        return NextResponse.json(
+          { error: 'Cannot remove the admin role from the last admin account' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const user = await updateUser(id, { role, password })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ user })
+  } catch (error) {
+    console.error('PUT /api/auth/users/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/auth/users/[id] - Remove a user (admin only)
+export const DELETE = withAuth<RouteContext>('admin', async (request: NextRequest, { params }, currentUser) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      )
+    }
+
+    if (id === currentUser.id) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteUser(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'User deleted successfully' })
+  } catch (error) {
+    console.error('DELETE /api/auth/users/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+})
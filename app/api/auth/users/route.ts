@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getUsers, createUser, isValidUsername, isValidPassword } from '@/lib/auth'
+import { isValidRole } from '@/lib/permissions'
+
+// GET /api/auth/users - List dashboard users (admin only)
+export const GET = withAuth('admin', async () => {
+  try {
+    const users = await getUsers()
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('GET /api/auth/users error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/auth/users - Create a dashboard user (admin only)
+// Body: { username: string, password: string, role: 'viewer' | 'operator' | 'admin' }
+export const POST = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const { username, password, role } = body
+
+    if (!isValidUsername(username)) {
+      return NextResponse.json(
+        { error: 'Username must be 3-50 characters: letters, numbers, dots, dashes or underscores' },
+        { status: 400 }
+      )
+    }
+
+    if (!isValidPassword(password)) {
+      return NextResponse.json(
+        { error: 'Password must be at least 8 characters long' },
+        { status: 400 }
+      )
+    }
+
+    if (!isValidRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be viewer, operator, or admin' },
+        { status: 400 }
+      )
+    }
+
+    const user = await createUser(username, password, role)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'A user with that username already exists' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/auth/users error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    )
+  }
+})
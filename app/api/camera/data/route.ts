@@ -1,58 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { WebcamConfig, MoonrakerWebcamListResponse } from '@/lib/types';
+import type { WebcamConfig } from '@/lib/types';
 import { getCameraSettings, getDashboardSettings, upsertCameraSettings } from '@/lib/database';
+import { resolvePrinter } from '@/lib/printers';
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client';
 
-const PRINTER_IP = process.env.PRINTER_HOST;
-const MOONRAKER_PORT = process.env.MOONRAKER_PORT || '7127';
-
-if (!PRINTER_IP) {
-  console.error('PRINTER_HOST environment variable is not set');
-}
-
-// Cache for 10 seconds to reduce load
+// Cache for 10 seconds to reduce load, per printer
 const CACHE_DURATION = 10000;
-let lastFetch = 0;
-let cachedData: any = null;
+const cache = new Map<number, { data: any; fetchedAt: number }>();
 
 export async function GET(request: NextRequest) {
   try {
-    if (!PRINTER_IP) {
-      return NextResponse.json(
-        { error: 'PRINTER_HOST environment variable not configured' },
-        { status: 500 }
-      );
+    const printer = await resolvePrinter(request);
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
     }
 
     const searchParams = request.nextUrl.searchParams;
     const requestedUid = searchParams.get('uid') || undefined;
 
     const now = Date.now();
-    if (cachedData && now - lastFetch < CACHE_DURATION && !requestedUid) {
-      return NextResponse.json(cachedData, {
+    const cached = cache.get(printer.id);
+    if (cached && now - cached.fetchedAt < CACHE_DURATION && !requestedUid) {
+      return NextResponse.json(cached.data, {
         headers: {
           'Cache-Control': 'public, max-age=10, stale-while-revalidate=20',
         }
       });
     }
 
-    const webcamListUrl = `http://${PRINTER_IP}:${MOONRAKER_PORT}/server/webcams/list`;
-    
-    const webcamsResponse = await fetch(webcamListUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0',
-      },
-      cache: 'no-store'
-    });
-    
-    if (!webcamsResponse.ok) {
-      console.error('Moonraker webcam list response not ok:', webcamsResponse.status);
-      return NextResponse.json(
-        { error: `Moonraker returned ${webcamsResponse.status}` }, 
-        { status: webcamsResponse.status }
-      );
-    }
-    
-    const webcamsData: MoonrakerWebcamListResponse = await webcamsResponse.json();
+    const webcamsData = await getMoonrakerClient(printer).getWebcams();
     
     if (!webcamsData.result?.webcams || webcamsData.result.webcams.length === 0) {
       return NextResponse.json({
@@ -130,8 +106,7 @@ export async function GET(request: NextRequest) {
     
     // Cache the response if no specific UID was requested
     if (!requestedUid) {
-      cachedData = responseData;
-      lastFetch = now;
+      cache.set(printer.id, { data: responseData, fetchedAt: now });
     }
     
     return NextResponse.json(responseData, {
@@ -144,7 +119,7 @@ export async function GET(request: NextRequest) {
     console.error('Camera data error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch camera data', details: error instanceof Error ? error.message : 'Unknown error' }, 
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     );
   }
 }
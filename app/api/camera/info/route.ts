@@ -1,66 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const PRINTER_IP = process.env.PRINTER_HOST;
-const MOONRAKER_PORT = process.env.MOONRAKER_PORT || '7127';
-
-if (!PRINTER_IP) {
-  console.error('PRINTER_HOST environment variable is not set');
-}
-
-interface WebcamConfig {
-  enabled: boolean;
-  icon: string;
-  aspect_ratio: string;
-  target_fps_idle: number;
-  name: string;
-  location: string;
-  service: string;
-  target_fps: number;
-  stream_url: string;
-  snapshot_url: string;
-  flip_horizontal: boolean;
-  flip_vertical: boolean;
-  rotation: number;
-  source: string;
-  extra_data: object;
-}
-
-interface WebcamListResponse {
-  result: {
-    webcams: WebcamConfig[];
-  };
-}
+import { resolvePrinter } from '@/lib/printers';
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check if PRINTER_IP is configured
-    if (!PRINTER_IP) {
-      return NextResponse.json(
-        { error: 'PRINTER_HOST environment variable not configured' },
-        { status: 500 }
-      );
+    const printer = await resolvePrinter(request);
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
     }
 
-    const webcamListUrl = `http://${PRINTER_IP}:${MOONRAKER_PORT}/server/webcams/list`;
-    
-    console.log('Fetching webcam config from:', webcamListUrl);
-    
-    const response = await fetch(webcamListUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      },
-      cache: 'no-store'
-    });
-    
-    if (!response.ok) {
-      console.error('Moonraker webcam config response not ok:', response.status, response.statusText);
-      return NextResponse.json(
-        { error: `Moonraker returned ${response.status}: ${response.statusText}` }, 
-        { status: response.status }
-      );
-    }
-    
-    const data: WebcamListResponse = await response.json();
+    const data = await getMoonrakerClient(printer).getWebcams();
     
     if (!data.result?.webcams || data.result.webcams.length === 0) {
       return NextResponse.json(
@@ -109,7 +58,7 @@ export async function GET(request: NextRequest) {
     console.error('Camera info error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch camera info', details: error instanceof Error ? error.message : 'Unknown error' }, 
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     );
   }
 }
\ No newline at end of file
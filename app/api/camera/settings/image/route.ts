@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCameraSettingByUid, isDatabaseAvailable, updateCameraImageSettings } from '@/lib/database';
+import { withAuth } from '@/lib/auth';
+import {
+  pickCameraImageSettings,
+  validateCameraImageSettings,
+  type CameraImageSettings
+} from '@/lib/camera-processing';
+
+// GET - Snapshot processing settings of a camera, ?uid= (admin only)
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const uid = request.nextUrl.searchParams.get('uid');
+    if (!uid) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: uid' },
+        { status: 400 }
+      );
+    }
+
+    // Cameras without a row, or without a database, use the defaults
+    const row = await getCameraSettingByUid(uid);
+    return NextResponse.json({
+      settings: pickCameraImageSettings(row)
+    });
+  } catch (error) {
+    console.error('Error fetching camera image settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch camera image settings' },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT - Replace a camera's crop, size, format and overlay settings (admin only)
+// Body: { uid, crop_left, crop_top, crop_right, crop_bottom, max_width, image_format, image_quality, overlay_timestamp, overlay_status, overlay_position }
+export const PUT = withAuth('admin', async (request: NextRequest) => {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Database not available' },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json();
+    const { uid, ...input } = body ?? {};
+
+    if (typeof uid !== 'string' || !uid || uid.length > 255) {
+      return NextResponse.json(
+        { error: 'Missing required field: uid' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateCameraImageSettings(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateCameraImageSettings(uid, pickCameraImageSettings(input as CameraImageSettings));
+
+    return NextResponse.json({
+      settings: pickCameraImageSettings(updated)
+    });
+  } catch (error) {
+    console.error('Error updating camera image settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update camera image settings' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCameraSettings, updateCameraEnabled, isDatabaseAvailable } from '@/lib/database';
+import { withAuth } from '@/lib/auth';
 
-// GET - Get all camera settings
-export async function GET(request: NextRequest) {
+// GET - Get all camera settings (admin only)
+export const GET = withAuth('admin', async () => {
   try {
     if (!isDatabaseAvailable()) {
       return NextResponse.json(
@@ -29,10 +30,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-// PUT - Update camera enabled state
-export async function PUT(request: NextRequest) {
+// PUT - Update camera enabled state (admin only)
+export const PUT = withAuth('admin', async (request: NextRequest) => {
   try {
     if (!isDatabaseAvailable()) {
       return NextResponse.json(
@@ -70,4 +71,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
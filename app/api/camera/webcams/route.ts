@@ -1,44 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MoonrakerWebcamListResponse, WebcamConfig } from '@/lib/types';
 import { getCameraSettings, upsertCameraSettings } from '@/lib/database';
-
-const PRINTER_IP = process.env.PRINTER_HOST;
-const MOONRAKER_PORT = process.env.MOONRAKER_PORT || '7127';
-
-if (!PRINTER_IP) {
-  console.error('PRINTER_HOST environment variable is not set');
-}
+import { resolvePrinter } from '@/lib/printers';
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check if PRINTER_IP is configured
-    if (!PRINTER_IP) {
-      return NextResponse.json(
-        { error: 'PRINTER_HOST environment variable not configured' },
-        { status: 500 }
-      );
+    const printer = await resolvePrinter(request);
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 });
     }
 
-    const webcamListUrl = `http://${PRINTER_IP}:${MOONRAKER_PORT}/server/webcams/list`;
-    
-    console.log('Fetching webcam list from:', webcamListUrl);
-    
-    const response = await fetch(webcamListUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0',
-      },
-      cache: 'no-store'
-    });
-    
-    if (!response.ok) {
-      console.error('Moonraker webcam list response not ok:', response.status, response.statusText);
-      return NextResponse.json(
-        { error: `Moonraker returned ${response.status}: ${response.statusText}` }, 
-        { status: response.status }
-      );
-    }
-    
-    const data: MoonrakerWebcamListResponse = await response.json();
+    const data = await getMoonrakerClient(printer).getWebcams();
     
     if (!data.result?.webcams || data.result.webcams.length === 0) {
       return NextResponse.json(
@@ -89,7 +61,7 @@ export async function GET(request: NextRequest) {
     console.error('Webcam list error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch webcam list', details: error instanceof Error ? error.message : 'Unknown error' }, 
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     );
   }
 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getFailureAlertSnapshot } from '@/lib/failure-detector'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/failure-detection/alerts/[id]/snapshot - Camera snapshot that raised a failure alert (signed in)
+ */
+export const GET = withAuth<RouteContext>('viewer', async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await params
+    const alertId = parseInt(id, 10)
+
+    if (isNaN(alertId)) {
+      return NextResponse.json({ error: 'Invalid alert ID' }, { status: 400 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const snapshot = await getFailureAlertSnapshot(alertId, printer.id)
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(snapshot.buffer), {
+      headers: {
+        'Content-Type': snapshot.contentType,
+        'Cache-Control': 'private, max-age=86400', // Alert snapshots never change
+      }
+    })
+
+  } catch (error) {
+    console.error('GET /api/failure-detection/alerts/[id]/snapshot error:', error)
+    return NextResponse.json({ error: 'Failed to fetch snapshot' }, { status: 500 })
+  }
+})
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getFailureAlerts, getFailureDetectionSettings, getFailureDetectionState } from '@/lib/failure-detector'
+import type { FailureDetectionResponse } from '@/lib/failure-detection'
+
+/**
+ * GET /api/failure-detection?printerId= - Failure scores of the current or
+ * last print per watched camera, and the most recent alerts (signed in)
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const settings = await getFailureDetectionSettings(printer.id)
+    const response: FailureDetectionResponse = {
+      enabled: settings.enabled,
+      threshold: settings.threshold,
+      ...getFailureDetectionState(printer.id),
+      alerts: await getFailureAlerts(printer.id)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('GET /api/failure-detection error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch failure detection scores', details: String(error) },
+      { status: 500 }
+    )
+  }
+})
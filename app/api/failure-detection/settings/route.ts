@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import {
+  getFailureDetectionSettings,
+  getFailureModelName,
+  updateFailureDetectionSettings
+} from '@/lib/failure-detector'
+import {
+  validateFailureDetectionSettings,
+  type FailureDetectionSettings,
+  type FailureDetectionSettingsResponse
+} from '@/lib/failure-detection'
+
+/**
+ * GET /api/failure-detection/settings?printerId= - Failure detection settings
+ * and the ONNX model in use, if any (admin only)
+ */
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const response: FailureDetectionSettingsResponse = {
+      settings: await getFailureDetectionSettings(printer.id),
+      model: await getFailureModelName()
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('GET /api/failure-detection/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch failure detection settings' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * PUT /api/failure-detection/settings?printerId= - Replace the failure detection settings (admin only)
+ * Body: { enabled, camera_uids, interval_seconds, threshold, confirmations, auto_pause }
+ */
+export const PUT = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationError = validateFailureDetectionSettings(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const settings = await updateFailureDetectionSettings(printer.id, body as FailureDetectionSettings)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('PUT /api/failure-detection/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save failure detection settings' },
+      { status: 500 }
+    )
+  }
+})
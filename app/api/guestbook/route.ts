@@ -9,6 +9,7 @@ import {
   type GuestbookEntry,
   type CreateGuestbookEntry 
 } from '@/lib/guestbook'
+import { emitWebhookEvent } from '@/lib/webhook-delivery'
 import type { PrinterStatus } from '@/lib/types'
 
 let dbInitialized = false
@@ -179,6 +180,17 @@ export async function POST(request: NextRequest) {
     // Enrich with gravatar URL
     const enrichedEntry = enrichGuestbookEntries(newEntry)[0]
 
+    // The visitor's email address is not sent to webhooks
+    emitWebhookEvent('guestbook_entry_created', {
+      id: enrichedEntry.id,
+      name: enrichedEntry.name,
+      message: enrichedEntry.message,
+      printer_status: enrichedEntry.printer_status,
+      created_at: enrichedEntry.created_at
+    }).catch((error) => {
+      console.error('Failed to queue guestbook webhook:', error)
+    })
+
     return NextResponse.json(
       { 
         message: 'Guestbook entry created successfully',
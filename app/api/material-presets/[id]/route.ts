@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getMaterialPresets, updateMaterialPreset, deleteMaterialPreset, isValidMaterialPresetInput, isDuplicatePresetError } from '@/lib/material-presets'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/material-presets/[id] - Edit a preset (admin only)
+// Body: any of { name, extruder_temp, bed_temp, fan_speed, display_order }
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid preset ID' },
+        { status: 400 }
+      )
+    }
+
+    const existing = (await getMaterialPresets()).find(preset => preset.id === id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Preset not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!isValidMaterialPresetInput({ ...existing, ...body })) {
+      return NextResponse.json(
+        { error: 'A preset needs a name, extruder and bed temperatures between 0 and 500 °C, and an optional fan speed between 0 and 100%' },
+        { status: 400 }
+      )
+    }
+
+    const preset = await updateMaterialPreset(id, body)
+
+    if (!preset) {
+      return NextResponse.json(
+        { error: 'Preset not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ preset })
+  } catch (error) {
+    if (isDuplicatePresetError(error)) {
+      return NextResponse.json(
+        { error: 'A preset with that name already exists' },
+        { status: 409 }
+      )
+    }
+    console.error('PUT /api/material-presets/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update material preset' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/material-presets/[id] - Remove a preset (admin only)
+export const DELETE = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid preset ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteMaterialPreset(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Preset not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Preset deleted successfully' })
+  } catch (error) {
+    console.error('DELETE /api/material-presets/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete material preset' },
+      { status: 500 }
+    )
+  }
+})
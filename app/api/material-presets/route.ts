@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { isDatabaseAvailable } from '@/lib/database'
+import { getMaterialPresets, createMaterialPreset, isValidMaterialPresetInput, isDuplicatePresetError } from '@/lib/material-presets'
+
+const INVALID_PRESET_MESSAGE = 'A preset needs a name, extruder and bed temperatures between 0 and 500 °C, and an optional fan speed between 0 and 100%'
+
+// GET /api/material-presets - List material presets (any signed-in user)
+export const GET = withAuth('viewer', async () => {
+  try {
+    const presets = await getMaterialPresets()
+    return NextResponse.json({ presets })
+  } catch (error) {
+    console.error('GET /api/material-presets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch material presets' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/material-presets - Add a preset (admin only)
+// Body: { name, extruder_temp, bed_temp, fan_speed?, display_order? }
+export const POST = withAuth('admin', async (request: NextRequest) => {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'A database is required to manage material presets' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!isValidMaterialPresetInput(body)) {
+      return NextResponse.json(
+        { error: INVALID_PRESET_MESSAGE },
+        { status: 400 }
+      )
+    }
+
+    const preset = await createMaterialPreset(body)
+
+    if (!preset) {
+      return NextResponse.json(
+        { error: 'Failed to create material preset' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ preset }, { status: 201 })
+  } catch (error) {
+    if (isDuplicatePresetError(error)) {
+      return NextResponse.json(
+        { error: 'A preset with that name already exists' },
+        { status: 409 }
+      )
+    }
+    console.error('POST /api/material-presets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create material preset' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,220 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { checkDatabaseHealth, getModuleSettings, isDatabaseConfigured } from '@/lib/database'
+import { getPrinters, type PrinterConfig } from '@/lib/printers'
+import { getMoonrakerClient } from '@/lib/moonraker-client'
+import { selectPrinterObjects, extractPrinterComponents } from '@/lib/printer-objects'
+import { fetchSystemStats, type SystemStats } from '@/lib/system-stats'
+import { DATABASE_LATENCY_METRIC, MOONRAKER_LATENCY_METRIC, MetricsWriter, type MetricSample } from '@/lib/metrics'
+import type { KlipperPrinterObjects, MoonrakerTotalsResponse, PrinterStatus } from '@/lib/types'
+import type { GrowTentDevice, GrowTentStatus } from '@/lib/grow-tent-types'
+
+// Scrapes usually come every 15-60 s; the status route's cache keeps bursts cheap
+const STATUS_CACHE_DURATION = 2000
+const OBJECT_LIST_CACHE_DURATION = 60000
+const TOTALS_CACHE_DURATION = 30000
+const GROW_TENT_TIMEOUT_MS = 5000
+
+const PRINT_STATES: PrinterStatus['print']['state'][] = ['printing', 'paused', 'cancelled', 'complete', 'error', 'ready', 'offline']
+
+interface PrinterMetrics {
+  printer: PrinterConfig
+  up: boolean // Moonraker answered the object query
+  objects: KlipperPrinterObjects | null
+  totals: MoonrakerTotalsResponse['result']['job_totals'] | null
+  system: SystemStats | null
+}
+
+async function collectPrinterMetrics(printer: PrinterConfig): Promise<PrinterMetrics> {
+  const client = getMoonrakerClient(printer)
+
+  const objects = await client.listObjects({ cacheTtlMs: OBJECT_LIST_CACHE_DURATION })
+    .then(({ result }) => client.queryObjects(selectPrinterObjects(result.objects), { cacheTtlMs: STATUS_CACHE_DURATION }))
+    .then(({ result }) => result.status)
+    .catch((error) => {
+      console.warn(`Metrics: could not query ${printer.name}:`, error instanceof Error ? error.message : error)
+      return null
+    })
+
+  // Without Moonraker the rest would only time out as well
+  if (!objects) {
+    return { printer, up: false, objects: null, totals: null, system: null }
+  }
+
+  const [totals, system] = await Promise.all([
+    client.getHistoryTotals({ cacheTtlMs: TOTALS_CACHE_DURATION })
+      .then(({ result }) => result.job_totals)
+      .catch(() => null), // History is an optional Moonraker component
+    fetchSystemStats(client).then(data => data?.stats ?? null)
+  ])
+
+  return { printer, up: true, objects, totals, system }
+}
+
+// Null when the grow tent module is off or its API cannot be reached
+async function collectGrowTentDevices(): Promise<GrowTentDevice[] | null> {
+  const moduleSettings = await getModuleSettings('grow-tent')
+  const apiUrl: string | undefined = moduleSettings?.settings?.apiUrl
+  if (!moduleSettings?.enabled || !apiUrl) {
+    return null
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/api/grow-tent/status`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(GROW_TENT_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+    const status: GrowTentStatus = await response.json()
+    return status.success ? status.data : null
+  } catch (error) {
+    console.warn('Metrics: could not fetch grow tent status:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// Moonraker reports memory in `memUnits`, normally kB
+const toBytes = (value: number, units = 'kB') =>
+  units.toLowerCase() === 'kb' ? value * 1024 : units.toLowerCase() === 'mb' ? value * 1024 * 1024 : value
+
+function writePrinterMetrics(writer: MetricsWriter, printers: PrinterMetrics[]): void {
+  const label = ({ printer }: PrinterMetrics) => ({ printer: printer.name, printer_id: printer.id })
+  const online = printers.filter(metrics => metrics.objects)
+  const per = (select: (metrics: PrinterMetrics) => number | null | undefined, from = online): MetricSample[] =>
+    from.flatMap(metrics => {
+      const value = select(metrics)
+      return typeof value === 'number' && Number.isFinite(value) ? [[label(metrics), value] as MetricSample] : []
+    })
+
+  writer.gauge('s1pper_printer_up', 'Whether Moonraker answered the last status query', per(({ up }) => up ? 1 : 0, printers))
+
+  const components = online.map(metrics => ({ metrics, ...extractPrinterComponents(metrics.objects!) }))
+  const heaterSamples = (select: (heater: PrinterStatus['heaters'][number]) => number): MetricSample[] =>
+    components.flatMap(({ metrics, heaters }) =>
+      heaters.map(heater => [{ ...label(metrics), heater: heater.label }, select(heater)] as MetricSample)
+    )
+
+  writer
+    .gauge('s1pper_heater_temperature_celsius', 'Current heater temperature', heaterSamples(heater => heater.actual))
+    .gauge('s1pper_heater_target_celsius', 'Heater target temperature, 0 when off', heaterSamples(heater => heater.target))
+    .gauge('s1pper_heater_power_ratio', 'Heater PWM duty cycle from 0 to 1', heaterSamples(heater => heater.power))
+    .gauge('s1pper_sensor_temperature_celsius', 'Temperature sensor reading', components.flatMap(({ metrics, sensors }) =>
+      sensors.map(sensor => [{ ...label(metrics), sensor: sensor.label }, sensor.actual] as MetricSample)
+    ))
+
+  writer
+    .gauge('s1pper_print_state', 'Current print state, 1 for the active state', online.flatMap(metrics => {
+      const state = metrics.objects!.print_stats?.state?.toLowerCase()
+      const current = state === 'standby' || !state ? 'ready' : state
+      return PRINT_STATES.map(printState => [{ ...label(metrics), state: printState }, printState === current ? 1 : 0] as MetricSample)
+    }))
+    .gauge('s1pper_print_progress_ratio', 'Progress of the current print from 0 to 1', per(({ objects }) => objects!.virtual_sdcard?.progress))
+    .gauge('s1pper_print_duration_seconds', 'Time spent printing the current job, without pauses', per(({ objects }) => objects!.print_stats?.print_duration))
+    .gauge('s1pper_print_filament_used_millimeters', 'Filament used by the current print', per(({ objects }) => objects!.print_stats?.filament_used))
+
+  writer
+    .counter('s1pper_jobs_total', 'Jobs in Moonraker\'s history', per(({ totals }) => totals?.total_jobs))
+    .counter('s1pper_jobs_time_seconds_total', 'Time of all jobs, including pauses', per(({ totals }) => totals?.total_time))
+    .counter('s1pper_jobs_print_time_seconds_total', 'Printing time of all jobs', per(({ totals }) => totals?.total_print_time))
+    .counter('s1pper_jobs_filament_used_millimeters_total', 'Filament used by all jobs', per(({ totals }) => totals?.total_filament_used))
+    .gauge('s1pper_jobs_longest_print_seconds', 'Longest print duration in the history', per(({ totals }) => totals?.longest_print))
+
+  const hosts = online.filter(metrics => metrics.system)
+  const hostPer = (select: (system: SystemStats) => number | null) => per(({ system }) => select(system!), hosts)
+
+  writer
+    .gauge('s1pper_host_cpu_usage_percent', 'Host CPU usage over all cores', hostPer(system => system.system.cpuUsage.total))
+    .gauge('s1pper_host_cpu_core_usage_percent', 'Host CPU usage per core', hosts.flatMap(metrics =>
+      metrics.system!.system.cpuUsage.cores.flatMap((usage, core) =>
+        typeof usage === 'number' ? [[{ ...label(metrics), core }, usage] as MetricSample] : []
+      )
+    ))
+    .gauge('s1pper_host_cpu_temperature_celsius', 'Host CPU temperature', hostPer(system => system.system.cpuTemp))
+    .gauge('s1pper_host_memory_total_bytes', 'Host memory', hostPer(system => toBytes(system.system.memory.total)))
+    .gauge('s1pper_host_memory_used_bytes', 'Host memory in use', hostPer(system => toBytes(system.system.memory.used)))
+    .gauge('s1pper_host_memory_available_bytes', 'Host memory available to new processes', hostPer(system => toBytes(system.system.memory.available)))
+    .gauge('s1pper_host_uptime_seconds', 'Host uptime', hostPer(system => system.system.uptime))
+    .gauge('s1pper_moonraker_cpu_usage_percent', 'CPU usage of the Moonraker process', hostPer(system => system.moonraker.cpuUsage))
+    .gauge('s1pper_moonraker_memory_bytes', 'Memory used by the Moonraker process', hostPer(system => toBytes(system.moonraker.memory, system.moonraker.memUnits)))
+    .gauge('s1pper_moonraker_websocket_connections', 'Open Moonraker WebSocket connections', hostPer(system => system.websocketConnections))
+
+  const interfaces = (select: (stats: SystemStats['network'][string]) => number): MetricSample[] =>
+    hosts.flatMap(metrics =>
+      Object.entries(metrics.system!.network).map(([name, stats]) => [{ ...label(metrics), interface: name }, select(stats)] as MetricSample)
+    )
+
+  writer
+    .counter('s1pper_host_network_receive_bytes_total', 'Bytes received per network interface', interfaces(stats => stats.rxBytes))
+    .counter('s1pper_host_network_transmit_bytes_total', 'Bytes sent per network interface', interfaces(stats => stats.txBytes))
+    .gauge('s1pper_host_network_bandwidth_bytes_per_second', 'Current throughput per network interface', interfaces(stats => stats.bandwidth))
+}
+
+function writeGrowTentMetrics(writer: MetricsWriter, devices: GrowTentDevice[]): void {
+  const samples = (select: (device: GrowTentDevice) => number, from = devices): MetricSample[] =>
+    from.map(device => [{ device: device.deviceName, device_id: device.deviceId }, select(device)])
+  const online = devices.filter(device => device.online)
+
+  writer
+    .gauge('s1pper_growtent_up', 'Whether the grow tent controller is online', samples(device => device.online ? 1 : 0))
+    .gauge('s1pper_growtent_temperature_celsius', 'Grow tent temperature', samples(device => device.temperature.celsius, online))
+    .gauge('s1pper_growtent_humidity_percent', 'Grow tent relative humidity', samples(device => device.humidity.value, online))
+    .gauge('s1pper_growtent_vpd_kilopascals', 'Grow tent leaf vapour pressure deficit', samples(device => device.vpdLeaf, online))
+}
+
+// Compare the bearer token without leaking its length through timing
+function hasValidToken(request: NextRequest, token: string): boolean {
+  const header = request.headers.get('authorization') || ''
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+  const expected = crypto.createHash('sha256').update(token).digest()
+  const received = crypto.createHash('sha256').update(provided).digest()
+  return crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * GET /api/metrics
+ * Prometheus text format for every enabled printer, its host and the grow tent,
+ * plus the dashboard's own health: database availability, Moonraker reachability
+ * and request latencies. Set METRICS_TOKEN to require `Authorization: Bearer <token>`.
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN
+  if (token && !hasValidToken(request, token)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="metrics"' } }
+    )
+  }
+
+  try {
+    const startedAt = performance.now()
+    const [databaseUp, printers, growTent] = await Promise.all([
+      isDatabaseConfigured() ? checkDatabaseHealth() : Promise.resolve(null),
+      getPrinters().then(printers => Promise.all(printers.filter(printer => printer.enabled).map(collectPrinterMetrics))),
+      collectGrowTentDevices()
+    ])
+
+    const writer = new MetricsWriter()
+    writePrinterMetrics(writer, printers)
+    if (growTent) {
+      writeGrowTentMetrics(writer, growTent)
+    }
+
+    writer
+      .gauge('s1pper_database_up', 'Whether the dashboard database answers queries', databaseUp === null ? [] : [[{}, databaseUp ? 1 : 0]])
+      .latencyHistogram(MOONRAKER_LATENCY_METRIC, 'Moonraker HTTP requests made by the dashboard')
+      .latencyHistogram(DATABASE_LATENCY_METRIC, 'Database queries made by the dashboard')
+      .gauge('s1pper_metrics_collection_seconds', 'Time taken to collect these metrics', [[{}, (performance.now() - startedAt) / 1000]])
+
+    return new Response(writer.toString(), {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/metrics error:', error)
+    return NextResponse.json({ error: 'Failed to collect metrics' }, { status: 500 })
+  }
+}
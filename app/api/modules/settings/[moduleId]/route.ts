@@ -1,18 +1,18 @@
 /**
  * API endpoint to get and update a specific module's settings
- * GET /api/modules/settings/[moduleId]
- * PUT /api/modules/settings/[moduleId]
+ * GET /api/modules/settings/[moduleId] (admin only)
+ * PUT /api/modules/settings/[moduleId] (admin only)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getModuleSettings, updateModuleSettings } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { moduleId: string } }
-) {
+type RouteContext = { params: Promise<{ moduleId: string }> }
+
+export const GET = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
   try {
-    const moduleId = params.moduleId
+    const { moduleId } = await params
     const settings = await getModuleSettings(moduleId)
     
     if (!settings) {
@@ -30,14 +30,11 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { moduleId: string } }
-) {
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
   try {
-    const moduleId = params.moduleId
+    const { moduleId } = await params
     const body = await request.json()
     
     const updated = await updateModuleSettings(moduleId, body)
@@ -57,4 +54,4 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
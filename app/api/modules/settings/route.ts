@@ -1,12 +1,13 @@
 /**
  * API endpoint to get all module settings
- * GET /api/modules/settings
+ * GET /api/modules/settings (admin only)
  */
 
 import { NextResponse } from 'next/server'
 import { getAllModuleSettings } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
-export async function GET() {
+export const GET = withAuth('admin', async () => {
   try {
     const modules = await getAllModuleSettings()
     return NextResponse.json(modules)
@@ -17,4 +18,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { validateNotificationChannelInput, type NotificationChannelInput } from '@/lib/notifications'
+import { updateNotificationChannel, deleteNotificationChannel } from '@/lib/notification-channels'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/notifications/[id] - Replace a channel's settings (admin only)
+// Body: { name, type, config: { url?, to? }, token?, events, enabled? }
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid channel ID' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateNotificationChannelInput(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const channel = await updateNotificationChannel(id, body as NotificationChannelInput)
+
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ channel })
+  } catch (error) {
+    console.error('PUT /api/notifications/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification channel' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/notifications/[id] - Remove a channel (admin only)
+export const DELETE = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid channel ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteNotificationChannel(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Channel deleted successfully' })
+  } catch (error) {
+    console.error('DELETE /api/notifications/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete notification channel' },
+      { status: 500 }
+    )
+  }
+})
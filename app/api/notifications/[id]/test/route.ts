@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getNotificationChannel, sendNotification } from '@/lib/notification-channels'
+import { getPrinters } from '@/lib/printers'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/notifications/[id]/test (admin only)
+ * Sends a test notification through the channel, whether or not it is enabled.
+ * Returns 502 with the channel's error when delivery fails.
+ */
+export const POST = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid channel ID' },
+        { status: 400 }
+      )
+    }
+
+    const channel = await getNotificationChannel(id)
+
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    const [printer] = await getPrinters()
+
+    try {
+      await sendNotification(channel, {
+        type: 'test',
+        severity: 'info',
+        printer: { id: printer?.id ?? 0, name: printer?.name ?? 'Printer' },
+        title: 'Test notification',
+        message: `Notifications from the dashboard arrive here through "${channel.name}".`,
+        timestamp: new Date().toISOString()
+      })
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Test notification failed',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: `Test notification sent to ${channel.name}` })
+  } catch (error) {
+    console.error('POST /api/notifications/[id]/test error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send test notification' },
+      { status: 500 }
+    )
+  }
+})
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to send a test notification.' },
+    { status: 405 }
+  )
+}
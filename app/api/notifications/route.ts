@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { isDatabaseAvailable } from '@/lib/database'
+import { validateNotificationChannelInput, type NotificationChannelInput } from '@/lib/notifications'
+import { getNotificationChannels, createNotificationChannel, toPublicChannel } from '@/lib/notification-channels'
+import { getSmtpConfig } from '@/lib/smtp'
+
+// GET /api/notifications - List notification channels (admin only)
+export const GET = withAuth('admin', async () => {
+  try {
+    const channels = await getNotificationChannels()
+    return NextResponse.json({
+      channels: channels.map(toPublicChannel),
+      smtpConfigured: getSmtpConfig() !== null
+    })
+  } catch (error) {
+    console.error('GET /api/notifications error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification channels' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/notifications - Add a channel (admin only)
+// Body: { name, type, config: { url?, to? }, token?, events, enabled? }
+export const POST = withAuth('admin', async (request: NextRequest) => {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'A database is required to configure notifications' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateNotificationChannelInput(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const channel = await createNotificationChannel(body as NotificationChannelInput)
+
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Failed to create notification channel' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ channel }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/notifications error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create notification channel' },
+      { status: 500 }
+    )
+  }
+})
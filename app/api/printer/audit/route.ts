@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getControlAuditLog } from '@/lib/printer-control'
+
+/**
+ * GET /api/printer/audit (admin only)
+ * Returns the most recent printer control actions
+ * 
+ * Query:
+ *  - limit: number of entries (default 50, max 200)
+ *  - printerId: only actions on this printer (default: all printers)
+ */
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 1), 200)
+    const printerId = parseInt(request.nextUrl.searchParams.get('printerId') || '', 10)
+    const entries = await getControlAuditLog(limit, isNaN(printerId) ? undefined : printerId)
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error('Control audit log error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch control audit log' },
+      { status: 500 }
+    )
+  }
+})
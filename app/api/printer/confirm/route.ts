@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { issueConfirmationToken, isDestructiveAction } from '@/lib/printer-control'
+import { resolvePrinter } from '@/lib/printers'
+
+/**
+ * POST /api/printer/confirm (operator only)
+ * Issues a single-use confirmation token for a destructive action.
+ * The token is valid for one minute and only for the requesting user and printer
+ * (`printerId` query parameter, as on the action route).
+ * 
+ * Body:
+ *  - action: 'emergency_stop' | 'shutdown'
+ */
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  try {
+    const body = await request.json()
+    const action = body?.action
+
+    if (!isDestructiveAction(action)) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid action',
+          message: 'Action must be emergency_stop or shutdown'
+        },
+        { status: 400 }
+      )
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json(
+        { 
+          error: 'Printer not found',
+          message: 'No printer matches the requested printerId'
+        },
+        { status: 404 }
+      )
+    }
+
+    const { token, expiresAt } = issueConfirmationToken(user, action, printer.id)
+
+    return NextResponse.json({
+      action,
+      printer_id: printer.id,
+      confirmation_token: token,
+      expires_at: expiresAt.toISOString()
+    })
+
+  } catch (error) {
+    console.error('Confirmation token error:', error)
+    return NextResponse.json(
+      { 
+        error: 'Request failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -1,49 +1,49 @@
-import { NextResponse } from 'next/server'
-
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { consumeConfirmationToken, recordControlAction } from '@/lib/printer-control'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
 
 /**
- * POST /api/printer/emergency-stop
+ * POST /api/printer/emergency-stop (operator only)
  * Performs an emergency stop or host shutdown
  * 
  * Body:
  *  - action: 'emergency_stop' | 'shutdown'
  *    - emergency_stop: Immediately stops the printer (M112)
  *    - shutdown: Gracefully shuts down the host machine
+ *  - confirmation_token: token from POST /api/printer/confirm for the same action
  */
-export async function POST(request: Request) {
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  const ipAddress = getClientIp(request)
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json(
+      { 
+        error: 'Printer not found',
+        message: 'No printer matches the requested printerId'
+      },
+      { status: 404 }
+    )
+  }
+  let action: 'emergency_stop' | 'shutdown' = 'emergency_stop'
+
   try {
-    if (!KLIPPER_BASE_URL) {
-      return NextResponse.json(
-        { 
-          error: 'Printer not configured',
-          message: 'PRINTER_HOST environment variable is not set'
-        },
-        { status: 500 }
-      )
-    }
+    const body = await request.json()
+    action = body?.action === 'shutdown' ? 'shutdown' : 'emergency_stop'
 
-    // Only allow shutdown in development mode for safety
-    if (process.env.NODE_ENV !== 'development') {
+    // Destructive actions must be confirmed with a token issued to this user
+    if (!consumeConfirmationToken(user, action, printer.id, body?.confirmation_token)) {
+      await recordControlAction({ user, printerId: printer.id, action, success: false, message: 'Missing or invalid confirmation token', ipAddress })
       return NextResponse.json(
         { 
-          error: 'Forbidden',
-          message: 'Shutdown is only allowed in development mode'
+          error: 'Confirmation required',
+          message: 'Request a confirmation token from /api/printer/confirm and retry'
         },
-        { status: 403 }
+        { status: 428 }
       )
     }
 
-    const body = await request.json()
-    const action = body?.action || 'emergency_stop'
-
     let endpoint: string
     let successMessage: string
 
@@ -61,15 +61,14 @@ export async function POST(request: Request) {
         break
     }
 
-    const response = await fetch(`${KLIPPER_BASE_URL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
+    const client = getMoonrakerClient(printer)
 
     // Machine shutdown may not return a response as the host goes down
     if (action === 'shutdown') {
+      await client.fetch(endpoint, { method: 'POST' }).catch((error) => {
+        if (!(error instanceof MoonrakerError) || error.isUnreachable) throw error
+      })
+      await recordControlAction({ user, printerId: printer.id, action, success: true, message: successMessage, ipAddress })
       return NextResponse.json({
         success: true,
         message: successMessage,
@@ -77,18 +76,8 @@ export async function POST(request: Request) {
       })
     }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      return NextResponse.json(
-        { 
-          error: `${action} failed`,
-          message: errorText || `Moonraker returned ${response.status}`
-        },
-        { status: response.status }
-      )
-    }
-
-    const data = await response.json()
+    const data = await client.request(endpoint, { method: 'POST' })
+    await recordControlAction({ user, printerId: printer.id, action, success: true, message: successMessage, ipAddress })
 
     return NextResponse.json({
       success: true,
@@ -98,13 +87,32 @@ export async function POST(request: Request) {
     })
 
   } catch (error) {
+    if (error instanceof MoonrakerError && !error.isUnreachable) {
+      await recordControlAction({ user, printerId: printer.id, action, success: false, message: error.message, ipAddress })
+      return NextResponse.json(
+        { 
+          error: `${action} failed`,
+          message: error.message
+        },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
     console.error('Emergency stop/shutdown error:', error)
+    await recordControlAction({
+      user,
+      printerId: printer.id,
+      action,
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      ipAddress
+    })
     return NextResponse.json(
       { 
         error: 'Request failed',
         message: error instanceof Error ? error.message : 'Unknown error occurred'
       },
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     )
   }
-}
+})
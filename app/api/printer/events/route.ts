@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth'
+import { getDashboardSettings } from '@/lib/database'
+import { resolvePrinter } from '@/lib/printers'
+import { getPrinterEventHub, type BufferedPrinterEvent, type PrinterEventSnapshot } from '@/lib/printer-events'
+import { redactPrinterStatus } from '@/lib/privacy'
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000
+// In offline mode there is nothing to stream, so ask the client to check back rarely
+const OFFLINE_RETRY_MS = 60000
+
+/**
+ * GET /api/printer/events
+ * Server-sent events with transformed `PrinterStatus` updates, for consumers
+ * such as OBS browser sources and scripts that would otherwise poll `/api/printer/status`.
+ *
+ * Events:
+ *  - snapshot: `{ connected, klippyState, printState, status }` with the full status, sent first
+ *  - status: changed fields only; sections such as `print` are merged field by field, arrays replaced
+ *  - temperature: `{ timestamp, extruder, bed, heaters, sensors }` about once a second
+ *  - state: `{ connected, klippyState, printState }` when the connection, Klipper or print state changes
+ *
+ * Every event has an id. A client reconnecting with `Last-Event-ID` (or the
+ * `lastEventId` query parameter) gets the events it missed from a short buffer,
+ * or a new snapshot when they are no longer available.
+ *
+ * In private mode, anonymous visitors get redacted filenames and layer numbers.
+ * In offline mode they get a single offline snapshot.
+ */
+export async function GET(request: NextRequest) {
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+  }
+
+  const [user, settings] = await Promise.all([
+    getRequestUser(request),
+    getDashboardSettings().catch(() => null)
+  ])
+  const visibilityMode = settings?.visibility_mode || 'public'
+  const redact = !user && visibilityMode === 'private'
+
+  const encoder = new TextEncoder()
+  const headers = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Disable response buffering in nginx
+    'X-Accel-Buffering': 'no'
+  }
+
+  if (!user && visibilityMode === 'offline') {
+    const offline: PrinterEventSnapshot = { connected: false, klippyState: 'disconnected', printState: 'offline', status: null }
+    return new Response(
+      encoder.encode(`retry: ${OFFLINE_RETRY_MS}\nevent: snapshot\ndata: ${JSON.stringify(offline)}\n\n`),
+      { headers }
+    )
+  }
+
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId')
+  const hub = getPrinterEventHub(printer)
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const send = (id: string, event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+      }
+
+      const onEvent = ({ id, event, data }: BufferedPrinterEvent) => {
+        send(id, event, redact && event === 'status' ? redactPrinterStatus(data) : data)
+      }
+      const onClosed = () => {
+        // The printer was edited or removed; the client reconnects to the new hub
+        cleanup()
+        controller.close()
+      }
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        hub.off('event', onEvent)
+        hub.off('closed', onClosed)
+        hub.release()
+      }
+
+      hub.acquire()
+
+      const missed = lastEventId ? hub.getEventsSince(lastEventId) : null
+      if (missed) {
+        missed.forEach(onEvent)
+      } else {
+        const { id, snapshot } = hub.getSnapshot()
+        send(id, 'snapshot', redact && snapshot.status ? { ...snapshot, status: redactPrinterStatus(snapshot.status) } : snapshot)
+      }
+
+      hub.on('event', onEvent)
+      hub.on('closed', onClosed)
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, { headers })
+}
@@ -1,26 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
+import { encodePath, normalizeFilePath } from '@/lib/printer-files'
+import { getAttachmentDisposition } from '@/lib/utils/api'
 
 /**
  * API route to download GCode files from Moonraker
  * GET /api/printer/file-download?filename=myfile.gcode
+ * Anonymous visitors can only download while the dashboard is public.
  */
 export async function GET(request: NextRequest) {
-  if (!KLIPPER_BASE_URL) {
-    return NextResponse.json({ error: 'Printer host not configured' }, { status: 500 })
+  const user = await getRequestUser(request)
+  const settings = await getDashboardSettings().catch(() => null)
+  if (!user && settings?.visibility_mode && settings.visibility_mode !== 'public') {
+    return NextResponse.json({ error: 'Files are not available' }, { status: 403 })
+  }
+
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
   }
 
   const searchParams = request.nextUrl.searchParams
-  const filename = searchParams.get('filename')
+  const filename = normalizeFilePath(searchParams.get('filename'))
 
+  if (filename === null) {
+    return NextResponse.json(
+      { error: 'Invalid filename', message: 'Filename must stay inside the gcodes directory' },
+      { status: 400 }
+    )
+  }
   if (!filename) {
     return NextResponse.json({ error: 'Filename parameter is required' }, { status: 400 })
   }
@@ -28,38 +39,36 @@ export async function GET(request: NextRequest) {
   try {
     // Construct the file download URL - files are in the gcodes root
     // Format: GET /server/files/{root}/{filename}
-    const fileUrl = `${KLIPPER_BASE_URL}/server/files/gcodes/${encodeURIComponent(filename)}`
-    
-    const response = await fetch(fileUrl, { 
-      method: 'GET',
-      cache: 'no-store'
-    })
+    // No timeout: large files can take longer than a normal request to stream
+    const response = await getMoonrakerClient(printer).fetch(`/server/files/gcodes/${encodePath(filename)}`, { timeoutMs: 0 })
 
-    if (!response.ok) {
+    if (!response.body) {
       throw new Error(`HTTP error! status: ${response.status}`)
     }
 
-    // Get the file content
-    const fileBuffer = await response.arrayBuffer()
-    
     // Extract just the filename without path for Content-Disposition
     const downloadFilename = filename.split('/').pop() || filename
-    
-    // Return the file with appropriate headers for download
-    return new NextResponse(fileBuffer, {
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': getAttachmentDisposition(downloadFilename),
+    }
+    const contentLength = response.headers.get('content-length')
+    if (contentLength) {
+      headers['Content-Length'] = contentLength
+    }
+
+    // Stream the file through instead of buffering large gcode files in memory
+    return new NextResponse(response.body, {
       status: 200,
-      headers: {
-        'Content-Type': 'application/octet-stream',
-        'Content-Disposition': `attachment; filename="${downloadFilename}"`,
-        'Content-Length': fileBuffer.byteLength.toString(),
-      }
+      headers
     })
 
   } catch (error) {
     console.error('Error downloading file:', error)
     return NextResponse.json(
       { error: 'Failed to download file', details: String(error) },
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     )
   }
 }
@@ -1,18 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import type { GcodeMetadata, ThumbnailInfo } from '@/lib/types'
-
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
 
 export async function GET(request: NextRequest) {
-  if (!KLIPPER_BASE_URL) {
-    return NextResponse.json({ error: 'Printer host not configured' }, { status: 500 })
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
   }
 
   const searchParams = request.nextUrl.searchParams
@@ -24,20 +18,8 @@ export async function GET(request: NextRequest) {
 
   try {
     // Fetch file metadata from Moonraker
-    const url = `${KLIPPER_BASE_URL}/server/files/metadata?filename=${encodeURIComponent(filename)}`
-    
-    const response = await fetch(url, { 
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-      cache: 'no-store'
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const result = data.result || {}
+    const data = await getMoonrakerClient(printer).getFileMetadata(filename)
+    const result: Partial<GcodeMetadata> = data.result || {}
     
     // Return the full metadata result with all available fields
     const metadata: GcodeMetadata = {
@@ -72,7 +54,7 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching file metadata:', error)
     return NextResponse.json(
       { error: 'Failed to fetch file metadata', details: String(error) },
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     )
   }
 }
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { normalizeFilePath, getThumbnailPath, type PrinterFileEntry, type PrinterDirectoryEntry, type PrinterFileListing } from '@/lib/printer-files'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError, type MoonrakerHttpClient } from '@/lib/moonraker-client'
+
+// Number of metadata requests sent to Moonraker at once
+const METADATA_BATCH_SIZE = 8
+
+interface MoonrakerFileInfo {
+  path: string
+  modified: number
+  size: number
+}
+
+// Fetch estimated time and the largest thumbnail for a single file
+async function fetchFileDetails(
+  client: MoonrakerHttpClient,
+  path: string
+): Promise<Pick<PrinterFileEntry, 'estimated_time' | 'thumbnail_path'>> {
+  try {
+    const data = await client.getFileMetadata(path)
+
+    return {
+      estimated_time: data.result?.estimated_time,
+      thumbnail_path: getThumbnailPath(path, data.result?.thumbnails)
+    }
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * GET /api/printer/files?path=subdir (any signed-in user)
+ * Lists the directories and gcode files directly inside `path`
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const path = normalizeFilePath(request.nextUrl.searchParams.get('path'))
+    if (path === null) {
+      return NextResponse.json(
+        { error: 'Invalid path', message: 'Path must stay inside the gcodes directory' },
+        { status: 400 }
+      )
+    }
+
+    const client = getMoonrakerClient(printer)
+    const data = await client.request<{ result: MoonrakerFileInfo[] }>('/server/files/list?root=gcodes')
+    const allFiles = (data.result || []) as MoonrakerFileInfo[]
+    const prefix = path ? `${path}/` : ''
+
+    const directories = new Map<string, PrinterDirectoryEntry>()
+    const files: PrinterFileEntry[] = []
+
+    for (const file of allFiles) {
+      if (!file.path.startsWith(prefix)) continue
+
+      const remainder = file.path.slice(prefix.length)
+      const [name, ...rest] = remainder.split('/')
+      if (!name || name.startsWith('.')) continue
+
+      if (rest.length > 0) {
+        // Moonraker lists files recursively, so directories are derived from nested paths
+        if (!directories.has(name)) {
+          directories.set(name, { path: `${prefix}${name}`, dirname: name })
+        }
+      } else {
+        files.push({ path: file.path, filename: name, size: file.size, modified: file.modified })
+      }
+    }
+
+    for (let i = 0; i < files.length; i += METADATA_BATCH_SIZE) {
+      const batch = files.slice(i, i + METADATA_BATCH_SIZE)
+      const details = await Promise.all(batch.map(file => fetchFileDetails(client, file.path)))
+      batch.forEach((file, index) => Object.assign(file, details[index]))
+    }
+
+    const listing: PrinterFileListing = {
+      path,
+      directories: [...directories.values()].sort((a, b) => a.dirname.localeCompare(b.dirname)),
+      files
+    }
+
+    return NextResponse.json(listing)
+
+  } catch (error) {
+    console.error('Error listing files:', error)
+    return NextResponse.json(
+      { error: 'Failed to list files', details: String(error) },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
+
+/**
+ * DELETE /api/printer/files?path=subdir/file.gcode (operator only)
+ */
+export const DELETE = withAuth('operator', async (request: NextRequest, _context, user) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const path = normalizeFilePath(request.nextUrl.searchParams.get('path'))
+    if (!path) {
+      return NextResponse.json(
+        { error: 'Invalid path', message: 'A file path inside the gcodes directory is required' },
+        { status: 400 }
+      )
+    }
+
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/')
+    await getMoonrakerClient(printer).fetch(`/server/files/gcodes/${encodedPath}`, { method: 'DELETE' })
+
+    console.log(`[Files] ${user.username} deleted ${path} (${getClientIp(request) || 'unknown ip'})`)
+
+    return NextResponse.json({ success: true, message: `Deleted ${path}` })
+
+  } catch (error) {
+    if (error instanceof MoonrakerError && !error.isUnreachable) {
+      return NextResponse.json(
+        { error: 'Failed to delete file', message: error.message },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
+    console.error('Error deleting file:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete file', details: String(error) },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
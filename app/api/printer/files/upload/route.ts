@@ -0,0 +1,132 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { normalizeFilePath } from '@/lib/printer-files'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
+
+const ALLOWED_EXTENSIONS = ['.gcode', '.g', '.gco']
+
+/**
+ * Wrap the raw upload body in a multipart/form-data stream for Moonraker's
+ * `server/files/upload`, without holding the file in memory.
+ */
+function createMultipartStream(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  filename: string,
+  path: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const fields = [['root', 'gcodes'], ...(path ? [['path', path]] : [])]
+  const preamble = fields
+    .map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`)
+    .join('') +
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+    'Content-Type: application/octet-stream\r\n\r\n'
+  const closing = `\r\n--${boundary}--\r\n`
+  const reader = body.getReader()
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(preamble))
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (done) {
+        controller.enqueue(encoder.encode(closing))
+        controller.close()
+        return
+      }
+      controller.enqueue(value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    }
+  })
+}
+
+/**
+ * POST /api/printer/files/upload?filename=part.gcode&path=subdir (operator only)
+ * The request body is the raw file content, streamed through to Moonraker
+ */
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const filename = searchParams.get('filename') || ''
+    const path = normalizeFilePath(searchParams.get('path'))
+
+    if (path === null) {
+      return NextResponse.json(
+        { error: 'Invalid path', message: 'Path must stay inside the gcodes directory' },
+        { status: 400 }
+      )
+    }
+
+    // The path and filename are written into the multipart body sent to Moonraker
+    if (/[\\"\x00-\x1f\x7f]/.test(path)) {
+      return NextResponse.json(
+        { error: 'Invalid path', message: 'Path must not contain quotes, backslashes or control characters' },
+        { status: 400 }
+      )
+    }
+
+    if (!filename || /[\/\\"\x00-\x1f\x7f]/.test(filename) || filename.startsWith('.')) {
+      return NextResponse.json(
+        { error: 'Invalid filename', message: 'Filename must be a plain file name' },
+        { status: 400 }
+      )
+    }
+
+    if (!ALLOWED_EXTENSIONS.some(extension => filename.toLowerCase().endsWith(extension))) {
+      return NextResponse.json(
+        { error: 'Invalid file type', message: `Only ${ALLOWED_EXTENSIONS.join(', ')} files can be uploaded` },
+        { status: 400 }
+      )
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Missing file', message: 'Request body must contain the file' },
+        { status: 400 }
+      )
+    }
+
+    const boundary = `----s1pper${crypto.randomBytes(12).toString('hex')}`
+    // No timeout: the upload lasts as long as the browser takes to send the file
+    await getMoonrakerClient(printer).fetch('/server/files/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body: createMultipartStream(request.body, boundary, filename, path),
+      timeoutMs: 0
+    })
+
+    const uploadedPath = path ? `${path}/${filename}` : filename
+    console.log(`[Files] ${user.username} uploaded ${uploadedPath} (${getClientIp(request) || 'unknown ip'})`)
+
+    return NextResponse.json({
+      success: true,
+      message: `Uploaded ${filename}`,
+      path: uploadedPath
+    })
+
+  } catch (error) {
+    if (error instanceof MoonrakerError && !error.isUnreachable) {
+      return NextResponse.json(
+        { error: 'Upload failed', message: error.message },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
+    console.error('Error uploading file:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload file', details: String(error) },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
+import { extractHeaterLimits } from '@/lib/temperature-control'
+
+// printer.cfg only changes with a Klipper restart
+const CONFIG_CACHE_TTL_MS = 60000
+
+/**
+ * GET /api/printer/heater-limits (operator only)
+ * Min/max temperature of every heater from Klipper's configfile settings,
+ * keyed by object name. The same limits are enforced on G-code sent through /api/printer/rpc.
+ */
+export const GET = withAuth('operator', async (request: NextRequest) => {
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+  }
+
+  try {
+    const settings = await getMoonrakerClient(printer).getConfigSettings({ cacheTtlMs: CONFIG_CACHE_TTL_MS })
+    return NextResponse.json({ limits: extractHeaterLimits(settings) })
+  } catch (error) {
+    console.error('Heater limits error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to read heater limits',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
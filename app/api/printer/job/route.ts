@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { recordControlAction } from '@/lib/printer-control'
+import { isPrintJobAction, mapPrintState, validatePrintJobAction } from '@/lib/print-job'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
+
+const SUCCESS_MESSAGES = {
+  pause: 'Print paused',
+  resume: 'Print resumed',
+  cancel: 'Print cancelled',
+  start: 'Print started'
+}
+
+/**
+ * POST /api/printer/job (operator only)
+ * Controls the current print job
+ * 
+ * Body:
+ *  - action: 'pause' | 'resume' | 'cancel' | 'start'
+ *  - filename: gcode file to print (required for start)
+ * 
+ * Returns 409 when the action does not fit the current print state,
+ * e.g. resume while not paused.
+ */
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  const ipAddress = getClientIp(request)
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json(
+      { 
+        error: 'Printer not found',
+        message: 'No printer matches the requested printerId'
+      },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { action, filename } = body
+
+    if (!isPrintJobAction(action)) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid action',
+          message: 'Action must be pause, resume, cancel, or start'
+        },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'start' && (typeof filename !== 'string' || !filename)) {
+      return NextResponse.json(
+        { 
+          error: 'Missing filename',
+          message: 'A filename is required to start a print'
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate against the live print state
+    const client = getMoonrakerClient(printer)
+    let stateData
+    try {
+      stateData = await client.queryObjects(['print_stats', 'webhooks'])
+    } catch (error) {
+      return NextResponse.json(
+        { 
+          error: 'Printer unavailable',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        },
+        { status: 503 }
+      )
+    }
+
+    const printState = mapPrintState(
+      stateData.result?.status?.print_stats?.state,
+      stateData.result?.status?.webhooks?.state
+    )
+
+    const validationError = validatePrintJobAction(printState, action)
+    if (validationError) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid state',
+          message: validationError,
+          state: printState
+        },
+        { status: 409 }
+      )
+    }
+
+    const endpoint = action === 'start'
+      ? `/printer/print/start?filename=${encodeURIComponent(filename)}`
+      : `/printer/print/${action}`
+
+    let data
+    try {
+      data = await client.request(endpoint, { method: 'POST' })
+    } catch (error) {
+      if (!(error instanceof MoonrakerError) || error.isUnreachable) throw error
+      await recordControlAction({ user, printerId: printer.id, action: `print_${action}`, success: false, message: error.message, ipAddress })
+      return NextResponse.json(
+        { 
+          error: `Print ${action} failed`,
+          message: error.message
+        },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
+    const message = action === 'start' ? `${SUCCESS_MESSAGES.start}: ${filename}` : SUCCESS_MESSAGES[action]
+    await recordControlAction({ user, printerId: printer.id, action: `print_${action}`, success: true, message, ipAddress })
+
+    return NextResponse.json({
+      success: true,
+      message,
+      action,
+      data
+    })
+
+  } catch (error) {
+    console.error('Print job control error:', error)
+    return NextResponse.json(
+      { 
+        error: 'Request failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to control the print job.' },
+    { status: 405 }
+  )
+}
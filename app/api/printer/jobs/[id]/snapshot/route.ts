@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { getPrintJobSnapshot } from '@/lib/print-jobs'
+import { resolvePrinter } from '@/lib/printers'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/printer/jobs/[id]/snapshot - Camera frame captured when the job ended
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const jobId = parseInt(id, 10)
+
+    if (isNaN(jobId)) {
+      return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 })
+    }
+
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+    if (!user && settings?.visibility_mode && settings.visibility_mode !== 'public') {
+      return NextResponse.json({ error: 'Snapshot not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const snapshot = await getPrintJobSnapshot(jobId, printer.id)
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(snapshot.buffer), {
+      headers: {
+        'Content-Type': snapshot.contentType,
+        'Cache-Control': 'private, max-age=86400', // Final snapshots never change
+      }
+    })
+
+  } catch (error) {
+    console.error('GET /api/printer/jobs/[id]/snapshot error:', error)
+    return NextResponse.json({ error: 'Failed to fetch snapshot' }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isDatabaseAvailable, getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { getPrintJobs, isPrintJobStatus, type PrintJob, type PrintJobFilters } from '@/lib/print-jobs'
+import { resolvePrinter } from '@/lib/printers'
+
+// Parse an ISO date query parameter, undefined when missing or invalid
+function parseDateParam(value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// Hide what was printed from anonymous visitors in private mode
+function redactJob(job: PrintJob): PrintJob {
+  return { ...job, filename: '█'.repeat(Math.max(job.filename.length, 8)), thumbnail_path: null, has_snapshot: false }
+}
+
+/**
+ * GET /api/printer/jobs - Print job history with pagination
+ *
+ * Query parameters:
+ *  - printerId: defaults to the first printer
+ *  - page, limit (max 100)
+ *  - status: printing | complete | cancelled | error | interrupted
+ *  - filename: case-insensitive substring match
+ *  - from, to: ISO dates matched against the job start time
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Print history is not available', message: 'A database is required to record print jobs' },
+        { status: 503 }
+      )
+    }
+
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+    const visibilityMode = settings?.visibility_mode || 'public'
+
+    if (!user && visibilityMode === 'offline') {
+      return NextResponse.json({ error: 'Print history is not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100)
+    const status = searchParams.get('status')
+
+    if (status && !isPrintJobStatus(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', message: 'Status must be printing, complete, cancelled, error, or interrupted' },
+        { status: 400 }
+      )
+    }
+
+    const filters: PrintJobFilters = {
+      printerId: printer.id,
+      status: isPrintJobStatus(status) ? status : undefined,
+      filename: searchParams.get('filename') || undefined,
+      from: parseDateParam(searchParams.get('from')),
+      to: parseDateParam(searchParams.get('to'))
+    }
+
+    // Filtering by filename would reveal redacted names
+    if (!user && visibilityMode === 'private') {
+      filters.filename = undefined
+    }
+
+    const { jobs, total } = await getPrintJobs(filters, page, limit)
+
+    return NextResponse.json({
+      jobs: !user && visibilityMode === 'private' ? jobs.map(redactJob) : jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    })
+
+  } catch (error) {
+    console.error('GET /api/printer/jobs error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch print jobs', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
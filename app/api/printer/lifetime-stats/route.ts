@@ -1,34 +1,14 @@
-import { NextResponse } from 'next/server'
-import type { LifetimeStats, MoonrakerTotalsResponse, ApiError } from '@/lib/types'
+import { NextRequest, NextResponse } from 'next/server'
+import type { LifetimeStats, ApiError } from '@/lib/types'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, type MoonrakerHttpClient } from '@/lib/moonraker-client'
 
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
 const CACHE_DURATION = 30000
-let lastFetch = 0
-let cachedData: LifetimeStats | null = null
 
-async function fetchLifetimeStats(): Promise<LifetimeStats> {
+async function fetchLifetimeStats(client: MoonrakerHttpClient): Promise<LifetimeStats> {
   try {
     // Fetch lifetime stats from Moonraker's history totals endpoint
-    const url = `${KLIPPER_BASE_URL}/server/history/totals`
-    
-    const response = await fetch(url, { 
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-      cache: 'no-store'
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data: MoonrakerTotalsResponse = await response.json()
+    const data = await client.getHistoryTotals({ cacheTtlMs: CACHE_DURATION })
     const totals = data.result.job_totals
 
     const lifetimeStats: LifetimeStats = {
@@ -59,10 +39,10 @@ async function fetchLifetimeStats(): Promise<LifetimeStats> {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Check if PRINTER_HOST is configured
-    if (!KLIPPER_HOST) {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
       const emptyStats: LifetimeStats = {
         totalJobs: 0,
         totalTime: 0,
@@ -74,19 +54,7 @@ export async function GET() {
       return NextResponse.json(emptyStats)
     }
 
-    const now = Date.now()
-    
-    // Use cached data if it's still fresh
-    if (cachedData && (now - lastFetch) < CACHE_DURATION) {
-      return NextResponse.json(cachedData)
-    }
-    
-    // Fetch fresh data
-    const lifetimeStats = await fetchLifetimeStats()
-    
-    // Update cache
-    cachedData = lifetimeStats
-    lastFetch = now
+    const lifetimeStats = await fetchLifetimeStats(getMoonrakerClient(printer))
     
     return NextResponse.json(lifetimeStats)
     
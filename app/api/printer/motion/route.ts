@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { recordControlAction } from '@/lib/printer-control'
+import { mapPrintState } from '@/lib/print-job'
+import {
+  isMotionRequest,
+  validateMotionRequest,
+  buildMotionScript,
+  describeMotionRequest,
+  type ToolheadGeometry
+} from '@/lib/motion-control'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
+
+// Homing a large printer can take a while
+const MOTION_TIMEOUT_MS = 120000
+
+/**
+ * POST /api/printer/motion (operator only)
+ * Homes, jogs, extrudes, disables motors or parks the toolhead
+ * 
+ * Body (one of):
+ *  - { action: 'home', axes?: ('x' | 'y' | 'z')[] }
+ *  - { action: 'jog', axis: 'x' | 'y' | 'z', distance: number }
+ *  - { action: 'extrude', distance: number } (negative retracts)
+ *  - { action: 'disable_motors' }
+ *  - { action: 'park' }
+ * 
+ * Returns 409 while printing, or when a jog or park needs an axis that is not homed.
+ */
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  const ipAddress = getClientIp(request)
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json(
+      { 
+        error: 'Printer not found',
+        message: 'No printer matches the requested printerId'
+      },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+
+    if (!isMotionRequest(body)) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid motion request',
+          message: 'Action must be home, jog, extrude, disable_motors, or park, with distances up to 100 mm'
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate against the live print state and homed axes
+    const client = getMoonrakerClient(printer)
+    let stateData
+    try {
+      stateData = await client.queryObjects(['print_stats', 'webhooks', 'toolhead'])
+    } catch (error) {
+      return NextResponse.json(
+        { 
+          error: 'Printer unavailable',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        },
+        { status: 503 }
+      )
+    }
+
+    const status = stateData.result?.status
+    const printState = mapPrintState(status?.print_stats?.state, status?.webhooks?.state)
+    const toolhead = status?.toolhead
+
+    const validationError = validateMotionRequest(body, {
+      printState,
+      homedAxes: toolhead?.homed_axes || ''
+    })
+    if (validationError) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid state',
+          message: validationError,
+          state: printState
+        },
+        { status: 409 }
+      )
+    }
+
+    const geometry: ToolheadGeometry | null = toolhead?.position && toolhead.axis_minimum && toolhead.axis_maximum
+      ? { position: toolhead.position, minimum: toolhead.axis_minimum, maximum: toolhead.axis_maximum }
+      : null
+    const script = buildMotionScript(body, geometry)
+    const message = describeMotionRequest(body)
+
+    let data
+    try {
+      data = await client.request(`/printer/gcode/script?script=${encodeURIComponent(script)}`, {
+        method: 'POST',
+        timeoutMs: MOTION_TIMEOUT_MS
+      })
+    } catch (error) {
+      if (!(error instanceof MoonrakerError) || error.isUnreachable) throw error
+      await recordControlAction({ user, printerId: printer.id, action: 'motion', success: false, message: `${message}: ${error.message}`, ipAddress })
+      return NextResponse.json(
+        { 
+          error: 'Move failed',
+          message: error.message
+        },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
+    await recordControlAction({ user, printerId: printer.id, action: 'motion', success: true, message, ipAddress })
+
+    return NextResponse.json({
+      success: true,
+      message,
+      action: body.action,
+      data
+    })
+
+  } catch (error) {
+    console.error('Motion control error:', error)
+    return NextResponse.json(
+      { 
+        error: 'Request failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to move the printer.' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
+import { getPrintEstimateBasis } from '@/lib/print-jobs'
+
+/**
+ * GET /api/printer/print-estimate - Inputs for the ETA engine beyond live progress
+ *
+ * Returns the slicer estimate and G-code byte range of the file being printed
+ * plus the correction learned from past jobs, so live views compute the same
+ * ETA as the status route. `basis` is null when nothing is printing.
+ *
+ * Query parameters:
+ *  - printerId: defaults to the first printer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+
+    if (!user && settings?.visibility_mode === 'offline') {
+      return NextResponse.json({ error: 'Print estimate is not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const data = await getMoonrakerClient(printer).queryObjects(['print_stats'])
+    const filename = data.result?.status?.print_stats?.filename
+
+    return NextResponse.json({
+      basis: filename ? await getPrintEstimateBasis(printer, filename) : null
+    })
+  } catch (error) {
+    console.error('Print estimate error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load print estimate',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { withAuth, getClientIp, getRequestUser } from '@/lib/auth'
+import { recordControlAction } from '@/lib/printer-control'
+import { isPrintQueueRequest, validateQueueOrder, describePrintQueueRequest, type PrintQueueStatus } from '@/lib/print-queue'
+import { getPrintQueueBackend, getPrintQueueStatus, applyPrintQueueRequest } from '@/lib/print-queue-backend'
+import { createRedactedFilename } from '@/lib/privacy'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
+
+const QUEUE_UNAVAILABLE = {
+  error: 'Print queue is not available',
+  message: "Load Moonraker's [job_queue] component or configure a database"
+}
+
+// Hide what is queued from anonymous visitors in private mode
+function redactQueue(queue: PrintQueueStatus): PrintQueueStatus {
+  return {
+    ...queue,
+    jobs: queue.jobs.map(job => ({ ...job, filename: createRedactedFilename(job.filename) || '' }))
+  }
+}
+
+/**
+ * GET /api/printer/queue - Queued print jobs and queue state
+ *
+ * Query parameters:
+ *  - printerId: defaults to the first printer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+    const visibilityMode = settings?.visibility_mode || 'public'
+
+    if (!user && visibilityMode === 'offline') {
+      return NextResponse.json({ error: 'Print queue is not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const backend = await getPrintQueueBackend(printer)
+    if (!backend) {
+      return NextResponse.json(QUEUE_UNAVAILABLE, { status: 503 })
+    }
+
+    const queue = await getPrintQueueStatus(printer, backend)
+    return NextResponse.json({
+      queue: !user && visibilityMode === 'private' ? redactQueue(queue) : queue
+    })
+  } catch (error) {
+    console.error('Print queue error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load the print queue',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+}
+
+/**
+ * POST /api/printer/queue (operator only)
+ * Changes the print queue
+ *
+ * Body (one of):
+ *  - { action: 'enqueue', filenames: string[] }
+ *  - { action: 'remove', jobIds: string[] }
+ *  - { action: 'reorder', jobIds: string[] } (every queued job, in the new order)
+ *  - { action: 'pause' }
+ *  - { action: 'start' } (resumes the queue and confirms the bed is clear)
+ *  - { action: 'configure', requireBedClear: boolean }
+ *
+ * Returns the updated queue. Returns 409 when a reorder does not match the current queue.
+ */
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  const ipAddress = getClientIp(request)
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json(
+      {
+        error: 'Printer not found',
+        message: 'No printer matches the requested printerId'
+      },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+
+    if (!isPrintQueueRequest(body)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid queue request',
+          message: 'Action must be enqueue, remove, reorder, pause, start, or configure'
+        },
+        { status: 400 }
+      )
+    }
+
+    const backend = await getPrintQueueBackend(printer)
+    if (!backend) {
+      return NextResponse.json(QUEUE_UNAVAILABLE, { status: 503 })
+    }
+
+    if (body.action === 'reorder') {
+      const { jobs } = await backend.list()
+      const orderError = validateQueueOrder(jobs, body.jobIds)
+      if (orderError) {
+        return NextResponse.json(
+          {
+            error: 'Queue changed',
+            message: orderError
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    const message = describePrintQueueRequest(body)
+
+    try {
+      await applyPrintQueueRequest(printer, backend, body)
+    } catch (error) {
+      if (!(error instanceof MoonrakerError) || error.isUnreachable) throw error
+      await recordControlAction({ user, printerId: printer.id, action: 'print_queue', success: false, message: `${message}: ${error.message}`, ipAddress })
+      return NextResponse.json(
+        {
+          error: 'Print queue request failed',
+          message: error.message
+        },
+        { status: getMoonrakerErrorStatus(error) }
+      )
+    }
+
+    await recordControlAction({ user, printerId: printer.id, action: 'print_queue', success: true, message, ipAddress })
+
+    return NextResponse.json({
+      success: true,
+      message,
+      action: body.action,
+      queue: await getPrintQueueStatus(printer, backend)
+    })
+
+  } catch (error) {
+    console.error('Print queue control error:', error)
+    return NextResponse.json(
+      {
+        error: 'Request failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
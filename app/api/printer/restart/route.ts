@@ -1,68 +1,67 @@
-import { NextResponse } from 'next/server'
-
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, getClientIp } from '@/lib/auth'
+import { recordControlAction } from '@/lib/printer-control'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus, MoonrakerError } from '@/lib/moonraker-client'
 
 /**
- * POST /api/printer/restart
+ * POST /api/printer/restart (operator only)
  * Performs a full printer firmware restart (restarts Klipper)
  */
-export async function POST() {
-  try {
-    if (!KLIPPER_BASE_URL) {
-      return NextResponse.json(
-        { 
-          error: 'Printer not configured',
-          message: 'PRINTER_HOST environment variable is not set'
-        },
-        { status: 500 }
-      )
-    }
+export const POST = withAuth('operator', async (request: NextRequest, _context, user) => {
+  const ipAddress = getClientIp(request)
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json(
+      { 
+        error: 'Printer not found',
+        message: 'No printer matches the requested printerId'
+      },
+      { status: 404 }
+    )
+  }
 
+  try {
     // Call Moonraker API to restart Klipper firmware
-    const response = await fetch(`${KLIPPER_BASE_URL}/printer/firmware_restart`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    const data = await getMoonrakerClient(printer).request('/printer/firmware_restart', { method: 'POST' })
+    await recordControlAction({ user, printerId: printer.id, action: 'firmware_restart', success: true, message: 'Printer firmware restart initiated', ipAddress })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Printer firmware restart initiated',
+      data
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
+  } catch (error) {
+    if (error instanceof MoonrakerError && !error.isUnreachable) {
+      await recordControlAction({ user, printerId: printer.id, action: 'firmware_restart', success: false, message: error.message, ipAddress })
       return NextResponse.json(
         { 
           error: 'Firmware restart failed',
-          message: errorText || `Moonraker returned ${response.status}`
+          message: error.message
         },
-        { status: response.status }
+        { status: getMoonrakerErrorStatus(error) }
       )
     }
 
-    const data = await response.json()
-
-    return NextResponse.json({
-      success: true,
-      message: 'Printer firmware restart initiated',
-      data
-    })
-
-  } catch (error) {
     console.error('Printer restart error:', error)
+    await recordControlAction({
+      user,
+      printerId: printer.id,
+      action: 'firmware_restart',
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      ipAddress
+    })
     return NextResponse.json(
       { 
         error: 'Failed to restart printer',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     )
   }
-}
+})
 
 // Only allow POST requests
 export async function GET() {
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getClientIp } from '@/lib/auth'
+import { hasRole } from '@/lib/permissions'
+import { getDashboardSettings } from '@/lib/database'
+import { recordControlAction, findRestrictedGcodeCommand, getGcodeCommands, type PrinterControlAction } from '@/lib/printer-control'
+import { isMotionGcodeCommand, validateMotionPrintState } from '@/lib/motion-control'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerRelay } from '@/lib/moonraker-relay'
+import { redactPrinterObjects } from '@/lib/privacy'
+import { getMoonrakerClient } from '@/lib/moonraker-client'
+import { mapPrintState, validatePrintJobAction, type PrintJobAction } from '@/lib/print-job'
+import { parseTemperatureTargets, validateTemperatureTargets, extractHeaterLimits } from '@/lib/temperature-control'
+
+// Methods anyone who can see the dashboard may call
+const READ_METHODS = [
+  'printer.info',
+  'server.info',
+  'printer.objects.list',
+  'printer.objects.query',
+  'server.temperature_store',
+  'server.history.totals',
+  'printer.gcode.help',
+  'server.gcode_store'
+]
+
+// Read methods whose output can name files, hidden from anonymous visitors in private mode
+const PRIVATE_READ_METHODS = ['server.gcode_store']
+
+// printer.cfg only changes with a Klipper restart
+const CONFIG_CACHE_TTL_MS = 60000
+
+// Methods that change the printer, with the audit log action they are recorded as.
+// Restarts and emergency stop keep their dedicated routes and confirmation tokens.
+const WRITE_METHODS = new Map<string, PrinterControlAction>([
+  ['printer.gcode.script', 'gcode_script'],
+  ['printer.print.pause', 'print_pause'],
+  ['printer.print.resume', 'print_resume'],
+  ['printer.print.cancel', 'print_cancel'],
+  ['printer.print.start', 'print_start']
+])
+
+// Print job methods, checked against the live print state like /api/printer/job
+const PRINT_JOB_METHODS = new Map<string, PrintJobAction>([
+  ['printer.print.pause', 'pause'],
+  ['printer.print.resume', 'resume'],
+  ['printer.print.cancel', 'cancel'],
+  ['printer.print.start', 'start']
+])
+
+/**
+ * POST /api/printer/rpc
+ * Forwards a Moonraker JSON-RPC call through the printer's relay connection.
+ * Body: { method: string, params?: object }
+ *
+ * Read methods are open to every visitor the dashboard is visible to.
+ * Write methods require the operator role and are recorded in the audit log.
+ * G-code that sets heater targets is checked against the heaters' configured
+ * min/max temperatures first. Emergency stop and restart commands (M112,
+ * FIRMWARE_RESTART, RESTART) are refused; they have their own routes. Motion
+ * G-code (moves, homing, motors off) is refused while printing, like
+ * /api/printer/motion. Print job methods return 409 when they do not
+ * fit the current print state, e.g. pause while idle.
+ */
+export async function POST(request: NextRequest) {
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+  }
+
+  let body: { method?: unknown; params?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const { method, params } = body
+  if (typeof method !== 'string' || (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params)))) {
+    return NextResponse.json(
+      { error: 'Invalid request', message: '`method` must be a string and `params` an object' },
+      { status: 400 }
+    )
+  }
+
+  const writeAction = WRITE_METHODS.get(method)
+  if (!writeAction && !READ_METHODS.includes(method)) {
+    return NextResponse.json(
+      { error: 'Method not allowed', message: `${method} cannot be called through the dashboard` },
+      { status: 403 }
+    )
+  }
+
+  const user = await getRequestUser(request)
+  let visibilityMode = 'public'
+
+  if (writeAction) {
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Sign in to perform this action' },
+        { status: 401 }
+      )
+    }
+    if (!hasRole(user, 'operator')) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'This action requires the operator role' },
+        { status: 403 }
+      )
+    }
+  } else if (!user) {
+    const settings = await getDashboardSettings().catch(() => null)
+    visibilityMode = settings?.visibility_mode || 'public'
+    if (visibilityMode === 'offline') {
+      return NextResponse.json({ error: 'Dashboard set to offline mode' }, { status: 503 })
+    }
+    if (visibilityMode === 'private' && PRIVATE_READ_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Sign in to view the console' },
+        { status: 403 }
+      )
+    }
+  }
+
+  const relay = getMoonrakerRelay(printer)
+  if (!relay.getSnapshot().connected) {
+    return NextResponse.json(
+      { error: 'Printer not connected', message: `${printer.name} has no live connection; open /api/printer/stream first` },
+      { status: 503 }
+    )
+  }
+
+  const ipAddress = getClientIp(request)
+  // Record the script itself for G-code, so the audit log shows what was sent
+  const detail = method === 'printer.gcode.script' ? String((params as { script?: unknown })?.script ?? '') : null
+
+  const restricted = detail ? findRestrictedGcodeCommand(detail) : null
+  if (restricted) {
+    const message = `${restricted} cannot be sent as G-code; use the emergency stop or restart controls`
+    await recordControlAction({ user: user!, printerId: printer.id, action: writeAction!, success: false, message: `${detail}: ${message}`, ipAddress })
+    return NextResponse.json({ error: 'Command not allowed', message }, { status: 403 })
+  }
+
+  if (detail && getGcodeCommands(detail).some(isMotionGcodeCommand)) {
+    let motionError: string | null
+    try {
+      const stateData = await getMoonrakerClient(printer).queryObjects(['print_stats', 'webhooks'])
+      motionError = validateMotionPrintState(mapPrintState(
+        stateData.result?.status?.print_stats?.state,
+        stateData.result?.status?.webhooks?.state
+      ))
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Printer unavailable', message: error instanceof Error ? error.message : 'Unknown error occurred' },
+        { status: 503 }
+      )
+    }
+
+    if (motionError) {
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction!, success: false, message: `${detail}: ${motionError}`, ipAddress })
+      return NextResponse.json({ error: 'Invalid state', message: motionError }, { status: 409 })
+    }
+  }
+
+  if (detail && parseTemperatureTargets(detail).length > 0) {
+    let limitError: string | null
+    try {
+      const settings = await getMoonrakerClient(printer).getConfigSettings({ cacheTtlMs: CONFIG_CACHE_TTL_MS })
+      limitError = validateTemperatureTargets(detail, extractHeaterLimits(settings))
+    } catch (error) {
+      console.error('Printer RPC error:', error)
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction!, success: false, message: `${detail}: could not read heater limits`, ipAddress })
+      return NextResponse.json(
+        { error: 'Heater limits unavailable', message: 'Could not read the configured heater limits; the command was not sent' },
+        { status: 503 }
+      )
+    }
+
+    if (limitError) {
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction!, success: false, message: `${detail}: ${limitError}`, ipAddress })
+      return NextResponse.json({ error: 'Temperature out of range', message: limitError }, { status: 400 })
+    }
+  }
+
+  const jobAction = PRINT_JOB_METHODS.get(method)
+  if (jobAction) {
+    let printState
+    try {
+      const stateData = await getMoonrakerClient(printer).queryObjects(['print_stats', 'webhooks'])
+      printState = mapPrintState(
+        stateData.result?.status?.print_stats?.state,
+        stateData.result?.status?.webhooks?.state
+      )
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Printer unavailable', message: error instanceof Error ? error.message : 'Unknown error occurred' },
+        { status: 503 }
+      )
+    }
+
+    const validationError = validatePrintJobAction(printState, jobAction)
+    if (validationError) {
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction!, success: false, message: validationError, ipAddress })
+      return NextResponse.json(
+        { error: 'Invalid state', message: validationError, state: printState },
+        { status: 409 }
+      )
+    }
+  }
+
+  try {
+    const result = await relay.request(method, params as Record<string, unknown> | undefined)
+
+    if (writeAction) {
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction, success: true, message: detail, ipAddress })
+    }
+
+    if (!user && visibilityMode === 'private' && method === 'printer.objects.query' && result?.status) {
+      return NextResponse.json({ result: { ...result, status: redactPrinterObjects(result.status) } })
+    }
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (writeAction) {
+      await recordControlAction({ user: user!, printerId: printer.id, action: writeAction, success: false, message: detail ? `${detail}: ${message}` : message, ipAddress })
+    } else {
+      console.error('Printer RPC error:', error)
+    }
+
+    return NextResponse.json({ error: `${method} failed`, message }, { status: 502 })
+  }
+}
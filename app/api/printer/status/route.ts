@@ -1,98 +1,45 @@
-import { NextResponse } from 'next/server'
-import type { PrinterStatus, KlipperResponse, KlipperInfoResponse, ApiError } from '@/lib/types'
+import { NextRequest, NextResponse } from 'next/server'
+import type { PrinterStatus, ApiError } from '@/lib/types'
 import { getDashboardSettings } from '@/lib/database'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, type MoonrakerHttpClient } from '@/lib/moonraker-client'
+import { redactPrinterStatus } from '@/lib/privacy'
+import { selectPrinterObjects, extractPrinterComponents } from '@/lib/printer-objects'
+import { getPrintEstimateBasis } from '@/lib/print-jobs'
+import { estimatePrintTimeLeft } from '@/lib/print-eta'
 
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
 const CACHE_DURATION = 2000
-let lastFetch = 0
-let cachedData: PrinterStatus | null = null
+// The object list only changes with the printer's configuration
+const OBJECT_LIST_CACHE_DURATION = 60000
 
-async function fetchKlipperData(): Promise<PrinterStatus> {
+async function fetchKlipperData(client: MoonrakerHttpClient): Promise<PrinterStatus> {
   try {
+    const { result: { objects: available } } = await client.listObjects({ cacheTtlMs: OBJECT_LIST_CACHE_DURATION })
+
     // Fetch all required printer objects in one request
-    const objectsUrl = `${KLIPPER_BASE_URL}/printer/objects/query?extruder&heater_bed&print_stats&virtual_sdcard&webhooks&toolhead&gcode_move`
-    const infoUrl = `${KLIPPER_BASE_URL}/printer/info`
-    
-    const [objectsResponse, infoResponse] = await Promise.all([
-      fetch(objectsUrl, { 
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-        cache: 'no-store'
-      }),
-      fetch(infoUrl, { 
-        method: 'GET', 
-        headers: { 'Content-Type': 'application/json' },
-        cache: 'no-store'
-      })
+    const [objectsData, infoData] = await Promise.all([
+      client.queryObjects(selectPrinterObjects(available), { cacheTtlMs: CACHE_DURATION }),
+      client.getPrinterInfo({ cacheTtlMs: CACHE_DURATION })
     ])
-
-    if (!objectsResponse.ok || !infoResponse.ok) {
-      throw new Error(`HTTP error! status: ${objectsResponse.status} / ${infoResponse.status}`)
-    }
-
-    const objectsData: KlipperResponse = await objectsResponse.json()
-    const infoData: KlipperInfoResponse = await infoResponse.json()
     
     const status = objectsData.result.status
     const info = infoData.result
 
-    // Calculate estimated time left using file metadata when available
-    let estimatedTimeLeft: number | null = null
+    // Blend slicer estimate, file position and layer progress into one ETA
+    let eta: PrinterStatus['print']['eta'] = null
     let slicerEstimatedTime: number | null = null
-    
-    if (status.print_stats.state === 'printing' && status.virtual_sdcard.progress > 0) {
-      const elapsed = status.print_stats.print_duration
-      const progress = status.virtual_sdcard.progress
-      
-      // Try to get file metadata for more accurate time estimation
-      if (status.virtual_sdcard.file_path) {
-        try {
-          const filename = status.virtual_sdcard.file_path.split('/').pop()
-          if (filename) {
-            const metadataUrl = `${KLIPPER_BASE_URL}/server/files/metadata?filename=${encodeURIComponent(filename)}`
-            const metadataResponse = await fetch(metadataUrl, { 
-              method: 'GET',
-              headers: { 'Content-Type': 'application/json' },
-              cache: 'no-store'
-            })
-            
-            if (metadataResponse.ok) {
-              const metadataData = await metadataResponse.json()
-              const metadata = metadataData.result
-              
-              if (metadata.estimated_time) {
-                slicerEstimatedTime = metadata.estimated_time
-                // Use method 1 from Moonraker docs: metadata.estimated_time - print_duration
-                estimatedTimeLeft = Math.max(0, metadata.estimated_time - elapsed)
-              } else {
-                // Fallback method 3: calculate based on progress when no metadata
-                const totalEstimated = elapsed / progress
-                estimatedTimeLeft = Math.max(0, totalEstimated - elapsed)
-              }
-            } else {
-              // Fallback method 3: calculate based on progress when metadata fetch fails
-              const totalEstimated = elapsed / progress
-              estimatedTimeLeft = Math.max(0, totalEstimated - elapsed)
-            }
-          }
-        } catch (metadataError) {
-          console.warn('Failed to fetch file metadata, using fallback calculation:', metadataError)
-          // Fallback method 3: calculate based on progress
-          const totalEstimated = elapsed / progress
-          estimatedTimeLeft = Math.max(0, totalEstimated - elapsed)
-        }
-      } else {
-        // Fallback method 3: calculate based on progress when no file path
-        const totalEstimated = elapsed / progress
-        estimatedTimeLeft = Math.max(0, totalEstimated - elapsed)
-      }
+
+    const activeState = status.print_stats.state
+    if ((activeState === 'printing' || activeState === 'paused') && status.print_stats.filename) {
+      const basis = await getPrintEstimateBasis(client.printer, status.print_stats.filename)
+      slicerEstimatedTime = basis.slicerEstimate
+      eta = estimatePrintTimeLeft({
+        printDuration: status.print_stats.print_duration,
+        progress: status.virtual_sdcard.progress,
+        filePosition: status.virtual_sdcard.file_position,
+        currentLayer: status.print_stats.info.current_layer,
+        totalLayers: status.print_stats.info.total_layer
+      }, basis)
     }
 
     // Format state for our frontend
@@ -134,20 +81,22 @@ async function fetchKlipperData(): Promise<PrinterStatus> {
         currentLayer: status.print_stats.info.current_layer,
         totalLayers: status.print_stats.info.total_layer,
         printTime: status.print_stats.print_duration,
-        estimatedTimeLeft: estimatedTimeLeft,
+        estimatedTimeLeft: eta?.remaining ?? null,
         slicerEstimatedTime: slicerEstimatedTime,
+        eta,
         filamentUsed: status.print_stats.filament_used
       },
       temperatures: {
         extruder: {
-          actual: Math.round(status.extruder.temperature * 10) / 10,
-          target: status.extruder.target,
-          power: Math.round(status.extruder.power * 100) / 100
+          actual: Math.round((status.extruder?.temperature || 0) * 10) / 10,
+          target: status.extruder?.target || 0,
+          power: Math.round((status.extruder?.power || 0) * 100) / 100
         },
+        // Not every printer has a heated bed
         bed: {
-          actual: Math.round(status.heater_bed.temperature * 10) / 10,
-          target: status.heater_bed.target,
-          power: Math.round(status.heater_bed.power * 100) / 100
+          actual: Math.round((status.heater_bed?.temperature || 0) * 10) / 10,
+          target: status.heater_bed?.target || 0,
+          power: Math.round((status.heater_bed?.power || 0) * 100) / 100
         }
       },
       position: {
@@ -158,7 +107,8 @@ async function fetchKlipperData(): Promise<PrinterStatus> {
       },
       speeds: {
         current: status.gcode_move?.speed || 0,
-        factor: status.gcode_move?.speed_factor || 1
+        factor: status.gcode_move?.speed_factor || 1,
+        flowFactor: status.gcode_move?.extrude_factor || 1
       },
       system: {
         klippyState: info.state,
@@ -169,7 +119,8 @@ async function fetchKlipperData(): Promise<PrinterStatus> {
         name: filename,
         size: status.virtual_sdcard.file_size,
         position: status.virtual_sdcard.file_position
-      }
+      },
+      ...extractPrinterComponents(status)
     }
 
     return printerStatus
@@ -188,6 +139,7 @@ async function fetchKlipperData(): Promise<PrinterStatus> {
         printTime: 0,
         estimatedTimeLeft: null,
         slicerEstimatedTime: null,
+        eta: null,
         filamentUsed: 0
       },
       temperatures: {
@@ -195,60 +147,33 @@ async function fetchKlipperData(): Promise<PrinterStatus> {
         bed: { actual: 0, target: 0, power: 0 }
       },
       position: { x: 0, y: 0, z: 0, e: 0 },
-      speeds: { current: 0, factor: 1 },
+      speeds: { current: 0, factor: 1, flowFactor: 1 },
       system: {
         klippyState: 'offline',
         klippyMessage: 'Printer offline or unreachable',
         homedAxes: ''
       },
-      file: { name: null, size: 0, position: 0 }
+      file: { name: null, size: 0, position: 0 },
+      heaters: [],
+      sensors: [],
+      fans: [],
+      filamentSensors: []
     }
     
     return offlineStatus
   }
 }
 
-// Helper function to create redacted filename
-function createRedactedFilename(originalFilename: string | null): string | null {
-  if (!originalFilename) return null
-  
-  // Create a string of same length with redacted characters
-  const length = originalFilename.length
-  const extension = originalFilename.split('.').pop()
-  const nameLength = originalFilename.lastIndexOf('.') > 0 ? originalFilename.lastIndexOf('.') : length
-  
-  // Create redacted name with same length as original (excluding extension)
-  const redactedName = '█'.repeat(nameLength)
-  
-  return extension && originalFilename.includes('.') ? `${redactedName}.${extension}` : redactedName
-}
-
 // Helper function to apply privacy settings to printer status
 function applyPrivacySettings(status: PrinterStatus, visibilityMode: string): PrinterStatus {
-  const modifiedStatus = { ...status }
-  
-  if (visibilityMode === 'private') {
-    // Redact filename but keep all other data
-    modifiedStatus.print = {
-      ...modifiedStatus.print,
-      filename: createRedactedFilename(status.print.filename),
-      // Also redact layer information in private mode
-      currentLayer: status.print.currentLayer ? -1 : null, // Use -1 to indicate redacted
-      totalLayers: status.print.totalLayers ? -1 : null // Use -1 to indicate redacted
-    }
-    modifiedStatus.file = {
-      ...modifiedStatus.file,
-      name: createRedactedFilename(status.file.name)
-    }
-  }
-  
-  return modifiedStatus
+  // Redact filename and layer information but keep all other data
+  return visibilityMode === 'private' ? redactPrinterStatus(status) : status
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Check if PRINTER_HOST is configured
-    if (!KLIPPER_HOST) {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
       const configErrorStatus: PrinterStatus = {
         print: {
           filename: null,
@@ -259,6 +184,7 @@ export async function GET() {
           printTime: 0,
           estimatedTimeLeft: null,
           slicerEstimatedTime: null,
+          eta: null,
           filamentUsed: 0
         },
         temperatures: {
@@ -266,13 +192,17 @@ export async function GET() {
           bed: { actual: 0, target: 0, power: 0 }
         },
         position: { x: 0, y: 0, z: 0, e: 0 },
-        speeds: { current: 0, factor: 1 },
+        speeds: { current: 0, factor: 1, flowFactor: 1 },
         system: {
           klippyState: 'offline',
           klippyMessage: 'PRINTER_HOST environment variable not configured',
           homedAxes: ''
         },
-        file: { name: null, size: 0, position: 0 }
+        file: { name: null, size: 0, position: 0 },
+        heaters: [],
+        sensors: [],
+        fans: [],
+        filamentSensors: []
       }
       
       return NextResponse.json(configErrorStatus)
@@ -294,6 +224,7 @@ export async function GET() {
           printTime: 0,
           estimatedTimeLeft: null,
           slicerEstimatedTime: null,
+          eta: null,
           filamentUsed: 0
         },
         temperatures: {
@@ -301,32 +232,24 @@ export async function GET() {
           bed: { actual: 0, target: 0, power: 0 }
         },
         position: { x: 0, y: 0, z: 0, e: 0 },
-        speeds: { current: 0, factor: 1 },
+        speeds: { current: 0, factor: 1, flowFactor: 1 },
         system: {
           klippyState: 'offline',
           klippyMessage: 'Dashboard set to offline mode',
           homedAxes: ''
         },
-        file: { name: null, size: 0, position: 0 }
+        file: { name: null, size: 0, position: 0 },
+        heaters: [],
+        sensors: [],
+        fans: [],
+        filamentSensors: []
       }
       
       return NextResponse.json(offlineStatus)
     }
     
-    const now = Date.now()
-    
-    // Use cached data if it's still fresh
-    if (cachedData && (now - lastFetch) < CACHE_DURATION) {
-      const responseData = applyPrivacySettings(cachedData, visibilityMode)
-      return NextResponse.json(responseData)
-    }
-    
-    // Fetch fresh data
-    const printerStatus = await fetchKlipperData()
-    
-    // Update cache
-    cachedData = printerStatus
-    lastFetch = now
+    // Moonraker responses are cached by the client for CACHE_DURATION
+    const printerStatus = await fetchKlipperData(getMoonrakerClient(printer))
     
     // Apply privacy settings before returning
     const responseData = applyPrivacySettings(printerStatus, visibilityMode)
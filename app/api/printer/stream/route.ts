@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth'
+import { getDashboardSettings } from '@/lib/database'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerRelay, type RelayState } from '@/lib/moonraker-relay'
+import { redactPrinterObjects } from '@/lib/privacy'
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000
+// In offline mode there is nothing to stream, so ask the browser to check back rarely
+const OFFLINE_RETRY_MS = 60000
+
+/**
+ * GET /api/printer/stream
+ * Server-sent events with live printer status from the shared Moonraker relay.
+ *
+ * Events:
+ *  - snapshot: `{ connected, klippyState, status }` with every relayed object, sent first
+ *  - status: changed objects only, to be merged into the snapshot
+ *  - state: `{ connected, klippyState }` when the upstream connection or Klipper state changes
+ *  - gcode: one line of G-code console output, as a JSON string
+ *
+ * In private mode, anonymous visitors get redacted filenames and layer numbers,
+ * and no console output since it can name files.
+ * In offline mode they get a single disconnected snapshot.
+ */
+export async function GET(request: NextRequest) {
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+  }
+
+  const [user, settings] = await Promise.all([
+    getRequestUser(request),
+    getDashboardSettings().catch(() => null)
+  ])
+  const visibilityMode = settings?.visibility_mode || 'public'
+  const redact = !user && visibilityMode === 'private'
+  const filter = (status: Record<string, any>) => redact ? redactPrinterObjects(status) : status
+
+  const encoder = new TextEncoder()
+  const headers = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Disable response buffering in nginx
+    'X-Accel-Buffering': 'no'
+  }
+
+  if (!user && visibilityMode === 'offline') {
+    const offline = { connected: false, klippyState: 'disconnected', status: {} }
+    return new Response(
+      encoder.encode(`retry: ${OFFLINE_RETRY_MS}\nevent: snapshot\ndata: ${JSON.stringify(offline)}\n\n`),
+      { headers }
+    )
+  }
+
+  const relay = getMoonrakerRelay(printer)
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+      }
+
+      const onStatus = (status: Record<string, any>) => send('status', filter(status))
+      const onState = (state: RelayState) => send('state', state)
+      const onGcode = (line: string) => send('gcode', line)
+      const onClosed = () => {
+        // The printer was edited or removed; the browser reconnects to the new relay
+        cleanup()
+        controller.close()
+      }
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        relay.off('status', onStatus)
+        relay.off('state', onState)
+        relay.off('gcode', onGcode)
+        relay.off('closed', onClosed)
+        relay.release()
+      }
+
+      relay.on('status', onStatus)
+      relay.on('state', onState)
+      if (!redact) {
+        relay.on('gcode', onGcode)
+      }
+      relay.on('closed', onClosed)
+      relay.acquire()
+
+      const snapshot = relay.getSnapshot()
+      send('snapshot', { ...snapshot, status: filter(snapshot.status) })
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, { headers })
+}
@@ -1,31 +1,23 @@
-import { NextResponse } from 'next/server'
-import type { TemperatureHistory, KlipperTemperatureStore, ApiError } from '@/lib/types'
+import { NextRequest, NextResponse } from 'next/server'
+import type { TemperatureHistory, ApiError } from '@/lib/types'
+import { isDatabaseAvailable } from '@/lib/database'
+import {
+  getTemperatureHistory,
+  hasRecentTemperatureSamples,
+  isTemperatureResolution,
+  chooseResolution
+} from '@/lib/temperature-history'
+import { resolvePrinter, type PrinterConfig } from '@/lib/printers'
+import { getMoonrakerClient } from '@/lib/moonraker-client'
 
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
 const CACHE_DURATION = 5000
-let lastFetch = 0
-let cachedData: TemperatureHistory | null = null
+const DEFAULT_RANGE_MS = 60 * 60 * 1000
+const LIVE_WINDOW_MS = 5 * 60 * 1000
+const cache = new Map<number, { data: TemperatureHistory; fetchedAt: number }>()
 
-async function fetchTemperatureHistory(): Promise<TemperatureHistory> {
+async function fetchTemperatureHistory(printer: PrinterConfig): Promise<TemperatureHistory> {
   try {
-    const response = await fetch(`${KLIPPER_BASE_URL}/server/temperature_store`, {
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-      cache: 'no-store'
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data: KlipperTemperatureStore = await response.json()
+    const data = await getMoonrakerClient(printer).getTemperatureStore()
     
     // The API returns arrays of temperature data points
     const extruderData = data.result.extruder || { temperatures: [], targets: [], powers: [] }
@@ -89,10 +81,53 @@ async function fetchTemperatureHistory(): Promise<TemperatureHistory> {
   }
 }
 
-export async function GET() {
+/**
+ * Query recorded history: GET /api/printer/temperature-history?from=...&to=...&resolution=raw|minute|hour
+ * `from`/`to` are ISO dates (default: the last hour), resolution is chosen from the range when omitted.
+ */
+async function queryRecordedHistory(request: NextRequest, printer: PrinterConfig) {
+  if (!isDatabaseAvailable()) {
+    return NextResponse.json(
+      { error: 'Temperature recording is not available', details: 'A database is required to query recorded history' },
+      { status: 503 }
+    )
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date()
+  const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date(to.getTime() - DEFAULT_RANGE_MS)
+  const resolution = searchParams.get('resolution')
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return NextResponse.json(
+      { error: 'Invalid range', details: '`from` and `to` must be ISO dates with `from` before `to`' },
+      { status: 400 }
+    )
+  }
+
+  if (resolution && !isTemperatureResolution(resolution)) {
+    return NextResponse.json(
+      { error: 'Invalid resolution', details: 'Resolution must be raw, minute, or hour' },
+      { status: 400 }
+    )
+  }
+
+  const history = await getTemperatureHistory(printer.id, from, to, isTemperatureResolution(resolution) ? resolution : chooseResolution(from, to))
+  return NextResponse.json(history)
+}
+
+export async function GET(request: NextRequest) {
   try {
-    // Check if PRINTER_HOST is configured
-    if (!KLIPPER_HOST) {
+    const printer = await resolvePrinter(request)
+    const searchParams = request.nextUrl.searchParams
+    if (searchParams.has('from') || searchParams.has('to') || searchParams.has('resolution')) {
+      if (!printer) {
+        return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+      }
+      return await queryRecordedHistory(request, printer)
+    }
+
+    if (!printer) {
       const emptyHistory: TemperatureHistory = {
         timestamps: [],
         extruder: { temperatures: [], targets: [], powers: [] },
@@ -104,16 +139,19 @@ export async function GET() {
     const now = Date.now()
     
     // Use cached data if it's still fresh
-    if (cachedData && (now - lastFetch) < CACHE_DURATION) {
-      return NextResponse.json(cachedData)
+    const cached = cache.get(printer.id)
+    if (cached && (now - cached.fetchedAt) < CACHE_DURATION) {
+      return NextResponse.json(cached.data)
     }
     
-    // Fetch fresh data
-    const temperatureHistory = await fetchTemperatureHistory()
+    // Prefer our own recorded samples, which carry real timestamps,
+    // and fall back to Moonraker's short-term temperature store
+    const temperatureHistory = await hasRecentTemperatureSamples(printer.id).catch(() => false)
+      ? await getTemperatureHistory(printer.id, new Date(now - LIVE_WINDOW_MS), new Date(now), 'raw')
+      : await fetchTemperatureHistory(printer)
     
     // Update cache
-    cachedData = temperatureHistory
-    lastFetch = now
+    cache.set(printer.id, { data: temperatureHistory, fetchedAt: now })
     
     return NextResponse.json(temperatureHistory)
     
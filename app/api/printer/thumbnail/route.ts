@@ -1,38 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const KLIPPER_HOST = process.env.PRINTER_HOST
-const KLIPPER_PORT = process.env.MOONRAKER_PORT || '7127'
-
-if (!KLIPPER_HOST) {
-  console.error('PRINTER_HOST environment variable is not set')
-}
-
-const KLIPPER_BASE_URL = KLIPPER_HOST ? `http://${KLIPPER_HOST}:${KLIPPER_PORT}` : null
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
+import { encodePath, normalizeFilePath } from '@/lib/printer-files'
 
 export async function GET(request: NextRequest) {
-  if (!KLIPPER_BASE_URL) {
-    return NextResponse.json({ error: 'Printer host not configured' }, { status: 500 })
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
   }
 
   const searchParams = request.nextUrl.searchParams
-  const path = searchParams.get('path')
+  const path = normalizeFilePath(searchParams.get('path'))
 
+  // The request carries the printer's API key, so it must not leave gcodes/
+  if (path === null) {
+    return NextResponse.json(
+      { error: 'Invalid path', message: 'Path must stay inside the gcodes directory' },
+      { status: 400 }
+    )
+  }
   if (!path) {
     return NextResponse.json({ error: 'Path parameter is required' }, { status: 400 })
   }
 
   try {
     // Construct the thumbnail URL - thumbnails are stored in gcodes/.thumbs/
-    const thumbnailUrl = `${KLIPPER_BASE_URL}/server/files/gcodes/${path}`
-    
-    const response = await fetch(thumbnailUrl, { 
-      method: 'GET',
-      cache: 'no-store'
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
+    const response = await getMoonrakerClient(printer).fetch(`/server/files/gcodes/${encodePath(path)}`)
 
     // Get the image content type
     const contentType = response.headers.get('content-type') || 'image/png'
@@ -53,7 +46,7 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching thumbnail:', error)
     return NextResponse.json(
       { error: 'Failed to fetch thumbnail', details: String(error) },
-      { status: 500 }
+      { status: getMoonrakerErrorStatus(error) }
     )
   }
 }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getPrinter, updatePrinter, deletePrinter, isValidPrinterInput, toPublicPrinterInfo } from '@/lib/printers'
+import { syncPrinterServices } from '@/lib/printer-services'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/printers/[id] - Edit a printer (admin only)
+// Body: any of { name, host, port, api_key, camera_url_prefix, enabled, display_order }
+// Omit api_key to keep the stored key, or send an empty string to remove it
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid printer ID' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getPrinter(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Printer not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!isValidPrinterInput({ ...existing, ...body })) {
+      return NextResponse.json(
+        { error: 'A printer needs a name, a hostname or IP address, and a port between 1 and 65535' },
+        { status: 400 }
+      )
+    }
+
+    const printer = await updatePrinter(id, body)
+
+    if (!printer) {
+      return NextResponse.json(
+        { error: 'Printer not found' },
+        { status: 404 }
+      )
+    }
+
+    await syncPrinterServices()
+
+    return NextResponse.json({ printer: toPublicPrinterInfo(printer) })
+  } catch (error) {
+    console.error('PUT /api/printers/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update printer' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/printers/[id] - Remove a printer and its recorded history (admin only)
+export const DELETE = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid printer ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deletePrinter(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Printer not found' },
+        { status: 404 }
+      )
+    }
+
+    await syncPrinterServices()
+
+    return NextResponse.json({ message: 'Printer deleted successfully' })
+  } catch (error) {
+    console.error('DELETE /api/printers/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete printer' },
+      { status: 500 }
+    )
+  }
+})
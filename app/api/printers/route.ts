@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { isDatabaseAvailable } from '@/lib/database'
+import { getPrinters, createPrinter, isValidPrinterInput, toPublicPrinterInfo } from '@/lib/printers'
+import { syncPrinterServices } from '@/lib/printer-services'
+
+// GET /api/printers - List configured printers (any signed-in user)
+export const GET = withAuth('viewer', async () => {
+  try {
+    const printers = await getPrinters()
+    return NextResponse.json({ printers: printers.map(toPublicPrinterInfo) })
+  } catch (error) {
+    console.error('GET /api/printers error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch printers' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/printers - Add a printer (admin only)
+// Body: { name, host, port, api_key?, camera_url_prefix?, enabled?, display_order? }
+export const POST = withAuth('admin', async (request: NextRequest) => {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'A database is required to manage printers' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!isValidPrinterInput(body)) {
+      return NextResponse.json(
+        { error: 'A printer needs a name, a hostname or IP address, and a port between 1 and 65535' },
+        { status: 400 }
+      )
+    }
+
+    const printer = await createPrinter(body)
+
+    if (!printer) {
+      return NextResponse.json(
+        { error: 'Failed to create printer' },
+        { status: 500 }
+      )
+    }
+
+    await syncPrinterServices()
+
+    return NextResponse.json({ printer: toPublicPrinterInfo(printer) }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/printers error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create printer' },
+      { status: 500 }
+    )
+  }
+})
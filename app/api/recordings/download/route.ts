@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { createRecordingStream } from '@/lib/camera-recorder'
+import { parseRecordingTime } from '@/lib/camera-recordings'
+
+// Longer clips are better exported from the recordings directory directly
+const MAX_CLIP_MS = 6 * 60 * 60 * 1000
+
+/**
+ * GET /api/recordings/download?printerId=&uid=&from=&to=
+ * Download a camera's frames between `from` and `to` (ms since epoch) as one
+ * MJPEG file, playable with VLC or convertible with ffmpeg
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const uid = searchParams.get('uid')
+    const from = parseRecordingTime(searchParams.get('from'))
+    const to = parseRecordingTime(searchParams.get('to'))
+    if (!uid || from === null || to === null || from > to) {
+      return NextResponse.json({ error: 'Invalid clip', message: 'A camera uid and a from/to time range are required' }, { status: 400 })
+    }
+    if (to - from > MAX_CLIP_MS) {
+      return NextResponse.json({ error: 'Clip too long', message: 'Clips can be at most 6 hours' }, { status: 400 })
+    }
+
+    const body = await createRecordingStream(printer.id, uid, from, to)
+    if (!body) {
+      return NextResponse.json({ error: 'Nothing was recorded in this time range' }, { status: 404 })
+    }
+
+    const stamp = new Date(from).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '_')
+    const filename = `recording_${uid.replace(/[^\w-]/g, '_')}_${stamp}.mjpeg`
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'video/x-motion-jpeg',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('GET /api/recordings/download error:', error)
+    return NextResponse.json(
+      { error: 'Failed to download recording', details: String(error) },
+      { status: 500 }
+    )
+  }
+})
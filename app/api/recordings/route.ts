@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getRecordedCameras, getRecordingJobs, listRecordingSegments } from '@/lib/camera-recorder'
+import { parseRecordingTime, type RecordingListResponse } from '@/lib/camera-recordings'
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/recordings - Recorded segments of a camera and the print jobs in a time window
+ *
+ * Query parameters:
+ *  - printerId: defaults to the first printer
+ *  - uid: camera uid, defaults to the first camera with recordings
+ *  - from, to: ms since epoch, default to the last 24 hours
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const to = parseRecordingTime(searchParams.get('to')) ?? Date.now()
+    const from = parseRecordingTime(searchParams.get('from')) ?? to - DEFAULT_WINDOW_MS
+    if (from > to) {
+      return NextResponse.json({ error: 'Invalid time range', message: 'from must be before to' }, { status: 400 })
+    }
+
+    const cameras = await getRecordedCameras(printer.id)
+    const uid = searchParams.get('uid') || cameras[0]
+
+    const response: RecordingListResponse = {
+      cameras,
+      segments: uid ? await listRecordingSegments(printer.id, uid, from, to) : [],
+      jobs: await getRecordingJobs(printer.id, from, to)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('GET /api/recordings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list recordings', details: String(error) },
+      { status: 500 }
+    )
+  }
+})
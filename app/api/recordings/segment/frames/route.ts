@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { readSegmentFrames } from '@/lib/camera-recorder'
+import { parseRecordingTime, type RecordingFramesResponse } from '@/lib/camera-recordings'
+
+/**
+ * GET /api/recordings/segment/frames?printerId=&uid=&start=
+ * The time and byte range of every frame in a recorded segment
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const uid = searchParams.get('uid')
+    const start = parseRecordingTime(searchParams.get('start'))
+    if (!uid || start === null) {
+      return NextResponse.json({ error: 'Invalid segment', message: 'A camera uid and start time are required' }, { status: 400 })
+    }
+
+    const frames = await readSegmentFrames(printer.id, uid, start)
+    if (!frames) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 })
+    }
+
+    const response: RecordingFramesResponse = { frames }
+    return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } })
+
+  } catch (error) {
+    console.error('GET /api/recordings/segment/frames error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read recording', details: String(error) },
+      { status: 500 }
+    )
+  }
+})
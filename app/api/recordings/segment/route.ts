@@ -0,0 +1,63 @@
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { parseByteRange } from '@/lib/byte-range'
+import { getSegmentFile } from '@/lib/camera-recorder'
+import { parseRecordingTime } from '@/lib/camera-recordings'
+
+/**
+ * GET /api/recordings/segment?printerId=&uid=&start=
+ * A recorded segment's concatenated JPEG frames, with HTTP Range support so
+ * the viewer can fetch single frames by the byte ranges in the frame index
+ */
+export const GET = withAuth('viewer', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const uid = searchParams.get('uid')
+    const start = parseRecordingTime(searchParams.get('start'))
+    if (!uid || start === null) {
+      return NextResponse.json({ error: 'Invalid segment', message: 'A camera uid and start time are required' }, { status: 400 })
+    }
+
+    const file = getSegmentFile(printer.id, uid, start)
+    const stats = await fs.stat(file).catch(() => null)
+    if (!stats?.isFile()) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 })
+    }
+
+    const range = parseByteRange(request.headers.get('range'), stats.size)
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${stats.size}` } })
+    }
+
+    // A single frame is a JPEG; the whole segment is an MJPEG file
+    const { start: first, end } = range ?? { start: 0, end: stats.size - 1 }
+    const headers: Record<string, string> = {
+      'Content-Type': range ? 'image/jpeg' : 'video/x-motion-jpeg',
+      'Content-Length': String(end - first + 1),
+      'Accept-Ranges': 'bytes',
+      'Last-Modified': stats.mtime.toUTCString(),
+      'Cache-Control': 'private, max-age=60'
+    }
+    if (range) {
+      headers['Content-Range'] = `bytes ${first}-${end}/${stats.size}`
+    }
+
+    const body = Readable.toWeb(createReadStream(file, { start: first, end })) as ReadableStream<Uint8Array>
+    return new NextResponse(body, { status: range ? 206 : 200, headers })
+
+  } catch (error) {
+    console.error('GET /api/recordings/segment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read recording', details: String(error) },
+      { status: 500 }
+    )
+  }
+})
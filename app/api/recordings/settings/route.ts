@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import {
+  getCameraRecorderStates,
+  getCameraRecordingSettings,
+  getRecordingUsage,
+  updateCameraRecordingSettings
+} from '@/lib/camera-recorder'
+import {
+  validateCameraRecordingSettings,
+  type CameraRecordingSettings,
+  type RecordingSettingsResponse
+} from '@/lib/camera-recordings'
+
+/**
+ * GET /api/recordings/settings?printerId= - Camera recording settings, the
+ * running recorders and the disk space used (admin only)
+ */
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const response: RecordingSettingsResponse = {
+      settings: await getCameraRecordingSettings(printer.id),
+      recorders: getCameraRecorderStates(printer.id),
+      usage_bytes: await getRecordingUsage(printer.id)
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('GET /api/recordings/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recording settings' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * PUT /api/recordings/settings?printerId= - Replace the recording settings (admin only)
+ * Body: { enabled, camera_uids, mode, framerate, retention_hours, max_disk_mb }
+ */
+export const PUT = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationError = validateCameraRecordingSettings(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const settings = await updateCameraRecordingSettings(printer.id, body as CameraRecordingSettings)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('PUT /api/recordings/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save recording settings' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getDashboardSettings, updateDashboardSettings, initializeDatabase, isDatabaseAvailable } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
 let dbInitialized = false
 async function ensureDbInitialized() {
@@ -12,28 +13,8 @@ async function ensureDbInitialized() {
     dbInitialized = true
   }
 }
-function isAuthorizedRequest(request: NextRequest): boolean {
-  const isDevelopment = process.env.NODE_ENV === 'development'
-  
-  if (isDevelopment) {
-    return true
-  }
-  
-  const host = request.headers.get('host')
-  const origin = request.headers.get('origin')
-  const referer = request.headers.get('referer')
-  
-  const isLocalhost = host?.includes('localhost') || host?.includes('127.0.0.1')
-  const isSameOrigin = origin ? origin === `https://${host}` || origin === `http://${host}` : false
-  const isSameReferer = referer ? (
-    referer.startsWith(`https://${host}/`) || referer.startsWith(`http://${host}/`)
-  ) : false
-  const isServerSide = !origin && !referer
-  
-  return isLocalhost || isSameOrigin || isSameReferer || isServerSide
-}
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
     if (!isDatabaseAvailable()) {
       return NextResponse.json({
@@ -42,13 +23,6 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    if (!isAuthorizedRequest(request)) {
-      return NextResponse.json(
-        { error: 'Unauthorized access' }, 
-        { status: 403 }
-      )
-    }
-    
     await ensureDbInitialized()
     
     const settings = await getDashboardSettings()
@@ -89,7 +63,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function PUT(request: NextRequest) {
+// Dashboard settings are public to read, but only admins may change them
+export const PUT = withAuth('admin', async (request: NextRequest) => {
   try {
     if (!isDatabaseAvailable()) {
       return NextResponse.json(
@@ -98,13 +73,6 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    if (!isAuthorizedRequest(request)) {
-      return NextResponse.json(
-        { error: 'Unauthorized access' }, 
-        { status: 403 }
-      )
-    }
-
     await ensureDbInitialized()
     
     const body = await request.json()
@@ -254,4 +222,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { listTimelapses, linkTimelapseJobs } from '@/lib/timelapse-library'
+import type { TimelapseListResponse } from '@/lib/timelapses'
+
+/**
+ * GET /api/timelapse/list - Timelapse videos of a printer, newest first
+ *
+ * Query parameters:
+ *  - printerId: defaults to the first printer
+ *  - page, limit (max 50)
+ *
+ * Lists moonraker-timelapse renders and the local timelapse directory, with
+ * the print job each video belongs to when print history is recorded.
+ * Anonymous visitors only see timelapses in public mode.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+    if (!user && settings?.visibility_mode && settings.visibility_mode !== 'public') {
+      return NextResponse.json({ error: 'Timelapses are not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '9', 10) || 9, 1), 50)
+
+    const videos = await listTimelapses(printer)
+    const total = videos.length
+    const timelapse = await linkTimelapseJobs(printer.id, videos.slice((page - 1) * limit, page * limit))
+
+    const response: TimelapseListResponse = {
+      timelapse,
+      count: total,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('GET /api/timelapse/list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list timelapses', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
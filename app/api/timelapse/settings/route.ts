@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { isFfmpegAvailable } from '@/lib/ffmpeg'
+import {
+  getTimelapseCaptureSettings,
+  getTimelapseRecordingState,
+  updateTimelapseCaptureSettings
+} from '@/lib/timelapse-recorder'
+import {
+  validateTimelapseCaptureSettings,
+  type TimelapseCaptureSettings,
+  type TimelapseSettingsResponse
+} from '@/lib/timelapses'
+
+/**
+ * GET /api/timelapse/settings?printerId= - Timelapse recorder settings and
+ * what it is recording (admin only)
+ */
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const response: TimelapseSettingsResponse = {
+      settings: await getTimelapseCaptureSettings(printer.id),
+      state: getTimelapseRecordingState(printer.id),
+      ffmpegAvailable: await isFfmpegAvailable()
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('GET /api/timelapse/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch timelapse settings' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * PUT /api/timelapse/settings?printerId= - Replace the recorder settings (admin only)
+ * Body: { enabled, camera_uid, trigger, interval_seconds, framerate, format }
+ */
+export const PUT = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationError = validateTimelapseCaptureSettings(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const settings = await updateTimelapseCaptureSettings(printer.id, body as TimelapseCaptureSettings)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('PUT /api/timelapse/settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save timelapse settings' },
+      { status: 500 }
+    )
+  }
+})
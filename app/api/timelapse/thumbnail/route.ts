@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getTimelapseThumbnail } from '@/lib/timelapse-library'
+import { parseTimelapseParams } from '@/lib/timelapses'
+
+/**
+ * GET /api/timelapse/thumbnail?source=printer|local&path=...
+ * The preview image saved with a timelapse, or a frame extracted with ffmpeg.
+ * 404 when there is neither, so the card shows a placeholder.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    const settings = await getDashboardSettings()
+    if (!user && settings?.visibility_mode && settings.visibility_mode !== 'public') {
+      return NextResponse.json({ error: 'Timelapses are not available' }, { status: 403 })
+    }
+
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const video = parseTimelapseParams(request.nextUrl.searchParams)
+    if (!video) {
+      return NextResponse.json({ error: 'Invalid timelapse', message: 'A source and video path are required' }, { status: 400 })
+    }
+
+    const thumbnail = await getTimelapseThumbnail(printer, video.source, video.path)
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'Thumbnail not available' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(thumbnail.buffer), {
+      headers: {
+        'Content-Type': thumbnail.contentType,
+        'Cache-Control': 'private, max-age=86400'
+      }
+    })
+
+  } catch (error) {
+    console.error('GET /api/timelapse/thumbnail error:', error)
+    return NextResponse.json({ error: 'Failed to fetch thumbnail' }, { status: 500 })
+  }
+}
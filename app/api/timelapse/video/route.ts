@@ -0,0 +1,130 @@
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+import { getDashboardSettings } from '@/lib/database'
+import { getRequestUser, withAuth, getClientIp } from '@/lib/auth'
+import { resolvePrinter } from '@/lib/printers'
+import { getMoonrakerClient, getMoonrakerErrorStatus } from '@/lib/moonraker-client'
+import { parseByteRange } from '@/lib/byte-range'
+import { getAttachmentDisposition } from '@/lib/utils/api'
+import { deleteTimelapseFile, resolveLocalTimelapse } from '@/lib/timelapse-library'
+import { getTimelapseContentType, parseTimelapseParams } from '@/lib/timelapses'
+
+// Headers Moonraker sends for a (partial) file that the browser needs for seeking
+const FORWARDED_HEADERS = ['content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag']
+
+/**
+ * GET /api/timelapse/video?source=printer|local&path=...&download=1
+ * Stream a timelapse with HTTP Range support so players can seek.
+ * `download=1` asks the browser to save the file instead of playing it.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getRequestUser(request)
+  const settings = await getDashboardSettings().catch(() => null)
+  if (!user && settings?.visibility_mode && settings.visibility_mode !== 'public') {
+    return NextResponse.json({ error: 'Timelapses are not available' }, { status: 403 })
+  }
+
+  const printer = await resolvePrinter(request)
+  if (!printer) {
+    return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const video = parseTimelapseParams(searchParams)
+  const contentType = video && getTimelapseContentType(video.path)
+  if (!video || !contentType) {
+    return NextResponse.json({ error: 'Invalid timelapse', message: 'A source and video path are required' }, { status: 400 })
+  }
+
+  const filename = video.path.split('/').pop() || video.path
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600'
+  }
+  if (searchParams.get('download') === '1') {
+    headers['Content-Disposition'] = getAttachmentDisposition(filename)
+  }
+
+  try {
+    if (video.source === 'local') {
+      const file = resolveLocalTimelapse(printer.id, video.path)
+      const stats = file ? await fs.stat(file).catch(() => null) : null
+      if (!file || !stats?.isFile()) {
+        return NextResponse.json({ error: 'Timelapse not found' }, { status: 404 })
+      }
+
+      const range = parseByteRange(request.headers.get('range'), stats.size)
+      if (range === 'unsatisfiable') {
+        return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${stats.size}` } })
+      }
+
+      const { start, end } = range ?? { start: 0, end: stats.size - 1 }
+      headers['Content-Length'] = String(end - start + 1)
+      headers['Last-Modified'] = stats.mtime.toUTCString()
+      if (range) {
+        headers['Content-Range'] = `bytes ${start}-${end}/${stats.size}`
+      }
+
+      const body = Readable.toWeb(createReadStream(file, { start, end })) as ReadableStream<Uint8Array>
+      return new NextResponse(body, { status: range ? 206 : 200, headers })
+    }
+
+    // Moonraker serves files with Range support, so pass the request through
+    const encodedPath = video.path.split('/').map(encodeURIComponent).join('/')
+    const range = request.headers.get('range')
+    const response = await getMoonrakerClient(printer).fetch(`/server/files/timelapse/${encodedPath}`, {
+      headers: range ? { Range: range } : {},
+      // No timeout: videos can take longer than a normal request to stream
+      timeoutMs: 0
+    })
+
+    for (const name of FORWARDED_HEADERS) {
+      const value = response.headers.get(name)
+      if (value) headers[name] = value
+    }
+
+    return new NextResponse(response.body, { status: response.status, headers })
+
+  } catch (error) {
+    console.error('GET /api/timelapse/video error:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream timelapse', details: String(error) },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+}
+
+/**
+ * DELETE /api/timelapse/video?source=printer|local&path=... (operator only)
+ * Removes the video, its preview image and its cached thumbnail
+ */
+export const DELETE = withAuth('operator', async (request: NextRequest, _context, user) => {
+  try {
+    const printer = await resolvePrinter(request)
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    const video = parseTimelapseParams(request.nextUrl.searchParams)
+    if (!video || !getTimelapseContentType(video.path)) {
+      return NextResponse.json({ error: 'Invalid timelapse', message: 'A source and video path are required' }, { status: 400 })
+    }
+
+    if (!(await deleteTimelapseFile(printer, video.source, video.path))) {
+      return NextResponse.json({ error: 'Timelapse not found' }, { status: 404 })
+    }
+
+    console.log(`[Timelapse] ${user.username} deleted ${video.source}:${video.path} (${getClientIp(request) || 'unknown ip'})`)
+
+    return NextResponse.json({ success: true, message: `Deleted ${video.path.split('/').pop()}` })
+
+  } catch (error) {
+    console.error('DELETE /api/timelapse/video error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete timelapse', details: String(error) },
+      { status: getMoonrakerErrorStatus(error) }
+    )
+  }
+})
@@ -5,6 +5,7 @@ import {
   updateViewCameraDisplayOrder,
   updateDashboardSettings 
 } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
 // GET /api/view-camera/settings?view=stream|horizontal|vertical
 export async function GET(request: NextRequest) {
@@ -30,9 +31,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT /api/view-camera/settings
+// PUT /api/view-camera/settings (admin only)
 // Body: { view: string, camera_uid: string, enabled?: boolean, display_order?: number }
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth('admin', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { view, camera_uid, enabled, display_order } = body
@@ -83,11 +84,11 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-// POST /api/view-camera/settings/pip-main
+// POST /api/view-camera/settings/pip-main (admin only)
 // Body: { view: string, camera_uid: string | null }
-export async function POST(request: NextRequest) {
+export const POST = withAuth('admin', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { view, camera_uid } = body
@@ -132,4 +133,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { validateWebhookEndpointInput, type WebhookEndpointInput } from '@/lib/webhooks'
+import { updateWebhookEndpoint, deleteWebhookEndpoint } from '@/lib/webhook-delivery'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/webhooks/[id] - Replace an endpoint's settings; the secret is kept (admin only)
+// Body: { name, url, events, progress_step?, enabled? }
+export const PUT = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateWebhookEndpointInput(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await updateWebhookEndpoint(id, body as WebhookEndpointInput)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ endpoint })
+  } catch (error) {
+    console.error('PUT /api/webhooks/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/webhooks/[id] - Remove an endpoint and its deliveries (admin only)
+export const DELETE = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteWebhookEndpoint(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Webhook deleted successfully' })
+  } catch (error) {
+    console.error('DELETE /api/webhooks/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    )
+  }
+})
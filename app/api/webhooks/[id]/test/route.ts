@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getWebhookEndpoint, pingWebhookEndpoint } from '@/lib/webhook-delivery'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/webhooks/[id]/test (admin only)
+ * Queues a signed `ping` delivery to the endpoint. The result shows up in the
+ * recent deliveries like any other event.
+ */
+export const POST = withAuth<RouteContext>('admin', async (request: NextRequest, { params }) => {
+  try {
+    const { id: idString } = await params
+    const id = parseInt(idString, 10)
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await getWebhookEndpoint(id)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    await pingWebhookEndpoint(endpoint)
+
+    return NextResponse.json({ success: true, message: `Ping queued for ${endpoint.name}` })
+  } catch (error) {
+    console.error('POST /api/webhooks/[id]/test error:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue ping' },
+      { status: 500 }
+    )
+  }
+})
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to ping a webhook.' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getRecentWebhookDeliveries } from '@/lib/webhook-delivery'
+
+// GET /api/webhooks/deliveries - Recent webhook deliveries, newest first (admin only)
+// Query: limit (default 50, max 200)
+export const GET = withAuth('admin', async (request: NextRequest) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 1), 200)
+
+    const deliveries = await getRecentWebhookDeliveries(limit)
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error('GET /api/webhooks/deliveries error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getDeliveryEndpoint, verifyWebhookSignature } from '@/lib/webhook-delivery'
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from '@/lib/webhooks'
+
+/**
+ * Local echo receiver for testing webhooks: point an endpoint at
+ * `/api/webhooks/echo` and its deliveries are checked and kept in memory.
+ */
+
+const MAX_ECHO_ENTRIES = 20
+const MAX_BODY_BYTES = 64 * 1024
+
+interface EchoEntry {
+  received_at: string
+  event: string | null
+  delivery_id: number | null
+  signature_valid: boolean
+  body: unknown
+}
+
+// Kept on globalThis so GET sees what POST received
+const globalForEcho = globalThis as unknown as {
+  webhookEchoEntries?: EchoEntry[]
+}
+
+function getEchoEntries(): EchoEntry[] {
+  if (!globalForEcho.webhookEchoEntries) {
+    globalForEcho.webhookEchoEntries = []
+  }
+  return globalForEcho.webhookEchoEntries
+}
+
+/**
+ * POST /api/webhooks/echo
+ * Verifies the signature of a delivery with its endpoint's secret and echoes it.
+ * Returns 401 when the signature does not match, so the failure shows in the deliveries.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text()
+    if (body.length > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Payload too large' }, { status: 413 })
+    }
+
+    const deliveryId = parseInt(request.headers.get(WEBHOOK_DELIVERY_HEADER) || '', 10)
+    const timestamp = request.headers.get(WEBHOOK_TIMESTAMP_HEADER) || ''
+    const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER) || ''
+
+    const endpoint = isNaN(deliveryId) ? null : await getDeliveryEndpoint(deliveryId)
+    const signatureValid = !!endpoint && verifyWebhookSignature(endpoint.secret, timestamp, body, signature)
+
+    let parsed: unknown = body
+    try {
+      parsed = JSON.parse(body)
+    } catch {
+      // Echo non-JSON bodies as text
+    }
+
+    const entry: EchoEntry = {
+      received_at: new Date().toISOString(),
+      event: request.headers.get(WEBHOOK_EVENT_HEADER),
+      delivery_id: isNaN(deliveryId) ? null : deliveryId,
+      signature_valid: signatureValid,
+      body: parsed
+    }
+
+    const entries = getEchoEntries()
+    entries.unshift(entry)
+    entries.splice(MAX_ECHO_ENTRIES)
+
+    return NextResponse.json(entry, { status: signatureValid ? 200 : 401 })
+  } catch (error) {
+    console.error('POST /api/webhooks/echo error:', error)
+    return NextResponse.json(
+      { error: 'Failed to echo webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/webhooks/echo - Deliveries the echo receiver got, newest first (admin only)
+export const GET = withAuth('admin', async () => {
+  return NextResponse.json({ entries: getEchoEntries() })
+})
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { isDatabaseAvailable } from '@/lib/database'
+import { validateWebhookEndpointInput, type WebhookEndpointInput } from '@/lib/webhooks'
+import { getWebhookEndpoints, createWebhookEndpoint } from '@/lib/webhook-delivery'
+
+// GET /api/webhooks - List webhook endpoints with their signing secrets (admin only)
+export const GET = withAuth('admin', async () => {
+  try {
+    const endpoints = await getWebhookEndpoints()
+    return NextResponse.json({ endpoints })
+  } catch (error) {
+    console.error('GET /api/webhooks error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/webhooks - Add an endpoint; its signing secret is generated (admin only)
+// Body: { name, url, events, progress_step?, enabled? }
+export const POST = withAuth('admin', async (request: NextRequest) => {
+  try {
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'A database is required to configure webhooks' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateWebhookEndpointInput(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await createWebhookEndpoint(body as WebhookEndpointInput)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Failed to create webhook' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ endpoint }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/webhooks error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    )
+  }
+})
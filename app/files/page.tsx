@@ -0,0 +1,78 @@
+import { notFound, redirect } from 'next/navigation'
+import { HardDrive, Home, User } from "lucide-react"
+import { FileManager } from '@/components/file-manager'
+import { SignOutButton } from '@/components/sign-out-button'
+import { getCurrentUser } from '@/lib/auth'
+import { resolvePrinterId } from '@/lib/printers'
+
+export const dynamic = 'force-dynamic'
+
+export default async function FilesPage({
+  searchParams
+}: {
+  searchParams: Promise<{ printerId?: string | string[] }>
+}) {
+  // ?printerId= manages another printer's files, e.g. from the fleet page
+  const { printerId } = await searchParams
+  const selectedId = typeof printerId === 'string' ? printerId : undefined
+  const query = selectedId ? `?printerId=${encodeURIComponent(selectedId)}` : ''
+
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect(`/login?next=${encodeURIComponent(`/files${query}`)}`)
+  }
+
+  const printer = await resolvePrinterId(selectedId)
+  if (selectedId && !printer) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <HardDrive className="h-8 w-8 text-cyan-500" />
+              Files
+            </h1>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              {printer && (
+                <>
+                  <span>{printer.name}</span>
+                  <span>•</span>
+                </>
+              )}
+              <a href={`/${query}`} className="hover:text-foreground transition-colors flex items-center gap-1">
+                <Home className="h-4 w-4" />
+                Home
+              </a>
+              <span>•</span>
+              <a href="/config" className="hover:text-foreground transition-colors">Config</a>
+              <span>•</span>
+              <span className="text-foreground">Files</span>
+              <span>•</span>
+              <a href="/fleet" className="hover:text-foreground transition-colors">Fleet</a>
+              <span>•</span>
+              <a href="/recordings" className="hover:text-foreground transition-colors">Recordings</a>
+            </div>
+          </div>
+          <p className="text-muted-foreground">
+            Browse the gcode files on the printer, upload new ones and start prints
+          </p>
+          <div className="mt-2 flex items-center gap-2">
+            <div className="px-3 py-1.5 bg-cyan-600/10 border border-cyan-600/20 rounded-md inline-flex items-center gap-2 text-sm text-cyan-500">
+              <User className="h-4 w-4" />
+              Signed in as {user.username} ({user.role})
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+
+        <FileManager printerId={printer?.id} />
+      </div>
+    </div>
+  )
+}
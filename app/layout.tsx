@@ -1,4 +1,5 @@
 import type { Metadata } from 'next'
+import { Toaster } from 'sonner'
 
 import UmamiAnalytics from '@/components/umami-analytics'
 import { WebSocketProvider } from '@/lib/contexts/websocket-context'
@@ -54,9 +55,11 @@ export default function RootLayout({
   return (
     <html lang="en" className={`dark ${roboto.variable} ${robotoMono.variable}`}>
       <body className={`${roboto.className} antialiased`}>
+        {/* Streams the default printer; pages for a selected printer (?printerId=) bring their own provider */}
         <WebSocketProvider autoConnect={true}>
           {children}
         </WebSocketProvider>
+        <Toaster theme="dark" richColors />
         <UmamiAnalytics 
           websiteId={process.env.UMAMI_WEBSITE_ID}
           hostUrl={process.env.UMAMI_HOST_URL}
@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation'
+import { getCurrentUser } from '@/lib/auth'
+import { LoginForm } from '@/components/login-form'
+
+export const dynamic = 'force-dynamic'
+
+// Only allow redirects back into this site
+function getSafeRedirect(next: string | string[] | undefined): string {
+  if (typeof next === 'string' && next.startsWith('/') && !next.startsWith('//')) {
+    return next
+  }
+  return '/settings'
+}
+
+export default async function LoginPage({
+  searchParams
+}: {
+  searchParams: Promise<{ next?: string | string[] }>
+}) {
+  const { next } = await searchParams
+  const redirectTo = getSafeRedirect(next)
+
+  const user = await getCurrentUser()
+  if (user) {
+    redirect(redirectTo)
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center px-6">
+      <LoginForm next={redirectTo} />
+    </div>
+  )
+}
@@ -1,26 +1,30 @@
 import { Suspense } from "react"
+import { notFound } from "next/navigation"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Activity } from "lucide-react"
 import PrinterDashboardClient from "./printer-dashboard-client"
 import type { PrinterStatus, TemperatureHistory, LifetimeStats } from "@/lib/types"
 import { isDatabaseConfigured, getDashboardSettings, getEnabledModules } from "@/lib/database"
 import { getBaseUrl } from "@/lib/utils/environment"
+import { withPrinterId } from "@/lib/utils/api"
+import { resolvePrinterId } from "@/lib/printers"
+import { WebSocketProvider } from "@/lib/contexts/websocket-context"
 
 // Server-side function to fetch printer data
-async function fetchPrinterData(): Promise<{ status: PrinterStatus | null, temperatureHistory: TemperatureHistory | null, lifetimeStats: LifetimeStats | null }> {
+async function fetchPrinterData(printerId?: number): Promise<{ status: PrinterStatus | null, temperatureHistory: TemperatureHistory | null, lifetimeStats: LifetimeStats | null }> {
   try {
     const baseUrl = getBaseUrl()
     
     const [statusResponse, tempResponse, lifetimeResponse] = await Promise.all([
-      fetch(`${baseUrl}/api/printer/status`, { 
+      fetch(withPrinterId(`${baseUrl}/api/printer/status`, printerId), { 
         cache: 'no-store',
         next: { revalidate: 0 }
       }),
-      fetch(`${baseUrl}/api/printer/temperature-history`, { 
+      fetch(withPrinterId(`${baseUrl}/api/printer/temperature-history`, printerId), { 
         cache: 'no-store',
         next: { revalidate: 0 }
       }),
-      fetch(`${baseUrl}/api/printer/lifetime-stats`, { 
+      fetch(withPrinterId(`${baseUrl}/api/printer/lifetime-stats`, printerId), { 
         cache: 'no-store',
         next: { revalidate: 0 }
       })
@@ -87,8 +91,20 @@ function DashboardSkeleton() {
   )
 }
 
-export default async function PrinterDashboard() {
-  const { status, temperatureHistory, lifetimeStats } = await fetchPrinterData()
+export default async function PrinterDashboard({
+  searchParams
+}: {
+  searchParams: Promise<{ printerId?: string | string[] }>
+}) {
+  // ?printerId= shows another printer, e.g. from the fleet page
+  const { printerId } = await searchParams
+  const selectedId = typeof printerId === 'string' ? printerId : undefined
+  const printer = selectedId ? await resolvePrinterId(selectedId) : null
+  if (selectedId && !printer) {
+    notFound()
+  }
+
+  const { status, temperatureHistory, lifetimeStats } = await fetchPrinterData(printer?.id)
   const dbConfigured = isDatabaseConfigured()
   
   // Fetch dashboard settings
@@ -111,7 +127,7 @@ export default async function PrinterDashboard() {
     }
   }
 
-  return (
+  const dashboard = (
     <Suspense fallback={<DashboardSkeleton />}>
       <PrinterDashboardClient 
         initialStatus={status} 
@@ -119,9 +135,16 @@ export default async function PrinterDashboard() {
         initialLifetimeStats={lifetimeStats}
         isDatabaseConfigured={dbConfigured}
         dashboardTitle={dashboardTitle}
-        dashboardSubtitle={dashboardSubtitle}
+        dashboardSubtitle={printer ? printer.name : dashboardSubtitle}
         enabledModules={enabledModules}
       />
     </Suspense>
   )
+
+  // The layout's connection streams the default printer; a selected one gets its own
+  return printer ? (
+    <WebSocketProvider key={printer.id} printerId={printer.id}>
+      {dashboard}
+    </WebSocketProvider>
+  ) : dashboard
 }
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts"
-import { Flame, Thermometer, Activity, Camera, AlertCircle, Grid2X2, CupSoda, Github, ExternalLink, Printer, Video, Cpu, Clock, Lock } from "lucide-react"
+import { Flame, Thermometer, Activity, Camera, AlertCircle, Grid2X2, CupSoda, Github, ExternalLink, Printer, Video, Cpu, Clock, Lock, Fan } from "lucide-react"
 import { AnimatedGradientText } from "@/components/ui/animated-gradient-text"
 import { AnimatedShinyText } from "@/components/ui/animated-shiny-text"
 import { SparklesText } from "@/components/ui/sparkles-text"
@@ -13,16 +13,27 @@ import { AuroraText } from "@/components/ui/aurora-text"
 import { FaviconManager } from "@/components/favicon-manager"
 import { Confetti, type ConfettiRef } from "@/components/ui/confetti"
 import { usePrinterData } from "@/lib/hooks/use-printer-data"
+import { usePrinterId } from "@/lib/contexts/websocket-context"
+import { withPrinterId } from "@/lib/utils/api"
 import type { PrinterStatus, TemperatureHistory, LifetimeStats } from '@/lib/types'
 import type { ModuleSettings } from '@/lib/database'
 import { CameraComponent } from "@/components/camera-component"
 import { CircularProgress } from "@/components/ui/circular-progress"
 import { trackEvent } from "@/components/umami-analytics"
-import { formatTime, formatFilamentLength, formatLifetimeTime, formatFinishTime } from "@/lib/utils/formatting"
+import { formatTime, formatFilamentLength, formatLifetimeTime, formatFinishTime, formatEtaRange } from "@/lib/utils/formatting"
 import { ModuleRenderer } from "@/components/modules/module-renderer"
 
 import GuestbookCard from "@/components/guestbook-card"
+import PrintHistoryCard from "@/components/print-history-card"
+import TimelapseCard from "@/components/timelapse-card"
+import FailureDetectionCard from "@/components/failure-detection-card"
+import PrintQueueCard from "@/components/print-queue-card"
 import { SettingsControl } from "@/components/settings-control"
+import { PrintJobControls } from "@/components/print-job-controls"
+import { GcodeConsole } from "@/components/gcode-console"
+import { TemperatureControls } from "@/components/temperature-controls"
+import { MotionControls } from "@/components/motion-controls"
+import { getAdditionalTemperatures } from "@/lib/printer-objects"
 
 interface PrinterDashboardClientProps {
   initialStatus: PrinterStatus | null
@@ -44,6 +55,7 @@ export default function PrinterDashboardClient({
   enabledModules = []
 }: PrinterDashboardClientProps) {
   const { printerStatus: wsStatus, temperatureHistory, isConnected } = usePrinterData()
+  const printerId = usePrinterId()
   // Use WebSocket data if available, otherwise fall back to initial server-side data
   const printerStatus = wsStatus || initialStatus
   const [lifetimeStats, setLifetimeStats] = useState<LifetimeStats | null>(initialLifetimeStats)
@@ -136,7 +148,7 @@ export default function PrinterDashboardClient({
   useEffect(() => {
     const fetchLifetimeStats = async () => {
       try {
-        const response = await fetch('/api/printer/lifetime-stats', { cache: 'no-store' })
+        const response = await fetch(withPrinterId('/api/printer/lifetime-stats', printerId), { cache: 'no-store' })
         if (response.ok) {
           const lifetimeData = await response.json()
           setLifetimeStats(lifetimeData)
@@ -150,7 +162,7 @@ export default function PrinterDashboardClient({
     fetchLifetimeStats()
     const interval = setInterval(fetchLifetimeStats, 30000)
     return () => clearInterval(interval)
-  }, [])
+  }, [printerId])
 
   // Update lastUpdated when printer status changes
   useEffect(() => {
@@ -209,10 +221,16 @@ export default function PrinterDashboardClient({
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <span>{dashboardSubtitle}</span>
                   <span>•</span>
-                  <a href="/" className="hover:text-foreground transition-colors">Home</a>
+                  <a href={withPrinterId('/', printerId)} className="hover:text-foreground transition-colors">Home</a>
                   <span>•</span>
                   <a href="/config" className="hover:text-foreground transition-colors">Config</a>
                   <span>•</span>
+                  <a href={withPrinterId('/files', printerId)} className="hover:text-foreground transition-colors">Files</a>
+                  <span>•</span>
+                  <a href="/fleet" className="hover:text-foreground transition-colors">Fleet</a>
+                  <span>•</span>
+                  <a href="/recordings" className="hover:text-foreground transition-colors">Recordings</a>
+                  <span>•</span>
                   <a 
                     href="https://github.com/carmelosantana/s1pper-dashboard" 
                     target="_blank" 
@@ -269,6 +287,7 @@ export default function PrinterDashboardClient({
 
   const isPrinting = printerStatus.print.state === 'printing'
   const progress = Math.round(printerStatus.print.progress * 100)
+  const additionalTemperatures = getAdditionalTemperatures(printerStatus)
 
   // Format temperature data for the chart - memoized to prevent recreation
   const chartData = useMemo(() => {
@@ -309,10 +328,16 @@ export default function PrinterDashboardClient({
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <span>{dashboardSubtitle}</span>
                 <span>•</span>
-                <a href="/" className="hover:text-foreground transition-colors">Home</a>
+                <a href={withPrinterId('/', printerId)} className="hover:text-foreground transition-colors">Home</a>
                 <span>•</span>
                 <a href="/config" className="hover:text-foreground transition-colors">Config</a>
                 <span>•</span>
+                <a href={withPrinterId('/files', printerId)} className="hover:text-foreground transition-colors">Files</a>
+                <span>•</span>
+                <a href="/fleet" className="hover:text-foreground transition-colors">Fleet</a>
+                <span>•</span>
+                <a href="/recordings" className="hover:text-foreground transition-colors">Recordings</a>
+                <span>•</span>
                 <a 
                   href="https://github.com/carmelosantana/s1pper-dashboard" 
                   target="_blank" 
@@ -395,7 +420,12 @@ export default function PrinterDashboardClient({
                     </CardTitle>
                     {/* Finish Time Badge */}
                     {printerStatus.print.estimatedTimeLeft && (
-                      <Badge className="bg-purple-600/20 text-purple-300 border-purple-600/40 flex items-center gap-1">
+                      <Badge
+                        className="bg-purple-600/20 text-purple-300 border-purple-600/40 flex items-center gap-1"
+                        title={printerStatus.print.eta
+                          ? `Between ${formatFinishTime(printerStatus.print.eta.low)} and ${formatFinishTime(printerStatus.print.eta.high)}`
+                          : undefined}
+                      >
                         <Lock className="h-3 w-3" />
                         {formatFinishTime(printerStatus.print.estimatedTimeLeft)}
                       </Badge>
@@ -442,6 +472,11 @@ export default function PrinterDashboardClient({
                     <p className="font-mono">
                       {printerStatus.print.estimatedTimeLeft ? formatTime(printerStatus.print.estimatedTimeLeft) : '--'}
                     </p>
+                    {printerStatus.print.eta && printerStatus.print.eta.remaining > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatEtaRange(printerStatus.print.eta)} · {printerStatus.print.eta.confidence} confidence
+                      </p>
+                    )}
                   </div>
                   
                   {/* Row 3: Speed, Filament */}
@@ -466,6 +501,12 @@ export default function PrinterDashboardClient({
                     <p className="font-mono">{formatTime(printerStatus.print.printTime)}</p>
                   </div>
                 </div>
+
+                <PrintJobControls
+                  state={printerStatus.print.state}
+                  filename={printerStatus.print.filename}
+                  className="pt-2 border-t border-zinc-800"
+                />
               </CardContent>
             </Card>
 
@@ -514,6 +555,7 @@ export default function PrinterDashboardClient({
                     [{lastUpdated.toLocaleTimeString()}] System: {printerStatus.system.klippyState}
                   </p>
                 </div>
+                <GcodeConsole className="mt-4 pt-4 border-t border-zinc-800" />
               </CardContent>
             </Card>
 
@@ -643,6 +685,39 @@ export default function PrinterDashboardClient({
                   </div>
                 </div>
 
+                {/* Other heaters, sensors, fans and filament sensors discovered from Klipper */}
+                {(additionalTemperatures.length > 0 || (printerStatus.fans?.length ?? 0) > 0 || (printerStatus.filamentSensors?.length ?? 0) > 0) && (
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    {additionalTemperatures.map(sensor => (
+                      <div key={sensor.name} className="flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground truncate capitalize" title={sensor.name}>{sensor.label.replace(/_/g, ' ')}</span>
+                        <span className="font-mono">
+                          {sensor.actual}°C{sensor.target ? <span className="text-muted-foreground"> / {sensor.target}°C</span> : null}
+                        </span>
+                      </div>
+                    ))}
+                    {printerStatus.fans?.map(fan => (
+                      <div key={fan.name} className="flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground truncate capitalize flex items-center gap-1" title={fan.name}>
+                          <Fan className="h-3 w-3 shrink-0" />
+                          {fan.label === 'fan' ? 'Part fan' : fan.label.replace(/_/g, ' ')}
+                        </span>
+                        <span className="font-mono">
+                          {Math.round(fan.speed * 100)}%{fan.rpm !== null && <span className="text-muted-foreground"> {fan.rpm} rpm</span>}
+                        </span>
+                      </div>
+                    ))}
+                    {printerStatus.filamentSensors?.map(sensor => (
+                      <div key={sensor.name} className="flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground truncate capitalize" title={sensor.name}>{sensor.label.replace(/_/g, ' ')}</span>
+                        <span className={`font-mono ${!sensor.enabled ? 'text-muted-foreground' : sensor.detected ? 'text-green-400' : 'text-red-400'}`}>
+                          {!sensor.enabled ? 'Disabled' : sensor.detected ? 'Filament' : 'Runout'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Temperature Chart */}
                 <div className="h-[300px] w-full">
                   <ResponsiveContainer width="100%" height="100%">
@@ -686,6 +761,8 @@ export default function PrinterDashboardClient({
               </CardContent>
             </Card>
 
+            <TemperatureControls status={printerStatus} />
+
             {/* Tool */}
             <Card className="bg-zinc-950 border-zinc-800">
               <CardHeader className="pb-3">
@@ -716,6 +793,20 @@ export default function PrinterDashboardClient({
               </CardContent>
             </Card>
 
+            <MotionControls status={printerStatus} />
+
+            {/* Print Queue */}
+            <PrintQueueCard className="bg-zinc-950 border-zinc-800" />
+
+            {/* Print History */}
+            <PrintHistoryCard className="bg-zinc-950 border-zinc-800" />
+
+            {/* Failure Detection */}
+            <FailureDetectionCard className="bg-zinc-950 border-zinc-800" />
+
+            {/* Timelapses */}
+            <TimelapseCard className="bg-zinc-950 border-zinc-800" />
+
             {/* Guestbook */}
             <GuestbookCard className="bg-zinc-950 border-zinc-800" />
 
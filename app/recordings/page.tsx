@@ -0,0 +1,64 @@
+import { redirect } from 'next/navigation'
+import { Video, Home, User } from "lucide-react"
+import { RecordingViewer } from '@/components/recording-viewer'
+import { SignOutButton } from '@/components/sign-out-button'
+import { getCurrentUser } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export default async function RecordingsPage({
+  searchParams
+}: {
+  searchParams: Promise<{ printerId?: string | string[]; time?: string | string[] }>
+}) {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect('/login?next=/recordings')
+  }
+
+  // ?printerId=&time= opens a printer's recording at a moment (ms since epoch)
+  const { printerId, time } = await searchParams
+  const initialPrinterId = typeof printerId === 'string' ? parseInt(printerId, 10) || undefined : undefined
+  const initialTime = typeof time === 'string' ? parseInt(time, 10) || undefined : undefined
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <Video className="h-8 w-8 text-cyan-500" />
+              Recordings
+            </h1>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <a href="/" className="hover:text-foreground transition-colors flex items-center gap-1">
+                <Home className="h-4 w-4" />
+                Home
+              </a>
+              <span>•</span>
+              <a href="/files" className="hover:text-foreground transition-colors">Files</a>
+              <span>•</span>
+              <a href="/fleet" className="hover:text-foreground transition-colors">Fleet</a>
+              <span>•</span>
+              <span className="text-foreground">Recordings</span>
+            </div>
+          </div>
+          <p className="text-muted-foreground">
+            Scrub back through continuous camera recordings and download clips
+          </p>
+          <div className="mt-2 flex items-center gap-2">
+            <div className="px-3 py-1.5 bg-cyan-600/10 border border-cyan-600/20 rounded-md inline-flex items-center gap-2 text-sm text-cyan-500">
+              <User className="h-4 w-4" />
+              Signed in as {user.username} ({user.role})
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+
+        <RecordingViewer initialPrinterId={initialPrinterId} initialTime={initialTime} />
+      </div>
+    </div>
+  )
+}
@@ -1,36 +1,46 @@
-"use client"
-
-import { useState, useEffect } from 'react'
-import { redirect } from 'next/navigation'
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Settings as SettingsIcon, Home } from "lucide-react"
+import { notFound, redirect } from 'next/navigation'
+import { Settings as SettingsIcon, Home, ShieldAlert, User } from "lucide-react"
 import SettingsCard from '@/components/settings-card'
+import { SignOutButton } from '@/components/sign-out-button'
+import { getCurrentUser } from '@/lib/auth'
+import { hasRole } from '@/lib/permissions'
+import { resolvePrinterId } from '@/lib/printers'
+
+export const dynamic = 'force-dynamic'
 
-export default function SettingsPage() {
-  const [isAuthorized, setIsAuthorized] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
+export default async function SettingsPage({
+  searchParams
+}: {
+  searchParams: Promise<{ printerId?: string | string[] }>
+}) {
+  // ?printerId= points the printer controls at another printer, e.g. from the fleet page
+  const { printerId } = await searchParams
+  const selectedId = typeof printerId === 'string' ? printerId : undefined
+  const query = selectedId ? `?printerId=${encodeURIComponent(selectedId)}` : ''
 
-  useEffect(() => {
-    // Check if we're in development mode
-    const isDevelopment = process.env.NODE_ENV === 'development'
-    
-    if (!isDevelopment) {
-      // Redirect to home if not in development
-      redirect('/')
-    } else {
-      setIsAuthorized(true)
-    }
-    
-    setIsLoading(false)
-  }, [])
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect(`/login?next=${encodeURIComponent(`/settings${query}`)}`)
+  }
 
-  if (isLoading) {
+  if (!hasRole(user, 'admin')) {
     return (
       <div className="min-h-screen bg-black text-white">
         <div className="container mx-auto px-6 py-8 max-w-7xl">
           <div className="flex items-center justify-center h-64">
-            <div className="text-center">
-              <p className="text-muted-foreground">Loading...</p>
+            <div className="text-center space-y-3">
+              <ShieldAlert className="h-10 w-10 text-amber-500 mx-auto" />
+              <p className="text-muted-foreground">
+                Signed in as {user.username} ({user.role}). Settings require an admin account.
+              </p>
+              <div className="flex items-center justify-center gap-2">
+                <a href="/" className="text-sm hover:text-foreground transition-colors flex items-center gap-1 text-muted-foreground">
+                  <Home className="h-4 w-4" />
+                  Home
+                </a>
+                <SignOutButton />
+              </div>
             </div>
           </div>
         </div>
@@ -38,8 +48,9 @@ export default function SettingsPage() {
     )
   }
 
-  if (!isAuthorized) {
-    return null // Will redirect
+  const printer = selectedId ? await resolvePrinterId(selectedId) : null
+  if (selectedId && !printer) {
+    notFound()
   }
 
   return (
@@ -62,20 +73,29 @@ export default function SettingsPage() {
               <span>•</span>
               <a href="/config" className="hover:text-foreground transition-colors">Config</a>
               <span>•</span>
+              <a href="/files" className="hover:text-foreground transition-colors">Files</a>
+              <span>•</span>
+              <a href="/fleet" className="hover:text-foreground transition-colors">Fleet</a>
+              <span>•</span>
+              <a href="/recordings" className="hover:text-foreground transition-colors">Recordings</a>
+              <span>•</span>
               <span className="text-foreground">Settings</span>
             </div>
           </div>
           <p className="text-muted-foreground">
             Configure your dashboard settings, video feed, and streaming options
           </p>
-          <div className="mt-2 px-3 py-1.5 bg-amber-600/10 border border-amber-600/20 rounded-md inline-flex items-center gap-2 text-sm text-amber-500">
-            <SettingsIcon className="h-4 w-4" />
-            Development Mode Only
+          <div className="mt-2 flex items-center gap-2">
+            <div className="px-3 py-1.5 bg-cyan-600/10 border border-cyan-600/20 rounded-md inline-flex items-center gap-2 text-sm text-cyan-500">
+              <User className="h-4 w-4" />
+              Signed in as {user.username} ({user.role})
+            </div>
+            <SignOutButton />
           </div>
         </div>
 
         {/* Settings Card */}
-        <SettingsCard />
+        <SettingsCard currentUserId={user.id} printerId={printer?.id} />
       </div>
     </div>
   )
@@ -6,6 +6,7 @@ import { Activity, Thermometer } from 'lucide-react'
 import { FaviconManager } from '@/components/favicon-manager'
 import { MultiCameraStream } from '@/components/multi-camera-stream'
 import { usePrinterData } from '@/lib/hooks/use-printer-data'
+import { formatEtaRange } from '@/lib/utils/formatting'
 import type { PrinterStatus, TemperatureHistory } from '@/lib/types'
 
 interface StreamViewClientProps {
@@ -207,6 +208,9 @@ export default function StreamViewClient({
                 <div>
                   <p className="text-gray-400 text-xs">Remaining</p>
                   <p className="text-white font-mono">{formatTime(printerStatus.print.estimatedTimeLeft)}</p>
+                  {printerStatus.print.eta && printerStatus.print.eta.confidence !== 'high' && (
+                    <p className="text-gray-500 text-xs font-mono">{formatEtaRange(printerStatus.print.eta)}</p>
+                  )}
                 </div>
                 <div>
                   <p className="text-gray-400 text-xs">Finish</p>
@@ -1,10 +1,14 @@
 import { Suspense } from "react"
 import type { Metadata } from "next"
+import { notFound } from "next/navigation"
 import TaskManagerClient from "./taskmanager-client"
 import { getDashboardSettings } from "@/lib/database"
 import { fetchPrinterData } from "@/lib/fetch-printer-data"
+import { resolvePrinterId } from "@/lib/printers"
+import { WebSocketProvider } from "@/lib/contexts/websocket-context"
 import { getBaseUrl } from "@/lib/utils/environment"
-import type { SystemStats, SystemInfo } from "@/app/api/printer/system-stats/route"
+import { withPrinterId } from "@/lib/utils/api"
+import type { SystemStats, SystemInfo } from "@/lib/system-stats"
 
 // Page metadata
 export const metadata: Metadata = {
@@ -33,10 +37,10 @@ function ViewSkeleton() {
   )
 }
 
-async function fetchSystemStats(): Promise<{ stats: SystemStats | null; info: SystemInfo | null }> {
+async function fetchSystemStats(printerId?: number): Promise<{ stats: SystemStats | null; info: SystemInfo | null }> {
   try {
     const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}/api/printer/system-stats`, {
+    const response = await fetch(withPrinterId(`${baseUrl}/api/printer/system-stats`, printerId), {
       cache: 'no-store',
       next: { revalidate: 0 }
     })
@@ -53,14 +57,26 @@ async function fetchSystemStats(): Promise<{ stats: SystemStats | null; info: Sy
   }
 }
 
-export default async function TaskManagerPage() {
+export default async function TaskManagerPage({
+  searchParams
+}: {
+  searchParams: Promise<{ printerId?: string | string[] }>
+}) {
+  // ?printerId= monitors another printer, e.g. from the fleet page
+  const { printerId } = await searchParams
+  const selectedId = typeof printerId === 'string' ? printerId : undefined
+  const printer = selectedId ? await resolvePrinterId(selectedId) : null
+  if (selectedId && !printer) {
+    notFound()
+  }
+
   const [printerData, systemData, dashboardSettings] = await Promise.all([
-    fetchPrinterData(),
-    fetchSystemStats(),
+    fetchPrinterData(printer?.id),
+    fetchSystemStats(printer?.id),
     getDashboardSettings()
   ])
 
-  return (
+  const taskManager = (
     <Suspense fallback={<ViewSkeleton />}>
       <TaskManagerClient
         initialStatus={printerData.status}
@@ -69,4 +85,11 @@ export default async function TaskManagerPage() {
       />
     </Suspense>
   )
+
+  // The layout's connection streams the default printer; a selected one gets its own
+  return printer ? (
+    <WebSocketProvider key={printer.id} printerId={printer.id}>
+      {taskManager}
+    </WebSocketProvider>
+  ) : taskManager
 }
@@ -3,19 +3,27 @@
 import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
 import { Minus, Maximize2, X, ChevronDown, Camera, Plus, Trash2, GripVertical, Download } from 'lucide-react'
 import { usePrinterData } from '@/lib/hooks/use-printer-data'
-import { usePrintStatus } from '@/lib/contexts/websocket-context'
+import { usePrintStatus, usePrinterId } from '@/lib/contexts/websocket-context'
 import { useLocalStorageState } from '@/lib/hooks/use-local-storage'
 import { useInterval } from '@/lib/hooks/use-interval'
+import { useSession } from '@/lib/hooks/use-session'
+import { hasRole } from '@/lib/permissions'
+import { requestConfirmationToken, performDestructiveAction } from '@/lib/utils/printer-control'
+import { withPrinterId } from '@/lib/utils/api'
+import { sendPrintJobAction, type PrintJobAction } from '@/lib/print-job'
 import { XPTabButton, XP_COLORS, XPDialog, XPButton, getXPColors } from '@/components/ui/xp-components'
 import { KlipperTab } from '@/components/taskmanager/klipper-tab'
 import { ModelTab } from '@/components/taskmanager/model-tab'
 import { ApplicationsTab, ProcessesTab, NetworkingTab, UsersTab } from '@/components/taskmanager/tabs'
 import { getDataboxDisplayName } from '@/lib/utils/taskmanager-utils'
+import { formatEtaRange } from '@/lib/utils/formatting'
 import { FloatingCameraManager, DockedCameraManager, type CameraWindowConfig } from '@/components/ui/camera-window-manager'
+import { getCameraTransform } from '@/lib/camera-processing'
 import type { PrinterStatus, WebcamConfig, LifetimeStats, GcodeMetadata } from '@/lib/types'
-import type { SystemStats, SystemInfo } from '@/app/api/printer/system-stats/route'
+import type { SystemStats, SystemInfo } from '@/lib/system-stats'
 import type { GrowTentStatus } from '@/lib/grow-tent-types'
 import { GrowTentClient } from '@/lib/grow-tent-client'
+import { getAdditionalTemperatures } from '@/lib/printer-objects'
 
 // Local storage keys
 const SNAPSHOT_CAMERAS_KEY = 'taskmanager_snapshot_cameras'
@@ -47,13 +55,13 @@ const AUTO_REFRESH_ENABLED_KEY = 'taskmanager_auto_refresh_enabled'
 const AUTO_REFRESH_INTERVAL_KEY = 'taskmanager_auto_refresh_interval'
 
 // Type definitions
-type DataboxType = 'model-preview' | 'print-job' | 'temperatures' | 'console' | 'system' | 'uptime' | 'lifetime' | 'grow-tent'
+type DataboxType = 'model-preview' | 'print-job' | 'temperatures' | 'console' | 'system' | 'uptime' | 'lifetime' | 'print-queue' | 'grow-tent'
 type VideoSize = 'responsive' | 'small' | 'medium' | 'large'
 type SnapshotPlacement = 'above' | 'below' | 'databoxes' | 'floating' | 'docked-above' | 'docked-below'
 type TabType = 'klipper' | 'model' | 'applications' | 'processes' | 'networking' | 'users'
 type BackgroundImage = 'win-01' | 'win-02'
 
-const DEFAULT_DATABOX_ORDER: DataboxType[] = ['model-preview', 'print-job', 'temperatures', 'system', 'uptime', 'lifetime', 'grow-tent']
+const DEFAULT_DATABOX_ORDER: DataboxType[] = ['model-preview', 'print-job', 'temperatures', 'print-queue', 'system', 'uptime', 'lifetime', 'grow-tent']
 
 // Helper function to map printer state to favicon suffix
 const getFaviconSuffix = (printState: string): string => {
@@ -224,12 +232,14 @@ export default function TaskManagerClient({
 }: TaskManagerClientProps) {
   const { printerStatus, isConnected } = usePrinterData()
   const { display_status } = usePrintStatus()
+  const printerId = usePrinterId()
   const [activeTab, setActiveTab] = useState<TabType>('klipper')
   const [systemStats, setSystemStats] = useState<SystemStats | null>(initialSystemStats)
   const [systemInfo] = useState<SystemInfo | null>(initialSystemInfo)
   
   // Dialog states
   const [showShutdownDialog, setShowShutdownDialog] = useState(false)
+  const [shutdownToken, setShutdownToken] = useState<string | null>(null)
   const [showViewMenu, setShowViewMenu] = useState(false)
   const [showOptionsMenu, setShowOptionsMenu] = useState(false)
   const [showChromaDialog, setShowChromaDialog] = useState(false)
@@ -374,8 +384,10 @@ export default function TaskManagerClient({
   const [growTentStatus, setGrowTentStatus] = useState<GrowTentStatus | null>(null)
   const [growTentClient] = useState(() => new GrowTentClient(growTentApiUrl))
   
-  // Check if we're in development mode
-  const isDevelopment = process.env.NODE_ENV === 'development'
+  // Host shutdown and job control are only offered to signed-in operators
+  const { user } = useSession()
+  const isOperator = hasRole(user, 'operator')
+  const [pendingJobAction, setPendingJobAction] = useState<PrintJobAction | null>(null)
   
   // History for graphs (keep last 60 data points for ~1 minute of history)
   const [extruderHistory, setExtruderHistory] = useState<number[]>(() => new Array(60).fill(0))
@@ -408,17 +420,20 @@ export default function TaskManagerClient({
     filename: liveStatus?.print.filename || 'No active print',
     printTime: liveStatus?.print.printTime || 0,
     estimatedTimeLeft: liveStatus?.print.estimatedTimeLeft || 0,
+    etaRange: liveStatus?.print.eta ? formatEtaRange(liveStatus.print.eta) : null,
     filamentUsed: liveStatus?.print.filamentUsed || 0,
     currentLayer: liveStatus?.print.currentLayer || 0,
     totalLayers: liveStatus?.print.totalLayers || 0,
     currentSpeed: liveStatus?.speeds?.current || 0,
+    additionalTemperatures: liveStatus ? getAdditionalTemperatures(liveStatus) : [],
+    fans: (liveStatus?.fans || []).map(({ name, label, speed }) => ({ name, label, speed })),
   }), [liveStatus])
   
   // Fetch system stats periodically using custom hook
   useInterval(
     useCallback(async () => {
       try {
-        const response = await fetch('/api/printer/system-stats')
+        const response = await fetch(withPrinterId('/api/printer/system-stats', printerId))
         if (response.ok) {
           const data = await response.json()
           setSystemStats(data.stats)
@@ -441,7 +456,7 @@ export default function TaskManagerClient({
       } catch (error) {
         console.error('Failed to fetch system stats:', error)
       }
-    }, []),
+    }, [printerId]),
     2000,
     { immediate: true }
   )
@@ -474,7 +489,7 @@ export default function TaskManagerClient({
   useInterval(
     useCallback(async () => {
       try {
-        const response = await fetch('/api/printer/lifetime-stats')
+        const response = await fetch(withPrinterId('/api/printer/lifetime-stats', printerId))
         if (response.ok) {
           const data = await response.json()
           setLifetimeStats(data)
@@ -482,7 +497,7 @@ export default function TaskManagerClient({
       } catch (error) {
         console.error('Failed to fetch lifetime stats:', error)
       }
-    }, []),
+    }, [printerId]),
     30000,
     { immediate: true }
   )
@@ -528,7 +543,7 @@ export default function TaskManagerClient({
   useEffect(() => {
     const fetchWebcams = async () => {
       try {
-        const response = await fetch('/api/camera/data')
+        const response = await fetch(withPrinterId('/api/camera/data', printerId))
         if (response.ok) {
           const data = await response.json()
           if (data.webcams) {
@@ -540,7 +555,7 @@ export default function TaskManagerClient({
       }
     }
     fetchWebcams()
-  }, [])
+  }, [printerId])
 
   // Fetch model thumbnail and metadata when print is active
   useEffect(() => {
@@ -554,7 +569,7 @@ export default function TaskManagerClient({
       
       setIsLoadingMetadata(true)
       try {
-        const response = await fetch(`/api/printer/file-metadata?filename=${encodeURIComponent(currentFilename)}`)
+        const response = await fetch(withPrinterId(`/api/printer/file-metadata?filename=${encodeURIComponent(currentFilename)}`, printerId))
         if (response.ok) {
           const data: GcodeMetadata = await response.json()
           setModelMetadata(data)
@@ -563,7 +578,7 @@ export default function TaskManagerClient({
             const sortedThumbnails = [...data.thumbnails].sort((a, b) => b.width - a.width)
             const thumbnail = sortedThumbnails[0]
             if (thumbnail.relative_path) {
-              setModelThumbnail(`/api/printer/thumbnail?path=${encodeURIComponent(thumbnail.relative_path)}`)
+              setModelThumbnail(withPrinterId(`/api/printer/thumbnail?path=${encodeURIComponent(thumbnail.relative_path)}`, printerId))
             }
           } else {
             setModelThumbnail(null)
@@ -579,7 +594,7 @@ export default function TaskManagerClient({
     }
     
     fetchModelData()
-  }, [printerStatus?.print?.filename, initialStatus?.print?.filename])
+  }, [printerStatus?.print?.filename, initialStatus?.print?.filename, printerId])
 
   // Check if there's an active print job (for enabling/disabling Model tab and Download)
   const hasActivePrint = useMemo(() => {
@@ -688,25 +703,50 @@ export default function TaskManagerClient({
     setModelPreviewDarkBg(prev => !prev)
   }, [setModelPreviewDarkBg])
 
+  // Request a confirmation token as soon as the dialog opens
+  const openShutdownDialog = useCallback(async () => {
+    if (!isOperator) return
+
+    setShutdownToken(null)
+    setShowShutdownDialog(true)
+    try {
+      setShutdownToken(await requestConfirmationToken('shutdown', printerId))
+    } catch (error) {
+      console.error('Shutdown confirmation error:', error)
+      setShowShutdownDialog(false)
+      alert('Failed to confirm shutdown')
+    }
+  }, [isOperator, printerId])
+
+  const handleJobAction = useCallback(async (action: PrintJobAction) => {
+    if (!isOperator) return
+
+    setPendingJobAction(action)
+    try {
+      await sendPrintJobAction(action, undefined, printerId)
+    } catch (error) {
+      console.error(`Print ${action} error:`, error)
+      alert(error instanceof Error ? error.message : `Failed to ${action} print`)
+    } finally {
+      setPendingJobAction(null)
+    }
+  }, [isOperator, printerId])
+
   const handleEmergencyShutdown = useCallback(async () => {
-    if (!isDevelopment) return
+    if (!isOperator || !shutdownToken) return
     
     setIsShuttingDown(true)
     try {
-      const response = await fetch('/api/printer/emergency-stop', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'shutdown' })
-      })
-      if (!response.ok) throw new Error('Shutdown failed')
+      await performDestructiveAction('shutdown', shutdownToken, printerId)
       setShowShutdownDialog(false)
     } catch (error) {
       console.error('Shutdown error:', error)
-      alert('Failed to emergency stop printer')
+      alert('Failed to shut down printer')
     } finally {
+      setShutdownToken(null)
       setIsShuttingDown(false)
     }
-  }, [isDevelopment])
+  }, [isOperator, shutdownToken, printerId])
 
   // Close menus when clicking outside
   const handleCloseMenus = useCallback(() => {
@@ -772,6 +812,7 @@ export default function TaskManagerClient({
         type: 'video' as const,
         fps: 30, // Live video feed
         aspectRatio: camera.aspect_ratio || '16:9',
+        transform: getCameraTransform(camera),
       }
     }).filter(Boolean) as CameraWindowConfig[]
   }, [selectedVideoCameras, availableWebcams])
@@ -1304,11 +1345,11 @@ export default function TaskManagerClient({
         onClose={() => setShowShutdownDialog(false)}
       >
         <p className="text-[11px] text-black mb-3">
-          Are you sure you want to emergency stop the printer?
+          Are you sure you want to shut down the printer host?
         </p>
         <div className="flex justify-end gap-2">
           <XPButton onClick={() => setShowShutdownDialog(false)}>Cancel</XPButton>
-          <XPButton variant="danger" disabled={isShuttingDown} onClick={handleEmergencyShutdown}>
+          <XPButton variant="danger" disabled={isShuttingDown || !shutdownToken} onClick={handleEmergencyShutdown}>
             {isShuttingDown ? 'Stopping...' : 'Shut Down'}
           </XPButton>
         </div>
@@ -1597,10 +1638,10 @@ export default function TaskManagerClient({
           </div>
           
           <span 
-            className={`px-2 py-0.5 cursor-default ${isDevelopment ? 'hover:bg-[#316AC5] hover:text-white' : ''}`}
-            style={{ color: isDevelopment ? colors.labelText : colors.border }}
-            onClick={() => isDevelopment && setShowShutdownDialog(true)}
-            title={isDevelopment ? 'Shut down the printer host' : 'Shutdown disabled in production'}
+            className={`px-2 py-0.5 cursor-default ${isOperator ? 'hover:bg-[#316AC5] hover:text-white' : ''}`}
+            style={{ color: isOperator ? colors.labelText : colors.border }}
+            onClick={openShutdownDialog}
+            title={isOperator ? 'Shut down the printer host' : 'Sign in as an operator to shut down'}
           >
             Shut Down
           </span>
@@ -1690,6 +1731,9 @@ export default function TaskManagerClient({
                   printProgress={printerValues.printProgress}
                   currentLayer={printerValues.currentLayer}
                   totalLayers={printerValues.totalLayers}
+                  canControl={isOperator}
+                  pendingAction={pendingJobAction}
+                  onJobAction={handleJobAction}
                 />
               )}
               {activeTab === 'processes' && (
@@ -6,6 +6,7 @@ import { Activity, Thermometer, Clock, Zap, Layers } from 'lucide-react'
 import { FaviconManager } from '@/components/favicon-manager'
 import { MultiCameraStream } from '@/components/multi-camera-stream'
 import { usePrinterData } from '@/lib/hooks/use-printer-data'
+import { formatEtaRange } from '@/lib/utils/formatting'
 import type { PrinterStatus, TemperatureHistory } from '@/lib/types'
 
 interface VerticalStreamClientProps {
@@ -351,6 +352,9 @@ export default function VerticalStreamClient({
                   <div>
                     <p className="text-gray-400 text-base mb-2">Left</p>
                     <p className="text-white font-mono font-bold text-xl">{formatTime(printerStatus.print.estimatedTimeLeft)}</p>
+                    {printerStatus.print.eta && printerStatus.print.eta.confidence !== 'high' && (
+                      <p className="text-gray-500 text-sm font-mono">{formatEtaRange(printerStatus.print.eta)}</p>
+                    )}
                   </div>
                   <div>
                     <p className="text-gray-400 text-base mb-2">Finish</p>
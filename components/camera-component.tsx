@@ -7,6 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Confetti, type ConfettiRef } from '@/components/ui/confetti';
 import { Video, Camera } from 'lucide-react';
 import type { DashboardSettings, WebcamConfig } from '@/lib/types';
+import { getCameraTransform } from '@/lib/camera-processing';
+import { usePrinterId } from '@/lib/contexts/websocket-context';
+import { withPrinterId } from '@/lib/utils/api';
 
 interface CameraComponentProps {
   className?: string;
@@ -15,6 +18,7 @@ interface CameraComponentProps {
 }
 
 export function CameraComponent({ className, onPrintComplete = false }: CameraComponentProps) {
+  const printerId = usePrinterId();
   const [cameraInfo, setCameraInfo] = useState<any>(null);
   const [detectedResolution, setDetectedResolution] = useState<any>(null);
   const [streamError, setStreamError] = useState(false);
@@ -38,7 +42,7 @@ export function CameraComponent({ className, onPrintComplete = false }: CameraCo
     const fetchData = async () => {
       try {
         const [cameraDataResponse, settingsResponse] = await Promise.all([
-          fetch(selectedCameraUid ? `/api/camera/data?uid=${selectedCameraUid}` : '/api/camera/data'),
+          fetch(withPrinterId(selectedCameraUid ? `/api/camera/data?uid=${selectedCameraUid}` : '/api/camera/data', printerId)),
           fetch('/api/settings')
         ]);
 
@@ -84,7 +88,8 @@ export function CameraComponent({ className, onPrintComplete = false }: CameraCo
     };
 
     fetchData();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [printerId]);
 
   useEffect(() => {
     if (onPrintComplete && confettiRef.current) {
@@ -164,6 +169,7 @@ export function CameraComponent({ className, onPrintComplete = false }: CameraCo
   }
 
   const shouldShowVideo = settings?.video_feed_enabled !== false && settings?.visibility_mode !== 'private';
+  const selectedWebcam = webcams.find(w => w.uid === selectedCameraUid);
 
   return (
     <Card className={className}>
@@ -225,9 +231,10 @@ export function CameraComponent({ className, onPrintComplete = false }: CameraCo
                 >
                   {shouldShowVideo ? (
                     <img
-                      src={`/api/camera/stream?uid=${cam.uid}`}
+                      src={withPrinterId(`/api/camera/stream?uid=${cam.uid}`, printerId)}
                       alt={`${cam.name} stream`}
                       className="w-full h-full object-cover"
+                      style={{ transform: getCameraTransform(cam) }}
                       onError={() => setStreamError(true)}
                     />
                   ) : (
@@ -265,9 +272,10 @@ export function CameraComponent({ className, onPrintComplete = false }: CameraCo
             <>
               <img
                 ref={imgRef}
-                src={selectedCameraUid ? `/api/camera/stream?uid=${selectedCameraUid}` : '/api/camera/stream'}
+                src={withPrinterId(selectedCameraUid ? `/api/camera/stream?uid=${selectedCameraUid}` : '/api/camera/stream', printerId)}
                 alt="Camera stream"
                 className="absolute inset-0 w-full h-full object-cover"
+                style={{ transform: selectedWebcam && getCameraTransform(selectedWebcam) }}
                 onLoad={() => setStreamError(false)}
                 onError={() => setStreamError(true)}
               />
@@ -0,0 +1,86 @@
+'use client'
+
+/**
+ * Control Audit Log Component
+ *
+ * Shows who triggered printer control actions and when
+ */
+
+import { useState, useEffect } from 'react'
+import { Loader2, CheckCircle2, XCircle } from 'lucide-react'
+import type { ControlAuditEntry } from '@/lib/printer-control'
+
+const ACTION_LABELS: Record<ControlAuditEntry['action'], string> = {
+  emergency_stop: 'Emergency stop',
+  shutdown: 'Host shutdown',
+  firmware_restart: 'Firmware restart',
+  klipper_restart: 'Klipper restart',
+  moonraker_restart: 'Moonraker restart',
+  print_pause: 'Print paused',
+  print_resume: 'Print resumed',
+  print_cancel: 'Print cancelled',
+  print_start: 'Print started',
+  gcode_script: 'G-code sent',
+  motion: 'Motion',
+  print_queue: 'Print queue'
+}
+
+interface ControlAuditLogProps {
+  limit?: number
+  refreshKey?: number
+}
+
+export function ControlAuditLog({ limit = 10, refreshKey = 0 }: ControlAuditLogProps) {
+  const [entries, setEntries] = useState<ControlAuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        const response = await fetch(`/api/printer/audit?limit=${limit}`)
+        if (!response.ok) throw new Error('Failed to fetch audit log')
+        const data = await response.json()
+        setEntries(data.entries || [])
+      } catch (err) {
+        console.error(err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchEntries()
+  }, [limit, refreshKey])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No control actions recorded yet</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center justify-between text-xs py-1 border-b border-zinc-900 last:border-0">
+          <div className="flex items-center gap-2">
+            {entry.success ? (
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+            ) : (
+              <XCircle className="h-3.5 w-3.5 text-red-500" />
+            )}
+            <span className="font-medium">{ACTION_LABELS[entry.action] || entry.action}</span>
+            <span className="text-muted-foreground">by {entry.username}</span>
+          </div>
+          <span className="text-muted-foreground" title={entry.message || undefined}>
+            {new Date(entry.created_at).toLocaleString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip } from "recharts"
+import { ScanEye, Camera, Pause } from "lucide-react"
+import { useInterval } from "@/lib/hooks/use-interval"
+import { usePrinterId } from "@/lib/contexts/websocket-context"
+import { withPrinterId } from "@/lib/utils/api"
+import { formatTimeAgo, formatAbsoluteTime } from "@/lib/guestbook"
+import {
+  FAILURE_DETECTOR_STATE_LABELS,
+  type FailureDetectionResponse,
+  type FailureDetectorState
+} from "@/lib/failure-detection"
+
+interface FailureDetectionCardProps {
+  className?: string
+}
+
+const REFRESH_INTERVAL_MS = 15000
+
+const CAMERA_COLORS = ['#06B6D4', '#E879F9', '#F59E0B', '#22C55E']
+
+const STATE_STYLES: Record<FailureDetectorState, string> = {
+  idle: 'bg-zinc-600/10 text-zinc-400 border-zinc-600/60',
+  warming_up: 'bg-amber-600/10 text-amber-500 border-amber-600/60',
+  watching: 'bg-green-600/10 text-green-500 border-green-600/60',
+  alerted: 'bg-red-600/10 text-red-500 border-red-600/60'
+}
+
+const formatChartTime = (time: number) => {
+  const date = new Date(time)
+  return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`
+}
+
+export default function FailureDetectionCard({ className }: FailureDetectionCardProps) {
+  const [data, setData] = useState<FailureDetectionResponse | null>(null)
+  const [cameraNames, setCameraNames] = useState<Record<string, string>>({})
+  const [isAvailable, setIsAvailable] = useState<boolean | null>(null)
+  const printerId = usePrinterId()
+
+  const fetchScores = async () => {
+    try {
+      const response = await fetch(withPrinterId('/api/failure-detection', printerId), { cache: 'no-store' })
+
+      if (response.status === 401 || response.status === 403) {
+        // Scores are only shown to signed-in users
+        setIsAvailable(false)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch failure detection scores: ${response.status}`)
+      }
+
+      setData(await response.json())
+      setIsAvailable(true)
+    } catch (error) {
+      console.error('Error fetching failure detection scores:', error)
+    }
+  }
+
+  useInterval(fetchScores, REFRESH_INTERVAL_MS, { immediate: true })
+
+  // Scores are keyed by camera uid; show the names Moonraker has for them
+  useEffect(() => {
+    fetch(withPrinterId('/api/camera/webcams', printerId))
+      .then(response => response.ok ? response.json() : { webcams: [] })
+      .then(result => {
+        setCameraNames(Object.fromEntries((result.webcams || []).map((webcam: { uid: string; name: string }) => [webcam.uid, webcam.name])))
+      })
+      .catch(() => {})
+  }, [printerId])
+
+  // Nothing to show until detection is turned on or has something to report
+  if (!isAvailable || !data || (!data.enabled && data.cameras.length === 0 && data.alerts.length === 0)) {
+    return null
+  }
+
+  const cameraName = (uid: string) => cameraNames[uid] || uid
+
+  // Cameras are checked in the same pass, so their scores share timestamps
+  const points = new Map<number, Record<string, number>>()
+  for (const camera of data.cameras) {
+    for (const score of camera.scores) {
+      points.set(score.time, { ...points.get(score.time), time: score.time, [camera.uid]: score.score })
+    }
+  }
+  const chartData = [...points.values()].sort((a, b) => a.time - b.time)
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <ScanEye className="h-5 w-5 text-cyan-500" />
+            Failure Detection
+          </CardTitle>
+          <div className="flex flex-wrap justify-end gap-1">
+            {data.cameras.map(camera => (
+              <Badge key={camera.uid} className={`shadow-none rounded-full text-[10px] px-2 py-0 ${STATE_STYLES[camera.state]}`}>
+                {cameraName(camera.uid)}: {FAILURE_DETECTOR_STATE_LABELS[camera.state]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        {data.filename && (
+          <p className="text-xs text-muted-foreground truncate">{data.filename}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {chartData.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {data.enabled ? 'Scores appear a few checks into the next print' : 'Failure detection is turned off'}
+          </p>
+        ) : (
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatChartTime}
+                  stroke="#9CA3AF"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fontFamily: 'var(--font-roboto-mono)' }}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  stroke="#9CA3AF"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  width={32}
+                  tick={{ fontFamily: 'var(--font-roboto-mono)' }}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#09090b', border: '1px solid #27272a', fontSize: 12 }}
+                  labelFormatter={(time) => formatChartTime(Number(time))}
+                />
+                <ReferenceLine y={data.threshold} stroke="#EF4444" strokeDasharray="4 4" />
+                {data.cameras.map((camera, index) => (
+                  <Line
+                    key={camera.uid}
+                    type="monotone"
+                    dataKey={camera.uid}
+                    stroke={CAMERA_COLORS[index % CAMERA_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                    name={cameraName(camera.uid)}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {data.alerts.map(alert => (
+          <div key={alert.id} className="flex items-center gap-3 p-2 rounded-md border border-zinc-900">
+            <a href={alert.snapshot_url} target="_blank" rel="noopener noreferrer" title="Snapshot that raised the alert">
+              <img
+                src={alert.snapshot_url}
+                alt=""
+                className="h-12 w-16 rounded object-cover bg-zinc-900"
+                loading="lazy"
+              />
+            </a>
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{alert.filename || 'Unknown file'}</p>
+                {alert.paused && (
+                  <Badge className="shadow-none rounded-full text-[10px] px-2 py-0 bg-amber-600/10 text-amber-500 border-amber-600/60">
+                    <Pause className="h-3 w-3 mr-1" />
+                    paused
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground flex items-center gap-1" title={formatAbsoluteTime(alert.created_at)}>
+                <Camera className="h-3 w-3" />
+                {cameraName(alert.camera_uid)} • score {alert.score} • {formatTimeAgo(alert.created_at)}
+              </p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+/**
+ * Failure Detection Settings Component
+ *
+ * Lets admins turn on print failure detection per printer and choose the
+ * cameras watched, how often and how strictly they are checked, and whether
+ * a detected failure pauses the print
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Save } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import {
+  DEFAULT_FAILURE_DETECTION_SETTINGS,
+  FAILURE_CONFIRMATIONS_RANGE,
+  FAILURE_INTERVAL_RANGE,
+  FAILURE_THRESHOLD_RANGE,
+  type FailureDetectionSettings as DetectionSettings,
+  type FailureDetectionSettingsResponse
+} from '@/lib/failure-detection'
+
+export function FailureDetectionSettings() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [printerId, setPrinterId] = useState<number | null>(null)
+  const [webcams, setWebcams] = useState<{ uid: string; name: string }[]>([])
+  const [form, setForm] = useState<DetectionSettings>(DEFAULT_FAILURE_DETECTION_SETTINGS)
+  const [model, setModel] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => {
+        const enabled = (data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)
+        setPrinters(enabled)
+        setPrinterId(enabled[0]?.id ?? null)
+        if (enabled.length === 0) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load printers')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (printerId !== null) {
+      fetchSettings(printerId)
+    }
+  }, [printerId])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchSettings = async (id: number) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const [settingsResponse, webcamsResponse] = await Promise.all([
+        fetch(`/api/failure-detection/settings?printerId=${id}`),
+        fetch(`/api/camera/webcams?printerId=${id}`)
+      ])
+      if (!settingsResponse.ok) throw new Error('Failed to fetch failure detection settings')
+
+      const data: FailureDetectionSettingsResponse = await settingsResponse.json()
+      setForm(data.settings)
+      setModel(data.model)
+
+      // The printer may be offline; the saved cameras are kept either way
+      const cameras = webcamsResponse.ok ? await webcamsResponse.json() : { webcams: [] }
+      setWebcams(cameras.webcams || [])
+    } catch (err) {
+      setError('Failed to load failure detection settings')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (printerId === null) return
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/failure-detection/settings?printerId=${printerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save failure detection settings')
+        return
+      }
+
+      setForm(data.settings)
+      showSuccess('Failure detection settings saved')
+    } catch (err) {
+      setError('Failed to save failure detection settings')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleCamera = (uid: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      camera_uids: checked
+        ? [...prev.camera_uids, uid]
+        : prev.camera_uids.filter(cameraUid => cameraUid !== uid)
+    }))
+  }
+
+  const cameraOptions = [
+    ...webcams,
+    ...form.camera_uids
+      .filter(uid => !webcams.some(webcam => webcam.uid === uid))
+      .map(uid => ({ uid, name: uid }))
+  ]
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Failure Detection</CardTitle>
+        <CardDescription>
+          Check cameras for spaghetti and other failed prints while printing. Each check compares a snapshot with the start of the print and the checks before it, on the dashboard&apos;s CPU, and scores it from 0 to 100; the scores are shown on the dashboard.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {printers.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="failure-printer">Printer</Label>
+            <Select
+              value={printerId !== null ? String(printerId) : undefined}
+              onValueChange={(value) => setPrinterId(parseInt(value, 10))}
+            >
+              <SelectTrigger id="failure-printer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {printers.map(printer => (
+                  <SelectItem key={printer.id} value={String(printer.id)}>{printer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+          </div>
+        ) : printerId === null ? (
+          <p className="text-sm text-muted-foreground">No printers configured.</p>
+        ) : (
+          <form onSubmit={saveSettings} className="space-y-4">
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+              <div className="space-y-0.5">
+                <Label htmlFor="failure-enabled">Detect failures</Label>
+                <p className="text-xs text-muted-foreground">
+                  {model ? `Image heuristics and the ${model} model` : 'Image heuristics only (no ONNX model configured)'}
+                </p>
+              </div>
+              <Switch
+                id="failure-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cameras</Label>
+              {cameraOptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No cameras found. The printer may be offline.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {cameraOptions.map(webcam => (
+                    <label key={webcam.uid} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.camera_uids.includes(webcam.uid)}
+                        onCheckedChange={(checked) => toggleCamera(webcam.uid, checked === true)}
+                      />
+                      {webcam.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Snapshots are cropped as set under Snapshot Processing; cropping to the bed avoids false alarms from movement around it
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="failure-interval">Check every (seconds)</Label>
+                <Input
+                  id="failure-interval"
+                  type="number"
+                  min={FAILURE_INTERVAL_RANGE.min}
+                  max={FAILURE_INTERVAL_RANGE.max}
+                  value={form.interval_seconds}
+                  onChange={(e) => setForm(prev => ({ ...prev, interval_seconds: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="failure-threshold">Threshold (score)</Label>
+                <Input
+                  id="failure-threshold"
+                  type="number"
+                  min={FAILURE_THRESHOLD_RANGE.min}
+                  max={FAILURE_THRESHOLD_RANGE.max}
+                  value={form.threshold}
+                  onChange={(e) => setForm(prev => ({ ...prev, threshold: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="failure-confirmations">Checks in a row</Label>
+                <Input
+                  id="failure-confirmations"
+                  type="number"
+                  min={FAILURE_CONFIRMATIONS_RANGE.min}
+                  max={FAILURE_CONFIRMATIONS_RANGE.max}
+                  value={form.confirmations}
+                  onChange={(e) => setForm(prev => ({ ...prev, confirmations: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  At or above the threshold before an alert is raised
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="failure-pause">Pause the print on failure</Label>
+                <p className="text-xs text-muted-foreground">
+                  Alerts are sent to notification channels and webhooks that receive Print failure detected, with the snapshot attached
+                </p>
+              </div>
+              <Switch
+                id="failure-pause"
+                checked={form.auto_pause}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, auto_pause: checked }))}
+              />
+            </div>
+
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Changes
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,461 @@
+'use client'
+
+/**
+ * File Manager Component
+ *
+ * Browse, upload, delete, print and queue gcode files stored on the printer
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Loader2, AlertCircle, Folder, FileCode, ChevronRight, ArrowUp, ArrowDown,
+  Upload, Trash2, Printer, Download, RefreshCw, HardDrive, ListPlus
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { hasRole } from '@/lib/permissions'
+import { sendPrintJobAction } from '@/lib/print-job'
+import { sendPrintQueueRequest } from '@/lib/print-queue'
+import {
+  fetchPrinterFiles,
+  uploadPrinterFile,
+  deletePrinterFile,
+  sortPrinterFiles,
+  type FileSortKey,
+  type SortDirection,
+  type PrinterFileEntry,
+  type PrinterFileListing
+} from '@/lib/printer-files'
+import { formatTime } from '@/lib/utils/formatting'
+import { withPrinterId } from '@/lib/utils/api'
+import {
+  formatFileSize,
+  formatFilamentWeight,
+  formatFilament,
+  formatLayerHeight,
+  formatNozzleDiameter,
+  formatTemperature,
+  formatDimension
+} from '@/lib/utils/taskmanager-utils'
+import type { GcodeMetadata } from '@/lib/types'
+
+const SORT_LABELS: Record<FileSortKey, string> = {
+  modified: 'Modified',
+  size: 'Size',
+  estimated_time: 'Estimated time',
+  filename: 'Name'
+}
+
+function thumbnailUrl(path: string, printerId?: number): string {
+  return withPrinterId(`/api/printer/thumbnail?path=${encodeURIComponent(path)}`, printerId)
+}
+
+interface FileManagerProps {
+  // Printer whose files are managed (default: the first enabled printer)
+  printerId?: number
+}
+
+export function FileManager({ printerId }: FileManagerProps) {
+  const { user } = useSession()
+  const canControl = hasRole(user, 'operator')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [path, setPath] = useState('')
+  const [listing, setListing] = useState<PrinterFileListing | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sortKey, setSortKey] = useState<FileSortKey>('modified')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [selectedFile, setSelectedFile] = useState<PrinterFileEntry | null>(null)
+  const [metadata, setMetadata] = useState<GcodeMetadata | null>(null)
+  const [isMetadataLoading, setIsMetadataLoading] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<PrinterFileEntry | null>(null)
+  const [pendingPrint, setPendingPrint] = useState<PrinterFileEntry | null>(null)
+
+  const loadFiles = useCallback(async (directory: string) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setListing(await fetchPrinterFiles(directory, printerId))
+    } catch (err) {
+      console.error('Error loading files:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load files')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [printerId])
+
+  useEffect(() => {
+    loadFiles(path)
+    setSelectedFile(null)
+  }, [path, loadFiles])
+
+  // Load full gcode metadata for the selected file
+  useEffect(() => {
+    if (!selectedFile) {
+      setMetadata(null)
+      return
+    }
+
+    let cancelled = false
+    const fetchMetadata = async () => {
+      try {
+        setIsMetadataLoading(true)
+        const response = await fetch(withPrinterId(`/api/printer/file-metadata?filename=${encodeURIComponent(selectedFile.path)}`, printerId))
+        if (!response.ok) throw new Error('Failed to fetch file metadata')
+        const data = await response.json()
+        if (!cancelled) setMetadata(data)
+      } catch (err) {
+        console.error(err)
+        if (!cancelled) setMetadata(null)
+      } finally {
+        if (!cancelled) setIsMetadataLoading(false)
+      }
+    }
+
+    fetchMetadata()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedFile, printerId])
+
+  const sortedFiles = useMemo(
+    () => sortPrinterFiles(listing?.files || [], sortKey, sortDirection),
+    [listing, sortKey, sortDirection]
+  )
+
+  const breadcrumbs = path ? path.split('/') : []
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setIsUploading(true)
+      const result = await uploadPrinterFile(file, path, printerId)
+      toast.success(result.message)
+      await loadFiles(path)
+    } catch (err) {
+      console.error('Error uploading file:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to upload file')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+    const file = pendingDelete
+    setPendingDelete(null)
+
+    try {
+      const result = await deletePrinterFile(file.path, printerId)
+      toast.success(result.message)
+      if (selectedFile?.path === file.path) setSelectedFile(null)
+      await loadFiles(path)
+    } catch (err) {
+      console.error('Error deleting file:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to delete file')
+    }
+  }
+
+  const handlePrint = async () => {
+    if (!pendingPrint) return
+    const file = pendingPrint
+    setPendingPrint(null)
+
+    try {
+      const result = await sendPrintJobAction('start', file.path, printerId)
+      toast.success(result.message)
+    } catch (err) {
+      console.error('Error starting print:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to start print')
+    }
+  }
+
+  const handleEnqueue = async (file: PrinterFileEntry) => {
+    try {
+      const result = await sendPrintQueueRequest({ action: 'enqueue', filenames: [file.path] }, printerId)
+      toast.success(result.message)
+    } catch (err) {
+      console.error('Error queueing file:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to add file to the queue')
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="bg-zinc-950 border-zinc-800 lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <HardDrive className="h-5 w-5 text-cyan-500" />
+                Printer Files
+              </CardTitle>
+              <CardDescription>G-code files stored on the printer</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => loadFiles(path)} disabled={isLoading} title="Refresh">
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+              {canControl && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".gcode,.g,.gco"
+                    className="hidden"
+                    onChange={handleUpload}
+                  />
+                  <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+                    {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    Upload
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Breadcrumbs and sorting */}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-1 text-sm">
+              <button onClick={() => setPath('')} className="text-cyan-500 hover:underline">
+                gcodes
+              </button>
+              {breadcrumbs.map((segment, index) => (
+                <span key={index} className="flex items-center gap-1">
+                  <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+                  <button
+                    onClick={() => setPath(breadcrumbs.slice(0, index + 1).join('/'))}
+                    className="text-cyan-500 hover:underline"
+                  >
+                    {segment}
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={sortKey} onValueChange={(value) => setSortKey(value as FileSortKey)}>
+                <SelectTrigger className="w-40 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SORT_LABELS) as FileSortKey[]).map(key => (
+                    <SelectItem key={key} value={key}>{SORT_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+                title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          {isLoading && !listing ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : listing && (
+            <div className="space-y-1">
+              {listing.directories.map(directory => (
+                <button
+                  key={directory.path}
+                  onClick={() => setPath(directory.path)}
+                  className="w-full flex items-center gap-3 p-2 rounded-md hover:bg-zinc-900 text-left text-sm"
+                >
+                  <Folder className="h-5 w-5 text-amber-500" />
+                  <span className="font-medium">{directory.dirname}</span>
+                </button>
+              ))}
+
+              {sortedFiles.map(file => (
+                <div
+                  key={file.path}
+                  onClick={() => setSelectedFile(file)}
+                  className={`flex items-center gap-3 p-2 rounded-md cursor-pointer text-sm ${
+                    selectedFile?.path === file.path ? 'bg-cyan-600/10 border border-cyan-600/20' : 'hover:bg-zinc-900 border border-transparent'
+                  }`}
+                >
+                  {file.thumbnail_path ? (
+                    <img
+                      src={thumbnailUrl(file.thumbnail_path, printerId)}
+                      alt=""
+                      className="h-10 w-10 rounded object-contain bg-zinc-900"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="h-10 w-10 rounded bg-zinc-900 flex items-center justify-center">
+                      <FileCode className="h-5 w-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{file.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(file.size)}
+                      {' • '}
+                      {new Date(file.modified * 1000).toLocaleString()}
+                      {file.estimated_time ? ` • ${formatTime(file.estimated_time)}` : ''}
+                    </p>
+                  </div>
+                  {canControl && (
+                    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="sm" onClick={() => setPendingPrint(file)} title="Print this">
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleEnqueue(file)} title="Add to queue">
+                        <ListPlus className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setPendingDelete(file)} title="Delete">
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {listing.directories.length === 0 && sortedFiles.length === 0 && (
+                <p className="text-sm text-muted-foreground py-4 text-center">This folder is empty</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* File details */}
+      <Card className="bg-zinc-950 border-zinc-800">
+        <CardHeader>
+          <CardTitle className="text-base">File Details</CardTitle>
+          <CardDescription className="truncate">
+            {selectedFile ? selectedFile.filename : 'Select a file to see its details'}
+          </CardDescription>
+        </CardHeader>
+        {selectedFile && (
+          <CardContent className="space-y-4">
+            {isMetadataLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : metadata ? (
+              <>
+                {selectedFile.thumbnail_path && (
+                  <img
+                    src={thumbnailUrl(selectedFile.thumbnail_path, printerId)}
+                    alt={selectedFile.filename}
+                    className="w-full max-h-48 object-contain rounded bg-zinc-900"
+                  />
+                )}
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+                  <dt className="text-muted-foreground">Slicer</dt>
+                  <dd>{metadata.slicer ? `${metadata.slicer} ${metadata.slicer_version || ''}` : 'N/A'}</dd>
+                  <dt className="text-muted-foreground">Estimated time</dt>
+                  <dd>{metadata.estimated_time ? formatTime(metadata.estimated_time) : 'N/A'}</dd>
+                  <dt className="text-muted-foreground">Filament</dt>
+                  <dd>{[metadata.filament_type, metadata.filament_name].filter(Boolean).join(' ') || 'N/A'}</dd>
+                  <dt className="text-muted-foreground">Filament used</dt>
+                  <dd>{formatFilament(metadata.filament_total || 0)} / {formatFilamentWeight(metadata.filament_weight_total)}</dd>
+                  <dt className="text-muted-foreground">Object height</dt>
+                  <dd>{formatDimension(metadata.object_height)}</dd>
+                  <dt className="text-muted-foreground">Layer height</dt>
+                  <dd>{formatLayerHeight(metadata.layer_height)}</dd>
+                  <dt className="text-muted-foreground">Nozzle</dt>
+                  <dd>{formatNozzleDiameter(metadata.nozzle_diameter)}</dd>
+                  <dt className="text-muted-foreground">First layer temps</dt>
+                  <dd>{formatTemperature(metadata.first_layer_extr_temp)} / {formatTemperature(metadata.first_layer_bed_temp)}</dd>
+                  <dt className="text-muted-foreground">Size</dt>
+                  <dd>{formatFileSize(metadata.size)}</dd>
+                </dl>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">No metadata available for this file</p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {canControl && (
+                <>
+                  <Button size="sm" onClick={() => setPendingPrint(selectedFile)}>
+                    <Printer className="h-4 w-4" />
+                    Print This
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleEnqueue(selectedFile)}>
+                    <ListPlus className="h-4 w-4" />
+                    Add to Queue
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <a href={withPrinterId(`/api/printer/file-download?filename=${encodeURIComponent(selectedFile.path)}`, printerId)}>
+                  <Download className="h-4 w-4" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Print confirmation */}
+      <AlertDialog open={pendingPrint !== null} onOpenChange={(open) => !open && setPendingPrint(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Start Print?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will start printing &quot;{pendingPrint?.filename}&quot;. Make sure the bed is clear.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePrint}>Start Print</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete File?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.path}&quot; will be permanently removed from the printer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Loader2, FileCode, Printer, Wifi, WifiOff } from 'lucide-react'
+import { WebSocketProvider, useWebSocket, usePrintStatus } from '@/lib/contexts/websocket-context'
+import { mapPrintState, type PrintState } from '@/lib/print-job'
+import { getThumbnailPath } from '@/lib/printer-files'
+import { formatTime } from '@/lib/utils/formatting'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import type { GcodeMetadata } from '@/lib/types'
+
+const STATE_STYLES: Record<PrintState, string> = {
+  printing: 'bg-cyan-600/10 text-cyan-500 border-cyan-600/60',
+  paused: 'bg-amber-600/10 text-amber-500 border-amber-600/60',
+  complete: 'bg-green-600/10 text-green-500 border-green-600/60',
+  cancelled: 'bg-amber-600/10 text-amber-500 border-amber-600/60',
+  error: 'bg-red-600/10 text-red-500 border-red-600/60',
+  ready: 'bg-green-600/10 text-green-500 border-green-600/60',
+  offline: 'bg-zinc-600/10 text-zinc-400 border-zinc-600/60'
+}
+
+/**
+ * One printer in the fleet grid. Rendered inside its own WebSocketProvider,
+ * so every card holds a separate live stream for its printer. Links open the
+ * dashboard, files and recordings for that printer.
+ */
+function FleetPrinterCard({ printer }: { printer: PublicPrinterInfo }) {
+  const { isConnected, isReady } = useWebSocket()
+  const { print_stats, virtual_sdcard } = usePrintStatus()
+  const [thumbnailPath, setThumbnailPath] = useState<string | null>(null)
+
+  const state = mapPrintState(print_stats?.state, isReady ? 'ready' : 'offline')
+  const filename: string | null = print_stats?.filename || null
+  const progress = Math.round((virtual_sdcard?.progress ?? 0) * 100)
+  const isActive = state === 'printing' || state === 'paused'
+
+  // Look up the thumbnail whenever the loaded file changes
+  useEffect(() => {
+    if (!filename) {
+      setThumbnailPath(null)
+      return
+    }
+
+    let cancelled = false
+    const params = new URLSearchParams({ printerId: String(printer.id), filename })
+    fetch(`/api/printer/file-metadata?${params}`)
+      .then(response => response.ok ? response.json() : null)
+      .then((metadata: GcodeMetadata | null) => {
+        if (!cancelled) {
+          setThumbnailPath(getThumbnailPath(filename, metadata?.thumbnails) ?? null)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setThumbnailPath(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [printer.id, filename])
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2 min-w-0">
+            <Printer className="h-5 w-5 text-cyan-500 shrink-0" />
+            <a href={`/?printerId=${printer.id}`} className="truncate hover:text-cyan-400 transition-colors">
+              {printer.name}
+            </a>
+          </CardTitle>
+          <Badge variant="outline" className={STATE_STYLES[state]}>
+            {state}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground font-mono flex items-center gap-1">
+          {isConnected ? <Wifi className="h-3 w-3 text-green-500" /> : <WifiOff className="h-3 w-3 text-zinc-500" />}
+          {printer.host}:{printer.port}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="aspect-square rounded-lg bg-zinc-950 border border-zinc-800 flex items-center justify-center overflow-hidden">
+          {thumbnailPath ? (
+            <img
+              src={`/api/printer/thumbnail?printerId=${printer.id}&path=${encodeURIComponent(thumbnailPath)}`}
+              alt={filename || 'Print thumbnail'}
+              className="h-full w-full object-contain"
+            />
+          ) : (
+            <FileCode className="h-12 w-12 text-zinc-700" />
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-sm truncate" title={filename || undefined}>
+            {filename || <span className="text-muted-foreground">No file loaded</span>}
+          </p>
+          {isActive && (
+            <>
+              <Progress value={progress} className="h-2" />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{progress}%</span>
+                <span>{formatTime(print_stats?.print_duration ?? 0)} elapsed</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <a href={`/?printerId=${printer.id}`} className="hover:text-foreground transition-colors">Dashboard</a>
+          <span>•</span>
+          <a href={`/files?printerId=${printer.id}`} className="hover:text-foreground transition-colors">Files</a>
+          <span>•</span>
+          <a href={`/recordings?printerId=${printer.id}`} className="hover:text-foreground transition-colors">Recordings</a>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function FleetOverview() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => setPrinters((data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)))
+      .catch(err => {
+        console.error(err)
+        setError('Failed to load printers')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>
+  }
+
+  if (printers.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No printers configured. Admins can add printers under Settings → Printers.
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {printers.map(printer => (
+        <WebSocketProvider key={printer.id} printerId={printer.id}>
+          <FleetPrinterCard printer={printer} />
+        </WebSocketProvider>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState, useEffect, useRef, useMemo, type KeyboardEvent } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { Send, Trash2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { useGcodeConsole, type ConsoleLine } from '@/lib/hooks/use-gcode-console'
+import { hasRole } from '@/lib/permissions'
+
+const MAX_SUGGESTIONS = 6
+
+function lineClassName(line: ConsoleLine): string {
+  if (line.type === 'command') return 'text-cyan-400'
+  if (line.message.startsWith('!!')) return 'text-red-400'
+  if (line.message.startsWith('//')) return 'text-yellow-400'
+  return 'text-green-400'
+}
+
+/**
+ * Scrollback of Klipper's console output with a command prompt.
+ * Everyone who can see the dashboard can read it; only operators get the prompt.
+ */
+export function GcodeConsole({ className }: { className?: string }) {
+  const { user } = useSession()
+  const {
+    lines,
+    commands,
+    history,
+    hideTemperatureReports,
+    setHideTemperatureReports,
+    sendCommand,
+    clear,
+    isConnected,
+  } = useGcodeConsole()
+  const [input, setInput] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  // Position while browsing history with the arrow keys; null when editing a new command
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const stickToBottomRef = useRef(true)
+
+  const canSend = hasRole(user, 'operator')
+
+  // Keep following new output unless the user scrolled up to read
+  useEffect(() => {
+    const element = scrollRef.current
+    if (element && stickToBottomRef.current) {
+      element.scrollTop = element.scrollHeight
+    }
+  }, [lines])
+
+  const handleScroll = () => {
+    const element = scrollRef.current
+    if (element) {
+      stickToBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < 24
+    }
+  }
+
+  // Autocomplete the command name, i.e. the first word
+  const suggestions = useMemo(() => {
+    const prefix = input.trimStart().toUpperCase()
+    if (!prefix || prefix.includes(' ')) return []
+    return Object.keys(commands)
+      .filter(command => command.startsWith(prefix) && command !== prefix)
+      .sort()
+      .slice(0, MAX_SUGGESTIONS)
+  }, [input, commands])
+
+  const submit = async () => {
+    const script = input.trim()
+    if (!script || isSending) return
+
+    setIsSending(true)
+    setInput('')
+    setHistoryIndex(null)
+    stickToBottomRef.current = true
+    try {
+      await sendCommand(script)
+    } catch (error) {
+      console.error('Error sending G-code:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send command')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      submit()
+    } else if (event.key === 'Tab' && suggestions.length > 0) {
+      event.preventDefault()
+      setInput(suggestions[0] + ' ')
+    } else if (event.key === 'ArrowUp' && history.length > 0) {
+      event.preventDefault()
+      const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1)
+      setHistoryIndex(index)
+      setInput(history[index])
+    } else if (event.key === 'ArrowDown' && historyIndex !== null) {
+      event.preventDefault()
+      const index = historyIndex + 1
+      if (index >= history.length) {
+        setHistoryIndex(null)
+        setInput('')
+      } else {
+        setHistoryIndex(index)
+        setInput(history[index])
+      }
+    }
+  }
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="hide-temperature-reports"
+            checked={hideTemperatureReports}
+            onCheckedChange={setHideTemperatureReports}
+          />
+          <Label htmlFor="hide-temperature-reports" className="text-xs text-muted-foreground">
+            Hide temperature reports
+          </Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={clear} disabled={lines.length === 0}>
+          <Trash2 className="h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="h-48 overflow-y-auto rounded border border-zinc-800 bg-black p-2 font-mono text-xs"
+      >
+        {lines.length === 0 ? (
+          <p className="text-muted-foreground">{isConnected ? 'No console output yet' : 'Waiting for printer connection...'}</p>
+        ) : (
+          lines.map(line => (
+            <p key={line.id} className={`whitespace-pre-wrap break-words ${lineClassName(line)}`}>
+              <span className="text-zinc-600">[{new Date(line.time).toLocaleTimeString()}] </span>
+              {line.type === 'command' ? `> ${line.message}` : line.message}
+            </p>
+          ))
+        )}
+      </div>
+
+      {canSend && (
+        <div className="relative">
+          {suggestions.length > 0 && (
+            <div className="absolute bottom-full left-0 right-0 mb-1 rounded border border-zinc-800 bg-zinc-950 p-1 shadow-lg z-10">
+              {suggestions.map(command => (
+                <button
+                  key={command}
+                  type="button"
+                  className="flex w-full items-baseline gap-2 rounded px-2 py-1 text-left text-xs hover:bg-zinc-800"
+                  onClick={() => setInput(command + ' ')}
+                >
+                  <span className="font-mono text-cyan-400">{command}</span>
+                  <span className="truncate text-muted-foreground">{commands[command]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              value={input}
+              onChange={(event) => {
+                setInput(event.target.value)
+                setHistoryIndex(null)
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder={isConnected ? 'Send G-code (Tab to complete, ↑/↓ for history)' : 'Printer not connected'}
+              disabled={!isConnected}
+              className="font-mono text-xs"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <Button size="sm" onClick={submit} disabled={!isConnected || isSending || !input.trim()}>
+              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
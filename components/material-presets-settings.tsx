@@ -0,0 +1,292 @@
+'use client'
+
+/**
+ * Material Presets Settings Component
+ *
+ * Lets admins manage the preheat presets offered in the temperature controls
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, AlertCircle, CheckCircle2, Trash2, Pencil, Plus, Save } from 'lucide-react'
+import type { MaterialPreset } from '@/lib/material-presets'
+
+interface PresetForm {
+  name: string
+  extruder_temp: string
+  bed_temp: string
+  fan_speed: string
+}
+
+const EMPTY_FORM: PresetForm = { name: '', extruder_temp: '', bed_temp: '', fan_speed: '' }
+
+export function MaterialPresetsSettings() {
+  const [presets, setPresets] = useState<MaterialPreset[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [form, setForm] = useState<PresetForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+
+  // Fetch presets on mount
+  useEffect(() => {
+    fetchPresets()
+  }, [])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const updateForm = (field: keyof PresetForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const fetchPresets = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/material-presets')
+      if (!response.ok) throw new Error('Failed to fetch material presets')
+      const data = await response.json()
+      setPresets(data.presets || [])
+    } catch (err) {
+      setError('Failed to load material presets')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startEditing = (preset: MaterialPreset) => {
+    setEditingId(preset.id)
+    setForm({
+      name: preset.name,
+      extruder_temp: String(preset.extruder_temp),
+      bed_temp: String(preset.bed_temp),
+      fan_speed: preset.fan_speed === null ? '' : String(preset.fan_speed)
+    })
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const savePreset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const payload = {
+        name: form.name,
+        extruder_temp: parseInt(form.extruder_temp, 10),
+        bed_temp: parseInt(form.bed_temp, 10),
+        // Empty leaves the fan alone when the preset is applied
+        fan_speed: form.fan_speed === '' ? null : parseInt(form.fan_speed, 10)
+      }
+
+      const response = await fetch(editingId === null ? '/api/material-presets' : `/api/material-presets/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save preset')
+        return
+      }
+
+      setPresets(prev => editingId === null
+        ? [...prev, data.preset]
+        : prev.map(p => p.id === editingId ? data.preset : p))
+      showSuccess(`${data.preset.name} ${editingId === null ? 'added' : 'updated'}`)
+      cancelEditing()
+    } catch (err) {
+      setError('Failed to save preset')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removePreset = async (preset: MaterialPreset) => {
+    if (!confirm(`Remove the ${preset.name} preset?`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/material-presets/${preset.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete preset')
+        return
+      }
+
+      setPresets(prev => prev.filter(p => p.id !== preset.id))
+      if (editingId === preset.id) cancelEditing()
+      showSuccess(`${preset.name} removed`)
+    } catch (err) {
+      setError('Failed to delete preset')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Material Presets</CardTitle>
+          <CardDescription>Loading presets...</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Material Presets</CardTitle>
+        <CardDescription>
+          Preheat buttons in the dashboard controls. Temperatures above a printer&apos;s configured max_temp are refused when applied.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Preset List */}
+        <div className="space-y-2">
+          {presets.length === 0 && (
+            <p className="text-sm text-muted-foreground">No presets yet.</p>
+          )}
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              className="flex items-center justify-between p-3 rounded-lg bg-zinc-950 border border-zinc-800"
+            >
+              <div className="space-y-0.5">
+                <span className="font-medium">{preset.name}</span>
+                <p className="text-xs text-muted-foreground font-mono">
+                  Extruder {preset.extruder_temp}°C · Bed {preset.bed_temp}°C
+                  {preset.fan_speed !== null && ` · Fan ${preset.fan_speed}%`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditing(preset)}
+                  disabled={isSaving}
+                  title="Edit preset"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removePreset(preset)}
+                  disabled={isSaving}
+                  title="Delete preset"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / Edit Preset */}
+        <form onSubmit={savePreset} className="border-t border-zinc-800 pt-4 space-y-3">
+          <h3 className="text-sm font-semibold">{editingId === null ? 'Add Preset' : 'Edit Preset'}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">Name</Label>
+              <Input
+                id="preset-name"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                maxLength={50}
+                placeholder="PLA"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-extruder">Extruder °C</Label>
+              <Input
+                id="preset-extruder"
+                type="number"
+                min={0}
+                max={500}
+                value={form.extruder_temp}
+                onChange={(e) => updateForm('extruder_temp', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-bed">Bed °C</Label>
+              <Input
+                id="preset-bed"
+                type="number"
+                min={0}
+                max={500}
+                value={form.bed_temp}
+                onChange={(e) => updateForm('bed_temp', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-fan">Fan %</Label>
+              <Input
+                id="preset-fan"
+                type="number"
+                min={0}
+                max={100}
+                value={form.fan_speed}
+                onChange={(e) => updateForm('fan_speed', e.target.value)}
+                placeholder="Unchanged"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {editingId === null ? 'Add Preset' : 'Save Changes'}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="outline" size="sm" onClick={cancelEditing} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
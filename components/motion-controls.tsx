@@ -0,0 +1,250 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Move,
+  Home,
+  ArrowUp,
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ChevronsUp,
+  ChevronsDown,
+  PowerOff,
+  ParkingSquare,
+  Loader2
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { usePrinterId } from '@/lib/contexts/websocket-context'
+import { hasRole } from '@/lib/permissions'
+import type { PrinterStatus } from '@/lib/types'
+import {
+  sendMotionRequest,
+  MOTION_AXES,
+  JOG_STEPS,
+  EXTRUDE_LENGTHS,
+  type MotionAxis,
+  type MotionRequest
+} from '@/lib/motion-control'
+
+interface MotionControlsProps {
+  status: PrinterStatus
+  className?: string
+}
+
+/**
+ * Jog pad, homing, extrusion, motor disable and park.
+ * Only rendered for signed-in operators. Moves are refused while printing and
+ * jogs need a homed axis; the server checks both again before moving.
+ */
+export function MotionControls({ status, className }: MotionControlsProps) {
+  const { user } = useSession()
+  const printerId = usePrinterId()
+  const [step, setStep] = useState(JOG_STEPS[1])
+  const [extrudeLength, setExtrudeLength] = useState(EXTRUDE_LENGTHS[1])
+  const [pending, setPending] = useState<string | null>(null)
+
+  if (!hasRole(user, 'operator')) {
+    return null
+  }
+
+  const homed = status.system.homedAxes.toLowerCase()
+  const isHomed = (axis: MotionAxis) => homed.includes(axis)
+  const isPrinting = status.print.state === 'printing'
+  const isOffline = status.print.state === 'offline'
+  const isBusy = pending !== null || isPrinting || isOffline
+
+  const move = async (key: string, request: MotionRequest) => {
+    setPending(key)
+    try {
+      const { message } = await sendMotionRequest(request, printerId)
+      toast.success(message)
+    } catch (error) {
+      console.error('Error sending motion request:', error)
+      toast.error(error instanceof Error ? error.message : 'Move failed')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const jog = (axis: MotionAxis, direction: 1 | -1) =>
+    move(`jog-${axis}${direction > 0 ? '+' : '-'}`, { action: 'jog', axis, distance: step * direction })
+
+  const icon = (key: string, Icon: typeof Move) =>
+    pending === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icon className="h-4 w-4" />
+
+  const jogButton = (axis: MotionAxis, direction: 1 | -1, Icon: typeof Move) => {
+    const key = `jog-${axis}${direction > 0 ? '+' : '-'}`
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => jog(axis, direction)}
+        disabled={isBusy || !isHomed(axis)}
+        title={isHomed(axis) ? `${axis.toUpperCase()}${direction > 0 ? '+' : '-'}${step} mm` : `Home ${axis.toUpperCase()} first`}
+      >
+        {icon(key, Icon)}
+      </Button>
+    )
+  }
+
+  return (
+    <Card className={`bg-zinc-950 border-zinc-800 ${className || ''}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Move className="h-5 w-5 text-cyan-500" />
+            Motion
+          </CardTitle>
+          <div className="flex gap-1">
+            {MOTION_AXES.map(axis => (
+              <Badge
+                key={axis}
+                variant="outline"
+                className={isHomed(axis) ? 'border-green-600/40 text-green-400' : 'border-zinc-700 text-muted-foreground'}
+                title={isHomed(axis) ? `${axis.toUpperCase()} homed` : `${axis.toUpperCase()} not homed`}
+              >
+                {axis.toUpperCase()}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isPrinting && (
+          <p className="text-sm text-amber-400">Motion controls are disabled while printing.</p>
+        )}
+
+        {/* Step size */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Step</span>
+          {JOG_STEPS.map(value => (
+            <Button
+              key={value}
+              variant={step === value ? 'secondary' : 'ghost'}
+              size="sm"
+              className="font-mono"
+              onClick={() => setStep(value)}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+
+        {/* Jog pad */}
+        <div className="flex items-center gap-6">
+          <div className="grid grid-cols-3 gap-1">
+            <div />
+            {jogButton('y', 1, ArrowUp)}
+            <div />
+            {jogButton('x', -1, ArrowLeft)}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => move('home-xy', { action: 'home', axes: ['x', 'y'] })}
+              disabled={isBusy}
+              title="Home X and Y"
+            >
+              {icon('home-xy', Home)}
+            </Button>
+            {jogButton('x', 1, ArrowRight)}
+            <div />
+            {jogButton('y', -1, ArrowDown)}
+            <div />
+          </div>
+          <div className="flex flex-col gap-1">
+            {jogButton('z', 1, ChevronsUp)}
+            {jogButton('z', -1, ChevronsDown)}
+          </div>
+        </div>
+
+        {/* Homing */}
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => move('home-all', { action: 'home' })} disabled={isBusy}>
+            {icon('home-all', Home)}
+            Home All
+          </Button>
+          {MOTION_AXES.map(axis => (
+            <Button
+              key={axis}
+              variant="outline"
+              size="sm"
+              onClick={() => move(`home-${axis}`, { action: 'home', axes: [axis] })}
+              disabled={isBusy}
+            >
+              {icon(`home-${axis}`, Home)}
+              {axis.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+
+        {/* Extruder */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Extrude</span>
+            {EXTRUDE_LENGTHS.map(value => (
+              <Button
+                key={value}
+                variant={extrudeLength === value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="font-mono"
+                onClick={() => setExtrudeLength(value)}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => move('extrude', { action: 'extrude', distance: extrudeLength })}
+              disabled={isBusy}
+              title="The extruder must be at temperature"
+            >
+              {icon('extrude', ArrowDown)}
+              Extrude
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => move('retract', { action: 'extrude', distance: -extrudeLength })}
+              disabled={isBusy}
+              title="The extruder must be at temperature"
+            >
+              {icon('retract', ArrowUp)}
+              Retract
+            </Button>
+          </div>
+        </div>
+
+        {/* Motors */}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => move('park', { action: 'park' })}
+            disabled={isBusy || !MOTION_AXES.every(isHomed)}
+            title={MOTION_AXES.every(isHomed) ? 'Lift Z and move to the back left corner' : 'Home all axes first'}
+          >
+            {icon('park', ParkingSquare)}
+            Park
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => move('disable-motors', { action: 'disable_motors' })}
+            disabled={isBusy}
+          >
+            {icon('disable-motors', PowerOff)}
+            Disable Motors
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,11 +4,16 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import { Camera, Grid3X3, PictureInPicture, WifiOff } from 'lucide-react'
 import { Button } from './ui/button'
 import { cn } from '@/lib/utils'
+import { getCameraTransform } from '@/lib/camera-processing'
 
 interface CameraFeed {
   uid: string
   name: string
   enabled: boolean
+  // Moonraker's orientation, applied to the live stream in the browser
+  flip_horizontal?: boolean
+  flip_vertical?: boolean
+  rotation?: number
 }
 
 interface MultiCameraStreamProps {
@@ -190,7 +195,7 @@ export function MultiCameraStream({
           src={`/api/camera/stream?uid=${camera.uid}`}
           alt={`${camera.name} Stream`}
           className={className}
-          style={{ imageRendering }}
+          style={{ imageRendering, transform: getCameraTransform(camera) }}
           onError={() => handleCameraError(camera.uid)}
           onLoad={() => handleCameraLoad(camera.uid)}
         />
@@ -0,0 +1,433 @@
+'use client'
+
+/**
+ * Notifications Settings Component
+ *
+ * Lets admins add notification channels, choose which printer events each one
+ * receives and send a test notification
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Trash2, Pencil, Plus, Save, Send } from 'lucide-react'
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_CHANNEL_TYPES,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  sendTestNotification,
+  type NotificationChannelType,
+  type NotificationEventType,
+  type PublicNotificationChannel
+} from '@/lib/notifications'
+
+interface ChannelForm {
+  name: string
+  type: NotificationChannelType
+  url: string
+  to: string
+  token: string
+  events: NotificationEventType[]
+}
+
+const EMPTY_FORM: ChannelForm = {
+  name: '',
+  type: 'discord',
+  url: '',
+  to: '',
+  token: '',
+  events: ['print_complete', 'print_failed', 'klippy_shutdown', 'heater_fault']
+}
+
+const URL_PLACEHOLDERS: Record<Exclude<NotificationChannelType, 'email'>, string> = {
+  webhook: 'https://example.com/hooks/printer',
+  discord: 'https://discord.com/api/webhooks/...',
+  slack: 'https://hooks.slack.com/services/...',
+  ntfy: 'https://ntfy.sh/my-printer',
+  gotify: 'https://gotify.example.com'
+}
+
+const hasToken = (type: NotificationChannelType) => type === 'ntfy' || type === 'gotify'
+
+export function NotificationsSettings() {
+  const [channels, setChannels] = useState<PublicNotificationChannel[]>([])
+  const [smtpConfigured, setSmtpConfigured] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [testingId, setTestingId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [form, setForm] = useState<ChannelForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+
+  // Fetch channels on mount
+  useEffect(() => {
+    fetchChannels()
+  }, [])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchChannels = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/notifications')
+      if (!response.ok) throw new Error('Failed to fetch notification channels')
+      const data = await response.json()
+      setChannels(data.channels || [])
+      setSmtpConfigured(!!data.smtpConfigured)
+    } catch (err) {
+      setError('Failed to load notification channels')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleEvent = (event: NotificationEventType, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }))
+  }
+
+  const startEditing = (channel: PublicNotificationChannel) => {
+    setEditingId(channel.id)
+    setForm({
+      name: channel.name,
+      type: channel.type,
+      url: channel.config.url || '',
+      to: channel.config.to || '',
+      token: '',
+      events: channel.events
+    })
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  // PUT replaces the whole channel; the token is left out so it stays unchanged
+  const toPayload = (channel: PublicNotificationChannel) => ({
+    name: channel.name,
+    type: channel.type,
+    config: channel.config,
+    events: channel.events,
+    enabled: channel.enabled
+  })
+
+  const saveChannel = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const existing = channels.find(channel => channel.id === editingId)
+      const payload = {
+        name: form.name,
+        type: form.type,
+        config: form.type === 'email' ? { to: form.to } : { url: form.url },
+        // Empty keeps the saved token when editing
+        ...(hasToken(form.type) && (form.token || editingId === null) && { token: form.token }),
+        events: form.events,
+        enabled: existing?.enabled ?? true
+      }
+
+      const response = await fetch(editingId === null ? '/api/notifications' : `/api/notifications/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save channel')
+        return
+      }
+
+      setChannels(prev => editingId === null
+        ? [...prev, data.channel]
+        : prev.map(c => c.id === editingId ? data.channel : c))
+      showSuccess(`${data.channel.name} ${editingId === null ? 'added' : 'updated'}`)
+      cancelEditing()
+    } catch (err) {
+      setError('Failed to save channel')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleChannel = async (channel: PublicNotificationChannel, enabled: boolean) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/notifications/${channel.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toPayload(channel), enabled }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update channel')
+        return
+      }
+
+      setChannels(prev => prev.map(c => c.id === channel.id ? data.channel : c))
+    } catch (err) {
+      setError('Failed to update channel')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeChannel = async (channel: PublicNotificationChannel) => {
+    if (!confirm(`Remove the ${channel.name} channel?`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/notifications/${channel.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete channel')
+        return
+      }
+
+      setChannels(prev => prev.filter(c => c.id !== channel.id))
+      if (editingId === channel.id) cancelEditing()
+      showSuccess(`${channel.name} removed`)
+    } catch (err) {
+      setError('Failed to delete channel')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const testChannel = async (channel: PublicNotificationChannel) => {
+    try {
+      setTestingId(channel.id)
+      setError(null)
+      showSuccess(await sendTestNotification(channel.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Test notification failed')
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>Loading channels...</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Get told when prints finish or fail, Klipper shuts down or the printer disconnects. Each channel receives the events ticked for it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Channel List */}
+        <div className="space-y-2">
+          {channels.length === 0 && (
+            <p className="text-sm text-muted-foreground">No channels yet.</p>
+          )}
+          {channels.map(channel => (
+            <div
+              key={channel.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800"
+            >
+              <div className="space-y-0.5 min-w-0">
+                <span className="font-medium">{channel.name}</span>
+                <p className="text-xs text-muted-foreground">
+                  {NOTIFICATION_CHANNEL_LABELS[channel.type]} ·{' '}
+                  {channel.events.length === 0
+                    ? 'No events'
+                    : channel.events.map(event => NOTIFICATION_EVENT_LABELS[event]).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Switch
+                  checked={channel.enabled}
+                  onCheckedChange={(checked) => toggleChannel(channel, checked)}
+                  disabled={isSaving}
+                  title={channel.enabled ? 'Disable channel' : 'Enable channel'}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => testChannel(channel)}
+                  disabled={isSaving || testingId !== null}
+                  title="Send test notification"
+                >
+                  {testingId === channel.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditing(channel)}
+                  disabled={isSaving}
+                  title="Edit channel"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeChannel(channel)}
+                  disabled={isSaving}
+                  title="Delete channel"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / Edit Channel */}
+        <form onSubmit={saveChannel} className="border-t border-zinc-800 pt-4 space-y-3">
+          <h3 className="text-sm font-semibold">{editingId === null ? 'Add Channel' : 'Edit Channel'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Name</Label>
+              <Input
+                id="channel-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                placeholder="Workshop Discord"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-type">Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm(prev => ({ ...prev, type: value as NotificationChannelType }))}
+              >
+                <SelectTrigger id="channel-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_CHANNEL_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{NOTIFICATION_CHANNEL_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.type === 'email' ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="channel-to">Recipients</Label>
+                <Input
+                  id="channel-to"
+                  value={form.to}
+                  onChange={(e) => setForm(prev => ({ ...prev, to: e.target.value }))}
+                  placeholder="me@example.com, team@example.com"
+                  required
+                />
+                {!smtpConfigured && (
+                  <p className="text-xs text-amber-500">Set SMTP_HOST and the other SMTP variables on the server to send email.</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="channel-url">{form.type === 'ntfy' ? 'Topic URL' : form.type === 'gotify' ? 'Server URL' : 'Webhook URL'}</Label>
+                <Input
+                  id="channel-url"
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                  placeholder={URL_PLACEHOLDERS[form.type]}
+                  required
+                />
+              </div>
+            )}
+            {hasToken(form.type) && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="channel-token">{form.type === 'gotify' ? 'Application Token' : 'Access Token'}</Label>
+                <Input
+                  id="channel-token"
+                  type="password"
+                  value={form.token}
+                  onChange={(e) => setForm(prev => ({ ...prev, token: e.target.value }))}
+                  placeholder={editingId !== null && channels.find(c => c.id === editingId)?.has_token ? 'Unchanged' : form.type === 'ntfy' ? 'Optional' : ''}
+                  required={form.type === 'gotify' && editingId === null}
+                />
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {NOTIFICATION_EVENT_TYPES.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {NOTIFICATION_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {editingId === null ? 'Add Channel' : 'Save Changes'}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="outline" size="sm" onClick={cancelEditing} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { History, ChevronLeft, ChevronRight, Loader2, FileCode, Camera } from 'lucide-react'
+import { formatTimeAgo, formatAbsoluteTime } from '@/lib/guestbook'
+import { formatTime, formatFilamentLength } from '@/lib/utils/formatting'
+import { usePrinterId } from '@/lib/contexts/websocket-context'
+import type { PrintJob, PrintJobStatus } from '@/lib/print-jobs'
+
+interface PrintHistoryCardProps {
+  className?: string
+}
+
+interface PrintJobsResponse {
+  jobs: PrintJob[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+}
+
+const STATUS_STYLES: Record<PrintJobStatus, string> = {
+  printing: 'bg-cyan-600/10 text-cyan-500 border-cyan-600/60',
+  complete: 'bg-green-600/10 text-green-500 border-green-600/60',
+  cancelled: 'bg-amber-600/10 text-amber-500 border-amber-600/60',
+  error: 'bg-red-600/10 text-red-500 border-red-600/60',
+  interrupted: 'bg-zinc-600/10 text-zinc-400 border-zinc-600/60'
+}
+
+// Actual print time compared to the slicer estimate, e.g. "+12% vs estimate"
+function formatEstimateAccuracy(job: PrintJob): string | null {
+  if (!job.print_duration || !job.estimated_time || job.status !== 'complete') {
+    return null
+  }
+  const difference = ((job.print_duration - job.estimated_time) / job.estimated_time) * 100
+  return `${difference >= 0 ? '+' : ''}${difference.toFixed(0)}% vs estimate`
+}
+
+export default function PrintHistoryCard({ className }: PrintHistoryCardProps) {
+  const printerId = usePrinterId()
+  const [jobs, setJobs] = useState<PrintJob[]>([])
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 10,
+    total: 0,
+    totalPages: 0,
+    hasNext: false,
+    hasPrev: false
+  })
+  const [statusFilter, setStatusFilter] = useState<PrintJobStatus | 'all'>('all')
+  const [loading, setLoading] = useState(true)
+  const [isAvailable, setIsAvailable] = useState<boolean | null>(null)
+
+  const fetchJobs = async (page: number = 1) => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page), limit: '10' })
+      if (statusFilter !== 'all') params.set('status', statusFilter)
+      if (printerId !== undefined) params.set('printerId', String(printerId))
+
+      const response = await fetch(`/api/printer/jobs?${params}`)
+
+      if (response.status === 503 || response.status === 403) {
+        // No database or history hidden for this visitor
+        setIsAvailable(false)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch print jobs')
+      }
+
+      const data: PrintJobsResponse = await response.json()
+      setJobs(data.jobs)
+      setPagination(data.pagination)
+      setIsAvailable(true)
+    } catch (error) {
+      console.error('Error fetching print jobs:', error)
+      setIsAvailable(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchJobs(1)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter])
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage >= 1 && newPage <= pagination.totalPages) {
+      fetchJobs(newPage)
+    }
+  }
+
+  if (isAvailable === false) {
+    return null
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <History className="h-5 w-5 text-cyan-500" />
+            Print History
+          </CardTitle>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PrintJobStatus | 'all')}>
+            <SelectTrigger className="w-32 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All jobs</SelectItem>
+              <SelectItem value="complete">Complete</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="error">Error</SelectItem>
+              <SelectItem value="interrupted">Interrupted</SelectItem>
+              <SelectItem value="printing">Printing</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && jobs.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No print jobs recorded yet</p>
+        ) : (
+          jobs.map(job => {
+            const accuracy = formatEstimateAccuracy(job)
+            return (
+              <div key={job.id} className="flex items-center gap-3 p-2 rounded-md border border-zinc-900">
+                {job.thumbnail_path ? (
+                  <img
+                    src={`/api/printer/thumbnail?printerId=${job.printer_id}&path=${encodeURIComponent(job.thumbnail_path)}`}
+                    alt=""
+                    className="h-12 w-12 rounded object-contain bg-zinc-900"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="h-12 w-12 rounded bg-zinc-900 flex items-center justify-center">
+                    <FileCode className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{job.filename}</p>
+                    <Badge className={`shadow-none rounded-full text-[10px] px-2 py-0 ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground" title={formatAbsoluteTime(job.started_at)}>
+                    {formatTimeAgo(job.started_at)}
+                    {job.print_duration ? ` • ${formatTime(job.print_duration)}` : ''}
+                    {job.filament_used ? ` • ${formatFilamentLength(job.filament_used)}` : ''}
+                    {accuracy ? ` • ${accuracy}` : ''}
+                  </p>
+                </div>
+                {job.has_snapshot && (
+                  <a
+                    href={`/api/printer/jobs/${job.id}/snapshot?printerId=${job.printer_id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Final snapshot"
+                  >
+                    <Camera className="h-4 w-4" />
+                  </a>
+                )}
+              </div>
+            )
+          })
+        )}
+
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between pt-2">
+            <p className="text-xs text-muted-foreground">
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} jobs)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(pagination.page - 1)}
+                disabled={!pagination.hasPrev || loading}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(pagination.page + 1)}
+                disabled={!pagination.hasNext || loading}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Pause, Play, Square, RotateCcw, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { usePrinterId } from '@/lib/contexts/websocket-context'
+import { hasRole } from '@/lib/permissions'
+import { getAvailablePrintJobActions, sendPrintJobAction, type PrintJobAction, type PrintState } from '@/lib/print-job'
+
+interface PrintJobControlsProps {
+  state: PrintState
+  filename: string | null
+  className?: string
+}
+
+/**
+ * Pause/resume/cancel controls for the current print, plus reprint of the last file.
+ * Only rendered for signed-in operators.
+ */
+export function PrintJobControls({ state, filename, className }: PrintJobControlsProps) {
+  const { user } = useSession()
+  const printerId = usePrinterId()
+  const [pendingAction, setPendingAction] = useState<PrintJobAction | null>(null)
+
+  if (!hasRole(user, 'operator')) {
+    return null
+  }
+
+  const available = getAvailablePrintJobActions(state)
+  // Reprint only makes sense once a job has finished and the filename is known (not redacted)
+  const canReprint = available.includes('start') && !!filename && !filename.includes('█') &&
+    ['complete', 'cancelled', 'error'].includes(state)
+
+  if (!available.some(action => action !== 'start') && !canReprint) {
+    return null
+  }
+
+  const runAction = async (action: PrintJobAction) => {
+    setPendingAction(action)
+    try {
+      const result = await sendPrintJobAction(action, action === 'start' ? filename ?? undefined : undefined, printerId)
+      toast.success(result.message)
+    } catch (error) {
+      console.error(`Error performing print ${action}:`, error)
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} print`)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const isBusy = pendingAction !== null
+
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`}>
+      {available.includes('pause') && (
+        <Button variant="outline" size="sm" onClick={() => runAction('pause')} disabled={isBusy}>
+          {pendingAction === 'pause' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pause className="h-4 w-4" />}
+          Pause
+        </Button>
+      )}
+
+      {available.includes('resume') && (
+        <Button variant="outline" size="sm" onClick={() => runAction('resume')} disabled={isBusy}>
+          {pendingAction === 'resume' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          Resume
+        </Button>
+      )}
+
+      {available.includes('cancel') && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" disabled={isBusy}>
+              {pendingAction === 'cancel' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
+              Cancel
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel Print?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will cancel {filename ? `"${filename}"` : 'the current print'}. The print cannot be resumed afterwards.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Printing</AlertDialogCancel>
+              <AlertDialogAction onClick={() => runAction('cancel')}>
+                Cancel Print
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
+      {canReprint && (
+        <Button variant="outline" size="sm" onClick={() => runAction('start')} disabled={isBusy}>
+          {pendingAction === 'start' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+          Print Again
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { ListOrdered, GripVertical, Trash2, Play, Pause, Loader2, CheckCircle2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { usePrintQueue } from '@/lib/hooks/use-print-queue'
+import { hasRole } from '@/lib/permissions'
+import { formatTimeAgo } from '@/lib/guestbook'
+import type { PrintQueueRequest } from '@/lib/print-queue'
+
+interface PrintQueueCardProps {
+  className?: string
+}
+
+/**
+ * Queued print jobs. Operators can reorder by dragging, remove jobs, pause or
+ * start the queue and require the bed to be cleared between jobs.
+ * Jobs are added from the file manager.
+ */
+export default function PrintQueueCard({ className }: PrintQueueCardProps) {
+  const { user } = useSession()
+  const { queue, send } = usePrintQueue()
+  const [pending, setPending] = useState<string | null>(null)
+  const [draggedJobId, setDraggedJobId] = useState<string | null>(null)
+
+  const canControl = hasRole(user, 'operator')
+
+  // Hidden while loading and when the printer has no queue
+  if (!queue) {
+    return null
+  }
+
+  const run = async (key: string, request: PrintQueueRequest) => {
+    setPending(key)
+    try {
+      const { message } = await send(request)
+      toast.success(message)
+    } catch (error) {
+      console.error('Error updating print queue:', error)
+      toast.error(error instanceof Error ? error.message : 'Print queue request failed')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleDrop = (targetJobId: string) => {
+    if (!draggedJobId || draggedJobId === targetJobId) return
+
+    const order = queue.jobs.map(job => job.id)
+    const targetIndex = order.indexOf(targetJobId)
+    order.splice(order.indexOf(draggedJobId), 1)
+    order.splice(targetIndex, 0, draggedJobId)
+    setDraggedJobId(null)
+    run('reorder', { action: 'reorder', jobIds: order })
+  }
+
+  const isBusy = pending !== null
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <ListOrdered className="h-5 w-5 text-cyan-500" />
+            Print Queue
+            {queue.jobs.length > 0 && (
+              <span className="text-sm font-normal text-muted-foreground">({queue.jobs.length})</span>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {queue.paused && (
+              <Badge variant="outline" className="bg-amber-600/10 text-amber-500 border-amber-600/60">Paused</Badge>
+            )}
+            {canControl && (
+              queue.paused ? (
+                <Button variant="outline" size="sm" onClick={() => run('start', { action: 'start' })} disabled={isBusy}>
+                  {pending === 'start' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                  Start
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => run('pause', { action: 'pause' })} disabled={isBusy}>
+                  {pending === 'pause' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pause className="h-4 w-4" />}
+                  Pause
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {queue.awaitingBedClear && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-amber-600/10 border border-amber-600/20">
+            <p className="text-sm text-amber-400">Print finished. Clear the bed to start the next job.</p>
+            {canControl && (
+              <Button size="sm" onClick={() => run('start', { action: 'start' })} disabled={isBusy}>
+                {pending === 'start' ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+                Bed Cleared
+              </Button>
+            )}
+          </div>
+        )}
+
+        {queue.jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No queued jobs{canControl && '. Add files from the file manager'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {queue.jobs.map((job, index) => (
+              <div
+                key={job.id}
+                draggable={canControl && !isBusy}
+                onDragStart={() => setDraggedJobId(job.id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(job.id)}
+                onDragEnd={() => setDraggedJobId(null)}
+                className={`flex items-center gap-2 p-2 rounded-lg border ${
+                  draggedJobId === job.id ? 'border-cyan-600/60 bg-cyan-600/10' : 'border-zinc-800 bg-zinc-900/50'
+                } ${canControl ? 'cursor-move' : ''}`}
+              >
+                {canControl && <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />}
+                <span className="text-xs text-muted-foreground font-mono w-5">{index + 1}.</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={job.filename}>{job.filename}</p>
+                  <p className="text-xs text-muted-foreground">Added {formatTimeAgo(job.addedAt)}</p>
+                </div>
+                {canControl && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => run(`remove-${job.id}`, { action: 'remove', jobIds: [job.id] })}
+                    disabled={isBusy}
+                    title="Remove from queue"
+                  >
+                    {pending === `remove-${job.id}` ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canControl && (
+          <div className="flex items-center justify-between border-t border-zinc-800 pt-3">
+            <Label htmlFor="queue-require-bed-clear" className="text-sm text-muted-foreground">
+              Confirm bed cleared before the next job
+            </Label>
+            <Switch
+              id="queue-require-bed-clear"
+              checked={queue.requireBedClear}
+              onCheckedChange={(checked) => run('configure', { action: 'configure', requireBedClear: checked })}
+              disabled={isBusy}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
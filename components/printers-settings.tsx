@@ -0,0 +1,366 @@
+'use client'
+
+/**
+ * Printers Settings Component
+ *
+ * Lets admins add, edit, disable and remove the printers shown on the fleet page
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Loader2, AlertCircle, CheckCircle2, Trash2, Pencil, Plus, Save, X } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+
+interface PrinterForm {
+  name: string
+  host: string
+  port: string
+  api_key: string
+  camera_url_prefix: string
+}
+
+const EMPTY_FORM: PrinterForm = { name: '', host: '', port: '7127', api_key: '', camera_url_prefix: '' }
+
+export function PrintersSettings() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [form, setForm] = useState<PrinterForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetchPrinters()
+  }, [])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const updateForm = (field: keyof PrinterForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const fetchPrinters = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/printers')
+      if (!response.ok) throw new Error('Failed to fetch printers')
+      const data = await response.json()
+      setPrinters(data.printers || [])
+    } catch (err) {
+      setError('Failed to load printers')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startEditing = (printer: PublicPrinterInfo) => {
+    setEditingId(printer.id)
+    setForm({
+      name: printer.name,
+      host: printer.host,
+      port: String(printer.port),
+      // The stored key is never sent to the browser; leave empty to keep it
+      api_key: '',
+      camera_url_prefix: printer.camera_url_prefix || ''
+    })
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const savePrinter = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const payload: Record<string, unknown> = {
+        name: form.name,
+        host: form.host,
+        port: parseInt(form.port, 10),
+        camera_url_prefix: form.camera_url_prefix
+      }
+      if (form.api_key || editingId === null) {
+        payload.api_key = form.api_key
+      }
+
+      const response = await fetch(editingId === null ? '/api/printers' : `/api/printers/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save printer')
+        return
+      }
+
+      setPrinters(prev => editingId === null
+        ? [...prev, data.printer]
+        : prev.map(p => p.id === editingId ? data.printer : p))
+      showSuccess(`${data.printer.name} ${editingId === null ? 'added' : 'updated'}`)
+      cancelEditing()
+    } catch (err) {
+      setError('Failed to save printer')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const clearApiKey = async (printer: PublicPrinterInfo) => {
+    await updatePrinter(printer, { api_key: '' }, `API key removed from ${printer.name}`)
+  }
+
+  const toggleEnabled = async (printer: PublicPrinterInfo, enabled: boolean) => {
+    await updatePrinter(printer, { enabled }, `${printer.name} ${enabled ? 'enabled' : 'disabled'}`)
+  }
+
+  const updatePrinter = async (printer: PublicPrinterInfo, changes: Record<string, unknown>, message: string) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/printers/${printer.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update printer')
+        return
+      }
+
+      setPrinters(prev => prev.map(p => p.id === printer.id ? data.printer : p))
+      showSuccess(message)
+    } catch (err) {
+      setError('Failed to update printer')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removePrinter = async (printer: PublicPrinterInfo) => {
+    if (!confirm(`Remove ${printer.name}? Its print and temperature history will be deleted as well.`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/printers/${printer.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete printer')
+        return
+      }
+
+      setPrinters(prev => prev.filter(p => p.id !== printer.id))
+      if (editingId === printer.id) cancelEditing()
+      showSuccess(`${printer.name} removed`)
+    } catch (err) {
+      setError('Failed to delete printer')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Printers</CardTitle>
+          <CardDescription>Loading printers...</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Printers</CardTitle>
+        <CardDescription>
+          Moonraker instances shown on the fleet page. The first enabled printer is the dashboard default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Printer List */}
+        <div className="space-y-2">
+          {printers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No printers configured yet.</p>
+          )}
+          {printers.map(printer => (
+            <div
+              key={printer.id}
+              className="flex items-center justify-between p-3 rounded-lg bg-zinc-950 border border-zinc-800"
+            >
+              <div className="space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{printer.name}</span>
+                  {printer.has_api_key && (
+                    <Badge variant="outline" className="text-xs">API key</Badge>
+                  )}
+                  {!printer.enabled && (
+                    <Badge variant="secondary" className="text-xs">Disabled</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {printer.host}:{printer.port}
+                  {printer.camera_url_prefix && ` · camera ${printer.camera_url_prefix}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={printer.enabled}
+                  onCheckedChange={(checked) => toggleEnabled(printer, checked)}
+                  disabled={isSaving}
+                  title={printer.enabled ? 'Disable printer' : 'Enable printer'}
+                />
+                {printer.has_api_key && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => clearApiKey(printer)}
+                    disabled={isSaving}
+                    title="Remove API key"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditing(printer)}
+                  disabled={isSaving}
+                  title="Edit printer"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removePrinter(printer)}
+                  disabled={isSaving}
+                  title="Delete printer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / Edit Printer */}
+        <form onSubmit={savePrinter} className="border-t border-zinc-800 pt-4 space-y-3">
+          <h3 className="text-sm font-semibold">{editingId === null ? 'Add Printer' : 'Edit Printer'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="printer-name">Name</Label>
+              <Input
+                id="printer-name"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="printer-host">Host</Label>
+              <Input
+                id="printer-host"
+                value={form.host}
+                onChange={(e) => updateForm('host', e.target.value)}
+                placeholder="192.168.1.100"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="printer-port">Moonraker Port</Label>
+              <Input
+                id="printer-port"
+                type="number"
+                min={1}
+                max={65535}
+                value={form.port}
+                onChange={(e) => updateForm('port', e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="printer-api-key">API Key</Label>
+              <Input
+                id="printer-api-key"
+                type="password"
+                value={form.api_key}
+                onChange={(e) => updateForm('api_key', e.target.value)}
+                placeholder={editingId === null ? 'Optional' : 'Leave empty to keep the current key'}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="printer-camera-prefix">Camera URL Prefix</Label>
+              <Input
+                id="printer-camera-prefix"
+                value={form.camera_url_prefix}
+                onChange={(e) => updateForm('camera_url_prefix', e.target.value)}
+                placeholder="http://192.168.1.100:6780"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {editingId === null ? 'Add Printer' : 'Save Changes'}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="outline" size="sm" onClick={cancelEditing} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,308 @@
+'use client'
+
+/**
+ * Recording Settings Component
+ *
+ * Lets admins turn on continuous camera recording per printer and choose the
+ * cameras, when they are recorded and how long recordings are kept
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Save, Circle } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import { formatFileSize } from '@/lib/utils/formatting'
+import {
+  DEFAULT_CAMERA_RECORDING_SETTINGS,
+  RECORDING_DISK_RANGE,
+  RECORDING_FRAMERATE_RANGE,
+  RECORDING_MODE_LABELS,
+  RECORDING_MODES,
+  RECORDING_RETENTION_RANGE,
+  type CameraRecorderState,
+  type CameraRecordingSettings,
+  type RecordingMode,
+  type RecordingSettingsResponse
+} from '@/lib/camera-recordings'
+
+export function RecordingSettings() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [printerId, setPrinterId] = useState<number | null>(null)
+  const [webcams, setWebcams] = useState<{ uid: string; name: string }[]>([])
+  const [form, setForm] = useState<CameraRecordingSettings>(DEFAULT_CAMERA_RECORDING_SETTINGS)
+  const [recorders, setRecorders] = useState<CameraRecorderState[]>([])
+  const [usage, setUsage] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => {
+        const enabled = (data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)
+        setPrinters(enabled)
+        setPrinterId(enabled[0]?.id ?? null)
+        if (enabled.length === 0) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load printers')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (printerId !== null) {
+      fetchSettings(printerId)
+    }
+  }, [printerId])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchSettings = async (id: number) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const [settingsResponse, webcamsResponse] = await Promise.all([
+        fetch(`/api/recordings/settings?printerId=${id}`),
+        fetch(`/api/camera/webcams?printerId=${id}`)
+      ])
+      if (!settingsResponse.ok) throw new Error('Failed to fetch recording settings')
+
+      const data: RecordingSettingsResponse = await settingsResponse.json()
+      setForm(data.settings)
+      setRecorders(data.recorders)
+      setUsage(data.usage_bytes)
+
+      // The printer may be offline; the saved cameras are kept either way
+      const cameras = webcamsResponse.ok ? await webcamsResponse.json() : { webcams: [] }
+      setWebcams(cameras.webcams || [])
+    } catch (err) {
+      setError('Failed to load recording settings')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (printerId === null) return
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/recordings/settings?printerId=${printerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save recording settings')
+        return
+      }
+
+      setForm(data.settings)
+      showSuccess('Recording settings saved')
+    } catch (err) {
+      setError('Failed to save recording settings')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleCamera = (uid: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      camera_uids: checked
+        ? [...prev.camera_uids, uid]
+        : prev.camera_uids.filter(cameraUid => cameraUid !== uid)
+    }))
+  }
+
+  const cameraOptions = [
+    ...webcams,
+    ...form.camera_uids
+      .filter(uid => !webcams.some(webcam => webcam.uid === uid))
+      .map(uid => ({ uid, name: uid }))
+  ]
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Camera Recording</CardTitle>
+        <CardDescription>
+          Continuously record cameras to the dashboard&apos;s disk. Recordings can be scrubbed and downloaded on the Recordings page; the oldest are deleted after the retention time or when the disk limit is reached.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {printers.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="recording-printer">Printer</Label>
+            <Select
+              value={printerId !== null ? String(printerId) : undefined}
+              onValueChange={(value) => setPrinterId(parseInt(value, 10))}
+            >
+              <SelectTrigger id="recording-printer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {printers.map(printer => (
+                  <SelectItem key={printer.id} value={String(printer.id)}>{printer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+          </div>
+        ) : printerId === null ? (
+          <p className="text-sm text-muted-foreground">No printers configured.</p>
+        ) : (
+          <form onSubmit={saveSettings} className="space-y-4">
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+              <div className="space-y-0.5">
+                <Label htmlFor="recording-enabled">Record cameras</Label>
+                <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-1">
+                  {recorders.map(recorder => (
+                    <span key={recorder.uid} className="flex items-center gap-1">
+                      <Circle className={`h-2 w-2 ${recorder.connected ? 'fill-red-500 text-red-500' : 'fill-zinc-500 text-zinc-500'}`} />
+                      {webcams.find(webcam => webcam.uid === recorder.uid)?.name || recorder.uid}
+                      {recorder.connected ? ' recording' : ' connecting'}
+                      <span>·</span>
+                    </span>
+                  ))}
+                  {formatFileSize(usage)} used
+                </p>
+              </div>
+              <Switch
+                id="recording-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cameras</Label>
+              {cameraOptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No cameras found. The printer may be offline.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {cameraOptions.map(webcam => (
+                    <label key={webcam.uid} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.camera_uids.includes(webcam.uid)}
+                        onCheckedChange={(checked) => toggleCamera(webcam.uid, checked === true)}
+                      />
+                      {webcam.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="recording-mode">Record</Label>
+                <Select
+                  value={form.mode}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, mode: value as RecordingMode }))}
+                >
+                  <SelectTrigger id="recording-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECORDING_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>{RECORDING_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recording-framerate">Frame rate (fps)</Label>
+                <Input
+                  id="recording-framerate"
+                  type="number"
+                  min={RECORDING_FRAMERATE_RANGE.min}
+                  max={RECORDING_FRAMERATE_RANGE.max}
+                  value={form.framerate}
+                  onChange={(e) => setForm(prev => ({ ...prev, framerate: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recording-retention">Keep for (hours)</Label>
+                <Input
+                  id="recording-retention"
+                  type="number"
+                  min={RECORDING_RETENTION_RANGE.min}
+                  max={RECORDING_RETENTION_RANGE.max}
+                  value={form.retention_hours}
+                  onChange={(e) => setForm(prev => ({ ...prev, retention_hours: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recording-disk">Disk limit (MB)</Label>
+                <Input
+                  id="recording-disk"
+                  type="number"
+                  min={RECORDING_DISK_RANGE.min}
+                  max={RECORDING_DISK_RANGE.max}
+                  value={form.max_disk_mb}
+                  onChange={(e) => setForm(prev => ({ ...prev, max_disk_mb: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  For all cameras of this printer
+                </p>
+              </div>
+            </div>
+
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Changes
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
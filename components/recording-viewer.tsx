@@ -0,0 +1,451 @@
+'use client'
+
+/**
+ * Recording Viewer Component
+ *
+ * Scrub and play back a camera's continuous recording. The timeline shows
+ * which parts were recorded and marks prints that failed; frames are fetched
+ * one at a time with Range requests against the recorded segments.
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, Play, Pause, RefreshCw, Download, AlertTriangle, VideoOff } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import {
+  FAILED_JOB_STATUSES,
+  findFrameIndex,
+  getRecordingDownloadUrl,
+  type RecordingFrame,
+  type RecordingFramesResponse,
+  type RecordingListResponse,
+  type RecordingSegment
+} from '@/lib/camera-recordings'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const WINDOW_PRESETS = [
+  { label: 'Last hour', ms: HOUR_MS },
+  { label: 'Last 6 hours', ms: 6 * HOUR_MS },
+  { label: 'Last 24 hours', ms: 24 * HOUR_MS },
+  { label: 'Last 7 days', ms: 7 * 24 * HOUR_MS }
+]
+
+const PLAYBACK_SPEEDS = [1, 4, 16, 64]
+
+const CLIP_LENGTHS = [
+  { label: '1 minute', ms: 60 * 1000 },
+  { label: '5 minutes', ms: 5 * 60 * 1000 },
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: HOUR_MS }
+]
+
+// Playback advances in ticks; a tick is skipped while the previous frame is still loading
+const PLAYBACK_TICK_MS = 250
+
+// Jumping to a failure starts a little before the print ended
+const FAILURE_LEAD_MS = 30 * 1000
+
+interface RecordingViewerProps {
+  initialPrinterId?: number
+  initialTime?: number // ms since epoch to open at
+}
+
+export function RecordingViewer({ initialPrinterId, initialTime }: RecordingViewerProps) {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [printerId, setPrinterId] = useState<number | null>(null)
+  const [webcams, setWebcams] = useState<{ uid: string; name: string }[]>([])
+  const [uid, setUid] = useState<string | null>(null)
+  const [windowMs, setWindowMs] = useState(WINDOW_PRESETS[2].ms)
+  const [windowEnd, setWindowEnd] = useState(() => initialTime ? Math.min(initialTime + HOUR_MS, Date.now()) : Date.now())
+  const [recordings, setRecordings] = useState<RecordingListResponse | null>(null)
+  const [position, setPosition] = useState<number | null>(initialTime ?? null)
+  const [frameUrl, setFrameUrl] = useState<string | null>(null)
+  const [frameTime, setFrameTime] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[0])
+  const [clipMs, setClipMs] = useState(CLIP_LENGTHS[1].ms)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const framesCache = useRef(new Map<string, RecordingFrame[]>())
+  const frameRequest = useRef(0)
+  const frameLoading = useRef(false)
+
+  const windowStart = windowEnd - windowMs
+  const segments = useMemo(() => recordings?.segments ?? [], [recordings])
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => {
+        const enabled: PublicPrinterInfo[] = (data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)
+        setPrinters(enabled)
+        const initial = enabled.find(printer => printer.id === initialPrinterId) ?? enabled[0]
+        setPrinterId(initial?.id ?? null)
+        if (!initial) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load printers')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [initialPrinterId])
+
+  useEffect(() => {
+    if (printerId === null) return
+    fetch(`/api/camera/webcams?printerId=${printerId}`)
+      .then(response => response.ok ? response.json() : { webcams: [] })
+      .then(data => setWebcams(data.webcams || []))
+      .catch(() => setWebcams([]))
+  }, [printerId])
+
+  const fetchRecordings = useCallback(async () => {
+    if (printerId === null) return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const params = new URLSearchParams({
+        printerId: String(printerId),
+        from: String(windowStart),
+        to: String(windowEnd)
+      })
+      if (uid) params.set('uid', uid)
+
+      const response = await fetch(`/api/recordings?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch recordings')
+
+      const data: RecordingListResponse = await response.json()
+      setRecordings(data)
+      // The segment still being written grows, so its index is fetched again
+      framesCache.current.clear()
+
+      const camera = uid ?? data.cameras[0] ?? null
+      if (camera !== uid) setUid(camera)
+
+      // Open at the most recent frame unless a time was chosen
+      const last = data.segments[data.segments.length - 1]
+      setPosition(current => current !== null && current >= windowStart && current <= windowEnd ? current : last?.end ?? null)
+    } catch (err) {
+      setError('Failed to load recordings')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [printerId, uid, windowStart, windowEnd])
+
+  useEffect(() => {
+    fetchRecordings()
+  }, [fetchRecordings])
+
+  const getFrames = async (segment: RecordingSegment): Promise<RecordingFrame[]> => {
+    const cached = framesCache.current.get(segment.frames_url)
+    if (cached) return cached
+
+    const response = await fetch(segment.frames_url)
+    if (!response.ok) throw new Error('Failed to fetch frame index')
+    const data: RecordingFramesResponse = await response.json()
+    framesCache.current.set(segment.frames_url, data.frames)
+    return data.frames
+  }
+
+  // Show the frame recorded at (or just before) the playback position
+  useEffect(() => {
+    if (position === null) return
+
+    const segment = segments.find(candidate => candidate.start <= position && candidate.end >= position)
+    if (!segment) {
+      setFrameUrl(null)
+      setFrameTime(null)
+      return
+    }
+
+    const request = ++frameRequest.current
+    frameLoading.current = true
+
+    const loadFrame = async () => {
+      try {
+        const frames = await getFrames(segment)
+        if (frames.length === 0 || request !== frameRequest.current) return
+
+        const [time, offset, length] = frames[findFrameIndex(frames, position)]
+        const response = await fetch(segment.url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } })
+        if (!response.ok) throw new Error('Failed to fetch frame')
+        const blob = await response.blob()
+        if (request !== frameRequest.current) return
+
+        setFrameUrl(URL.createObjectURL(blob))
+        setFrameTime(time)
+      } catch (err) {
+        console.error(err)
+      } finally {
+        if (request === frameRequest.current) frameLoading.current = false
+      }
+    }
+    loadFrame()
+  }, [position, segments])
+
+  // Release the previous frame once a new one is shown
+  useEffect(() => {
+    return () => {
+      if (frameUrl) URL.revokeObjectURL(frameUrl)
+    }
+  }, [frameUrl])
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const interval = setInterval(() => {
+      if (frameLoading.current) return
+
+      setPosition(current => {
+        if (current === null) return current
+        const next = current + PLAYBACK_TICK_MS * speed
+        if (segments.some(segment => segment.start <= next && segment.end >= next)) {
+          return next
+        }
+
+        // Skip gaps in the recording, and stop after the last segment
+        const following = segments.find(segment => segment.start > next)
+        if (following) return following.start
+        setIsPlaying(false)
+        return current
+      })
+    }, PLAYBACK_TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [isPlaying, speed, segments])
+
+  const seek = (time: number) => {
+    setIsPlaying(false)
+    setPosition(time)
+  }
+
+  const changeWindow = (ms: number) => {
+    setWindowMs(ms)
+    setWindowEnd(Date.now())
+  }
+
+  const changeCamera = (camera: string) => {
+    setUid(camera)
+    setFrameUrl(null)
+    setIsPlaying(false)
+  }
+
+  const failures = (recordings?.jobs ?? []).filter(job => job.ended_at && FAILED_JOB_STATUSES.includes(job.status))
+  const cameraName = (camera: string) => webcams.find(webcam => webcam.uid === camera)?.name || camera
+  const percentOfWindow = (time: number) => Math.min(Math.max((time - windowStart) / windowMs * 100, 0), 100)
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Camera Recordings</CardTitle>
+        <CardDescription>
+          Drag the timeline to scrub through the recording. Red markers are prints that failed or were cancelled.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          {printers.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="recording-printer">Printer</Label>
+              <Select
+                value={printerId !== null ? String(printerId) : undefined}
+                onValueChange={(value) => {
+                  setPrinterId(parseInt(value, 10))
+                  setUid(null)
+                  setPosition(null)
+                }}
+              >
+                <SelectTrigger id="recording-printer" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {printers.map(printer => (
+                    <SelectItem key={printer.id} value={String(printer.id)}>{printer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {recordings && recordings.cameras.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="recording-camera">Camera</Label>
+              <Select value={uid ?? undefined} onValueChange={changeCamera}>
+                <SelectTrigger id="recording-camera" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {recordings.cameras.map(camera => (
+                    <SelectItem key={camera} value={camera}>{cameraName(camera)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="recording-window">Show</Label>
+            <Select value={String(windowMs)} onValueChange={(value) => changeWindow(parseInt(value, 10))}>
+              <SelectTrigger id="recording-window" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOW_PRESETS.map(preset => (
+                  <SelectItem key={preset.ms} value={String(preset.ms)}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setWindowEnd(Date.now())} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading && !recordings ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+          </div>
+        ) : printerId === null ? (
+          <p className="text-sm text-muted-foreground">No printers configured.</p>
+        ) : !recordings || recordings.cameras.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No recordings yet. Turn on camera recording in Settings → Cameras.
+          </p>
+        ) : (
+          <>
+            <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black border border-zinc-800 flex items-center justify-center">
+              {frameUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={frameUrl} alt={`${cameraName(uid ?? '')} recording`} className="h-full w-full object-contain" />
+              ) : (
+                <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                  <VideoOff className="h-8 w-8" />
+                  <span className="text-sm">
+                    {segments.length === 0 ? 'Nothing recorded in this time range' : 'Nothing recorded at this time'}
+                  </span>
+                </div>
+              )}
+              {frameTime !== null && (
+                <span className="absolute bottom-2 right-2 rounded bg-black/70 px-2 py-1 text-xs font-mono">
+                  {new Date(frameTime).toLocaleString()}
+                </span>
+              )}
+            </div>
+
+            {/* Timeline */}
+            <div className="space-y-2">
+              <div className="relative h-2 w-full rounded bg-zinc-800">
+                {segments.map(segment => (
+                  <div
+                    key={segment.start}
+                    className="absolute inset-y-0 bg-cyan-600/60"
+                    style={{
+                      left: `${percentOfWindow(segment.start)}%`,
+                      width: `${Math.max(percentOfWindow(segment.end) - percentOfWindow(segment.start), 0.2)}%`
+                    }}
+                  />
+                ))}
+                {failures.map(job => (
+                  <button
+                    key={job.id}
+                    type="button"
+                    title={`${job.filename} (${job.status})`}
+                    className="absolute -top-1 h-4 w-1 rounded bg-red-500"
+                    style={{ left: `${percentOfWindow(new Date(job.ended_at as string).getTime())}%` }}
+                    onClick={() => seek(new Date(job.ended_at as string).getTime() - FAILURE_LEAD_MS)}
+                  />
+                ))}
+              </div>
+              <Slider
+                min={windowStart}
+                max={windowEnd}
+                step={1000}
+                value={[position ?? windowEnd]}
+                onValueChange={([value]) => seek(value)}
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{new Date(windowStart).toLocaleString()}</span>
+                <span>{new Date(windowEnd).toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={() => setIsPlaying(!isPlaying)} disabled={segments.length === 0}>
+                {isPlaying ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                {isPlaying ? 'Pause' : 'Play'}
+              </Button>
+              {PLAYBACK_SPEEDS.map(value => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={speed === value ? 'default' : 'outline'}
+                  onClick={() => setSpeed(value)}
+                >
+                  {value}×
+                </Button>
+              ))}
+
+              <div className="ml-auto flex items-center gap-2">
+                <Select value={String(clipMs)} onValueChange={(value) => setClipMs(parseInt(value, 10))}>
+                  <SelectTrigger className="w-32" aria-label="Clip length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CLIP_LENGTHS.map(clip => (
+                      <SelectItem key={clip.ms} value={String(clip.ms)}>{clip.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="outline" asChild disabled={position === null || !uid}>
+                  <a href={position !== null && uid ? getRecordingDownloadUrl(printerId, uid, position - clipMs / 2, position + clipMs / 2) : undefined}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            {failures.length > 0 && (
+              <div className="space-y-2">
+                <Label>Failed prints</Label>
+                <div className="space-y-1">
+                  {failures.map(job => (
+                    <button
+                      key={job.id}
+                      type="button"
+                      onClick={() => seek(new Date(job.ended_at as string).getTime() - FAILURE_LEAD_MS)}
+                      className="flex w-full items-center gap-2 rounded-md border border-zinc-800 bg-zinc-950 px-3 py-2 text-left text-sm hover:bg-zinc-800/50 transition-colors"
+                    >
+                      <AlertTriangle className="h-4 w-4 text-red-500 shrink-0" />
+                      <span className="truncate">{job.filename}</span>
+                      <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                        {job.status} · {new Date(job.ended_at as string).toLocaleString()}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -20,15 +20,26 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
-import { AlertCircle, Settings as SettingsIcon, Cpu, Layout, Radio, Upload, Trash2, Loader2, CheckCircle2, XCircle, Save, RotateCcw, Volume2, Camera, Grid2X2 } from 'lucide-react'
+import { AlertCircle, Settings as SettingsIcon, Cpu, Layout, Radio, Upload, Trash2, Loader2, CheckCircle2, XCircle, Save, RotateCcw, Volume2, Camera, Grid2X2, Users, Printer, Bell } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Slider } from '@/components/ui/slider'
-import { isDevelopment } from '@/lib/utils/environment'
 import { toast } from 'sonner'
 import { trackEvent } from '@/components/umami-analytics'
 import ViewCameraControl from '@/components/view-camera-control'
 import { useWebSocket } from '@/lib/contexts/websocket-context'
 import { ModulesSettings } from '@/components/modules-settings'
+import { UsersSettings } from '@/components/users-settings'
+import { PrintersSettings } from '@/components/printers-settings'
+import { MaterialPresetsSettings } from '@/components/material-presets-settings'
+import { NotificationsSettings } from '@/components/notifications-settings'
+import { WebhooksSettings } from '@/components/webhooks-settings'
+import { SnapshotSettings } from '@/components/snapshot-settings'
+import { TimelapseSettings } from '@/components/timelapse-settings'
+import { RecordingSettings } from '@/components/recording-settings'
+import { FailureDetectionSettings } from '@/components/failure-detection-settings'
+import { ControlAuditLog } from '@/components/control-audit-log'
+import { withPrinterId } from '@/lib/utils/api'
+import { requestConfirmationToken, performDestructiveAction, type DestructivePrinterAction } from '@/lib/utils/printer-control'
 
 interface DashboardSettings {
   visibility_mode: 'offline' | 'private' | 'public'
@@ -61,7 +72,13 @@ interface ViewCameraSettings {
   [cameraUid: string]: boolean // camera_uid -> enabled
 }
 
-export default function SettingsCard() {
+interface SettingsCardProps {
+  currentUserId?: number
+  // Printer the status, restart and emergency controls act on; the default printer when unset
+  printerId?: number
+}
+
+export default function SettingsCard({ currentUserId, printerId }: SettingsCardProps) {
   const { isConnected } = useWebSocket()
   const [settings, setSettings] = useState<DashboardSettings | null>(null)
   const [originalSettings, setOriginalSettings] = useState<DashboardSettings | null>(null)
@@ -74,6 +91,8 @@ export default function SettingsCard() {
   const [uploading, setUploading] = useState(false)
   const [printerStatus, setPrinterStatus] = useState<'online' | 'offline'>('offline')
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [confirmationToken, setConfirmationToken] = useState<string | null>(null)
+  const [auditRefreshKey, setAuditRefreshKey] = useState(0)
   // Load settings
   useEffect(() => {
     loadSettings()
@@ -229,7 +248,7 @@ export default function SettingsCard() {
 
   const checkPrinterStatus = async () => {
     try {
-      const response = await fetch('/api/printer/status')
+      const response = await fetch(withPrinterId('/api/printer/status', printerId))
       if (response.ok) {
         const data = await response.json()
         setPrinterStatus(data.print.state !== 'offline' ? 'online' : 'offline')
@@ -300,18 +319,52 @@ export default function SettingsCard() {
 
     try {
       toast.info(`Restarting ${name}...`)
-      const response = await fetch(endpoint, { method: 'POST' })
+      const response = await fetch(withPrinterId(endpoint, printerId), { method: 'POST' })
       
       if (response.ok) {
         toast.success(`${name} restart initiated`)
         setTimeout(() => checkPrinterStatus(), 5000)
       } else {
         const data = await response.json()
-        toast.error(data.error || `Failed to restart ${name}`)
+        toast.error(data.message || data.error || `Failed to restart ${name}`)
       }
     } catch (error) {
       console.error(`Error restarting ${name}:`, error)
       toast.error(`Failed to restart ${name}`)
+    } finally {
+      setAuditRefreshKey(key => key + 1)
+    }
+  }
+
+  // Request a confirmation token when a destructive action dialog opens
+  const handleDestructiveDialogChange = async (action: DestructivePrinterAction, open: boolean) => {
+    setConfirmationToken(null)
+    if (!open) return
+
+    try {
+      setConfirmationToken(await requestConfirmationToken(action, printerId))
+    } catch (error) {
+      console.error('Error requesting confirmation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to request confirmation')
+    }
+  }
+
+  const handleDestructiveAction = async (action: DestructivePrinterAction) => {
+    if (!confirmationToken) {
+      toast.error('Confirmation expired, please try again')
+      return
+    }
+
+    try {
+      const result = await performDestructiveAction(action, confirmationToken, printerId)
+      toast.success(result.message)
+      setTimeout(() => checkPrinterStatus(), 5000)
+    } catch (error) {
+      console.error(`Error performing ${action}:`, error)
+      toast.error(error instanceof Error ? error.message : `Failed to perform ${action}`)
+    } finally {
+      setConfirmationToken(null)
+      setAuditRefreshKey(key => key + 1)
     }
   }
 
@@ -421,11 +474,15 @@ export default function SettingsCard() {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="printer" className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="printer">
               <Cpu className="h-4 w-4 mr-2" />
               Printer
             </TabsTrigger>
+            <TabsTrigger value="printers">
+              <Printer className="h-4 w-4 mr-2" />
+              Printers
+            </TabsTrigger>
             <TabsTrigger value="cameras">
               <Camera className="h-4 w-4 mr-2" />
               Cameras
@@ -442,6 +499,14 @@ export default function SettingsCard() {
               <Grid2X2 className="h-4 w-4 mr-2" />
               Modules
             </TabsTrigger>
+            <TabsTrigger value="notifications">
+              <Bell className="h-4 w-4 mr-2" />
+              Notifications
+            </TabsTrigger>
+            <TabsTrigger value="users">
+              <Users className="h-4 w-4 mr-2" />
+              Users
+            </TabsTrigger>
           </TabsList>
 
           {/* Printer Tab */}
@@ -562,11 +627,92 @@ export default function SettingsCard() {
                       </AlertDialogContent>
                     </AlertDialog>
                   </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">Emergency Stop</p>
+                      <p className="text-xs text-muted-foreground">Immediately halts the printer (M112)</p>
+                    </div>
+                    <AlertDialog onOpenChange={(open) => handleDestructiveDialogChange('emergency_stop', open)}>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={printerStatus === 'offline'}
+                        >
+                          Stop
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Emergency Stop?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will immediately halt the printer and abort any running print. A firmware restart is required afterwards.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDestructiveAction('emergency_stop')}
+                            disabled={!confirmationToken}
+                          >
+                            Emergency Stop
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">Shut Down Host</p>
+                      <p className="text-xs text-muted-foreground">Shuts down the machine running Klipper and Moonraker</p>
+                    </div>
+                    <AlertDialog onOpenChange={(open) => handleDestructiveDialogChange('shutdown', open)}>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={printerStatus === 'offline'}
+                        >
+                          Shut Down
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Shut Down Host?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will shut down the printer host. It has to be powered on again manually.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDestructiveAction('shutdown')}
+                            disabled={!confirmationToken}
+                          >
+                            Shut Down
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
                 </div>
               </div>
+
+              <div className="border-t border-zinc-800 pt-4">
+                <h3 className="text-sm font-semibold mb-3">Recent Control Actions</h3>
+                <ControlAuditLog refreshKey={auditRefreshKey} />
+              </div>
             </div>
           </TabsContent>
 
+          {/* Printers Tab */}
+          <TabsContent value="printers" className="space-y-4">
+            <PrintersSettings />
+            <MaterialPresetsSettings />
+          </TabsContent>
+
           {/* Cameras Tab */}
           <TabsContent value="cameras" className="space-y-4">
             <div className="space-y-4">
@@ -630,44 +776,40 @@ export default function SettingsCard() {
                 />
               </div>
 
-              {isDevelopment() && (
-                <>
-                  <div className="border-t border-zinc-800 pt-4">
-                    <h3 className="text-sm font-semibold mb-3">Visibility Settings</h3>
-                    <div className="space-y-2">
-                      <Label htmlFor="visibility-mode">Visibility Mode</Label>
-                      <Select
-                        value={settings.visibility_mode}
-                        onValueChange={(value) => updateSettings({ visibility_mode: value as 'offline' | 'private' | 'public' })}
-                      >
-                        <SelectTrigger id="visibility-mode">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="offline">Offline - Dashboard shows offline message</SelectItem>
-                          <SelectItem value="private">Private - Redact filenames and disable video</SelectItem>
-                          <SelectItem value="public">Public - Show all information</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <p className="text-xs text-muted-foreground">
-                        Controls what information is displayed on the dashboard
-                      </p>
-                    </div>
+              <div className="border-t border-zinc-800 pt-4">
+                <h3 className="text-sm font-semibold mb-3">Visibility Settings</h3>
+                <div className="space-y-2">
+                  <Label htmlFor="visibility-mode">Visibility Mode</Label>
+                  <Select
+                    value={settings.visibility_mode}
+                    onValueChange={(value) => updateSettings({ visibility_mode: value as 'offline' | 'private' | 'public' })}
+                  >
+                    <SelectTrigger id="visibility-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="offline">Offline - Dashboard shows offline message</SelectItem>
+                      <SelectItem value="private">Private - Redact filenames and disable video</SelectItem>
+                      <SelectItem value="public">Public - Show all information</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Controls what information is displayed on the dashboard
+                  </p>
+                </div>
 
-                    <div className="flex items-center justify-between mt-4">
-                      <div className="space-y-0.5">
-                        <Label htmlFor="video-feed">Video Feed</Label>
-                        <p className="text-xs text-muted-foreground">Enable/disable camera video feed</p>
-                      </div>
-                      <Switch
-                        id="video-feed"
-                        checked={settings.video_feed_enabled}
-                        onCheckedChange={(checked) => updateSettings({ video_feed_enabled: checked })}
-                      />
-                    </div>
+                <div className="flex items-center justify-between mt-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="video-feed">Video Feed</Label>
+                    <p className="text-xs text-muted-foreground">Enable/disable camera video feed</p>
                   </div>
-                </>
-              )}
+                  <Switch
+                    id="video-feed"
+                    checked={settings.video_feed_enabled}
+                    onCheckedChange={(checked) => updateSettings({ video_feed_enabled: checked })}
+                  />
+                </div>
+              </div>
 
               <div className="border-t border-zinc-800 pt-4">
                 <h3 className="text-sm font-semibold mb-3">Page Features</h3>
@@ -896,12 +1038,31 @@ export default function SettingsCard() {
                 )}
               </div>
             </div>
+
+            <SnapshotSettings />
+
+            <TimelapseSettings />
+
+            <RecordingSettings />
+
+            <FailureDetectionSettings />
           </TabsContent>
 
           {/* Modules Tab */}
           <TabsContent value="modules" className="space-y-4">
             <ModulesSettings />
           </TabsContent>
+
+          {/* Notifications Tab */}
+          <TabsContent value="notifications" className="space-y-4">
+            <NotificationsSettings />
+            <WebhooksSettings />
+          </TabsContent>
+
+          {/* Users Tab */}
+          <TabsContent value="users" className="space-y-4">
+            <UsersSettings currentUserId={currentUserId} />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -1,9 +1,10 @@
 "use client"
 
-import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Settings } from 'lucide-react'
+import { useSession } from '@/lib/hooks/use-session'
+import { hasRole } from '@/lib/permissions'
 
 interface SettingsControlProps {
   className?: string
@@ -11,11 +12,10 @@ interface SettingsControlProps {
 
 export function SettingsControl({ className }: SettingsControlProps) {
   const router = useRouter()
+  const { user } = useSession()
 
-  // Only show in development mode
-  const isDevelopment = process.env.NODE_ENV === 'development'
-  
-  if (!isDevelopment) {
+  // Only show to signed-in admins
+  if (!hasRole(user, 'admin')) {
     return null
   }
 
@@ -0,0 +1,32 @@
+"use client"
+
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { LogOut } from 'lucide-react'
+
+export function SignOutButton() {
+  const router = useRouter()
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Failed to sign out:', error)
+    }
+    router.replace('/')
+    router.refresh()
+  }
+
+  return (
+    <Button
+      onClick={handleSignOut}
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 flex items-center gap-1.5"
+      title="Sign out"
+    >
+      <LogOut className="h-4 w-4" />
+      <span className="text-xs">Sign out</span>
+    </Button>
+  )
+}
@@ -0,0 +1,360 @@
+'use client'
+
+/**
+ * Snapshot Settings Component
+ *
+ * Lets admins crop, scale and stamp each camera's snapshots and choose their
+ * format, with a preview of the processed snapshot
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Save, RefreshCw } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import type { WebcamConfig } from '@/lib/types'
+import {
+  CAMERA_CROP_RANGE,
+  CAMERA_IMAGE_FORMATS,
+  CAMERA_OVERLAY_POSITIONS,
+  CAMERA_QUALITY_RANGE,
+  CAMERA_WIDTH_RANGE,
+  DEFAULT_CAMERA_IMAGE_SETTINGS,
+  type CameraImageFormat,
+  type CameraImageSettings,
+  type CameraOverlayPosition
+} from '@/lib/camera-processing'
+
+const CROP_SIDES = [
+  { key: 'crop_left', label: 'Left' },
+  { key: 'crop_top', label: 'Top' },
+  { key: 'crop_right', label: 'Right' },
+  { key: 'crop_bottom', label: 'Bottom' }
+] as const
+
+function describeOrientation(webcam: WebcamConfig | undefined): string {
+  if (!webcam) return 'Unknown'
+  const parts: string[] = []
+  if (webcam.flip_horizontal) parts.push('flipped horizontally')
+  if (webcam.flip_vertical) parts.push('flipped vertically')
+  if (webcam.rotation) parts.push(`rotated ${webcam.rotation}°`)
+  return parts.length > 0 ? parts.join(', ') : 'As captured'
+}
+
+export function SnapshotSettings() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [printerId, setPrinterId] = useState<number | null>(null)
+  const [webcams, setWebcams] = useState<WebcamConfig[]>([])
+  const [uid, setUid] = useState<string | null>(null)
+  const [form, setForm] = useState<CameraImageSettings>(DEFAULT_CAMERA_IMAGE_SETTINGS)
+  const [previewTime, setPreviewTime] = useState(() => Date.now())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => {
+        const enabled = (data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)
+        setPrinters(enabled)
+        setPrinterId(enabled[0]?.id ?? null)
+        if (enabled.length === 0) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load printers')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (printerId === null) return
+    setIsLoading(true)
+    fetch(`/api/camera/webcams?printerId=${printerId}`)
+      .then(response => response.ok ? response.json() : { webcams: [] })
+      .then(data => {
+        const cameras: WebcamConfig[] = data.webcams || []
+        setWebcams(cameras)
+        setUid(cameras[0]?.uid ?? null)
+        if (cameras.length === 0) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load cameras')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [printerId])
+
+  useEffect(() => {
+    if (uid !== null) {
+      fetchSettings(uid)
+    }
+  }, [uid])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchSettings = async (cameraUid: string) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await fetch(`/api/camera/settings/image?uid=${encodeURIComponent(cameraUid)}`)
+      if (!response.ok) throw new Error('Failed to fetch camera image settings')
+
+      const data = await response.json()
+      setForm(data.settings)
+    } catch (err) {
+      setError('Failed to load camera image settings')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (uid === null) return
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch('/api/camera/settings/image', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uid, ...form }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save camera image settings')
+        return
+      }
+
+      setForm(data.settings)
+      setPreviewTime(Date.now())
+      showSuccess('Camera image settings saved')
+    } catch (err) {
+      setError('Failed to save camera image settings')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const webcam = webcams.find(camera => camera.uid === uid)
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Snapshot Processing</CardTitle>
+        <CardDescription>
+          Crop, scale and stamp each camera&apos;s snapshots. Flip and rotation come from the camera&apos;s Moonraker config. Applies to snapshots on stream views, print job snapshots, timelapses and notifications; live video only gets the flip and rotation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {printers.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="camera-image-printer">Printer</Label>
+              <Select
+                value={printerId !== null ? String(printerId) : undefined}
+                onValueChange={(value) => setPrinterId(parseInt(value, 10))}
+              >
+                <SelectTrigger id="camera-image-printer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {printers.map(printer => (
+                    <SelectItem key={printer.id} value={String(printer.id)}>{printer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {webcams.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="camera-image-camera">Camera</Label>
+              <Select value={uid ?? undefined} onValueChange={setUid}>
+                <SelectTrigger id="camera-image-camera">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {webcams.map(camera => (
+                    <SelectItem key={camera.uid} value={camera.uid}>{camera.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+          </div>
+        ) : printerId === null ? (
+          <p className="text-sm text-muted-foreground">No printers configured.</p>
+        ) : uid === null ? (
+          <p className="text-sm text-muted-foreground">No cameras found. The printer may be offline.</p>
+        ) : (
+          <form onSubmit={saveSettings} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Orientation from Moonraker: <span className="text-foreground">{describeOrientation(webcam)}</span>
+            </p>
+
+            <div className="space-y-2">
+              <Label>Crop (% of each side)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {CROP_SIDES.map(side => (
+                  <div key={side.key} className="space-y-1">
+                    <Label htmlFor={`camera-image-${side.key}`} className="text-xs text-muted-foreground">{side.label}</Label>
+                    <Input
+                      id={`camera-image-${side.key}`}
+                      type="number"
+                      min={CAMERA_CROP_RANGE.min}
+                      max={CAMERA_CROP_RANGE.max}
+                      value={form[side.key]}
+                      onChange={(e) => setForm(prev => ({ ...prev, [side.key]: parseInt(e.target.value, 10) || 0 }))}
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="camera-image-width">Maximum width (px)</Label>
+                <Input
+                  id="camera-image-width"
+                  type="number"
+                  min={CAMERA_WIDTH_RANGE.min}
+                  max={CAMERA_WIDTH_RANGE.max}
+                  placeholder="Camera's width"
+                  value={form.max_width ?? ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, max_width: e.target.value ? parseInt(e.target.value, 10) || 0 : null }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="camera-image-format">Format</Label>
+                <Select
+                  value={form.image_format}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, image_format: value as CameraImageFormat }))}
+                >
+                  <SelectTrigger id="camera-image-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CAMERA_IMAGE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format.toUpperCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="camera-image-quality">Quality</Label>
+                <Input
+                  id="camera-image-quality"
+                  type="number"
+                  min={CAMERA_QUALITY_RANGE.min}
+                  max={CAMERA_QUALITY_RANGE.max}
+                  value={form.image_quality}
+                  onChange={(e) => setForm(prev => ({ ...prev, image_quality: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+                <Label htmlFor="camera-image-timestamp">Timestamp overlay</Label>
+                <Switch
+                  id="camera-image-timestamp"
+                  checked={form.overlay_timestamp}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, overlay_timestamp: checked }))}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+                <Label htmlFor="camera-image-status">Printer status overlay</Label>
+                <Switch
+                  id="camera-image-status"
+                  checked={form.overlay_status}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, overlay_status: checked }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="camera-image-overlay-position">Overlay position</Label>
+                <Select
+                  value={form.overlay_position}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, overlay_position: value as CameraOverlayPosition }))}
+                  disabled={!form.overlay_timestamp && !form.overlay_status}
+                >
+                  <SelectTrigger id="camera-image-overlay-position">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CAMERA_OVERLAY_POSITIONS.map(position => (
+                      <SelectItem key={position} value={position}>{position === 'top' ? 'Top' : 'Bottom'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Preview</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setPreviewTime(Date.now())}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Refresh
+                </Button>
+              </div>
+              <div className="rounded-lg overflow-hidden bg-black border border-zinc-800 flex items-center justify-center min-h-32">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`/api/camera/snapshot?printerId=${printerId}&uid=${encodeURIComponent(uid)}&t=${previewTime}`}
+                  alt={`${webcam?.name || uid} snapshot`}
+                  className="max-h-80 w-auto object-contain"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Shows the saved settings</p>
+            </div>
+
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Changes
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
-import { memo, useMemo } from 'react'
-import { Camera, Video, Image, Clock, Terminal, ToggleLeft, ToggleRight, Leaf } from 'lucide-react'
+import { memo, useMemo, Fragment } from 'react'
+import { Camera, Video, Image, Clock, Terminal, ToggleLeft, ToggleRight, Leaf, ListOrdered } from 'lucide-react'
 import { XPGraph, XPVerticalBar, XP_COLORS } from '@/components/ui/xp-components'
 import { 
   formatTime, 
@@ -13,10 +13,13 @@ import {
   truncateFilename
 } from '@/lib/utils/taskmanager-utils'
 import type { WebcamConfig, LifetimeStats } from '@/lib/types'
-import type { SystemStats } from '@/app/api/printer/system-stats/route'
+import { getCameraTransform } from '@/lib/camera-processing'
+import { useGcodeConsole } from '@/lib/hooks/use-gcode-console'
+import { usePrintQueue } from '@/lib/hooks/use-print-queue'
+import type { SystemStats } from '@/lib/system-stats'
 
 // Types
-type DataboxType = 'model-preview' | 'print-job' | 'temperatures' | 'console' | 'system' | 'uptime' | 'lifetime'
+type DataboxType = 'model-preview' | 'print-job' | 'temperatures' | 'console' | 'system' | 'uptime' | 'lifetime' | 'print-queue'
 type VideoSize = 'responsive' | 'small' | 'medium' | 'large'
 type SnapshotPlacement = 'above' | 'below' | 'databoxes' | 'floating' | 'docked-above' | 'docked-below'
 
@@ -51,10 +54,14 @@ interface PrinterValues {
   filename: string
   printTime: number
   estimatedTimeLeft: number
+  etaRange: string | null // low – high of the ETA, when printing
   filamentUsed: number
   currentLayer: number
   totalLayers: number
   currentSpeed: number
+  // Chamber, MCU and other temperatures beyond the extruder and bed
+  additionalTemperatures: { name: string; label: string; actual: number; target: number | null }[]
+  fans: { name: string; label: string; speed: number }[]
 }
 
 interface ChromaSettings {
@@ -396,6 +403,7 @@ const VideoSection = memo(function VideoSection({
                   src={`/api/camera/stream?uid=${cameraUid}`}
                   alt={camera.name}
                   className="w-full h-full object-cover"
+                  style={{ transform: getCameraTransform(camera) }}
                   loading="lazy"
                   onError={(e) => {
                     (e.target as HTMLImageElement).style.display = 'none'
@@ -459,6 +467,7 @@ const VideoSection = memo(function VideoSection({
                   src={`/api/camera/stream?uid=${cameraUid}`}
                   alt={camera.name}
                   className="w-full h-full object-cover"
+                  style={{ transform: getCameraTransform(camera) }}
                   loading="lazy"
                   onError={(e) => {
                     (e.target as HTMLImageElement).style.display = 'none'
@@ -626,6 +635,7 @@ const PrintJobDatabox = memo(function PrintJobDatabox({
   totalLayers,
   printTime,
   estimatedTimeLeft,
+  etaRange,
   filamentUsed,
   currentSpeed
 }: {
@@ -635,6 +645,7 @@ const PrintJobDatabox = memo(function PrintJobDatabox({
   totalLayers: number
   printTime: number
   estimatedTimeLeft: number
+  etaRange: string | null
   filamentUsed: number
   currentSpeed: number
 }) {
@@ -663,6 +674,12 @@ const PrintJobDatabox = memo(function PrintJobDatabox({
         <span className="text-right">{formatTime(printTime)}</span>
         <span>Remaining</span>
         <span className="text-right">{formatTime(estimatedTimeLeft)}</span>
+        {etaRange && (
+          <>
+            <span>Range</span>
+            <span className="text-right">{etaRange}</span>
+          </>
+        )}
         <span>Filament</span>
         <span className="text-right">{formatFilament(filamentUsed)}</span>
         <span>Speed</span>
@@ -679,7 +696,9 @@ const TemperaturesDatabox = memo(function TemperaturesDatabox({
   bedTarget,
   extruderHistory,
   bedHistory,
-  cpuTemp
+  cpuTemp,
+  additionalTemperatures,
+  fans
 }: {
   extruderActual: number
   extruderTarget: number
@@ -688,6 +707,8 @@ const TemperaturesDatabox = memo(function TemperaturesDatabox({
   extruderHistory: number[]
   bedHistory: number[]
   cpuTemp?: number | null
+  additionalTemperatures: PrinterValues['additionalTemperatures']
+  fans: PrinterValues['fans']
 }) {
   const databoxStyle = {
     borderColor: '#919B9C',
@@ -723,6 +744,20 @@ const TemperaturesDatabox = memo(function TemperaturesDatabox({
         </span>
         <span>CPU</span>
         <span className="text-right">{cpuTemp?.toFixed(0) || 'N/A'}°C</span>
+        {additionalTemperatures.map(sensor => (
+          <Fragment key={sensor.name}>
+            <span className="truncate capitalize" title={sensor.name}>{sensor.label.replace(/_/g, ' ')}</span>
+            <span className="text-right">
+              {sensor.actual.toFixed(0)}{sensor.target !== null && ` / ${sensor.target.toFixed(0)}`}
+            </span>
+          </Fragment>
+        ))}
+        {fans.map(fan => (
+          <Fragment key={fan.name}>
+            <span className="truncate capitalize" title={fan.name}>{fan.label === 'fan' ? 'Part fan' : fan.label.replace(/_/g, ' ')}</span>
+            <span className="text-right">{Math.round(fan.speed * 100)}%</span>
+          </Fragment>
+        ))}
       </div>
     </div>
   )
@@ -745,6 +780,9 @@ const ConsoleDatabox = memo(function ConsoleDatabox({
   }
   
   const fileProgress = fileSize > 0 ? ((filePosition / fileSize) * 100).toFixed(1) : '0.0'
+  // Most recent console output, temperature reports hidden per the console's setting
+  const { lines } = useGcodeConsole()
+  const recentLines = lines.slice(-3)
   
   return (
     <div className="border p-2" style={databoxStyle}>
@@ -756,13 +794,22 @@ const ConsoleDatabox = memo(function ConsoleDatabox({
         className="bg-black text-green-400 font-mono text-[9px] p-1.5 overflow-hidden"
         style={{ 
           minHeight: '48px',
-          maxHeight: '60px',
+          maxHeight: '96px',
           borderRadius: '2px'
         }}
       >
         <div className="truncate" title={displayMessage || 'Ready'}>
           &gt; {displayMessage || 'Ready'}
         </div>
+        {recentLines.map(line => (
+          <div
+            key={line.id}
+            className={`truncate ${line.message.startsWith('!!') ? 'text-red-400' : 'text-green-300'}`}
+            title={line.message}
+          >
+            {line.type === 'command' ? `> ${line.message}` : line.message}
+          </div>
+        ))}
         <div className="text-green-600 text-[8px] mt-1">
           State: {klippyState} | File: {fileProgress}%
         </div>
@@ -857,6 +904,46 @@ const LifetimeDatabox = memo(function LifetimeDatabox({
   )
 })
 
+const PrintQueueDatabox = memo(function PrintQueueDatabox() {
+  const databoxStyle = {
+    borderColor: '#919B9C',
+    boxShadow: 'inset 1px 1px 0 #808080, inset -1px -1px 0 #FFFFFF'
+  }
+  
+  const { queue } = usePrintQueue()
+  
+  // Don't render without a queue for this printer
+  if (!queue) {
+    return null
+  }
+  
+  const state = queue.awaitingBedClear ? 'Clear bed' : queue.paused ? 'Paused' : 'Ready'
+  const nextJobs = queue.jobs.slice(0, 4)
+  
+  return (
+    <div className="border p-2" style={databoxStyle}>
+      <div className="font-bold text-black mb-1 flex items-center gap-1">
+        <ListOrdered className="w-3 h-3" />
+        <span>Print Queue</span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-2 text-black text-[10px]">
+        <span>State</span>
+        <span className={`text-right ${queue.awaitingBedClear ? 'text-red-700 font-bold' : ''}`}>{state}</span>
+        <span>Queued</span>
+        <span className="text-right">{queue.jobs.length}</span>
+        {nextJobs.map((job, index) => (
+          <Fragment key={job.id}>
+            <span>{index === 0 ? 'Next' : `#${index + 1}`}</span>
+            <span className="text-right truncate" title={job.filename}>
+              {truncateFilename(job.filename, 10)}
+            </span>
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  )
+})
+
 const GrowTentDatabox = memo(function GrowTentDatabox({
   growTentStatus,
   isEnabled
@@ -965,6 +1052,7 @@ export const KlipperTab = memo(function KlipperTab({
             totalLayers={printerValues.totalLayers}
             printTime={printerValues.printTime}
             estimatedTimeLeft={printerValues.estimatedTimeLeft}
+            etaRange={printerValues.etaRange}
             filamentUsed={printerValues.filamentUsed}
             currentSpeed={printerValues.currentSpeed}
           />
@@ -981,6 +1069,8 @@ export const KlipperTab = memo(function KlipperTab({
             extruderHistory={extruderHistory}
             bedHistory={bedHistory}
             cpuTemp={systemStats?.system?.cpuTemp}
+            additionalTemperatures={printerValues.additionalTemperatures}
+            fans={printerValues.fans}
           />
         )
       
@@ -1023,6 +1113,9 @@ export const KlipperTab = memo(function KlipperTab({
           />
         )
       
+      case 'print-queue':
+        return <PrintQueueDatabox key={databoxType} />
+      
       case 'grow-tent':
         return (
           <GrowTentDatabox
@@ -1,9 +1,10 @@
 'use client'
 
-import { memo, useMemo } from 'react'
-import { XPGraph } from '@/components/ui/xp-components'
+import { memo, useMemo, useState } from 'react'
+import { XPGraph, XPButton, XPDialog } from '@/components/ui/xp-components'
 import { formatBytes, getPrintStateText, formatTime } from '@/lib/utils/taskmanager-utils'
-import type { SystemStats, SystemInfo } from '@/app/api/printer/system-stats/route'
+import { getAvailablePrintJobActions, type PrintJobAction, type PrintState } from '@/lib/print-job'
+import type { SystemStats, SystemInfo } from '@/lib/system-stats'
 
 interface ApplicationsTabProps {
   printState: string
@@ -11,6 +12,9 @@ interface ApplicationsTabProps {
   printProgress: number
   currentLayer: number
   totalLayers: number
+  canControl?: boolean
+  pendingAction?: PrintJobAction | null
+  onJobAction?: (action: PrintJobAction) => void
 }
 
 // Applications Tab - Shows running print jobs
@@ -19,10 +23,19 @@ export const ApplicationsTab = memo(function ApplicationsTab({
   filename,
   printProgress,
   currentLayer,
-  totalLayers
+  totalLayers,
+  canControl = false,
+  pendingAction = null,
+  onJobAction
 }: ApplicationsTabProps) {
+  const [showEndTaskDialog, setShowEndTaskDialog] = useState(false)
   const statusText = getPrintStateText(printState)
   const isActive = printState === 'printing' || printState === 'paused' || printState === 'complete'
+  const availableActions = useMemo(
+    () => getAvailablePrintJobActions(printState as PrintState),
+    [printState]
+  )
+  const isBusy = pendingAction !== null
   
   return (
     <div className="p-1 h-full font-['Tahoma'] text-xs flex flex-col">
@@ -48,6 +61,33 @@ export const ApplicationsTab = memo(function ApplicationsTab({
         )}
       </div>
       
+      {/* Job control buttons (operators only) */}
+      {canControl && onJobAction && (
+        <div className="flex justify-end gap-2 p-2 border-t border-[#919B9C]">
+          <XPButton
+            disabled={isBusy || !availableActions.includes('cancel')}
+            onClick={() => setShowEndTaskDialog(true)}
+          >
+            {pendingAction === 'cancel' ? 'Ending...' : 'End Task'}
+          </XPButton>
+          {printState === 'paused' ? (
+            <XPButton
+              disabled={isBusy || !availableActions.includes('resume')}
+              onClick={() => onJobAction('resume')}
+            >
+              {pendingAction === 'resume' ? 'Resuming...' : 'Resume'}
+            </XPButton>
+          ) : (
+            <XPButton
+              disabled={isBusy || !availableActions.includes('pause')}
+              onClick={() => onJobAction('pause')}
+            >
+              {pendingAction === 'pause' ? 'Pausing...' : 'Pause'}
+            </XPButton>
+          )}
+        </div>
+      )}
+      
       {/* Status bar at bottom */}
       <div className="p-2 border-t border-[#919B9C] text-black text-[10px]">
         {printState === 'printing' || printState === 'paused' ? (
@@ -56,6 +96,29 @@ export const ApplicationsTab = memo(function ApplicationsTab({
           <span>Ready</span>
         )}
       </div>
+
+      {/* End Task Confirmation Dialog */}
+      <XPDialog
+        title="End Task"
+        isOpen={showEndTaskDialog}
+        onClose={() => setShowEndTaskDialog(false)}
+      >
+        <p className="text-[11px] text-black mb-3">
+          Are you sure you want to cancel {filename ? `"${filename}"` : 'the current print'}?
+        </p>
+        <div className="flex justify-end gap-2">
+          <XPButton onClick={() => setShowEndTaskDialog(false)}>Cancel</XPButton>
+          <XPButton
+            variant="danger"
+            onClick={() => {
+              setShowEndTaskDialog(false)
+              onJobAction?.('cancel')
+            }}
+          >
+            End Task
+          </XPButton>
+        </div>
+      </XPDialog>
     </div>
   )
 })
@@ -0,0 +1,283 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { SlidersHorizontal, Snowflake, Flame, Power, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useSession } from '@/lib/hooks/use-session'
+import { useWebSocket } from '@/lib/contexts/websocket-context'
+import { hasRole } from '@/lib/permissions'
+import { withPrinterId } from '@/lib/utils/api'
+import type { PrinterStatus } from '@/lib/types'
+import type { MaterialPreset } from '@/lib/material-presets'
+import {
+  buildHeaterTargetCommand,
+  buildFanSpeedCommand,
+  buildSpeedFactorCommand,
+  buildFlowFactorCommand,
+  buildPreheatCommand,
+  isControllableFan,
+  COOL_DOWN_COMMAND,
+  type HeaterLimits
+} from '@/lib/temperature-control'
+
+interface TemperatureControlsProps {
+  status: PrinterStatus
+  className?: string
+}
+
+// A heater or temperature fan whose target can be set
+interface TargetRow {
+  name: string
+  label: string
+  actual: number
+  target: number
+  type: string
+}
+
+function formatLabel(label: string): string {
+  return label.replace(/_/g, ' ')
+}
+
+/**
+ * Heater targets, fan speeds, speed/flow factors and material presets.
+ * Only rendered for signed-in operators. Targets are checked against the
+ * configured heater limits here and again by the server.
+ */
+export function TemperatureControls({ status, className }: TemperatureControlsProps) {
+  const { user } = useSession()
+  const { sendGcode, isConnected, printerId } = useWebSocket()
+  const [presets, setPresets] = useState<MaterialPreset[]>([])
+  const [limits, setLimits] = useState<HeaterLimits>({})
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [fanSpeeds, setFanSpeeds] = useState<Record<string, number>>({})
+  const [speedFactor, setSpeedFactor] = useState('')
+  const [flowFactor, setFlowFactor] = useState('')
+  const [pending, setPending] = useState<string | null>(null)
+
+  const isOperator = hasRole(user, 'operator')
+
+  useEffect(() => {
+    if (!isOperator) return
+
+    fetch('/api/material-presets')
+      .then(response => response.ok ? response.json() : { presets: [] })
+      .then(data => setPresets(data.presets || []))
+      .catch(error => console.error('Failed to load material presets:', error))
+
+    fetch(withPrinterId('/api/printer/heater-limits', printerId))
+      .then(response => response.ok ? response.json() : { limits: {} })
+      .then(data => setLimits(data.limits || {}))
+      .catch(error => console.error('Failed to load heater limits:', error))
+  }, [isOperator, printerId])
+
+  if (!isOperator) {
+    return null
+  }
+
+  const send = async (key: string, script: string, successMessage: string) => {
+    setPending(key)
+    try {
+      await sendGcode(script)
+      toast.success(successMessage)
+    } catch (error) {
+      console.error('Error sending control command:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send command')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const targetRows: TargetRow[] = [
+    ...(status.heaters || []),
+    ...(status.sensors || [])
+      .filter(sensor => sensor.type === 'temperature_fan')
+      .map(sensor => ({ ...sensor, target: sensor.target ?? 0 })),
+  ]
+  const fans = (status.fans || []).filter(isControllableFan)
+  const isBusy = pending !== null || !isConnected
+
+  const setTarget = (row: TargetRow, target: number) => {
+    const limit = limits[row.name]
+    if (target !== 0 && limit && (target > limit.max || target < limit.min)) {
+      toast.error(`${formatLabel(row.label)} accepts ${limit.min}–${limit.max}°C`)
+      return
+    }
+    send(row.name, buildHeaterTargetCommand(row, target), `${formatLabel(row.label)} target set to ${target}°C`)
+    setTargets(prev => ({ ...prev, [row.name]: '' }))
+  }
+
+  const applyPreset = (preset: MaterialPreset) => {
+    const extruderLimit = limits.extruder
+    const bedLimit = limits.heater_bed
+    if ((extruderLimit && preset.extruder_temp > extruderLimit.max) || (bedLimit && preset.bed_temp > bedLimit.max)) {
+      toast.error(`${preset.name} exceeds this printer's heater limits`)
+      return
+    }
+    send(`preset-${preset.id}`, buildPreheatCommand(preset), `Preheating for ${preset.name}`)
+  }
+
+  return (
+    <Card className={`bg-zinc-950 border-zinc-800 ${className || ''}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-orange-500" />
+          Controls
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Presets */}
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <Button
+              key={preset.id}
+              variant="outline"
+              size="sm"
+              onClick={() => applyPreset(preset)}
+              disabled={isBusy}
+              title={`${preset.extruder_temp}°C / ${preset.bed_temp}°C${preset.fan_speed !== null ? `, fan ${preset.fan_speed}%` : ''}`}
+            >
+              {pending === `preset-${preset.id}` ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flame className="h-4 w-4" />}
+              {preset.name}
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => send('cool-down', COOL_DOWN_COMMAND, 'Heaters and part fan turned off')}
+            disabled={isBusy}
+          >
+            {pending === 'cool-down' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Snowflake className="h-4 w-4" />}
+            Cool Down
+          </Button>
+        </div>
+
+        {/* Heater targets */}
+        <div className="space-y-2">
+          {targetRows.map(row => {
+            const limit = limits[row.name]
+            const value = targets[row.name] ?? ''
+            return (
+              <form
+                key={row.name}
+                className="flex items-center gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault()
+                  if (value !== '') setTarget(row, Number(value))
+                }}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm capitalize truncate" title={row.name}>{formatLabel(row.label)}</p>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {row.actual}°C / {row.target}°C{limit && ` · max ${limit.max}°C`}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={limit?.max}
+                  value={value}
+                  onChange={(event) => setTargets(prev => ({ ...prev, [row.name]: event.target.value }))}
+                  placeholder={String(row.target)}
+                  className="w-20 font-mono text-xs"
+                  disabled={isBusy}
+                />
+                <Button type="submit" size="sm" variant="outline" disabled={isBusy || value === ''}>
+                  {pending === row.name ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Set'}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setTarget(row, 0)}
+                  disabled={isBusy || row.target === 0}
+                  title={`Turn off ${formatLabel(row.label)}`}
+                >
+                  <Power className="h-4 w-4" />
+                </Button>
+              </form>
+            )
+          })}
+        </div>
+
+        {/* Fans */}
+        {fans.length > 0 && (
+          <div className="space-y-3">
+            {fans.map(fan => {
+              const speed = fanSpeeds[fan.name] ?? Math.round(fan.speed * 100)
+              const label = fan.type === 'fan' ? 'Part fan' : formatLabel(fan.label)
+              return (
+                <div key={fan.name} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="capitalize">{label}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{speed}%</span>
+                  </div>
+                  <Slider
+                    value={[speed]}
+                    min={0}
+                    max={100}
+                    step={5}
+                    disabled={isBusy}
+                    onValueChange={([next]) => setFanSpeeds(prev => ({ ...prev, [fan.name]: next }))}
+                    onValueCommit={([next]) => {
+                      send(fan.name, buildFanSpeedCommand(fan, next / 100), `${label} set to ${next}%`)
+                        .finally(() => setFanSpeeds(prev => {
+                          const { [fan.name]: _, ...rest } = prev
+                          return rest
+                        }))
+                    }}
+                  />
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Speed and flow factors */}
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            { key: 'speed', label: 'Speed', current: status.speeds.factor, value: speedFactor, setValue: setSpeedFactor, build: buildSpeedFactorCommand },
+            { key: 'flow', label: 'Flow', current: status.speeds.flowFactor ?? 1, value: flowFactor, setValue: setFlowFactor, build: buildFlowFactorCommand },
+          ].map(factor => (
+            <form
+              key={factor.key}
+              className="space-y-1"
+              onSubmit={(event) => {
+                event.preventDefault()
+                const percent = Number(factor.value)
+                if (factor.value === '' || !(percent > 0) || percent > 500) {
+                  toast.error(`${factor.label} must be between 1 and 500%`)
+                  return
+                }
+                send(factor.key, factor.build(percent), `${factor.label} set to ${Math.round(percent)}%`)
+                factor.setValue('')
+              }}
+            >
+              <p className="text-sm">
+                {factor.label} <span className="font-mono text-xs text-muted-foreground">{Math.round(factor.current * 100)}%</span>
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={factor.value}
+                  onChange={(event) => factor.setValue(event.target.value)}
+                  placeholder={String(Math.round(factor.current * 100))}
+                  className="font-mono text-xs"
+                  disabled={isBusy}
+                />
+                <Button type="submit" size="sm" variant="outline" disabled={isBusy || factor.value === ''}>
+                  {pending === factor.key ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Set'}
+                </Button>
+              </div>
+            </form>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,34 +3,59 @@
 import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Badge } from "@/components/ui/badge"
-import { Clock, Play, Film, Calendar, FileText } from "lucide-react"
-import Image from "next/image"
-
-interface TimelapseFile {
-  filename: string;
-  thumbnail: string;
-  video: string;
-  title: string;
-  date: string;
-  size: number;
-  modified: Date;
-}
+import { Button } from "@/components/ui/button"
+import { Clock, Play, Film, Calendar, FileText, Download, Trash2, History, ChevronLeft, ChevronRight } from "lucide-react"
+import { toast } from "sonner"
+import { useSession } from "@/lib/hooks/use-session"
+import { usePrinterId } from "@/lib/contexts/websocket-context"
+import { hasRole } from "@/lib/permissions"
+import { formatAbsoluteTime } from "@/lib/guestbook"
+import { formatTime, formatFilamentLength, formatFileSize } from "@/lib/utils/formatting"
+import { deleteTimelapse, isTimelapseImage, type TimelapseListResponse, type TimelapseVideo } from "@/lib/timelapses"
 
-interface TimelapseResponse {
-  timelapse: TimelapseFile[];
-  count: number;
+interface TimelapseCardProps {
+  className?: string
 }
 
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+const PAGE_SIZE = 9
+
+const formatDate = (timelapse: TimelapseVideo) => formatAbsoluteTime(new Date(timelapse.modified * 1000).toISOString())
+
+// Thumbnail with a placeholder when none could be found or generated
+function TimelapseThumbnail({ timelapse }: { timelapse: TimelapseVideo }) {
+  const [failed, setFailed] = useState(false)
+
+  if (failed) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center">
+        <Film className="h-10 w-10 text-zinc-700" />
+      </div>
+    )
+  }
+
+  return (
+    <img
+      src={timelapse.thumbnail_url}
+      alt={timelapse.title}
+      className="absolute inset-0 h-full w-full object-cover transition-transform duration-200 group-hover:scale-105"
+      loading="lazy"
+      onError={() => setFailed(true)}
+    />
+  )
 }
 
-function VideoModal({ timelapse }: { timelapse: TimelapseFile }) {
+function VideoModal({ timelapse }: { timelapse: TimelapseVideo }) {
   return (
     <DialogContent className="max-w-4xl bg-zinc-950 border-zinc-800">
       <DialogHeader>
@@ -40,41 +65,61 @@ function VideoModal({ timelapse }: { timelapse: TimelapseFile }) {
             {timelapse.title}
           </div>
         </DialogTitle>
-        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
           <div className="flex items-center gap-1">
             <Calendar className="h-4 w-4" />
-            {timelapse.date}
+            {formatDate(timelapse)}
           </div>
           <div className="flex items-center gap-1">
             <FileText className="h-4 w-4" />
             {formatFileSize(timelapse.size)}
           </div>
+          {timelapse.job && (
+            <div className="flex items-center gap-1">
+              <History className="h-4 w-4" />
+              Print job #{timelapse.job.id} • {timelapse.job.status}
+              {timelapse.job.print_duration ? ` • ${formatTime(timelapse.job.print_duration)}` : ''}
+              {timelapse.job.filament_used ? ` • ${formatFilamentLength(timelapse.job.filament_used)}` : ''}
+            </div>
+          )}
         </div>
       </DialogHeader>
-      
+
       <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
-        <video
-          controls
-          autoPlay
-          className="w-full h-full object-contain"
-          poster={timelapse.thumbnail}
-        >
-          <source src={timelapse.video} type="video/mp4" />
-          Your browser does not support the video tag.
-        </video>
+        {isTimelapseImage(timelapse) ? (
+          <img src={timelapse.video_url} alt={timelapse.title} className="w-full h-full object-contain" />
+        ) : (
+          <video
+            controls
+            autoPlay
+            className="w-full h-full object-contain"
+            poster={timelapse.thumbnail_url}
+          >
+            <source src={timelapse.video_url} type={timelapse.content_type} />
+            Your browser does not support the video tag.
+          </video>
+        )}
       </div>
     </DialogContent>
   )
 }
 
-function TimelapseGrid({ timelapses }: { timelapses: TimelapseFile[] }) {
+function TimelapseGrid({
+  timelapses,
+  canDelete,
+  onDelete
+}: {
+  timelapses: TimelapseVideo[]
+  canDelete: boolean
+  onDelete: (timelapse: TimelapseVideo) => void
+}) {
   if (timelapses.length === 0) {
     return (
       <div className="text-center py-8">
         <Film className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
         <p className="text-muted-foreground">No timelapse videos found</p>
         <p className="text-sm text-muted-foreground mt-2">
-          Run `pnpm sync-timelapse` to download videos from your printer
+          Videos rendered by moonraker-timelapse appear here, or run `pnpm sync-timelapse` to copy them to the dashboard
         </p>
       </div>
     )
@@ -83,79 +128,143 @@ function TimelapseGrid({ timelapses }: { timelapses: TimelapseFile[] }) {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
       {timelapses.map((timelapse) => (
-        <Dialog key={timelapse.filename}>
-          <DialogTrigger asChild>
-            <div className="group relative aspect-video bg-zinc-900 rounded-lg overflow-hidden cursor-pointer hover:ring-2 hover:ring-cyan-500/50 transition-all duration-200">
-              <Image
-                src={timelapse.thumbnail}
-                alt={timelapse.title}
-                fill
-                className="object-cover transition-transform duration-200 group-hover:scale-105"
-                sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
-              />
-              
-              {/* Play button overlay */}
-              <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
-                <div className="bg-cyan-500/90 rounded-full p-3">
-                  <Play className="h-6 w-6 text-white ml-1" fill="currentColor" />
+        <div key={`${timelapse.source}:${timelapse.path}`} className="space-y-1">
+          <Dialog>
+            <DialogTrigger asChild>
+              <div className="group relative aspect-video bg-zinc-900 rounded-lg overflow-hidden cursor-pointer hover:ring-2 hover:ring-cyan-500/50 transition-all duration-200">
+                <TimelapseThumbnail timelapse={timelapse} />
+
+                {/* Play button overlay */}
+                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
+                  <div className="bg-cyan-500/90 rounded-full p-3">
+                    <Play className="h-6 w-6 text-white ml-1" fill="currentColor" />
+                  </div>
                 </div>
-              </div>
-              
-              {/* Title overlay */}
-              <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-3">
-                <h3 className="text-white text-sm font-medium truncate mb-1">
-                  {timelapse.title}
-                </h3>
-                <div className="flex items-center gap-2 text-xs text-gray-300">
-                  <div className="flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {timelapse.date}
+
+                {/* Title overlay */}
+                <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-3">
+                  <h3 className="text-white text-sm font-medium truncate mb-1">
+                    {timelapse.title}
+                  </h3>
+                  <div className="flex items-center gap-2 text-xs text-gray-300">
+                    <div className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDate(timelapse)}
+                    </div>
+                    <Badge variant="secondary" className="text-xs px-1.5 py-0.5 h-auto">
+                      {formatFileSize(timelapse.size)}
+                    </Badge>
                   </div>
-                  <Badge variant="secondary" className="text-xs px-1.5 py-0.5 h-auto">
-                    {formatFileSize(timelapse.size)}
-                  </Badge>
                 </div>
               </div>
+            </DialogTrigger>
+
+            <VideoModal timelapse={timelapse} />
+          </Dialog>
+
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span className="truncate" title={timelapse.filename}>
+              {timelapse.job ? `Job #${timelapse.job.id} • ${timelapse.job.status}` : timelapse.filename}
+            </span>
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" className="h-7 px-2" asChild>
+                <a href={`${timelapse.video_url}&download=1`} title="Download">
+                  <Download className="h-3.5 w-3.5" />
+                </a>
+              </Button>
+              {canDelete && (
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onDelete(timelapse)} title="Delete">
+                  <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                </Button>
+              )}
             </div>
-          </DialogTrigger>
-          
-          <VideoModal timelapse={timelapse} />
-        </Dialog>
+          </div>
+        </div>
       ))}
     </div>
   )
 }
 
-export default function TimelapseCard() {
-  const [timelapses, setTimelapses] = useState<TimelapseFile[]>([])
+export default function TimelapseCard({ className = "bg-zinc-950 border-zinc-800" }: TimelapseCardProps) {
+  const { user } = useSession()
+  const printerId = usePrinterId()
+  const [timelapses, setTimelapses] = useState<TimelapseVideo[]>([])
+  const [pagination, setPagination] = useState<TimelapseListResponse['pagination']>({
+    page: 1,
+    limit: PAGE_SIZE,
+    total: 0,
+    totalPages: 0,
+    hasNext: false,
+    hasPrev: false
+  })
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [isAvailable, setIsAvailable] = useState(true)
+  const [pendingDelete, setPendingDelete] = useState<TimelapseVideo | null>(null)
 
-  useEffect(() => {
-    const fetchTimelapses = async () => {
-      try {
-        setLoading(true)
-        const response = await fetch('/api/timelapse/list', { cache: 'no-store' })
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch timelapses: ${response.status}`)
-        }
-        
-        const data: TimelapseResponse = await response.json()
-        setTimelapses(data.timelapse)
-      } catch (error) {
-        console.error('Error fetching timelapses:', error)
-        setError(error instanceof Error ? error.message : 'Unknown error')
-      } finally {
-        setLoading(false)
+  const canDelete = hasRole(user, 'operator')
+
+  const fetchTimelapses = async (page: number = 1) => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (printerId !== undefined) params.set('printerId', String(printerId))
+      const response = await fetch(`/api/timelapse/list?${params}`, { cache: 'no-store' })
+
+      if (response.status === 403) {
+        // Timelapses are hidden for this visitor
+        setIsAvailable(false)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch timelapses: ${response.status}`)
       }
+
+      const data: TimelapseListResponse = await response.json()
+      setTimelapses(data.timelapse)
+      setPagination(data.pagination)
+      setError(null)
+    } catch (error) {
+      console.error('Error fetching timelapses:', error)
+      setError(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      setLoading(false)
     }
+  }
 
-    fetchTimelapses()
+  useEffect(() => {
+    fetchTimelapses(1)
   }, [])
 
+  const handlePageChange = (newPage: number) => {
+    if (newPage >= 1 && newPage <= pagination.totalPages) {
+      fetchTimelapses(newPage)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+    const timelapse = pendingDelete
+    setPendingDelete(null)
+
+    try {
+      const result = await deleteTimelapse(timelapse)
+      toast.success(result.message)
+      // Step back when the last video of a page was removed
+      await fetchTimelapses(timelapses.length === 1 && pagination.page > 1 ? pagination.page - 1 : pagination.page)
+    } catch (err) {
+      console.error('Error deleting timelapse:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to delete timelapse')
+    }
+  }
+
+  if (!isAvailable) {
+    return null
+  }
+
   return (
-    <Card className="bg-zinc-950 border-zinc-800">
+    <Card className={className}>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
@@ -164,31 +273,75 @@ export default function TimelapseCard() {
           </CardTitle>
           {!loading && !error && (
             <Badge variant="secondary" className="text-xs">
-              {timelapses.length} video{timelapses.length !== 1 ? 's' : ''}
+              {pagination.total} video{pagination.total !== 1 ? 's' : ''}
             </Badge>
           )}
         </div>
       </CardHeader>
-      
-      <CardContent>
-        {loading && (
+
+      <CardContent className="space-y-3">
+        {loading && timelapses.length === 0 && (
           <div className="flex items-center justify-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500"></div>
             <span className="ml-3 text-muted-foreground">Loading timelapses...</span>
           </div>
         )}
-        
+
         {error && (
           <div className="text-center py-8">
             <div className="text-red-500 mb-2">Failed to load timelapses</div>
             <div className="text-sm text-muted-foreground">{error}</div>
           </div>
         )}
-        
-        {!loading && !error && (
-          <TimelapseGrid timelapses={timelapses} />
+
+        {!(loading && timelapses.length === 0) && !error && (
+          <TimelapseGrid timelapses={timelapses} canDelete={canDelete} onDelete={setPendingDelete} />
+        )}
+
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between pt-2">
+            <p className="text-xs text-muted-foreground">
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} videos)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(pagination.page - 1)}
+                disabled={!pagination.hasPrev || loading}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(pagination.page + 1)}
+                disabled={!pagination.hasNext || loading}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
         )}
       </CardContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Timelapse?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.filename}&quot; will be permanently removed
+              {pendingDelete?.source === 'printer' ? ' from the printer' : ' from the dashboard'}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   )
-}
\ No newline at end of file
+}
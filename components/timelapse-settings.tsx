@@ -0,0 +1,309 @@
+'use client'
+
+/**
+ * Timelapse Settings Component
+ *
+ * Lets admins turn on the dashboard's own timelapse recorder per printer and
+ * choose the camera, when frames are taken and how the video is rendered
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Save, Circle } from 'lucide-react'
+import type { PublicPrinterInfo } from '@/lib/printers'
+import {
+  DEFAULT_TIMELAPSE_CAPTURE_SETTINGS,
+  TIMELAPSE_FORMATS,
+  TIMELAPSE_FRAMERATE_RANGE,
+  TIMELAPSE_INTERVAL_RANGE,
+  TIMELAPSE_TRIGGER_LABELS,
+  TIMELAPSE_TRIGGERS,
+  type TimelapseCaptureSettings,
+  type TimelapseFormat,
+  type TimelapseRecordingState,
+  type TimelapseSettingsResponse,
+  type TimelapseTrigger
+} from '@/lib/timelapses'
+
+// Select items cannot have an empty value
+const FIRST_CAMERA = 'first'
+
+export function TimelapseSettings() {
+  const [printers, setPrinters] = useState<PublicPrinterInfo[]>([])
+  const [printerId, setPrinterId] = useState<number | null>(null)
+  const [webcams, setWebcams] = useState<{ uid: string; name: string }[]>([])
+  const [form, setForm] = useState<TimelapseCaptureSettings>(DEFAULT_TIMELAPSE_CAPTURE_SETTINGS)
+  const [state, setState] = useState<TimelapseRecordingState | null>(null)
+  const [ffmpegAvailable, setFfmpegAvailable] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Fetch printers on mount
+  useEffect(() => {
+    fetch('/api/printers')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch printers')
+        return response.json()
+      })
+      .then(data => {
+        const enabled = (data.printers || []).filter((printer: PublicPrinterInfo) => printer.enabled)
+        setPrinters(enabled)
+        setPrinterId(enabled[0]?.id ?? null)
+        if (enabled.length === 0) setIsLoading(false)
+      })
+      .catch(err => {
+        setError('Failed to load printers')
+        setIsLoading(false)
+        console.error(err)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (printerId !== null) {
+      fetchSettings(printerId)
+    }
+  }, [printerId])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchSettings = async (id: number) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const [settingsResponse, webcamsResponse] = await Promise.all([
+        fetch(`/api/timelapse/settings?printerId=${id}`),
+        fetch(`/api/camera/webcams?printerId=${id}`)
+      ])
+      if (!settingsResponse.ok) throw new Error('Failed to fetch timelapse settings')
+
+      const data: TimelapseSettingsResponse = await settingsResponse.json()
+      setForm(data.settings)
+      setState(data.state)
+      setFfmpegAvailable(data.ffmpegAvailable)
+
+      // The printer may be offline; the saved camera is kept either way
+      const cameras = webcamsResponse.ok ? await webcamsResponse.json() : { webcams: [] }
+      setWebcams(cameras.webcams || [])
+    } catch (err) {
+      setError('Failed to load timelapse settings')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (printerId === null) return
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/timelapse/settings?printerId=${printerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save timelapse settings')
+        return
+      }
+
+      setForm(data.settings)
+      showSuccess('Timelapse settings saved')
+    } catch (err) {
+      setError('Failed to save timelapse settings')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const cameraOptions = form.camera_uid && !webcams.some(webcam => webcam.uid === form.camera_uid)
+    ? [...webcams, { uid: form.camera_uid, name: form.camera_uid }]
+    : webcams
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Timelapse Recording</CardTitle>
+        <CardDescription>
+          Record timelapses on the dashboard for printers without moonraker-timelapse. Frames are taken while printing and rendered when the print ends; the videos appear in the Timelapse card.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {printers.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="timelapse-printer">Printer</Label>
+            <Select
+              value={printerId !== null ? String(printerId) : undefined}
+              onValueChange={(value) => setPrinterId(parseInt(value, 10))}
+            >
+              <SelectTrigger id="timelapse-printer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {printers.map(printer => (
+                  <SelectItem key={printer.id} value={String(printer.id)}>{printer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+          </div>
+        ) : printerId === null ? (
+          <p className="text-sm text-muted-foreground">No printers configured.</p>
+        ) : (
+          <form onSubmit={saveSettings} className="space-y-4">
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+              <div className="space-y-0.5">
+                <Label htmlFor="timelapse-enabled">Record timelapses</Label>
+                {state && (state.recording || state.rendering) && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    {state.recording && (
+                      <>
+                        <Circle className="h-2 w-2 fill-red-500 text-red-500" />
+                        Recording, {state.frames} frame{state.frames !== 1 ? 's' : ''}
+                      </>
+                    )}
+                    {state.recording && state.rendering && ' · '}
+                    {state.rendering && 'Rendering the last print'}
+                  </p>
+                )}
+              </div>
+              <Switch
+                id="timelapse-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="timelapse-camera">Camera</Label>
+                <Select
+                  value={form.camera_uid ?? FIRST_CAMERA}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, camera_uid: value === FIRST_CAMERA ? null : value }))}
+                >
+                  <SelectTrigger id="timelapse-camera">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FIRST_CAMERA}>First camera</SelectItem>
+                    {cameraOptions.map(webcam => (
+                      <SelectItem key={webcam.uid} value={webcam.uid}>{webcam.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timelapse-trigger">Take a frame</Label>
+                <Select
+                  value={form.trigger}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, trigger: value as TimelapseTrigger }))}
+                >
+                  <SelectTrigger id="timelapse-trigger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMELAPSE_TRIGGERS.map(trigger => (
+                      <SelectItem key={trigger} value={trigger}>{TIMELAPSE_TRIGGER_LABELS[trigger]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timelapse-interval">Interval (seconds)</Label>
+                <Input
+                  id="timelapse-interval"
+                  type="number"
+                  min={TIMELAPSE_INTERVAL_RANGE.min}
+                  max={TIMELAPSE_INTERVAL_RANGE.max}
+                  value={form.interval_seconds}
+                  onChange={(e) => setForm(prev => ({ ...prev, interval_seconds: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  {form.trigger === 'layer'
+                    ? 'Used when the slicer does not report layers (SET_PRINT_STATS_INFO)'
+                    : 'Time between frames while printing'}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timelapse-framerate">Frame rate (fps)</Label>
+                <Input
+                  id="timelapse-framerate"
+                  type="number"
+                  min={TIMELAPSE_FRAMERATE_RANGE.min}
+                  max={TIMELAPSE_FRAMERATE_RANGE.max}
+                  value={form.framerate}
+                  onChange={(e) => setForm(prev => ({ ...prev, framerate: parseInt(e.target.value, 10) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="timelapse-format">Format</Label>
+                <Select
+                  value={form.format}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, format: value as TimelapseFormat }))}
+                  disabled={!ffmpegAvailable}
+                >
+                  <SelectTrigger id="timelapse-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMELAPSE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format.toUpperCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!ffmpegAvailable && (
+                  <p className="text-xs text-amber-500">
+                    ffmpeg was not found on the server, so timelapses are saved as animated WebP. Install ffmpeg or set FFMPEG_PATH for MP4 and WebM.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Changes
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,7 @@ export interface CameraFeedProps {
   className?: string
   timestamp?: number // For snapshot refresh
   fillContainer?: boolean // When true, fills parent container without aspect ratio constraint
+  transform?: string // CSS transform for the camera's flip/rotation; snapshots arrive already oriented
 }
 
 // Camera feed component with badge overlay
@@ -34,6 +35,7 @@ export const CameraFeed = memo(function CameraFeed({
   className = '',
   timestamp,
   fillContainer = false,
+  transform,
 }: CameraFeedProps) {
   const [hasError, setHasError] = useState(false)
   
@@ -87,6 +89,7 @@ export const CameraFeed = memo(function CameraFeed({
             onLoad={handleLoad}
             style={{
               display: hasError ? 'none' : 'block',
+              transform,
             }}
           />
         ) : (
@@ -15,6 +15,7 @@ export interface CameraWindowConfig {
   fps?: number | string
   aspectRatio?: string
   chromaColor?: string
+  transform?: string
 }
 
 export interface CameraWindowState {
@@ -132,6 +133,7 @@ export const FloatingCameraManager = memo(function FloatingCameraManager({
             fps={camera.fps}
             aspectRatio={camera.aspectRatio}
             chromaColor={camera.chromaColor}
+            transform={camera.transform}
             timestamp={timestamp}
             showBadge={true}
             badgePosition="top-left"
@@ -301,6 +303,7 @@ export const DockedCameraManager = memo(function DockedCameraManager({
               fps={camera.fps}
               aspectRatio={camera.aspectRatio}
               chromaColor={camera.chromaColor}
+              transform={camera.transform}
               timestamp={timestamp}
               showBadge={true}
               badgePosition="top-left"
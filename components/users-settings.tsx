@@ -0,0 +1,282 @@
+'use client'
+
+/**
+ * Users Settings Component
+ *
+ * Lets admins create dashboard accounts, change roles and remove users
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, AlertCircle, CheckCircle2, Trash2, UserPlus } from 'lucide-react'
+import { USER_ROLES, type UserRole } from '@/lib/permissions'
+import type { DashboardUser } from '@/lib/auth'
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Can view the dashboard',
+  operator: 'Can control the printer',
+  admin: 'Can control the printer and change settings'
+}
+
+interface UsersSettingsProps {
+  currentUserId?: number
+}
+
+export function UsersSettings({ currentUserId }: UsersSettingsProps) {
+  const [users, setUsers] = useState<DashboardUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [newUsername, setNewUsername] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [newRole, setNewRole] = useState<UserRole>('viewer')
+
+  // Fetch users on mount
+  useEffect(() => {
+    fetchUsers()
+  }, [])
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchUsers = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/auth/users')
+      if (!response.ok) throw new Error('Failed to fetch users')
+      const data = await response.json()
+      setUsers(data.users || [])
+    } catch (err) {
+      setError('Failed to load users')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch('/api/auth/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create user')
+        return
+      }
+
+      setUsers(prev => [...prev, data.user].sort((a, b) => a.username.localeCompare(b.username)))
+      setNewUsername('')
+      setNewPassword('')
+      setNewRole('viewer')
+      showSuccess(`${data.user.username} created successfully`)
+    } catch (err) {
+      setError('Failed to create user')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateRole = async (userId: number, role: UserRole) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/auth/users/${userId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update user')
+        return
+      }
+
+      setUsers(prev => prev.map(u => u.id === userId ? data.user : u))
+      showSuccess(`${data.user.username} is now ${role}`)
+    } catch (err) {
+      setError('Failed to update user')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeUser = async (user: DashboardUser) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/auth/users/${user.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete user')
+        return
+      }
+
+      setUsers(prev => prev.filter(u => u.id !== user.id))
+      showSuccess(`${user.username} removed`)
+    } catch (err) {
+      setError('Failed to delete user')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>Loading users...</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+        <CardDescription>
+          Manage who can sign in to the dashboard and what they are allowed to do
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* User List */}
+        <div className="space-y-2">
+          {users.map(user => (
+            <div
+              key={user.id}
+              className="flex items-center justify-between p-3 rounded-lg bg-zinc-950 border border-zinc-800"
+            >
+              <div className="space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{user.username}</span>
+                  {user.id === currentUserId && (
+                    <Badge variant="outline" className="text-xs">You</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {user.last_login_at
+                    ? `Last sign in ${new Date(user.last_login_at).toLocaleString()}`
+                    : 'Never signed in'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => updateRole(user.id, value as UserRole)}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeUser(user)}
+                  disabled={isSaving || user.id === currentUserId}
+                  title={user.id === currentUserId ? 'You cannot delete your own account' : 'Delete user'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Create User */}
+        <form onSubmit={createUser} className="border-t border-zinc-800 pt-4 space-y-3">
+          <h3 className="text-sm font-semibold">Add User</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                autoComplete="off"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+                minLength={8}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-role">Role</Label>
+              <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRole)}>
+                <SelectTrigger id="new-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[newRole]}</p>
+          <Button type="submit" size="sm" disabled={isSaving}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
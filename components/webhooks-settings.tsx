@@ -0,0 +1,440 @@
+'use client'
+
+/**
+ * Webhooks Settings Component
+ *
+ * Lets admins add signed webhook endpoints, ping them and follow recent
+ * deliveries with their response codes and retries
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, AlertCircle, CheckCircle2, Trash2, Pencil, Plus, Save, Send, Copy, RefreshCw } from 'lucide-react'
+import { useInterval } from '@/lib/hooks/use-interval'
+import { formatTimeAgo } from '@/lib/guestbook'
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  sendWebhookPing,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType
+} from '@/lib/webhooks'
+
+const DELIVERIES_REFRESH_MS = 10000
+
+interface EndpointForm {
+  name: string
+  url: string
+  progress_step: string
+  events: WebhookEventType[]
+}
+
+const EMPTY_FORM: EndpointForm = {
+  name: '',
+  url: '',
+  progress_step: '10',
+  events: ['print_started', 'print_complete', 'print_failed']
+}
+
+const DELIVERY_BADGES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-amber-600/10 text-amber-500 border-amber-600/60',
+  delivered: 'bg-green-600/10 text-green-400 border-green-600/60',
+  failed: 'bg-red-600/10 text-red-400 border-red-600/60'
+}
+
+export function WebhooksSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks/deliveries?limit=25')
+      if (!response.ok) throw new Error('Failed to fetch webhook deliveries')
+      const data = await response.json()
+      setDeliveries(data.deliveries || [])
+    } catch (err) {
+      console.error(err)
+    }
+  }, [])
+
+  // Fetch endpoints and deliveries on mount
+  useEffect(() => {
+    fetchEndpoints()
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  // Follow retries while there are endpoints to deliver to
+  useInterval(fetchDeliveries, DELIVERIES_REFRESH_MS, { enabled: endpoints.length > 0 })
+
+  const showSuccess = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const fetchEndpoints = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/webhooks')
+      if (!response.ok) throw new Error('Failed to fetch webhooks')
+      const data = await response.json()
+      setEndpoints(data.endpoints || [])
+    } catch (err) {
+      setError('Failed to load webhooks')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }))
+  }
+
+  const startEditing = (endpoint: WebhookEndpoint) => {
+    setEditingId(endpoint.id)
+    setForm({
+      name: endpoint.name,
+      url: endpoint.url,
+      progress_step: String(endpoint.progress_step),
+      events: endpoint.events
+    })
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const fillEchoEndpoint = () => {
+    setForm(prev => ({
+      ...prev,
+      name: prev.name || 'Local echo',
+      url: `${window.location.origin}/api/webhooks/echo`
+    }))
+  }
+
+  const saveEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const payload = {
+        name: form.name,
+        url: form.url,
+        events: form.events,
+        progress_step: parseInt(form.progress_step, 10),
+        enabled: endpoints.find(endpoint => endpoint.id === editingId)?.enabled ?? true
+      }
+
+      const response = await fetch(editingId === null ? '/api/webhooks' : `/api/webhooks/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save webhook')
+        return
+      }
+
+      setEndpoints(prev => editingId === null
+        ? [...prev, data.endpoint]
+        : prev.map(w => w.id === editingId ? data.endpoint : w))
+      showSuccess(`${data.endpoint.name} ${editingId === null ? 'added' : 'updated'}`)
+      cancelEditing()
+    } catch (err) {
+      setError('Failed to save webhook')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleEndpoint = async (endpoint: WebhookEndpoint, enabled: boolean) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const { name, url, events, progress_step } = endpoint
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, url, events, progress_step, enabled }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update webhook')
+        return
+      }
+
+      setEndpoints(prev => prev.map(w => w.id === endpoint.id ? data.endpoint : w))
+    } catch (err) {
+      setError('Failed to update webhook')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Remove the ${endpoint.name} webhook and its delivery history?`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete webhook')
+        return
+      }
+
+      setEndpoints(prev => prev.filter(w => w.id !== endpoint.id))
+      setDeliveries(prev => prev.filter(d => d.endpoint_id !== endpoint.id))
+      if (editingId === endpoint.id) cancelEditing()
+      showSuccess(`${endpoint.name} removed`)
+    } catch (err) {
+      setError('Failed to delete webhook')
+      console.error(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const pingEndpoint = async (endpoint: WebhookEndpoint) => {
+    try {
+      setError(null)
+      showSuccess(await sendWebhookPing(endpoint.id))
+      // Give the worker a moment to send it
+      setTimeout(fetchDeliveries, 1500)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhook ping failed')
+    }
+  }
+
+  const copySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret)
+      showSuccess(`Signing secret for ${endpoint.name} copied`)
+    } catch {
+      setError('Could not copy to the clipboard')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>Loading webhooks...</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-500" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800">
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Signed JSON events for home automation and CI. Each delivery carries an X-Webhook-Signature header
+          (HMAC-SHA256 of the timestamp and body with the endpoint&apos;s secret) and is retried with backoff for about an hour.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-600/10 border border-green-600/20 text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span className="text-sm">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-600/10 border border-red-600/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Endpoint List */}
+        <div className="space-y-2">
+          {endpoints.length === 0 && (
+            <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+          )}
+          {endpoints.map(endpoint => (
+            <div
+              key={endpoint.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-950 border border-zinc-800"
+            >
+              <div className="space-y-0.5 min-w-0">
+                <span className="font-medium">{endpoint.name}</span>
+                <p className="text-xs text-muted-foreground font-mono truncate" title={endpoint.url}>{endpoint.url}</p>
+                <p className="text-xs text-muted-foreground">
+                  {endpoint.events.length === 0
+                    ? 'No events'
+                    : endpoint.events.map(event => event === 'print_progress'
+                      ? `${WEBHOOK_EVENT_LABELS[event]} (every ${endpoint.progress_step}%)`
+                      : WEBHOOK_EVENT_LABELS[event]).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Switch
+                  checked={endpoint.enabled}
+                  onCheckedChange={(checked) => toggleEndpoint(endpoint, checked)}
+                  disabled={isSaving}
+                  title={endpoint.enabled ? 'Disable webhook' : 'Enable webhook'}
+                />
+                <Button variant="ghost" size="sm" onClick={() => copySecret(endpoint)} title="Copy signing secret">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => pingEndpoint(endpoint)} disabled={isSaving} title="Send ping">
+                  <Send className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => startEditing(endpoint)} disabled={isSaving} title="Edit webhook">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeEndpoint(endpoint)} disabled={isSaving} title="Delete webhook">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / Edit Endpoint */}
+        <form onSubmit={saveEndpoint} className="border-t border-zinc-800 pt-4 space-y-3">
+          <h3 className="text-sm font-semibold">{editingId === null ? 'Add Webhook' : 'Edit Webhook'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                placeholder="Home Assistant"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-progress-step">Progress every (%)</Label>
+              <Input
+                id="webhook-progress-step"
+                type="number"
+                min={1}
+                max={50}
+                value={form.progress_step}
+                onChange={(e) => setForm(prev => ({ ...prev, progress_step: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={fillEchoEndpoint}>
+                  Use local echo endpoint
+                </Button>
+              </div>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://homeassistant.local/api/webhook/printer"
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {WEBHOOK_EVENT_TYPES.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {editingId === null ? <Plus className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {editingId === null ? 'Add Webhook' : 'Save Changes'}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="outline" size="sm" onClick={cancelEditing} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {/* Recent Deliveries */}
+        <div className="border-t border-zinc-800 pt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Recent Deliveries</h3>
+            <Button variant="ghost" size="sm" onClick={fetchDeliveries} title="Refresh deliveries">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="flex items-center gap-3 p-2 rounded-lg bg-zinc-950 border border-zinc-800 text-xs">
+                  <Badge variant="outline" className={DELIVERY_BADGES[delivery.status]}>{delivery.status}</Badge>
+                  <span className="font-mono w-10 text-right">{delivery.response_status ?? '—'}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">
+                      {delivery.event === 'ping' ? 'Ping' : WEBHOOK_EVENT_LABELS[delivery.event]} → {delivery.endpoint_name}
+                    </p>
+                    {delivery.error && (
+                      <p className="text-red-400 truncate" title={delivery.error}>{delivery.error}</p>
+                    )}
+                  </div>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                    {delivery.status === 'pending' && delivery.next_attempt_at && delivery.attempts > 0 &&
+                      ` · retry ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap">{formatTimeAgo(delivery.created_at)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,17 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ * Starts a printer monitor per printer and the background services that listen to it.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { startAllPrinterServices } = await import('./lib/printer-services')
+
+  try {
+    await startAllPrinterServices()
+  } catch (error) {
+    console.error('Failed to start printer services:', error)
+  }
+}
@@ -0,0 +1,346 @@
+import crypto from 'crypto'
+import { promisify } from 'util'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import { hasRole, type AuthUser, type UserRole } from './permissions'
+import { isDevelopment } from './utils/environment'
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+export const SESSION_COOKIE_NAME = 's1pper_session'
+
+const SESSION_DURATION_HOURS = parseInt(process.env.SESSION_DURATION_HOURS || '168', 10)
+const PASSWORD_KEY_LENGTH = 64
+
+// Used when running `pnpm dev` without a database so the settings workflow keeps working locally
+const DEVELOPMENT_USER: AuthUser = { id: 0, username: 'developer', role: 'admin' }
+
+export interface DashboardUser extends AuthUser {
+  last_login_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface SessionRow {
+  id: number
+  username: string
+  role: UserRole
+}
+
+let bootstrapPromise: Promise<void> | null = null
+
+// Make sure tables exist and seed the first admin account from the environment
+async function ensureAuthReady(): Promise<void> {
+  await initializeDatabase()
+
+  if (!bootstrapPromise) {
+    bootstrapPromise = bootstrapAdminUser().catch((error) => {
+      bootstrapPromise = null
+      throw error
+    })
+  }
+
+  return bootstrapPromise
+}
+
+// Create the ADMIN_USERNAME/ADMIN_PASSWORD account when no users exist yet
+async function bootstrapAdminUser(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME
+  const password = process.env.ADMIN_PASSWORD
+
+  if (!username || !password) {
+    return
+  }
+
+  const existing = await query<{ count: string }>('SELECT COUNT(*) as count FROM dashboard_users')
+  if (parseInt(existing[0]?.count || '0', 10) > 0) {
+    return
+  }
+
+  await createUser(username, password, 'admin')
+  console.log(`Created initial admin account "${username}"`)
+}
+
+/**
+ * Password hashing
+ */
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const derived = await scrypt(password, salt, PASSWORD_KEY_LENGTH)
+  return `scrypt$${salt}$${derived.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = storedHash.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'hex')
+  const derived = await scrypt(password, salt, expected.length)
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived)
+}
+
+export function isValidUsername(username: unknown): username is string {
+  return typeof username === 'string' && /^[a-zA-Z0-9_.-]{3,50}$/.test(username)
+}
+
+export function isValidPassword(password: unknown): password is string {
+  return typeof password === 'string' && password.length >= 8 && password.length <= 200
+}
+
+/**
+ * User management
+ */
+
+export async function getUsers(): Promise<DashboardUser[]> {
+  await ensureAuthReady()
+  return query<DashboardUser>(
+    'SELECT id, username, role, last_login_at, created_at, updated_at FROM dashboard_users ORDER BY username'
+  )
+}
+
+export async function createUser(username: string, password: string, role: UserRole): Promise<DashboardUser | null> {
+  await initializeDatabase()
+  const passwordHash = await hashPassword(password)
+  const results = await query<DashboardUser>(
+    `INSERT INTO dashboard_users (username, password_hash, role)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (username) DO NOTHING
+     RETURNING id, username, role, last_login_at, created_at, updated_at`,
+    [username, passwordHash, role]
+  )
+  return results[0] || null
+}
+
+export async function updateUser(
+  id: number,
+  updates: { role?: UserRole; password?: string }
+): Promise<DashboardUser | null> {
+  await ensureAuthReady()
+
+  const setClauses: string[] = []
+  const values: any[] = [id]
+  let paramIndex = 2
+
+  if (updates.role !== undefined) {
+    setClauses.push(`role = $${paramIndex++}`)
+    values.push(updates.role)
+  }
+
+  if (updates.password !== undefined) {
+    setClauses.push(`password_hash = $${paramIndex++}`)
+    values.push(await hashPassword(updates.password))
+  }
+
+  if (setClauses.length === 0) {
+    const results = await query<DashboardUser>(
+      'SELECT id, username, role, last_login_at, created_at, updated_at FROM dashboard_users WHERE id = $1',
+      [id]
+    )
+    return results[0] || null
+  }
+
+  setClauses.push('updated_at = CURRENT_TIMESTAMP')
+
+  const results = await query<DashboardUser>(
+    `UPDATE dashboard_users
+     SET ${setClauses.join(', ')}
+     WHERE id = $1
+     RETURNING id, username, role, last_login_at, created_at, updated_at`,
+    values
+  )
+
+  // Changing the password signs the user out everywhere
+  if (results[0] && updates.password !== undefined) {
+    await query('DELETE FROM user_sessions WHERE user_id = $1', [id])
+  }
+
+  return results[0] || null
+}
+
+export async function deleteUser(id: number): Promise<boolean> {
+  await ensureAuthReady()
+  const results = await query<{ id: number }>('DELETE FROM dashboard_users WHERE id = $1 RETURNING id', [id])
+  return results.length > 0
+}
+
+export async function countAdmins(): Promise<number> {
+  await ensureAuthReady()
+  const results = await query<{ count: string }>("SELECT COUNT(*) as count FROM dashboard_users WHERE role = 'admin'")
+  return parseInt(results[0]?.count || '0', 10)
+}
+
+// Verify credentials and return the matching user
+export async function authenticateUser(username: string, password: string): Promise<AuthUser | null> {
+  await ensureAuthReady()
+
+  const results = await query<SessionRow & { password_hash: string }>(
+    'SELECT id, username, role, password_hash FROM dashboard_users WHERE username = $1',
+    [username]
+  )
+  const user = results[0]
+
+  if (!user || !(await verifyPassword(password, user.password_hash))) {
+    return null
+  }
+
+  await query('UPDATE dashboard_users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1', [user.id])
+  return { id: user.id, username: user.username, role: user.role }
+}
+
+/**
+ * Sessions
+ */
+
+// Session tokens are only stored as SHA-256 hashes
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export async function createSession(
+  userId: number,
+  metadata: { userAgent?: string | null; ipAddress?: string | null } = {}
+): Promise<{ token: string; expiresAt: Date }> {
+  await ensureAuthReady()
+
+  const token = crypto.randomBytes(32).toString('base64url')
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_HOURS * 60 * 60 * 1000)
+
+  await query(
+    `INSERT INTO user_sessions (token_hash, user_id, expires_at, user_agent, ip_address)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [hashToken(token), userId, expiresAt, metadata.userAgent ?? null, metadata.ipAddress ?? null]
+  )
+
+  // Opportunistically clean up expired sessions
+  await query('DELETE FROM user_sessions WHERE expires_at < CURRENT_TIMESTAMP')
+
+  return { token, expiresAt }
+}
+
+export async function getSessionUser(token: string | undefined): Promise<AuthUser | null> {
+  if (!token || !isDatabaseAvailable()) {
+    return null
+  }
+
+  try {
+    await ensureAuthReady()
+    const results = await query<SessionRow>(
+      `SELECT u.id, u.username, u.role
+       FROM user_sessions s
+       JOIN dashboard_users u ON u.id = s.user_id
+       WHERE s.token_hash = $1 AND s.expires_at > CURRENT_TIMESTAMP`,
+      [hashToken(token)]
+    )
+    return results[0] || null
+  } catch (error) {
+    console.error('Error looking up session:', error)
+    return null
+  }
+}
+
+export async function destroySession(token: string | undefined): Promise<void> {
+  if (!token || !isDatabaseAvailable()) {
+    return
+  }
+
+  try {
+    await query('DELETE FROM user_sessions WHERE token_hash = $1', [hashToken(token)])
+  } catch (error) {
+    console.error('Error destroying session:', error)
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  })
+}
+
+/**
+ * Request helpers
+ */
+
+// Authentication needs the database; without one only local development gets access
+export function isAuthEnabled(): boolean {
+  return isDatabaseAvailable()
+}
+
+/**
+ * Client address from the reverse proxy's headers. Clients can send these
+ * headers themselves, so they are only read when TRUST_PROXY is set; the last
+ * X-Forwarded-For entry is the one the proxy added.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  if (process.env.TRUST_PROXY !== 'true') {
+    return null
+  }
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',').pop()!.trim() || null
+  }
+  return request.headers.get('x-real-ip')
+}
+
+// Resolve the signed-in user for an API request
+export async function getRequestUser(request: NextRequest): Promise<AuthUser | null> {
+  if (!isAuthEnabled()) {
+    return isDevelopment() ? DEVELOPMENT_USER : null
+  }
+  return getSessionUser(request.cookies.get(SESSION_COOKIE_NAME)?.value)
+}
+
+// Resolve the signed-in user from a server component
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  if (!isAuthEnabled()) {
+    return isDevelopment() ? DEVELOPMENT_USER : null
+  }
+  const cookieStore = await cookies()
+  return getSessionUser(cookieStore.get(SESSION_COOKIE_NAME)?.value)
+}
+
+/**
+ * Wrap a route handler so it only runs for users holding at least `role`.
+ * Unauthenticated requests get 401, authenticated users without the role get 403.
+ */
+export function withAuth<C = unknown>(
+  role: UserRole,
+  handler: (request: NextRequest, context: C, user: AuthUser) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const user = await getRequestUser(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Sign in to perform this action' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasRole(user, role)) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: `This action requires the ${role} role` },
+        { status: 403 }
+      )
+    }
+
+    return handler(request, context, user)
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * HTTP Range support for routes that serve video files, so browsers can seek.
+ * Only single ranges are supported, which is all media elements ask for.
+ */
+
+export interface ByteRange {
+  start: number
+  end: number // inclusive
+}
+
+/**
+ * The range requested by a `Range` header for a file of `size` bytes.
+ * Returns null to send the whole file and 'unsatisfiable' for a 416 response.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) {
+    return null
+  }
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // bytes=-500 is the last 500 bytes
+    start = Math.max(size - parseInt(match[2], 10), 0)
+    end = size - 1
+  } else {
+    start = parseInt(match[1], 10)
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable'
+  }
+  return { start, end }
+}
@@ -0,0 +1,172 @@
+import sharp from 'sharp'
+import { getCameraSettingByUid } from './database'
+import { getPrinterMonitor, type PrinterSample } from './printer-monitor'
+import type { PrinterConfig } from './printers'
+import type { WebcamConfig } from './types'
+import {
+  CAMERA_IMAGE_CONTENT_TYPES,
+  DEFAULT_CAMERA_IMAGE_SETTINGS,
+  pickCameraImageSettings,
+  type CameraImageSettings
+} from './camera-processing'
+
+/**
+ * Server-side snapshot processing with sharp: Moonraker's flip and rotation,
+ * then the camera's crop, size, text overlays and output format
+ */
+
+// Overlay text scales with the image so it stays readable on small and large frames
+const OVERLAY_FONT_RATIO = 1 / 45
+const OVERLAY_FONT_MIN = 12
+const OVERLAY_FONT_MAX = 48
+
+interface OverlayContext {
+  printerName: string
+  sample: PrinterSample | null
+  time: Date
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+function formatOverlayTime(time: Date): string {
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())} ${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}`
+}
+
+function formatOverlayStatus({ printerName, sample }: OverlayContext): string {
+  if (!sample) {
+    return printerName
+  }
+
+  const parts = [printerName]
+  const state = sample.printState.charAt(0).toUpperCase() + sample.printState.slice(1)
+  const active = sample.printState === 'printing' || sample.printState === 'paused'
+  parts.push(active ? `${state} ${Math.round(sample.progress * 100)}%` : state)
+  if (active && sample.currentLayer !== null && sample.totalLayers !== null) {
+    parts.push(`Layer ${sample.currentLayer}/${sample.totalLayers}`)
+  }
+
+  const { extruder, bed } = sample.temperatures
+  parts.push(`Nozzle ${Math.round(extruder.actual)}/${Math.round(extruder.target)}°C`)
+  parts.push(`Bed ${Math.round(bed.actual)}/${Math.round(bed.target)}°C`)
+  return parts.join(' · ')
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// A translucent bar across the image with one line of text per overlay
+function renderOverlay(lines: string[], width: number): { svg: Buffer; height: number } {
+  const fontSize = Math.round(Math.min(Math.max(width * OVERLAY_FONT_RATIO, OVERLAY_FONT_MIN), OVERLAY_FONT_MAX))
+  const lineHeight = Math.round(fontSize * 1.3)
+  const padding = Math.round(fontSize / 2)
+  const height = lines.length * lineHeight + padding * 2
+
+  const text = lines.map((line, index) =>
+    `<text x="${padding}" y="${padding + index * lineHeight + fontSize}">${escapeXml(line)}</text>`
+  ).join('')
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="black" fill-opacity="0.55"/>` +
+    `<g fill="white" font-family="DejaVu Sans, Arial, sans-serif" font-size="${fontSize}">${text}</g>` +
+    `</svg>`
+  return { svg: Buffer.from(svg), height }
+}
+
+/**
+ * Apply a camera's orientation and image settings to a snapshot
+ */
+export async function processCameraImage(
+  input: Buffer,
+  webcam: Pick<WebcamConfig, 'flip_horizontal' | 'flip_vertical' | 'rotation'> | null,
+  settings: CameraImageSettings,
+  overlay: OverlayContext
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const metadata = await sharp(input).metadata()
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Could not determine snapshot dimensions')
+  }
+
+  // Moonraker only offers quarter turns
+  const rotation = (((webcam?.rotation || 0) % 360) + 360) % 360
+  const quarterTurn = rotation % 90 === 0 ? rotation : 0
+  const [width, height] = quarterTurn === 90 || quarterTurn === 270
+    ? [metadata.height, metadata.width]
+    : [metadata.width, metadata.height]
+
+  // A camera left at the defaults keeps its own JPEG rather than being re-encoded
+  const untouched = metadata.format === 'jpeg' && !webcam?.flip_horizontal && !webcam?.flip_vertical && !quarterTurn &&
+    (!settings.max_width || settings.max_width >= width) &&
+    (Object.keys(DEFAULT_CAMERA_IMAGE_SETTINGS) as (keyof CameraImageSettings)[])
+      .every(key => key === 'max_width' || settings[key] === DEFAULT_CAMERA_IMAGE_SETTINGS[key])
+  if (untouched) {
+    return { buffer: input, contentType: 'image/jpeg' }
+  }
+
+  // sharp flips before rotating whatever the call order, which matches Moonraker's clients
+  let image = sharp(input)
+  if (webcam?.flip_horizontal) image = image.flop()
+  if (webcam?.flip_vertical) image = image.flip()
+  if (quarterTurn) image = image.rotate(quarterTurn)
+
+  const left = Math.round(width * settings.crop_left / 100)
+  const top = Math.round(height * settings.crop_top / 100)
+  let outputWidth = width - left - Math.round(width * settings.crop_right / 100)
+  let outputHeight = height - top - Math.round(height * settings.crop_bottom / 100)
+  if (left || top || outputWidth !== width || outputHeight !== height) {
+    image = image.extract({ left, top, width: outputWidth, height: outputHeight })
+  }
+
+  if (settings.max_width && outputWidth > settings.max_width) {
+    outputHeight = Math.round(outputHeight * settings.max_width / outputWidth)
+    outputWidth = settings.max_width
+    image = image.resize(outputWidth, outputHeight)
+  }
+
+  const lines: string[] = []
+  if (settings.overlay_timestamp) lines.push(formatOverlayTime(overlay.time))
+  if (settings.overlay_status) lines.push(formatOverlayStatus(overlay))
+
+  // Compositing happens after the other operations, so the overlay is sized for the output
+  const rendered = lines.length > 0 ? renderOverlay(lines, outputWidth) : null
+  if (rendered && rendered.height < outputHeight) {
+    image = image.composite([{
+      input: rendered.svg,
+      left: 0,
+      top: settings.overlay_position === 'top' ? 0 : outputHeight - rendered.height
+    }])
+  }
+
+  const buffer = settings.image_format === 'webp'
+    ? await image.webp({ quality: settings.image_quality }).toBuffer()
+    : await image.jpeg({ quality: settings.image_quality }).toBuffer()
+  return { buffer, contentType: CAMERA_IMAGE_CONTENT_TYPES[settings.image_format] }
+}
+
+/**
+ * Process a snapshot from one of `printer`'s cameras with that camera's
+ * settings and the printer's latest status. A snapshot sharp cannot read,
+ * e.g. a camera's error page, is returned as it is.
+ *
+ * `hideStatus` leaves out the status overlay, for anonymous visitors when the
+ * dashboard is not public.
+ */
+export async function processCameraSnapshot(
+  printer: PrinterConfig,
+  webcam: WebcamConfig | null,
+  snapshot: { buffer: Buffer; contentType: string },
+  { hideStatus = false }: { hideStatus?: boolean } = {}
+): Promise<{ buffer: Buffer; contentType: string }> {
+  try {
+    const row = webcam ? await getCameraSettingByUid(webcam.uid) : null
+    const settings = pickCameraImageSettings(row)
+    if (hideStatus) settings.overlay_status = false
+    return await processCameraImage(snapshot.buffer, webcam, settings, {
+      printerName: printer.name,
+      sample: getPrinterMonitor(printer.id)?.getLatest() ?? null,
+      time: new Date()
+    })
+  } catch (error) {
+    console.error(`[Snapshot] Failed to process snapshot from ${printer.name}:`, error)
+    return snapshot
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Per-camera snapshot processing shared by the camera settings UI, the camera
+ * routes and the server-side snapshot pipeline.
+ *
+ * Snapshots are flipped and rotated as configured in Moonraker, then cropped,
+ * scaled, optionally stamped with the time and printer status, and encoded as
+ * JPEG or WebP. Live MJPEG streams cannot be processed this way; `CameraFeed`
+ * applies the flip and rotation to them with a CSS transform instead.
+ */
+
+export type CameraImageFormat = 'jpeg' | 'webp'
+
+export const CAMERA_IMAGE_FORMATS: CameraImageFormat[] = ['jpeg', 'webp']
+
+export type CameraOverlayPosition = 'top' | 'bottom'
+
+export const CAMERA_OVERLAY_POSITIONS: CameraOverlayPosition[] = ['top', 'bottom']
+
+// Stored on each camera's row in camera_settings
+export interface CameraImageSettings {
+  crop_left: number // percent of the rotated frame to cut from each side
+  crop_top: number
+  crop_right: number
+  crop_bottom: number
+  max_width: number | null // scaled down to this width, never up
+  image_format: CameraImageFormat
+  image_quality: number // 1-100
+  overlay_timestamp: boolean
+  overlay_status: boolean // printer name, state, progress and temperatures
+  overlay_position: CameraOverlayPosition
+}
+
+export const DEFAULT_CAMERA_IMAGE_SETTINGS: CameraImageSettings = {
+  crop_left: 0,
+  crop_top: 0,
+  crop_right: 0,
+  crop_bottom: 0,
+  max_width: null,
+  image_format: 'jpeg',
+  image_quality: 85,
+  overlay_timestamp: false,
+  overlay_status: false,
+  overlay_position: 'bottom'
+}
+
+export const CAMERA_CROP_RANGE = { min: 0, max: 45 }
+export const CAMERA_WIDTH_RANGE = { min: 160, max: 3840 }
+export const CAMERA_QUALITY_RANGE = { min: 1, max: 100 }
+
+export const CAMERA_IMAGE_CONTENT_TYPES: Record<CameraImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+}
+
+const CROP_FIELDS = ['crop_left', 'crop_top', 'crop_right', 'crop_bottom'] as const
+
+const isIntegerIn = (value: unknown, range: { min: number; max: number }) =>
+  Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+
+export function validateCameraImageSettings(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid image settings'
+  const settings = input as Record<string, unknown>
+
+  for (const field of CROP_FIELDS) {
+    if (!isIntegerIn(settings[field], CAMERA_CROP_RANGE)) {
+      return `Crop must be between ${CAMERA_CROP_RANGE.min} and ${CAMERA_CROP_RANGE.max}% per side`
+    }
+  }
+  if (settings.max_width !== null && !isIntegerIn(settings.max_width, CAMERA_WIDTH_RANGE)) {
+    return `Width must be between ${CAMERA_WIDTH_RANGE.min} and ${CAMERA_WIDTH_RANGE.max} pixels, or empty for the camera's width`
+  }
+  if (!CAMERA_IMAGE_FORMATS.includes(settings.image_format as CameraImageFormat)) {
+    return `Format must be one of ${CAMERA_IMAGE_FORMATS.join(', ')}`
+  }
+  if (!isIntegerIn(settings.image_quality, CAMERA_QUALITY_RANGE)) {
+    return `Quality must be between ${CAMERA_QUALITY_RANGE.min} and ${CAMERA_QUALITY_RANGE.max}`
+  }
+  if (typeof settings.overlay_timestamp !== 'boolean' || typeof settings.overlay_status !== 'boolean') {
+    return 'Overlays must be true or false'
+  }
+  if (!CAMERA_OVERLAY_POSITIONS.includes(settings.overlay_position as CameraOverlayPosition)) {
+    return `Overlay position must be one of ${CAMERA_OVERLAY_POSITIONS.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * The image settings of a camera_settings row. Rows created before these
+ * columns existed, or cameras without a row, get the defaults.
+ */
+export function pickCameraImageSettings(row: Partial<CameraImageSettings> | null | undefined): CameraImageSettings {
+  const settings = { ...DEFAULT_CAMERA_IMAGE_SETTINGS }
+  if (!row) return settings
+
+  // A null width is the camera's own, which is also the default
+  for (const key of Object.keys(settings) as (keyof CameraImageSettings)[]) {
+    if (row[key] !== undefined && row[key] !== null) {
+      Object.assign(settings, { [key]: row[key] })
+    }
+  }
+  return settings
+}
+
+/**
+ * CSS transform for Moonraker's flip and rotation settings, for live streams
+ * that are shown as delivered by the camera. Undefined when nothing applies.
+ */
+export function getCameraTransform(webcam: { flip_horizontal?: boolean; flip_vertical?: boolean; rotation?: number }): string | undefined {
+  const transforms: string[] = []
+  // CSS applies transforms right to left: flip first, then rotate, like Moonraker clients
+  if (webcam.rotation) transforms.push(`rotate(${webcam.rotation}deg)`)
+  if (webcam.flip_horizontal) transforms.push('scaleX(-1)')
+  if (webcam.flip_vertical) transforms.push('scaleY(-1)')
+  return transforms.length > 0 ? transforms.join(' ') : undefined
+}
@@ -0,0 +1,620 @@
+import { promises as fs } from 'fs'
+import type { FileHandle } from 'fs/promises'
+import path from 'path'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import type { PrinterMonitor, PrinterSample } from './printer-monitor'
+import type { PrinterConfig } from './printers'
+import { getCameraStreamUrl } from './camera-snapshot'
+import {
+  DEFAULT_CAMERA_RECORDING_SETTINGS,
+  getSegmentQuery,
+  type CameraRecorderState,
+  type CameraRecordingSettings,
+  type RecordingFrame,
+  type RecordingJob,
+  type RecordingSegment
+} from './camera-recordings'
+
+/**
+ * Continuous camera recording.
+ *
+ * One manager per printer listens to its monitor and keeps a recorder running
+ * for every selected camera while recording is active: during prints (plus a
+ * minute after) or always. A recorder reads the camera's MJPEG stream, keeps
+ * frames at the configured rate and appends them to five-minute segments under
+ * `RECORDINGS_DIR/<printer id>/<camera uid>/`, next to an index of each frame's
+ * time and byte range. Segments past the retention age, and the oldest ones
+ * once the printer's recordings exceed the disk limit, are deleted.
+ */
+
+const SEGMENT_DURATION_MS = 5 * 60 * 1000
+const SEGMENT_PATTERN = /^(\d+)\.mjpeg$/
+// Keep recording for a while after a print ends, so its last moments are complete
+const POST_ROLL_MS = 60 * 1000
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000
+const STALL_TIMEOUT_MS = 30 * 1000
+const RECONNECT_MIN_MS = 5000
+const RECONNECT_MAX_MS = 60 * 1000
+// Stream data without a complete JPEG in it is dropped past this size
+const MAX_FRAME_BYTES = 8 * 1024 * 1024
+const JPEG_START = Buffer.from([0xff, 0xd8])
+const JPEG_END = Buffer.from([0xff, 0xd9])
+
+interface StoredSegment {
+  uid: string
+  start: number
+  end: number
+  size: number
+  file: string
+}
+
+interface OpenSegment {
+  file: string
+  start: number
+  size: number
+  data: FileHandle
+  index: FileHandle
+}
+
+// Kept on globalThis so route handlers see the managers started from instrumentation
+const globalForRecording = globalThis as unknown as {
+  cameraRecordingSettings?: Map<number, CameraRecordingSettings>
+  cameraRecordingManagers?: Map<number, PrinterRecordingManager>
+}
+
+function getSettingsCache(): Map<number, CameraRecordingSettings> {
+  if (!globalForRecording.cameraRecordingSettings) {
+    globalForRecording.cameraRecordingSettings = new Map()
+  }
+  return globalForRecording.cameraRecordingSettings
+}
+
+function getManagerRegistry(): Map<number, PrinterRecordingManager> {
+  if (!globalForRecording.cameraRecordingManagers) {
+    globalForRecording.cameraRecordingManagers = new Map()
+  }
+  return globalForRecording.cameraRecordingManagers
+}
+
+export function getRecordingsRoot(): string {
+  return path.resolve(process.env.RECORDINGS_DIR || path.join(process.cwd(), 'data', 'recordings'))
+}
+
+const getPrinterDirectory = (printerId: number) => path.join(getRecordingsRoot(), String(printerId))
+
+// Camera uids come from Moonraker's config, so they are encoded rather than used as directory names
+const getCameraDirectory = (printerId: number, uid: string) =>
+  path.join(getPrinterDirectory(printerId), encodeURIComponent(uid).replace(/\./g, '%2E'))
+
+const getIndexFile = (segmentFile: string) => segmentFile.replace(/\.mjpeg$/, '.idx')
+
+/**
+ * Recording settings of a printer. Read once from the database, then served
+ * from memory; without a database they only live in memory.
+ */
+export async function getCameraRecordingSettings(printerId: number): Promise<CameraRecordingSettings> {
+  const cache = getSettingsCache()
+  const cached = cache.get(printerId)
+  if (cached) {
+    return cached
+  }
+
+  if (!isDatabaseAvailable()) {
+    return DEFAULT_CAMERA_RECORDING_SETTINGS
+  }
+
+  await initializeDatabase()
+  const rows = await query<CameraRecordingSettings>(
+    `SELECT enabled, camera_uids, mode, framerate, retention_hours, max_disk_mb
+     FROM camera_recording_settings WHERE printer_id = $1`,
+    [printerId]
+  )
+  const settings = rows[0] || DEFAULT_CAMERA_RECORDING_SETTINGS
+  cache.set(printerId, settings)
+  return settings
+}
+
+export async function updateCameraRecordingSettings(
+  printerId: number,
+  input: CameraRecordingSettings
+): Promise<CameraRecordingSettings> {
+  const settings: CameraRecordingSettings = {
+    enabled: input.enabled,
+    camera_uids: [...new Set(input.camera_uids)],
+    mode: input.mode,
+    framerate: input.framerate,
+    retention_hours: input.retention_hours,
+    max_disk_mb: input.max_disk_mb
+  }
+
+  if (isDatabaseAvailable()) {
+    await initializeDatabase()
+    await query(
+      `INSERT INTO camera_recording_settings (printer_id, enabled, camera_uids, mode, framerate, retention_hours, max_disk_mb)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (printer_id) DO UPDATE SET
+         enabled = EXCLUDED.enabled,
+         camera_uids = EXCLUDED.camera_uids,
+         mode = EXCLUDED.mode,
+         framerate = EXCLUDED.framerate,
+         retention_hours = EXCLUDED.retention_hours,
+         max_disk_mb = EXCLUDED.max_disk_mb,
+         updated_at = CURRENT_TIMESTAMP`,
+      [printerId, settings.enabled, settings.camera_uids, settings.mode, settings.framerate, settings.retention_hours, settings.max_disk_mb]
+    )
+  }
+
+  getSettingsCache().set(printerId, settings)
+  // Apply retention and the disk limit right away rather than at the next scheduled pass
+  getManagerRegistry().get(printerId)?.prune().catch((error) => {
+    console.error('Error pruning camera recordings:', error)
+  })
+  return settings
+}
+
+// Segments of one camera, oldest first. The end is the time the last frame was written.
+async function readSegments(printerId: number, uid: string): Promise<StoredSegment[]> {
+  const directory = getCameraDirectory(printerId, uid)
+  const entries = await fs.readdir(directory).catch(() => [] as string[])
+
+  const segments = await Promise.all(entries.map(async (entry) => {
+    const match = entry.match(SEGMENT_PATTERN)
+    const file = path.join(directory, entry)
+    // Pruning may remove a segment between listing and stat
+    const stats = match ? await fs.stat(file).catch(() => null) : null
+    return match && stats ? { uid, start: parseInt(match[1], 10), end: Math.round(stats.mtimeMs), size: stats.size, file } : null
+  }))
+
+  return segments.flatMap(segment => segment ?? []).sort((a, b) => a.start - b.start)
+}
+
+async function readIndex(segmentFile: string): Promise<RecordingFrame[] | null> {
+  const data = await fs.readFile(getIndexFile(segmentFile), 'utf8').catch(() => null)
+  if (data === null) {
+    return null
+  }
+
+  // The last line may be cut short if the dashboard stopped mid-write
+  return data.split('\n').flatMap((line) => {
+    const [time, offset, length] = line.split(' ').map(Number)
+    return Number.isFinite(time) && Number.isFinite(offset) && Number.isFinite(length) ? [[time, offset, length] as RecordingFrame] : []
+  })
+}
+
+async function removeSegment(segmentFile: string): Promise<void> {
+  await fs.rm(segmentFile, { force: true })
+  await fs.rm(getIndexFile(segmentFile), { force: true })
+}
+
+/**
+ * Uids of the cameras that have recordings for a printer
+ */
+export async function getRecordedCameras(printerId: number): Promise<string[]> {
+  const entries = await fs.readdir(getPrinterDirectory(printerId), { withFileTypes: true }).catch(() => [])
+  return entries.filter(entry => entry.isDirectory()).map(entry => decodeURIComponent(entry.name))
+}
+
+/**
+ * Segments of a camera overlapping `from`..`to` (ms since epoch), oldest first
+ */
+export async function listRecordingSegments(printerId: number, uid: string, from: number, to: number): Promise<RecordingSegment[]> {
+  const segments = await readSegments(printerId, uid)
+  return segments
+    .filter(segment => segment.start <= to && segment.end >= from)
+    .map((segment) => {
+      const segmentQuery = getSegmentQuery(printerId, uid, segment.start)
+      return {
+        uid,
+        start: segment.start,
+        end: segment.end,
+        size: segment.size,
+        url: `/api/recordings/segment?${segmentQuery}`,
+        frames_url: `/api/recordings/segment/frames?${segmentQuery}`
+      }
+    })
+}
+
+/**
+ * Path of a segment's frame file. It may not exist.
+ */
+export function getSegmentFile(printerId: number, uid: string, start: number): string {
+  return path.join(getCameraDirectory(printerId, uid), `${start}.mjpeg`)
+}
+
+export async function readSegmentFrames(printerId: number, uid: string, start: number): Promise<RecordingFrame[] | null> {
+  return readIndex(getSegmentFile(printerId, uid, start))
+}
+
+/**
+ * Bytes used by a printer's recordings
+ */
+export async function getRecordingUsage(printerId: number): Promise<number> {
+  const cameras = await getRecordedCameras(printerId)
+  const segments = (await Promise.all(cameras.map(uid => readSegments(printerId, uid)))).flat()
+  return segments.reduce((total, segment) => total + segment.size, 0)
+}
+
+/**
+ * A camera's frames between `from` and `to`, read one at a time from its
+ * segments, or null when nothing was recorded then
+ */
+export async function createRecordingStream(
+  printerId: number,
+  uid: string,
+  from: number,
+  to: number
+): Promise<ReadableStream<Uint8Array> | null> {
+  const segments = (await readSegments(printerId, uid)).filter(segment => segment.start <= to && segment.end >= from)
+  if (segments.length === 0) {
+    return null
+  }
+
+  let next = 0
+  let current: { handle: FileHandle; frames: RecordingFrame[]; position: number } | null = null
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (!current) {
+          if (next >= segments.length) {
+            controller.close()
+            return
+          }
+
+          const segment = segments[next++]
+          const frames = ((await readIndex(segment.file)) || []).filter(([time]) => time >= from && time <= to)
+          const handle = await fs.open(segment.file, 'r').catch(() => null)
+          if (!handle) {
+            continue
+          }
+          current = { handle, frames, position: 0 }
+        }
+
+        if (current.position >= current.frames.length) {
+          await current.handle.close()
+          current = null
+          continue
+        }
+
+        const [, offset, length] = current.frames[current.position++]
+        const buffer = Buffer.alloc(length)
+        await current.handle.read(buffer, 0, length, offset)
+        controller.enqueue(buffer)
+        return
+      }
+    },
+    async cancel() {
+      await current?.handle.close()
+    }
+  })
+}
+
+/**
+ * Print jobs that overlap `from`..`to`, for the markers on the playback timeline
+ */
+export async function getRecordingJobs(printerId: number, from: number, to: number): Promise<RecordingJob[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  await initializeDatabase()
+  return query<RecordingJob>(
+    `SELECT id, filename, status, started_at, ended_at FROM print_jobs
+     WHERE printer_id = $1 AND started_at <= $3 AND (ended_at IS NULL OR ended_at >= $2)
+     ORDER BY started_at`,
+    [printerId, new Date(from), new Date(to)]
+  )
+}
+
+/**
+ * Splits an MJPEG stream into JPEG images by their start and end markers,
+ * whatever multipart boundary the camera server uses
+ */
+class JpegFrameParser {
+  private buffer = Buffer.alloc(0)
+
+  push(chunk: Uint8Array): Buffer[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : Buffer.from(chunk)
+    const frames: Buffer[] = []
+
+    for (;;) {
+      const start = this.buffer.indexOf(JPEG_START)
+      if (start === -1) {
+        // The last byte may be the first half of a start marker
+        this.buffer = this.buffer.subarray(-1)
+        break
+      }
+
+      const end = this.buffer.indexOf(JPEG_END, start + JPEG_START.length)
+      if (end === -1) {
+        this.buffer = this.buffer.length - start > MAX_FRAME_BYTES ? Buffer.alloc(0) : this.buffer.subarray(start)
+        break
+      }
+
+      frames.push(this.buffer.subarray(start, end + JPEG_END.length))
+      this.buffer = this.buffer.subarray(end + JPEG_END.length)
+    }
+
+    return frames
+  }
+}
+
+/**
+ * Records one camera, reconnecting with backoff when the stream drops or stalls
+ */
+class CameraStreamRecorder {
+  private controller: AbortController | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = RECONNECT_MIN_MS
+  private segment: OpenSegment | null = null
+  private lastFrameAt = 0
+  private connected = false
+  private stopped = false
+
+  constructor(private printer: PrinterConfig, readonly uid: string, public framerate: number) {}
+
+  get state(): CameraRecorderState {
+    return { uid: this.uid, connected: this.connected }
+  }
+
+  get activeSegment(): { file: string; size: number } | null {
+    return this.segment && { file: this.segment.file, size: this.segment.size }
+  }
+
+  start(): void {
+    this.connect()
+  }
+
+  stop(): void {
+    this.stopped = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.controller?.abort()
+  }
+
+  private async connect(): Promise<void> {
+    const controller = new AbortController()
+    this.controller = controller
+
+    let stallTimer: ReturnType<typeof setTimeout> | null = null
+    const resetStallTimer = () => {
+      if (stallTimer) clearTimeout(stallTimer)
+      stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS)
+    }
+
+    try {
+      resetStallTimer()
+      const response = await fetch(await getCameraStreamUrl(this.printer, this.uid), {
+        headers: {
+          'User-Agent': 'Mozilla/5.0',
+          'Accept': 'multipart/x-mixed-replace,image/jpeg',
+        },
+        cache: 'no-store',
+        signal: controller.signal
+      })
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Camera stream HTTP error: ${response.status}`)
+      }
+
+      console.log(`[Recording] ${this.printer.name}: recording camera ${this.uid}`)
+      this.connected = true
+      this.reconnectDelay = RECONNECT_MIN_MS
+
+      const parser = new JpegFrameParser()
+      const reader = response.body.getReader()
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        resetStallTimer()
+
+        for (const frame of parser.push(value)) {
+          await this.writeFrame(frame)
+        }
+      }
+    } catch (error) {
+      // Only the first failure in a row is logged while the camera stays down
+      if (!this.stopped && (this.connected || this.reconnectDelay === RECONNECT_MIN_MS)) {
+        console.warn(`[Recording] ${this.printer.name}: camera ${this.uid} stream failed:`, error instanceof Error ? error.message : error)
+      }
+    } finally {
+      if (stallTimer) clearTimeout(stallTimer)
+      this.connected = false
+      await this.closeSegment().catch((error) => {
+        console.error(`[Recording] ${this.printer.name}: error closing segment:`, error)
+      })
+
+      if (!this.stopped) {
+        this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay)
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS)
+      }
+    }
+  }
+
+  private async writeFrame(frame: Buffer): Promise<void> {
+    const now = Date.now()
+    if (now - this.lastFrameAt < 1000 / this.framerate) {
+      return
+    }
+    this.lastFrameAt = now
+
+    if (!this.segment || now - this.segment.start >= SEGMENT_DURATION_MS) {
+      await this.closeSegment()
+      this.segment = await this.openSegment(now)
+    }
+
+    // Frame first, so the index never points past the end of the data
+    const segment = this.segment
+    await segment.data.write(frame)
+    await segment.index.write(`${now} ${segment.size} ${frame.length}\n`)
+    segment.size += frame.length
+  }
+
+  private async openSegment(start: number): Promise<OpenSegment> {
+    const directory = getCameraDirectory(this.printer.id, this.uid)
+    await fs.mkdir(directory, { recursive: true })
+
+    const file = path.join(directory, `${start}.mjpeg`)
+    return {
+      file,
+      start,
+      size: 0,
+      data: await fs.open(file, 'a'),
+      index: await fs.open(getIndexFile(file), 'a')
+    }
+  }
+
+  private async closeSegment(): Promise<void> {
+    const segment = this.segment
+    this.segment = null
+    if (segment) {
+      await segment.data.close()
+      await segment.index.close()
+    }
+  }
+}
+
+/**
+ * Starts and stops a printer's camera recorders from monitor samples and
+ * applies its retention settings
+ */
+class PrinterRecordingManager {
+  private recorders = new Map<string, CameraStreamRecorder>()
+  private pruneTimer: ReturnType<typeof setInterval> | null = null
+  private activeUntil = 0
+  private syncing = false
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  get recorderStates(): CameraRecorderState[] {
+    return [...this.recorders.values()].map(recorder => recorder.state)
+  }
+
+  start(): void {
+    this.monitor.on('sample', (sample) => {
+      if (this.syncing) {
+        return
+      }
+      this.syncing = true
+      this.sync(sample)
+        .catch((error) => {
+          console.error('Error updating camera recorders:', error)
+        })
+        .finally(() => {
+          this.syncing = false
+        })
+    })
+
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch((error) => {
+        console.error('Error pruning camera recordings:', error)
+      })
+    }, PRUNE_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+      this.pruneTimer = null
+    }
+    for (const recorder of this.recorders.values()) {
+      recorder.stop()
+    }
+    this.recorders.clear()
+  }
+
+  private async sync(sample: PrinterSample): Promise<void> {
+    const settings = await getCameraRecordingSettings(this.monitor.printerId)
+    if (sample.printState === 'printing' || sample.printState === 'paused') {
+      this.activeUntil = sample.timestamp + POST_ROLL_MS
+    }
+
+    const active = settings.enabled && (settings.mode === 'always' || sample.timestamp < this.activeUntil)
+    const wanted = new Set(active ? settings.camera_uids : [])
+
+    for (const [uid, recorder] of this.recorders) {
+      if (wanted.has(uid)) {
+        recorder.framerate = settings.framerate
+      } else {
+        recorder.stop()
+        this.recorders.delete(uid)
+      }
+    }
+
+    for (const uid of wanted) {
+      if (!this.recorders.has(uid)) {
+        const recorder = new CameraStreamRecorder(this.monitor.printer, uid, settings.framerate)
+        this.recorders.set(uid, recorder)
+        recorder.start()
+      }
+    }
+  }
+
+  /**
+   * Delete segments past the retention age, then the oldest ones until the
+   * printer's recordings fit the disk limit. Segments being written are kept.
+   */
+  async prune(): Promise<void> {
+    const printerId = this.monitor.printerId
+    const settings = await getCameraRecordingSettings(printerId)
+    const active = [...this.recorders.values()].flatMap(recorder => recorder.activeSegment ?? [])
+    const activeFiles = new Set(active.map(segment => segment.file))
+
+    const cameras = await getRecordedCameras(printerId)
+    const segments = (await Promise.all(cameras.map(uid => readSegments(printerId, uid))))
+      .flat()
+      .filter(segment => !activeFiles.has(segment.file))
+      .sort((a, b) => a.start - b.start)
+
+    const cutoff = Date.now() - settings.retention_hours * 60 * 60 * 1000
+    const removals = segments.filter(segment => segment.end < cutoff)
+    const kept = segments.filter(segment => segment.end >= cutoff)
+
+    const limit = settings.max_disk_mb * 1024 * 1024
+    let total = [...kept, ...active].reduce((sum, segment) => sum + segment.size, 0)
+    while (total > limit && kept.length > 0) {
+      const oldest = kept.shift() as StoredSegment
+      removals.push(oldest)
+      total -= oldest.size
+    }
+
+    for (const segment of removals) {
+      await removeSegment(segment.file)
+    }
+    if (removals.length > 0) {
+      console.log(`[Recording] ${this.monitor.printer.name}: removed ${removals.length} old segment(s)`)
+    }
+  }
+}
+
+export function getCameraRecorderStates(printerId: number): CameraRecorderState[] {
+  return getManagerRegistry().get(printerId)?.recorderStates ?? []
+}
+
+/**
+ * Record the cameras of the printer watched by `monitor` while recording is enabled
+ */
+export function attachCameraRecorder(monitor: PrinterMonitor): void {
+  removeCameraRecorder(monitor.printerId)
+
+  const manager = new PrinterRecordingManager(monitor)
+  manager.start()
+  getManagerRegistry().set(monitor.printerId, manager)
+
+  manager.prune().catch((error) => {
+    console.error('Error pruning camera recordings:', error)
+  })
+}
+
+/**
+ * Stop recording a printer, e.g. when it is disabled or removed
+ */
+export function removeCameraRecorder(printerId: number): void {
+  const manager = getManagerRegistry().get(printerId)
+  if (manager) {
+    manager.stop()
+    getManagerRegistry().delete(printerId)
+  }
+}
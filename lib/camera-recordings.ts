@@ -0,0 +1,159 @@
+/**
+ * Continuous camera recordings shared by the recording API routes, the
+ * recording settings and the playback viewer.
+ *
+ * The dashboard records a camera's MJPEG stream into segments of a few
+ * minutes. A segment is a file of concatenated JPEG frames plus an index of
+ * each frame's time and byte range, so the viewer can fetch any single frame
+ * with an HTTP Range request. Segments are addressed by printer, camera uid
+ * and start time (ms since epoch).
+ */
+
+import type { PrintJobStatus } from './print-jobs'
+
+// Record only while a print runs (plus a short tail), or all the time
+export type RecordingMode = 'printing' | 'always'
+
+export const RECORDING_MODES: RecordingMode[] = ['printing', 'always']
+
+export const RECORDING_MODE_LABELS: Record<RecordingMode, string> = {
+  printing: 'During prints',
+  always: 'Always'
+}
+
+export interface CameraRecordingSettings {
+  enabled: boolean
+  camera_uids: string[]
+  mode: RecordingMode
+  framerate: number // frames kept per second
+  retention_hours: number // segments older than this are deleted
+  max_disk_mb: number // oldest segments are deleted once the printer's recordings exceed this
+}
+
+export const DEFAULT_CAMERA_RECORDING_SETTINGS: CameraRecordingSettings = {
+  enabled: false,
+  camera_uids: [],
+  mode: 'printing',
+  framerate: 2,
+  retention_hours: 72,
+  max_disk_mb: 5120
+}
+
+export const RECORDING_FRAMERATE_RANGE = { min: 1, max: 15 }
+export const RECORDING_RETENTION_RANGE = { min: 1, max: 24 * 365 }
+export const RECORDING_DISK_RANGE = { min: 100, max: 1024 * 1024 }
+
+// Print jobs that ended in one of these are marked as failures on the timeline
+export const FAILED_JOB_STATUSES: PrintJobStatus[] = ['error', 'cancelled', 'interrupted']
+
+export interface CameraRecorderState {
+  uid: string
+  connected: boolean // receiving frames from the camera
+}
+
+export interface RecordingSettingsResponse {
+  settings: CameraRecordingSettings
+  recorders: CameraRecorderState[]
+  usage_bytes: number
+}
+
+export interface RecordingSegment {
+  uid: string
+  start: number // ms since epoch
+  end: number // ms since epoch of the last frame written
+  size: number
+  url: string // the segment's JPEG frames, with Range support
+  frames_url: string // its frame index
+}
+
+export interface RecordingJob {
+  id: number
+  filename: string
+  status: PrintJobStatus
+  started_at: string
+  ended_at: string | null
+}
+
+export interface RecordingListResponse {
+  cameras: string[] // uids with recordings
+  segments: RecordingSegment[]
+  jobs: RecordingJob[] // print jobs overlapping the requested window
+}
+
+// [time in ms since epoch, byte offset, byte length] of one frame in a segment
+export type RecordingFrame = [number, number, number]
+
+export interface RecordingFramesResponse {
+  frames: RecordingFrame[]
+}
+
+const isIntegerIn = (value: unknown, range: { min: number; max: number }) =>
+  Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+
+export function validateCameraRecordingSettings(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid recording settings'
+  const { enabled, camera_uids, mode, framerate, retention_hours, max_disk_mb } = input as Record<string, unknown>
+
+  if (typeof enabled !== 'boolean') {
+    return 'Enabled must be true or false'
+  }
+  if (!Array.isArray(camera_uids) || !camera_uids.every(uid => typeof uid === 'string' && uid.length > 0 && uid.length <= 255)) {
+    return 'Cameras must be a list of webcam uids'
+  }
+  if (enabled && camera_uids.length === 0) {
+    return 'Choose at least one camera to record'
+  }
+  if (!RECORDING_MODES.includes(mode as RecordingMode)) {
+    return `Mode must be one of ${RECORDING_MODES.join(', ')}`
+  }
+  if (!isIntegerIn(framerate, RECORDING_FRAMERATE_RANGE)) {
+    return `Frame rate must be between ${RECORDING_FRAMERATE_RANGE.min} and ${RECORDING_FRAMERATE_RANGE.max} fps`
+  }
+  if (!isIntegerIn(retention_hours, RECORDING_RETENTION_RANGE)) {
+    return `Retention must be between ${RECORDING_RETENTION_RANGE.min} and ${RECORDING_RETENTION_RANGE.max} hours`
+  }
+  if (!isIntegerIn(max_disk_mb, RECORDING_DISK_RANGE)) {
+    return `Disk limit must be between ${RECORDING_DISK_RANGE.min} and ${RECORDING_DISK_RANGE.max} MB`
+  }
+  return null
+}
+
+/**
+ * A time query parameter in ms since epoch, or null when missing or invalid
+ */
+export function parseRecordingTime(value: string | null): number | null {
+  const time = value ? Number(value) : NaN
+  return Number.isSafeInteger(time) && time >= 0 ? time : null
+}
+
+/**
+ * Query string addressing a segment, for the segment and frame index routes
+ */
+export function getSegmentQuery(printerId: number, uid: string, start: number): string {
+  return new URLSearchParams({ printerId: String(printerId), uid, start: String(start) }).toString()
+}
+
+/**
+ * URL that downloads a camera's frames between `from` and `to` as one MJPEG file
+ */
+export function getRecordingDownloadUrl(printerId: number, uid: string, from: number, to: number): string {
+  const params = new URLSearchParams({ printerId: String(printerId), uid, from: String(Math.round(from)), to: String(Math.round(to)) })
+  return `/api/recordings/download?${params}`
+}
+
+/**
+ * Index of the last frame at or before `time`, or 0 when `time` is before the first frame
+ */
+export function findFrameIndex(frames: RecordingFrame[], time: number): number {
+  let low = 0
+  let high = frames.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (frames[middle][0] <= time) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return low
+}
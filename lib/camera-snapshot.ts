@@ -0,0 +1,192 @@
+import https from 'https';
+import http from 'http';
+import { getCameraUrlPrefix, type PrinterConfig } from './printers';
+import { getMoonrakerClient } from './moonraker-client';
+import { getDashboardSettings } from './database';
+import type { WebcamConfig } from './types';
+import { processCameraSnapshot } from './camera-pipeline';
+
+/**
+ * Camera snapshot and stream helpers shared by the camera routes and server-side
+ * capture (e.g. the final frame stored with each print job, timelapses and recordings).
+ */
+
+/**
+ * Moonraker's config for one of a printer's cameras (the first when no uid is
+ * given or it is not found), or null when the webcam list is unavailable
+ */
+export async function getSnapshotWebcam(printer: PrinterConfig, uid?: string): Promise<WebcamConfig | null> {
+  try {
+    const data = await getMoonrakerClient(printer).getWebcams();
+    const webcams = data.result.webcams;
+    return (uid && webcams.find(w => w.uid === uid)) || webcams[0] || null;
+  } catch (error) {
+    console.error('Failed to get camera config:', error);
+    return null;
+  }
+}
+
+export async function getCameraSnapshotUrl(printer: PrinterConfig, uid?: string, webcam?: WebcamConfig | null): Promise<string> {
+  // Camera URL prefix for relative URLs - uses Traefik proxy port
+  const cameraUrlPrefix = getCameraUrlPrefix(printer);
+
+  // Callers that already looked up the camera pass it in
+  if (webcam === undefined) {
+    webcam = await getSnapshotWebcam(printer, uid);
+  }
+
+  if (webcam?.snapshot_url) {
+    let finalUrl: string;
+    // Check if snapshot_url is already a full URL
+    if (webcam.snapshot_url.startsWith('http://') || webcam.snapshot_url.startsWith('https://')) {
+      finalUrl = webcam.snapshot_url;
+    } else {
+      // Build full URL using the camera URL prefix for relative URLs
+      // This handles Traefik proxy port (e.g., 6780) correctly
+      finalUrl = `${cameraUrlPrefix}${webcam.snapshot_url}`;
+    }
+    console.log(`[Snapshot] Camera ${uid || 'default'}: fetching from ${finalUrl}`);
+    return finalUrl;
+  }
+
+  // Fallback to direct snapshot URL using the camera URL prefix
+  const fallbackUrl = `${cameraUrlPrefix}/webcam/?action=snapshot`;
+  console.log(`[Snapshot] Using fallback URL: ${fallbackUrl}`);
+  return fallbackUrl;
+}
+
+export async function getCameraStreamUrl(printer: PrinterConfig, uid?: string): Promise<string> {
+  const cameraUrlPrefix = getCameraUrlPrefix(printer);
+
+  try {
+    // Get camera config from Moonraker
+    const data = await getMoonrakerClient(printer).getWebcams();
+    
+    let webcam: WebcamConfig | undefined;
+    
+    if (uid) {
+      // Find specific webcam by UID
+      webcam = data.result.webcams.find(w => w.uid === uid);
+    } else {
+      // No uid provided, check if there's a selected camera in settings
+      const settings = await getDashboardSettings();
+      if (settings?.selected_camera_uid) {
+        webcam = data.result.webcams.find(w => w.uid === settings.selected_camera_uid);
+      }
+      
+      // Fallback to first webcam if selected camera not found or no selection
+      if (!webcam) {
+        webcam = data.result.webcams[0];
+      }
+    }
+    
+    if (webcam?.stream_url) {
+      // stream_url is usually relative to the camera proxy
+      if (webcam.stream_url.startsWith('http://') || webcam.stream_url.startsWith('https://')) {
+        return webcam.stream_url;
+      }
+      return `${cameraUrlPrefix}${webcam.stream_url}`;
+    }
+  } catch (error) {
+    console.error('Failed to get camera config:', error);
+  }
+  
+  // Fallback to direct stream URL (first camera)
+  return `${cameraUrlPrefix}/webcam/?action=stream`;
+}
+
+// Helper function to fetch with SSL bypass for self-signed certs using native Node.js modules
+export function fetchWithSSLBypass(url: string, options: { headers?: Record<string, string>, signal?: AbortSignal } = {}): Promise<{ ok: boolean, status: number, arrayBuffer: () => Promise<ArrayBuffer>, headers: { get: (name: string) => string | null } }> {
+  return new Promise((resolve, reject) => {
+    const parsedUrl = new URL(url);
+    const isHttps = parsedUrl.protocol === 'https:';
+    
+    const requestOptions: https.RequestOptions = {
+      hostname: parsedUrl.hostname,
+      port: parsedUrl.port || (isHttps ? 443 : 80),
+      path: parsedUrl.pathname + parsedUrl.search,
+      method: 'GET',
+      headers: options.headers || {},
+      // Ignore self-signed certificate errors
+      rejectUnauthorized: false,
+    };
+
+    const httpModule = isHttps ? https : http;
+    
+    const req = httpModule.request(requestOptions, (res) => {
+      const chunks: Buffer[] = [];
+      
+      res.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+      
+      res.on('end', () => {
+        const buffer = Buffer.concat(chunks);
+        resolve({
+          ok: res.statusCode !== undefined && res.statusCode >= 200 && res.statusCode < 300,
+          status: res.statusCode || 500,
+          arrayBuffer: async () => buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
+          headers: {
+            get: (name: string) => {
+              const value = res.headers[name.toLowerCase()];
+              if (Array.isArray(value)) return value[0];
+              return value || null;
+            }
+          }
+        });
+      });
+    });
+
+    req.on('error', (error) => {
+      reject(error);
+    });
+
+    // Handle abort signal
+    if (options.signal) {
+      options.signal.addEventListener('abort', () => {
+        req.destroy();
+        reject(new Error('AbortError'));
+      });
+    }
+
+    req.end();
+  });
+}
+
+/**
+ * Capture a single snapshot from one of a printer's cameras (first camera when no uid is given),
+ * processed with the camera's orientation and image settings unless `raw` is set
+ */
+export async function captureCameraSnapshot(
+  printer: PrinterConfig,
+  uid?: string,
+  timeoutMs: number = 10000,
+  { raw = false }: { raw?: boolean } = {}
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const webcam = await getSnapshotWebcam(printer, uid);
+  const snapshotUrl = await getCameraSnapshotUrl(printer, uid, webcam);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetchWithSSLBypass(snapshotUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0',
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Camera snapshot HTTP error: ${response.status}`);
+    }
+
+    const snapshot = {
+      buffer: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('Content-Type') || 'image/jpeg',
+    };
+    return raw ? snapshot : await processCameraSnapshot(printer, webcam, snapshot);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
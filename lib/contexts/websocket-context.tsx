@@ -3,12 +3,17 @@
 /**
  * WebSocket Context Provider
  * 
- * Provides a single WebSocket connection shared across the entire application.
+ * Provides a single live printer connection shared across the entire application.
  * This prevents multiple components from creating their own connections.
+ * The connection goes through the server's Moonraker relay (see `relay-client.ts`).
+ *
+ * Pages for a selected printer wrap their content in their own provider; the
+ * connection only opens once a component uses it, so the layout's provider for
+ * the default printer stays idle on those pages.
  */
 
-import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react'
-import { MoonrakerWebSocketClient } from '../websocket-client'
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
+import { PrinterRelayClient } from '../relay-client'
 
 interface WebSocketContextValue {
   // Connection state
@@ -20,50 +25,45 @@ interface WebSocketContextValue {
   printerStatus: any | null
   
   // Client instance
-  client: MoonrakerWebSocketClient | null
+  client: PrinterRelayClient | null
+
+  // Printer this connection streams (undefined: the first enabled printer)
+  printerId?: number
   
   // Methods
   connect: () => Promise<void>
   disconnect: () => void
   sendGcode: (script: string) => Promise<void>
+  // Called by `useWebSocket` to open the connection on first use
+  requestConnection: () => void
 }
 
 const WebSocketContext = createContext<WebSocketContextValue | undefined>(undefined)
 
 interface WebSocketProviderProps {
   children: React.ReactNode
-  printerHost?: string
-  port?: number
+  // Printer to stream (default: the first enabled printer)
+  printerId?: number
   autoConnect?: boolean
 }
 
 export function WebSocketProvider({
   children,
-  printerHost: printerHostProp,
-  port: portProp,
+  printerId,
   autoConnect = true,
 }: WebSocketProviderProps) {
-  // Memoize configuration values to prevent re-renders
-  const printerHost = useMemo(() => 
-    printerHostProp || process.env.NEXT_PUBLIC_PRINTER_HOST,
-    [printerHostProp]
-  )
-  const port = useMemo(() => 
-    portProp || (process.env.NEXT_PUBLIC_MOONRAKER_PORT ? parseInt(process.env.NEXT_PUBLIC_MOONRAKER_PORT) : undefined),
-    [portProp]
-  )
-  
-  const [client, setClient] = useState<MoonrakerWebSocketClient | null>(null)
+  const [client, setClient] = useState<PrinterRelayClient | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [isReady, setIsReady] = useState(false)
   const [error, setError] = useState<Error | null>(null)
   const [printerStatus, setPrinterStatus] = useState<any | null>(null)
+  const [isRequested, setIsRequested] = useState(false)
+  const clientRef = useRef<PrinterRelayClient | null>(null)
   
   // Log configuration only once on initial mount
   useEffect(() => {
     console.log('[WebSocketProvider] Initialized:', {
-      printerHost,
-      port,
+      printerId,
       autoConnect
     })
   }, [])
@@ -102,20 +102,13 @@ export function WebSocketProvider({
       return
     }
 
-    if (!printerHost || !port) {
-      const err = new Error(`Missing WebSocket configuration. Please set NEXT_PUBLIC_PRINTER_HOST and NEXT_PUBLIC_MOONRAKER_PORT in .env.local`)
-      console.error('[WebSocketProvider]', err.message)
-      setError(err)
-      return
-    }
-
     try {
       setError(null)
-      console.log('[WebSocketProvider] Connecting to:', `ws://${printerHost}:${port}/websocket`)
+      console.log('[WebSocketProvider] Connecting to printer:', printerId ?? 'default')
       
       let wsClient = client
       if (!wsClient) {
-        wsClient = new MoonrakerWebSocketClient(printerHost, port)
+        wsClient = new PrinterRelayClient(printerId)
         
         // Set up event handlers
         wsClient.onStatus(handleStatusUpdate)
@@ -136,10 +129,11 @@ export function WebSocketProvider({
         })
         
         setClient(wsClient)
+        clientRef.current = wsClient
       }
 
       await wsClient.connect()
-      setIsConnected(true)
+      setIsConnected(wsClient.isConnected)
       setIsReady(wsClient.isReady)
     } catch (err) {
       console.error('[WebSocketProvider] Connection error:', err)
@@ -148,7 +142,7 @@ export function WebSocketProvider({
       setIsConnected(false)
       setIsReady(false)
     }
-  }, [client, printerHost, port, handleStatusUpdate])
+  }, [client, printerId, handleStatusUpdate])
 
   /**
    * Disconnect from WebSocket
@@ -157,6 +151,7 @@ export function WebSocketProvider({
     if (client) {
       client.disconnect()
       setClient(null)
+      clientRef.current = null
     }
     setIsConnected(false)
     setIsReady(false)
@@ -173,26 +168,29 @@ export function WebSocketProvider({
     await client.sendGcode(script)
   }, [client])
 
+  const requestConnection = useCallback(() => setIsRequested(true), [])
+
   /**
-   * Auto-connect on mount
+   * Auto-connect once a component uses the connection
    */
   useEffect(() => {
-    let mounted = true
-    
-    if (autoConnect && mounted) {
+    if (autoConnect && isRequested) {
       connect()
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoConnect, isRequested])
 
-    // Cleanup on unmount only
+  /**
+   * Disconnect on unmount
+   */
+  useEffect(() => {
     return () => {
-      mounted = false
-      if (client) {
+      if (clientRef.current) {
         console.log('[WebSocketProvider] Disconnecting on unmount')
-        client.disconnect()
+        clientRef.current.disconnect()
       }
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []) // Empty deps - only run on mount/unmount
+  }, [])
 
   /**
    * Monitor connection state changes from the client
@@ -214,9 +212,11 @@ export function WebSocketProvider({
     error,
     printerStatus,
     client,
+    printerId,
     connect,
     disconnect,
     sendGcode,
+    requestConnection,
   }
 
   return (
@@ -231,12 +231,26 @@ export function WebSocketProvider({
  */
 export function useWebSocket() {
   const context = useContext(WebSocketContext)
+  const requestConnection = context?.requestConnection
+
+  useEffect(() => {
+    requestConnection?.()
+  }, [requestConnection])
+
   if (context === undefined) {
     throw new Error('useWebSocket must be used within a WebSocketProvider')
   }
   return context
 }
 
+/**
+ * Hook to get the printer the surrounding provider streams, for API calls
+ * about the same printer. Does not open the connection.
+ */
+export function usePrinterId(): number | undefined {
+  return useContext(WebSocketContext)?.printerId
+}
+
 /**
  * Hook to get a specific printer object from the status
  */
@@ -1,5 +1,7 @@
 import { Pool, PoolClient } from 'pg'
 import { CameraSettings } from './types'
+import type { CameraImageSettings } from './camera-processing'
+import { observeLatency, DATABASE_LATENCY_METRIC } from './metrics'
 
 let pool: Pool | null = null
 let databaseAvailable: boolean | null = null
@@ -74,11 +76,14 @@ export async function query<T = any>(text: string, params?: any[]): Promise<T[]>
     throw new Error('Failed to get database client')
   }
 
+  const startedAt = performance.now()
   try {
     const result = await client.query(text, params)
+    observeLatency(DATABASE_LATENCY_METRIC, { outcome: 'ok' }, (performance.now() - startedAt) / 1000)
     // Don't set databaseAvailable here - let initialization handle it
     return result.rows
   } catch (error) {
+    observeLatency(DATABASE_LATENCY_METRIC, { outcome: 'error' }, (performance.now() - startedAt) / 1000)
     console.error('Database query error:', error)
     // Only set to false for connection errors, not query errors
     if (error && typeof error === 'object' && 'code' in error) {
@@ -195,6 +200,18 @@ export async function initializeDatabase(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_camera_settings_enabled ON camera_settings(enabled);
       CREATE INDEX IF NOT EXISTS idx_camera_settings_order ON camera_settings(display_order);
 
+      -- Snapshot processing (crop, size, format and overlays) per camera
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS crop_left INTEGER NOT NULL DEFAULT 0 CHECK (crop_left BETWEEN 0 AND 45);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS crop_top INTEGER NOT NULL DEFAULT 0 CHECK (crop_top BETWEEN 0 AND 45);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS crop_right INTEGER NOT NULL DEFAULT 0 CHECK (crop_right BETWEEN 0 AND 45);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS crop_bottom INTEGER NOT NULL DEFAULT 0 CHECK (crop_bottom BETWEEN 0 AND 45);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS max_width INTEGER CHECK (max_width BETWEEN 160 AND 3840);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS image_format VARCHAR(10) NOT NULL DEFAULT 'jpeg' CHECK (image_format IN ('jpeg', 'webp'));
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS image_quality INTEGER NOT NULL DEFAULT 85 CHECK (image_quality BETWEEN 1 AND 100);
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS overlay_timestamp BOOLEAN NOT NULL DEFAULT false;
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS overlay_status BOOLEAN NOT NULL DEFAULT false;
+      ALTER TABLE camera_settings ADD COLUMN IF NOT EXISTS overlay_position VARCHAR(10) NOT NULL DEFAULT 'bottom' CHECK (overlay_position IN ('top', 'bottom'));
+
       -- Per-view camera settings
       CREATE TABLE IF NOT EXISTS view_camera_settings (
         id SERIAL PRIMARY KEY,
@@ -231,6 +248,252 @@ export async function initializeDatabase(): Promise<void> {
           ALTER TABLE dashboard_settings ADD COLUMN vertical_pip_main_camera_uid VARCHAR(255);
         END IF;
       END $$;
+
+      -- Dashboard user accounts and login sessions
+      CREATE TABLE IF NOT EXISTS dashboard_users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(50) NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+        last_login_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id SERIAL PRIMARY KEY,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL REFERENCES dashboard_users(id) ON DELETE CASCADE,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        user_agent TEXT,
+        ip_address VARCHAR(64),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+
+      -- Klipper/Moonraker printers managed by this dashboard
+      CREATE TABLE IF NOT EXISTS printers (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        host VARCHAR(255) NOT NULL,
+        port INTEGER NOT NULL DEFAULT 7127,
+        api_key TEXT,
+        camera_url_prefix TEXT,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        display_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_printers_order ON printers(display_order);
+
+      -- Audit trail of printer control actions
+      CREATE TABLE IF NOT EXISTS printer_control_audit (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE SET NULL,
+        user_id INTEGER REFERENCES dashboard_users(id) ON DELETE SET NULL,
+        username VARCHAR(50) NOT NULL,
+        action VARCHAR(50) NOT NULL,
+        success BOOLEAN NOT NULL DEFAULT true,
+        message TEXT,
+        ip_address VARCHAR(64),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_printer_control_audit_created_at ON printer_control_audit(created_at DESC);
+
+      -- Named heater/fan settings offered as preheat buttons
+      CREATE TABLE IF NOT EXISTS material_presets (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(50) NOT NULL UNIQUE,
+        extruder_temp INTEGER NOT NULL,
+        bed_temp INTEGER NOT NULL,
+        fan_speed INTEGER CHECK (fan_speed BETWEEN 0 AND 100),
+        display_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Print job history recorded from print state transitions
+      CREATE TABLE IF NOT EXISTS print_jobs (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'printing' CHECK (status IN ('printing', 'complete', 'cancelled', 'error', 'interrupted')),
+        started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        ended_at TIMESTAMP WITH TIME ZONE,
+        print_duration REAL,
+        total_duration REAL,
+        filament_used REAL,
+        estimated_time REAL,
+        thumbnail_path TEXT,
+        message TEXT,
+        final_snapshot BYTEA,
+        final_snapshot_type VARCHAR(50),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_print_jobs_printer_started_at ON print_jobs(printer_id, started_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_print_jobs_status ON print_jobs(status);
+
+      -- Print queue for printers without Moonraker's [job_queue] component
+      CREATE TABLE IF NOT EXISTS print_queue_jobs (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_print_queue_jobs_printer_position ON print_queue_jobs(printer_id, position);
+
+      -- Queue settings per printer, used with either queue backend
+      CREATE TABLE IF NOT EXISTS print_queue_state (
+        printer_id INTEGER PRIMARY KEY REFERENCES printers(id) ON DELETE CASCADE,
+        paused BOOLEAN NOT NULL DEFAULT false,
+        require_bed_clear BOOLEAN NOT NULL DEFAULT false,
+        awaiting_bed_clear BOOLEAN NOT NULL DEFAULT false,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Timelapse recorder settings per printer
+      CREATE TABLE IF NOT EXISTS timelapse_settings (
+        printer_id INTEGER PRIMARY KEY REFERENCES printers(id) ON DELETE CASCADE,
+        enabled BOOLEAN NOT NULL DEFAULT false,
+        camera_uid VARCHAR(255),
+        trigger VARCHAR(20) NOT NULL DEFAULT 'layer' CHECK (trigger IN ('layer', 'interval')),
+        interval_seconds INTEGER NOT NULL DEFAULT 30 CHECK (interval_seconds BETWEEN 2 AND 3600),
+        framerate INTEGER NOT NULL DEFAULT 30 CHECK (framerate BETWEEN 1 AND 60),
+        format VARCHAR(10) NOT NULL DEFAULT 'mp4' CHECK (format IN ('mp4', 'webm')),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Continuous camera recording settings per printer
+      CREATE TABLE IF NOT EXISTS camera_recording_settings (
+        printer_id INTEGER PRIMARY KEY REFERENCES printers(id) ON DELETE CASCADE,
+        enabled BOOLEAN NOT NULL DEFAULT false,
+        camera_uids TEXT[] NOT NULL DEFAULT '{}',
+        mode VARCHAR(20) NOT NULL DEFAULT 'printing' CHECK (mode IN ('printing', 'always')),
+        framerate INTEGER NOT NULL DEFAULT 2 CHECK (framerate BETWEEN 1 AND 15),
+        retention_hours INTEGER NOT NULL DEFAULT 72 CHECK (retention_hours BETWEEN 1 AND 8760),
+        max_disk_mb INTEGER NOT NULL DEFAULT 5120 CHECK (max_disk_mb BETWEEN 100 AND 1048576),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Print failure detection settings per printer, and the alerts it raised with their snapshots
+      CREATE TABLE IF NOT EXISTS failure_detection_settings (
+        printer_id INTEGER PRIMARY KEY REFERENCES printers(id) ON DELETE CASCADE,
+        enabled BOOLEAN NOT NULL DEFAULT false,
+        camera_uids TEXT[] NOT NULL DEFAULT '{}',
+        interval_seconds INTEGER NOT NULL DEFAULT 30 CHECK (interval_seconds BETWEEN 10 AND 600),
+        threshold INTEGER NOT NULL DEFAULT 50 CHECK (threshold BETWEEN 1 AND 100),
+        confirmations INTEGER NOT NULL DEFAULT 2 CHECK (confirmations BETWEEN 1 AND 10),
+        auto_pause BOOLEAN NOT NULL DEFAULT false,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS failure_detection_alerts (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        camera_uid VARCHAR(255) NOT NULL,
+        score REAL NOT NULL,
+        filename TEXT,
+        paused BOOLEAN NOT NULL DEFAULT false,
+        snapshot BYTEA NOT NULL,
+        snapshot_type VARCHAR(50) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_failure_detection_alerts_printer_created_at ON failure_detection_alerts(printer_id, created_at DESC);
+
+      -- Notification channels and the events each one receives
+      CREATE TABLE IF NOT EXISTS notification_channels (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('webhook', 'discord', 'slack', 'email', 'ntfy', 'gotify')),
+        url TEXT,
+        recipients TEXT,
+        token TEXT,
+        events TEXT[] NOT NULL DEFAULT '{}',
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Outgoing webhook endpoints and their signed, retried deliveries
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        url TEXT NOT NULL,
+        secret VARCHAR(100) NOT NULL,
+        events TEXT[] NOT NULL DEFAULT '{}',
+        progress_step INTEGER NOT NULL DEFAULT 10 CHECK (progress_step BETWEEN 1 AND 50),
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+        event VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        next_attempt_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        delivered_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created_at ON webhook_deliveries(created_at DESC);
+
+      -- Temperature history: raw samples (24 hours), minute averages (30 days), hourly averages (kept)
+      CREATE TABLE IF NOT EXISTS temperature_samples (
+        id BIGSERIAL PRIMARY KEY,
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        sensor VARCHAR(100) NOT NULL,
+        recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        temperature REAL NOT NULL,
+        target REAL,
+        power REAL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_temperature_samples_printer_time ON temperature_samples(printer_id, recorded_at);
+      CREATE INDEX IF NOT EXISTS idx_temperature_samples_recorded_at ON temperature_samples(recorded_at);
+
+      CREATE TABLE IF NOT EXISTS temperature_samples_minute (
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        sensor VARCHAR(100) NOT NULL,
+        bucket TIMESTAMP WITH TIME ZONE NOT NULL,
+        temperature REAL NOT NULL,
+        min_temperature REAL NOT NULL,
+        max_temperature REAL NOT NULL,
+        target REAL,
+        power REAL,
+        sample_count INTEGER NOT NULL,
+        PRIMARY KEY (printer_id, sensor, bucket)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_temperature_samples_minute_bucket ON temperature_samples_minute(bucket);
+
+      CREATE TABLE IF NOT EXISTS temperature_samples_hour (
+        printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+        sensor VARCHAR(100) NOT NULL,
+        bucket TIMESTAMP WITH TIME ZONE NOT NULL,
+        temperature REAL NOT NULL,
+        min_temperature REAL NOT NULL,
+        max_temperature REAL NOT NULL,
+        target REAL,
+        power REAL,
+        sample_count INTEGER NOT NULL,
+        PRIMARY KEY (printer_id, sensor, bucket)
+      );
     `
 
     try {
@@ -627,6 +890,35 @@ export async function updateCameraDisplayOrder(uid: string, display_order: numbe
   }
 }
 
+export async function updateCameraImageSettings(uid: string, settings: CameraImageSettings): Promise<CameraSettings | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  // The camera may not have a row yet if the webcam list was never loaded; its uid stands in for the name
+  const results = await query<CameraSettings>(
+    `INSERT INTO camera_settings (uid, name, crop_left, crop_top, crop_right, crop_bottom, max_width,
+       image_format, image_quality, overlay_timestamp, overlay_status, overlay_position)
+     VALUES ($1, $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     ON CONFLICT (uid) DO UPDATE SET
+       crop_left = EXCLUDED.crop_left,
+       crop_top = EXCLUDED.crop_top,
+       crop_right = EXCLUDED.crop_right,
+       crop_bottom = EXCLUDED.crop_bottom,
+       max_width = EXCLUDED.max_width,
+       image_format = EXCLUDED.image_format,
+       image_quality = EXCLUDED.image_quality,
+       overlay_timestamp = EXCLUDED.overlay_timestamp,
+       overlay_status = EXCLUDED.overlay_status,
+       overlay_position = EXCLUDED.overlay_position,
+       updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [uid, settings.crop_left, settings.crop_top, settings.crop_right, settings.crop_bottom, settings.max_width,
+      settings.image_format, settings.image_quality, settings.overlay_timestamp, settings.overlay_status, settings.overlay_position]
+  )
+  return results[0] || null
+}
+
 // View camera settings functions
 export async function getViewCameraSettings(viewName: 'stream' | 'horizontal' | 'vertical'): Promise<ViewCameraSettings[]> {
   if (!isDatabaseAvailable()) {
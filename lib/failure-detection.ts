@@ -0,0 +1,109 @@
+/**
+ * Print failure detection shared by the failure detection API routes, the
+ * settings and the dashboard card.
+ *
+ * While a print runs, the dashboard takes a snapshot from each watched camera
+ * every few seconds and scores it from 0 (looks fine) to 100 (looks like a
+ * failure) by comparing it with the first frame of the print and the frames
+ * just before it, optionally combined with an ONNX model run on the CPU
+ * (see `failure-detector.ts`). A camera whose score stays at or above the
+ * threshold raises an alert with the offending snapshot.
+ */
+
+export interface FailureDetectionSettings {
+  enabled: boolean
+  camera_uids: string[]
+  interval_seconds: number // time between snapshots of a camera
+  threshold: number // score from which a check counts as a failure
+  confirmations: number // failing checks in a row before an alert is raised
+  auto_pause: boolean // pause the print when an alert is raised
+}
+
+export const DEFAULT_FAILURE_DETECTION_SETTINGS: FailureDetectionSettings = {
+  enabled: false,
+  camera_uids: [],
+  interval_seconds: 30,
+  threshold: 50,
+  confirmations: 2,
+  auto_pause: false
+}
+
+export const FAILURE_INTERVAL_RANGE = { min: 10, max: 600 }
+export const FAILURE_THRESHOLD_RANGE = { min: 1, max: 100 }
+export const FAILURE_CONFIRMATIONS_RANGE = { min: 1, max: 10 }
+
+// One check of one camera. The parts are 0-1; the score is 0-100.
+export interface FailureScore {
+  time: number // ms since epoch
+  score: number
+  change: number // how much of the scene changed since the recent frames
+  fragmentation: number // how stringy and scattered the change since the first frame is
+  texture: number // added fine detail, like strands of loose filament
+  model: number | null // the ONNX model's failure probability, when a model is loaded
+}
+
+export type FailureDetectorState = 'idle' | 'warming_up' | 'watching' | 'alerted'
+
+export const FAILURE_DETECTOR_STATE_LABELS: Record<FailureDetectorState, string> = {
+  idle: 'Idle',
+  warming_up: 'Collecting reference frames',
+  watching: 'Watching',
+  alerted: 'Failure detected'
+}
+
+export interface FailureDetectionCamera {
+  uid: string
+  state: FailureDetectorState
+  scores: FailureScore[] // of the current or last print, oldest first
+}
+
+export interface FailureAlert {
+  id: number
+  camera_uid: string
+  score: number
+  filename: string | null
+  paused: boolean // whether the print was paused because of it
+  created_at: string
+  snapshot_url: string
+}
+
+export interface FailureDetectionResponse {
+  enabled: boolean
+  threshold: number
+  filename: string | null // print the scores belong to
+  cameras: FailureDetectionCamera[]
+  alerts: FailureAlert[] // most recent first
+}
+
+export interface FailureDetectionSettingsResponse {
+  settings: FailureDetectionSettings
+  model: string | null // file name of the loaded ONNX model
+}
+
+const isIntegerIn = (value: unknown, range: { min: number; max: number }) =>
+  Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+
+export function validateFailureDetectionSettings(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid failure detection settings'
+  const { enabled, camera_uids, interval_seconds, threshold, confirmations, auto_pause } = input as Record<string, unknown>
+
+  if (typeof enabled !== 'boolean' || typeof auto_pause !== 'boolean') {
+    return 'Enabled and auto-pause must be true or false'
+  }
+  if (!Array.isArray(camera_uids) || !camera_uids.every(uid => typeof uid === 'string' && uid.length > 0 && uid.length <= 255)) {
+    return 'Cameras must be a list of webcam uids'
+  }
+  if (enabled && camera_uids.length === 0) {
+    return 'Choose at least one camera to watch'
+  }
+  if (!isIntegerIn(interval_seconds, FAILURE_INTERVAL_RANGE)) {
+    return `Interval must be between ${FAILURE_INTERVAL_RANGE.min} and ${FAILURE_INTERVAL_RANGE.max} seconds`
+  }
+  if (!isIntegerIn(threshold, FAILURE_THRESHOLD_RANGE)) {
+    return `Threshold must be between ${FAILURE_THRESHOLD_RANGE.min} and ${FAILURE_THRESHOLD_RANGE.max}`
+  }
+  if (!isIntegerIn(confirmations, FAILURE_CONFIRMATIONS_RANGE)) {
+    return `Confirmations must be between ${FAILURE_CONFIRMATIONS_RANGE.min} and ${FAILURE_CONFIRMATIONS_RANGE.max}`
+  }
+  return null
+}
@@ -0,0 +1,687 @@
+import path from 'path'
+import { createRequire } from 'module'
+import sharp from 'sharp'
+import { query, initializeDatabase, isDatabaseAvailable, getCameraSettingByUid } from './database'
+import type { PrinterMonitor, PrinterSample } from './printer-monitor'
+import type { AuthUser } from './permissions'
+import type { WebcamConfig } from './types'
+import { captureCameraSnapshot, getSnapshotWebcam } from './camera-snapshot'
+import { processCameraImage, processCameraSnapshot } from './camera-pipeline'
+import { pickCameraImageSettings } from './camera-processing'
+import { getMoonrakerClient } from './moonraker-client'
+import { recordControlAction } from './printer-control'
+import { dispatchNotification } from './notification-channels'
+import { NOTIFICATION_EVENT_LABELS } from './notifications'
+import { emitWebhookEvent } from './webhook-delivery'
+import {
+  DEFAULT_FAILURE_DETECTION_SETTINGS,
+  type FailureAlert,
+  type FailureDetectionCamera,
+  type FailureDetectionSettings,
+  type FailureScore
+} from './failure-detection'
+
+/**
+ * Print failure detection from camera snapshots, on the CPU.
+ *
+ * While a print runs, each watched camera is captured every few seconds and
+ * shrunk to a small greyscale frame. The median of the first frames of the
+ * print is its reference; the median of the latest frames hides the moving
+ * toolhead. Three heuristics are scored from them:
+ *  - change: how much of the scene differs from the frames a few checks back
+ *  - fragmentation: how thin and scattered the change since the reference is,
+ *    as loose strands of filament are, compared to a growing part
+ *  - texture: how much fine edge detail was added since the reference
+ * When `FAILURE_DETECTION_MODEL` points to an ONNX model and onnxruntime-node
+ * is installed, the model's failure probability is blended in. A camera that
+ * scores at or above the threshold for the configured number of checks in a
+ * row raises an alert: the snapshot is stored, the print is optionally paused,
+ * and a notification and webhook event are sent.
+ */
+
+const CAPTURE_TIMEOUT_MS = 10000
+const FRAME_WIDTH = 128
+const FRAME_HEIGHT = 96
+// The median of this many frames makes up the reference and the current view
+const MEDIAN_FRAMES = 3
+const RECENT_FRAMES = 10
+// Grey level difference from which a pixel counts as changed, and gradient from which it is an edge
+const PIXEL_CHANGE_THRESHOLD = 30
+const EDGE_THRESHOLD = 40
+// Change of less than this share of the frame is noise rather than a failure
+const MIN_CHANGED_AREA = 0.005
+// Scores kept per camera: over 16 hours at the default interval
+const MAX_SCORES = 2000
+const MAX_ALERTS = 10
+
+// Heuristic weights, and the model's share of the score when one is loaded
+const CHANGE_WEIGHT = 0.2
+const FRAGMENTATION_WEIGHT = 0.45
+const TEXTURE_WEIGHT = 0.35
+const MODEL_WEIGHT = 0.6
+
+// Audit log entries for prints paused by the detector
+const DETECTOR_USER: AuthUser = { id: 0, username: 'failure-detection', role: 'operator' }
+
+// The parts of onnxruntime-node used here; the package is optional and loaded at runtime
+interface OnnxSession {
+  inputNames: readonly string[]
+  outputNames: readonly string[]
+  run(feeds: Record<string, unknown>): Promise<Record<string, { data: ArrayLike<number | bigint> }>>
+}
+
+interface OnnxRuntime {
+  InferenceSession: { create(path: string, options?: { executionProviders?: string[] }): Promise<OnnxSession> }
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => unknown
+}
+
+interface FailureModel {
+  name: string
+  size: number
+  runtime: OnnxRuntime
+  session: OnnxSession
+}
+
+interface CameraWatch {
+  uid: string
+  reference: Uint8Array | null
+  frames: Uint8Array[] // oldest first
+  failures: number // checks in a row at or above the threshold
+  alerted: boolean
+  captureFailures: number
+  scores: FailureScore[]
+}
+
+interface FailureAlertRow {
+  id: number
+  camera_uid: string
+  score: number
+  filename: string | null
+  paused: boolean
+  created_at: string
+}
+
+// Kept on globalThis so route handlers see the detectors started from instrumentation
+const globalForFailureDetection = globalThis as unknown as {
+  failureDetectionSettings?: Map<number, FailureDetectionSettings>
+  failureDetectors?: Map<number, PrinterFailureDetector>
+  failureModel?: Promise<FailureModel | null>
+}
+
+function getSettingsCache(): Map<number, FailureDetectionSettings> {
+  if (!globalForFailureDetection.failureDetectionSettings) {
+    globalForFailureDetection.failureDetectionSettings = new Map()
+  }
+  return globalForFailureDetection.failureDetectionSettings
+}
+
+function getDetectorRegistry(): Map<number, PrinterFailureDetector> {
+  if (!globalForFailureDetection.failureDetectors) {
+    globalForFailureDetection.failureDetectors = new Map()
+  }
+  return globalForFailureDetection.failureDetectors
+}
+
+/**
+ * Failure detection settings of a printer. Read once from the database, then
+ * served from memory; without a database they only live in memory.
+ */
+export async function getFailureDetectionSettings(printerId: number): Promise<FailureDetectionSettings> {
+  const cache = getSettingsCache()
+  const cached = cache.get(printerId)
+  if (cached) {
+    return cached
+  }
+
+  if (!isDatabaseAvailable()) {
+    return DEFAULT_FAILURE_DETECTION_SETTINGS
+  }
+
+  await initializeDatabase()
+  const rows = await query<FailureDetectionSettings>(
+    `SELECT enabled, camera_uids, interval_seconds, threshold, confirmations, auto_pause
+     FROM failure_detection_settings WHERE printer_id = $1`,
+    [printerId]
+  )
+  const settings = rows[0] || DEFAULT_FAILURE_DETECTION_SETTINGS
+  cache.set(printerId, settings)
+  return settings
+}
+
+export async function updateFailureDetectionSettings(
+  printerId: number,
+  input: FailureDetectionSettings
+): Promise<FailureDetectionSettings> {
+  const settings: FailureDetectionSettings = {
+    enabled: input.enabled,
+    camera_uids: [...new Set(input.camera_uids)],
+    interval_seconds: input.interval_seconds,
+    threshold: input.threshold,
+    confirmations: input.confirmations,
+    auto_pause: input.auto_pause
+  }
+
+  if (isDatabaseAvailable()) {
+    await initializeDatabase()
+    await query(
+      `INSERT INTO failure_detection_settings (printer_id, enabled, camera_uids, interval_seconds, threshold, confirmations, auto_pause)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (printer_id) DO UPDATE SET
+         enabled = EXCLUDED.enabled,
+         camera_uids = EXCLUDED.camera_uids,
+         interval_seconds = EXCLUDED.interval_seconds,
+         threshold = EXCLUDED.threshold,
+         confirmations = EXCLUDED.confirmations,
+         auto_pause = EXCLUDED.auto_pause,
+         updated_at = CURRENT_TIMESTAMP`,
+      [printerId, settings.enabled, settings.camera_uids, settings.interval_seconds, settings.threshold, settings.confirmations, settings.auto_pause]
+    )
+  }
+
+  getSettingsCache().set(printerId, settings)
+  return settings
+}
+
+async function openFailureModel(): Promise<FailureModel | null> {
+  const modelPath = process.env.FAILURE_DETECTION_MODEL
+  if (!modelPath) {
+    return null
+  }
+
+  let runtime: OnnxRuntime
+  try {
+    // Resolved from the app's own node_modules at runtime, so the bundler leaves it alone
+    runtime = createRequire(path.join(process.cwd(), 'package.json'))('onnxruntime-node') as OnnxRuntime
+  } catch {
+    console.warn('[Failure] FAILURE_DETECTION_MODEL is set but onnxruntime-node is not installed; using the heuristics only')
+    return null
+  }
+
+  try {
+    const session = await runtime.InferenceSession.create(path.resolve(modelPath), { executionProviders: ['cpu'] })
+    const size = parseInt(process.env.FAILURE_DETECTION_MODEL_SIZE || '224', 10)
+    console.log(`[Failure] Loaded failure detection model ${path.basename(modelPath)}`)
+    return { name: path.basename(modelPath), size, runtime, session }
+  } catch (error) {
+    console.error('[Failure] Could not load the failure detection model:', error)
+    return null
+  }
+}
+
+// Loaded once per process, on first use
+function getFailureModel(): Promise<FailureModel | null> {
+  if (!globalForFailureDetection.failureModel) {
+    globalForFailureDetection.failureModel = openFailureModel()
+  }
+  return globalForFailureDetection.failureModel
+}
+
+/**
+ * File name of the ONNX model in use, or null when only the heuristics run
+ */
+export async function getFailureModelName(): Promise<string | null> {
+  return (await getFailureModel())?.name ?? null
+}
+
+// The model gets a square RGB image scaled to 0-1, channels first
+async function runFailureModel(model: FailureModel, image: Buffer): Promise<number> {
+  const { data } = await sharp(image)
+    .removeAlpha()
+    .resize(model.size, model.size, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const pixels = model.size * model.size
+  const input = new Float32Array(pixels * 3)
+  for (let i = 0; i < pixels; i++) {
+    for (let channel = 0; channel < 3; channel++) {
+      input[channel * pixels + i] = data[i * 3 + channel] / 255
+    }
+  }
+
+  const outputs = await model.session.run({
+    [model.session.inputNames[0]]: new model.runtime.Tensor('float32', input, [1, 3, model.size, model.size])
+  })
+  // The last value is the failure class; raw logits are squashed into a probability
+  const values = outputs[model.session.outputNames[0]].data
+  const value = Number(values[values.length - 1])
+  return value >= 0 && value <= 1 ? value : 1 / (1 + Math.exp(-value))
+}
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+async function toAnalysisFrame(image: Buffer): Promise<Uint8Array> {
+  // Stretching the histogram keeps the camera's exposure changes from counting as change
+  const data = await sharp(image)
+    .greyscale()
+    .resize(FRAME_WIDTH, FRAME_HEIGHT, { fit: 'fill' })
+    .normalise()
+    .raw()
+    .toBuffer()
+  return new Uint8Array(data)
+}
+
+function medianFrame(frames: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(frames[0].length)
+  const values = new Array<number>(frames.length)
+  for (let i = 0; i < result.length; i++) {
+    for (let frame = 0; frame < frames.length; frame++) {
+      values[frame] = frames[frame][i]
+    }
+    values.sort((a, b) => a - b)
+    result[i] = values[values.length >> 1]
+  }
+  return result
+}
+
+function changeMask(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const mask = new Uint8Array(a.length)
+  for (let i = 0; i < a.length; i++) {
+    mask[i] = Math.abs(a[i] - b[i]) > PIXEL_CHANGE_THRESHOLD ? 1 : 0
+  }
+  return mask
+}
+
+const countChanged = (mask: Uint8Array) => mask.reduce((sum, value) => sum + value, 0)
+
+// Changed pixels with at least two changed neighbours, to drop isolated noise
+function denoiseMask(mask: Uint8Array): Uint8Array {
+  const result = new Uint8Array(mask.length)
+  for (let y = 1; y < FRAME_HEIGHT - 1; y++) {
+    for (let x = 1; x < FRAME_WIDTH - 1; x++) {
+      const i = y * FRAME_WIDTH + x
+      if (mask[i] && mask[i - 1] + mask[i + 1] + mask[i - FRAME_WIDTH] + mask[i + FRAME_WIDTH] >= 2) {
+        result[i] = 1
+      }
+    }
+  }
+  return result
+}
+
+// Share of changed pixels on the edge of the change: near 1 for strands, low for solid blobs
+function boundaryRatio(mask: Uint8Array): number {
+  let area = 0
+  let boundary = 0
+  for (let y = 1; y < FRAME_HEIGHT - 1; y++) {
+    for (let x = 1; x < FRAME_WIDTH - 1; x++) {
+      const i = y * FRAME_WIDTH + x
+      if (!mask[i]) continue
+      area++
+      if (!mask[i - 1] || !mask[i + 1] || !mask[i - FRAME_WIDTH] || !mask[i + FRAME_WIDTH]) {
+        boundary++
+      }
+    }
+  }
+  return area > 0 ? boundary / area : 0
+}
+
+function edgeDensity(frame: Uint8Array): number {
+  let edges = 0
+  for (let y = 1; y < FRAME_HEIGHT - 1; y++) {
+    for (let x = 1; x < FRAME_WIDTH - 1; x++) {
+      const i = y * FRAME_WIDTH + x
+      const gradient = Math.abs(frame[i + 1] - frame[i - 1]) + Math.abs(frame[i + FRAME_WIDTH] - frame[i - FRAME_WIDTH])
+      if (gradient > EDGE_THRESHOLD) edges++
+    }
+  }
+  return edges / ((FRAME_WIDTH - 2) * (FRAME_HEIGHT - 2))
+}
+
+/**
+ * Score the latest frames against the reference and the frames before them
+ */
+function analyseFrames(reference: Uint8Array, frames: Uint8Array[]): Pick<FailureScore, 'change' | 'fragmentation' | 'texture'> {
+  const current = medianFrame(frames.slice(-MEDIAN_FRAMES))
+  const previous = medianFrame(frames.slice(0, -MEDIAN_FRAMES).slice(-MEDIAN_FRAMES))
+
+  // A part grows a little between checks; a failure changes large parts of the scene
+  const recentChange = countChanged(denoiseMask(changeMask(current, previous))) / current.length
+
+  const sinceReference = denoiseMask(changeMask(current, reference))
+  const changedArea = countChanged(sinceReference) / current.length
+  const fragmentation = changedArea < MIN_CHANGED_AREA
+    ? 0
+    : clamp((boundaryRatio(sinceReference) - 0.35) / 0.45) * clamp(changedArea / (MIN_CHANGED_AREA * 4))
+
+  return {
+    change: clamp(recentChange / 0.12),
+    fragmentation,
+    texture: clamp((edgeDensity(current) - edgeDensity(reference)) / 0.06)
+  }
+}
+
+async function recordFailureAlert(
+  printerId: number,
+  alert: Omit<FailureAlertRow, 'id' | 'created_at'>,
+  snapshot: { buffer: Buffer; contentType: string }
+): Promise<number | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  try {
+    await initializeDatabase()
+    const rows = await query<{ id: number }>(
+      `INSERT INTO failure_detection_alerts (printer_id, camera_uid, score, filename, paused, snapshot, snapshot_type)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [printerId, alert.camera_uid, alert.score, alert.filename, alert.paused, snapshot.buffer, snapshot.contentType]
+    )
+    return rows[0]?.id ?? null
+  } catch (error) {
+    console.error('Error recording failure alert:', error)
+    return null
+  }
+}
+
+const getAlertSnapshotUrl = (id: number, printerId: number) =>
+  `/api/failure-detection/alerts/${id}/snapshot?printerId=${printerId}`
+
+/**
+ * The most recent failure alerts of a printer, newest first
+ */
+export async function getFailureAlerts(printerId: number, limit: number = MAX_ALERTS): Promise<FailureAlert[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  await initializeDatabase()
+  const rows = await query<FailureAlertRow>(
+    `SELECT id, camera_uid, score, filename, paused, created_at
+     FROM failure_detection_alerts
+     WHERE printer_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [printerId, limit]
+  )
+  return rows.map(row => ({ ...row, snapshot_url: getAlertSnapshotUrl(row.id, printerId) }))
+}
+
+export async function getFailureAlertSnapshot(
+  id: number,
+  printerId: number
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ snapshot: Buffer; snapshot_type: string }>(
+    'SELECT snapshot, snapshot_type FROM failure_detection_alerts WHERE id = $1 AND printer_id = $2',
+    [id, printerId]
+  )
+  return rows[0] ? { buffer: rows[0].snapshot, contentType: rows[0].snapshot_type } : null
+}
+
+/**
+ * Watches one printer's cameras during prints. Checks run one camera after
+ * another, and samples that arrive during a check are skipped.
+ */
+class PrinterFailureDetector {
+  private watches = new Map<string, CameraWatch>()
+  private filename: string | null = null
+  private printing = false
+  private lastCheckAt = 0
+  private busy = false
+  private modelFailures = 0
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  get state(): { filename: string | null; cameras: FailureDetectionCamera[] } {
+    return {
+      filename: this.filename,
+      cameras: [...this.watches.values()].map(watch => ({
+        uid: watch.uid,
+        state: watch.alerted
+          ? 'alerted'
+          : !this.printing
+            ? 'idle'
+            : watch.reference && watch.frames.length >= MEDIAN_FRAMES * 2 ? 'watching' : 'warming_up',
+        scores: watch.scores
+      }))
+    }
+  }
+
+  start(): void {
+    this.monitor.on('sample', (sample) => this.handleSample(sample))
+    this.monitor.on('transition', ({ from, to, current }) => {
+      if (to === 'printing' && from !== 'paused') {
+        this.reset(current.filename)
+      } else if (to === 'printing' && from === 'paused') {
+        this.resume()
+      }
+    })
+  }
+
+  private get name(): string {
+    return this.monitor.printer.name
+  }
+
+  private reset(filename: string | null): void {
+    this.watches.clear()
+    this.filename = filename
+    this.lastCheckAt = 0
+  }
+
+  // After a pause the scene may have been cleaned up, so recent frames start over and alerts are armed again
+  private resume(): void {
+    for (const watch of this.watches.values()) {
+      watch.frames = []
+      watch.failures = 0
+      watch.alerted = false
+    }
+  }
+
+  private handleSample(sample: PrinterSample): void {
+    this.printing = sample.printState === 'printing'
+    if (this.busy || !this.printing) {
+      return
+    }
+
+    this.busy = true
+    this.checkIfDue(sample)
+      .catch((error) => {
+        console.error(`[Failure] ${this.name}: error checking for print failures:`, error)
+      })
+      .finally(() => {
+        this.busy = false
+      })
+  }
+
+  private async checkIfDue(sample: PrinterSample): Promise<void> {
+    const settings = await getFailureDetectionSettings(this.monitor.printerId)
+    if (!settings.enabled || sample.timestamp - this.lastCheckAt < settings.interval_seconds * 1000) {
+      return
+    }
+    this.lastCheckAt = sample.timestamp
+
+    // The dashboard started in the middle of a print, or missed the last one ending
+    if (sample.filename !== this.filename) {
+      this.reset(sample.filename)
+    }
+
+    for (const uid of this.watches.keys()) {
+      if (!settings.camera_uids.includes(uid)) {
+        this.watches.delete(uid)
+      }
+    }
+
+    for (const uid of settings.camera_uids) {
+      let watch = this.watches.get(uid)
+      if (!watch) {
+        watch = { uid, reference: null, frames: [], failures: 0, alerted: false, captureFailures: 0, scores: [] }
+        this.watches.set(uid, watch)
+      }
+      await this.checkCamera(watch, settings, sample)
+    }
+  }
+
+  private async checkCamera(watch: CameraWatch, settings: FailureDetectionSettings, sample: PrinterSample): Promise<void> {
+    const printer = this.monitor.printer
+    let raw: { buffer: Buffer; contentType: string }
+    let webcam: WebcamConfig | null
+    let image: Buffer
+
+    try {
+      raw = await captureCameraSnapshot(printer, watch.uid, CAPTURE_TIMEOUT_MS, { raw: true })
+      webcam = await getSnapshotWebcam(printer, watch.uid)
+      // Orientation and crop only: overlays change on every frame and would count as change
+      const imageSettings = pickCameraImageSettings(await getCameraSettingByUid(watch.uid))
+      image = (await processCameraImage(raw.buffer, webcam, {
+        ...imageSettings,
+        overlay_timestamp: false,
+        overlay_status: false
+      }, { printerName: printer.name, sample: null, time: new Date() })).buffer
+      watch.captureFailures = 0
+    } catch (error) {
+      // A camera that is down would otherwise log on every check
+      if (watch.captureFailures++ === 0) {
+        console.warn(`[Failure] ${this.name}: could not check camera ${watch.uid}:`, error instanceof Error ? error.message : error)
+      }
+      return
+    }
+
+    watch.frames.push(await toAnalysisFrame(image))
+    if (watch.frames.length > RECENT_FRAMES) {
+      watch.frames.shift()
+    }
+    if (!watch.reference && watch.frames.length >= MEDIAN_FRAMES) {
+      watch.reference = medianFrame(watch.frames)
+    }
+    // Scoring starts once the frames before the latest ones are enough for a median too
+    if (!watch.reference || watch.frames.length < MEDIAN_FRAMES * 2) {
+      return
+    }
+
+    const parts = analyseFrames(watch.reference, watch.frames)
+    const model = await this.scoreWithModel(image)
+    const heuristic = CHANGE_WEIGHT * parts.change + FRAGMENTATION_WEIGHT * parts.fragmentation + TEXTURE_WEIGHT * parts.texture
+    const combined = model === null ? heuristic : (1 - MODEL_WEIGHT) * heuristic + MODEL_WEIGHT * model
+    const score = Math.round(combined * 1000) / 10
+
+    watch.scores.push({ time: sample.timestamp, score, ...parts, model })
+    if (watch.scores.length > MAX_SCORES) {
+      watch.scores.shift()
+    }
+
+    watch.failures = score >= settings.threshold ? watch.failures + 1 : 0
+    if (watch.failures >= settings.confirmations && !watch.alerted) {
+      watch.alerted = true
+      await this.raiseAlert(watch.uid, webcam, raw, score, settings, sample)
+    }
+  }
+
+  private async scoreWithModel(image: Buffer): Promise<number | null> {
+    const model = await getFailureModel()
+    if (!model) {
+      return null
+    }
+
+    try {
+      const value = await runFailureModel(model, image)
+      this.modelFailures = 0
+      return value
+    } catch (error) {
+      if (this.modelFailures++ === 0) {
+        console.error(`[Failure] ${this.name}: failure detection model failed:`, error)
+      }
+      return null
+    }
+  }
+
+  private async pausePrint(score: number): Promise<boolean> {
+    const message = `Paused by failure detection (score ${score})`
+    try {
+      await getMoonrakerClient(this.monitor.printer).request('/printer/print/pause', { method: 'POST' })
+      await recordControlAction({ user: DETECTOR_USER, printerId: this.monitor.printerId, action: 'print_pause', success: true, message })
+      return true
+    } catch (error) {
+      console.error(`[Failure] ${this.name}: could not pause the print:`, error)
+      await recordControlAction({
+        user: DETECTOR_USER,
+        printerId: this.monitor.printerId,
+        action: 'print_pause',
+        success: false,
+        message: error instanceof Error ? error.message : String(error)
+      })
+      return false
+    }
+  }
+
+  private async raiseAlert(
+    uid: string,
+    webcam: WebcamConfig | null,
+    raw: { buffer: Buffer; contentType: string },
+    score: number,
+    settings: FailureDetectionSettings,
+    sample: PrinterSample
+  ): Promise<void> {
+    const printerId = this.monitor.printerId
+    const filename = sample.filename || null
+    const cameraName = webcam?.name || uid
+    console.warn(`[Failure] ${this.name}: possible failure on camera ${cameraName} (score ${score})`)
+
+    // The stored snapshot is processed like any other, overlays included
+    const snapshot = await processCameraSnapshot(this.monitor.printer, webcam, raw)
+    const paused = settings.auto_pause ? await this.pausePrint(score) : false
+    const alertId = await recordFailureAlert(printerId, { camera_uid: uid, score, filename, paused }, snapshot)
+
+    const extension = snapshot.contentType.includes('webp') ? 'webp' : 'jpg'
+    const message = `${filename || 'The print'} may have failed at ${Math.round(sample.progress * 100)}%: ` +
+      `${cameraName} scored ${score} (threshold ${settings.threshold})${paused ? '. The print was paused.' : ''}`
+
+    dispatchNotification({
+      type: 'failure_detected',
+      severity: 'error',
+      printer: { id: printerId, name: this.name },
+      title: NOTIFICATION_EVENT_LABELS.failure_detected,
+      message,
+      timestamp: new Date().toISOString(),
+      filename,
+      attachment: {
+        filename: `failure-${printerId}-${Date.now()}.${extension}`,
+        content_type: snapshot.contentType,
+        data: snapshot.buffer
+      }
+    }).catch((error) => {
+      console.error(`[Notifications] ${this.name}: could not send failure_detected:`, error)
+    })
+
+    emitWebhookEvent('failure_detected', {
+      printer: { id: printerId, name: this.name },
+      filename,
+      progress: Math.floor(sample.progress * 100),
+      camera: { uid, name: cameraName },
+      score,
+      threshold: settings.threshold,
+      paused,
+      alert_id: alertId,
+      snapshot_url: alertId !== null ? getAlertSnapshotUrl(alertId, printerId) : null
+    }).catch((error) => {
+      console.error(`[Webhooks] ${this.name}: could not queue failure_detected:`, error)
+    })
+  }
+}
+
+/**
+ * Scores of the current or last print per watched camera
+ */
+export function getFailureDetectionState(printerId: number): { filename: string | null; cameras: FailureDetectionCamera[] } {
+  return getDetectorRegistry().get(printerId)?.state ?? { filename: null, cameras: [] }
+}
+
+/**
+ * Watch the cameras of the printer watched by `monitor` for failures while detection is enabled
+ */
+export function attachFailureDetector(monitor: PrinterMonitor): void {
+  const detector = new PrinterFailureDetector(monitor)
+  detector.start()
+  getDetectorRegistry().set(monitor.printerId, detector)
+}
+
+/**
+ * Forget a printer's detector, e.g. when it is disabled or removed
+ */
+export function removeFailureDetector(printerId: number): void {
+  getDetectorRegistry().delete(printerId)
+}
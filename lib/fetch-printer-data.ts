@@ -1,11 +1,12 @@
 import type { PrinterStatus, TemperatureHistory } from "@/lib/types"
 import { getBaseUrl } from "@/lib/utils/environment"
+import { withPrinterId } from "@/lib/utils/api"
 
 /**
  * Server-side function to fetch printer data (status and temperature history)
  * Used by stream view pages to get initial data
  */
-export async function fetchPrinterData(): Promise<{ 
+export async function fetchPrinterData(printerId?: number): Promise<{ 
   status: PrinterStatus | null
   temperatureHistory: TemperatureHistory | null 
 }> {
@@ -13,11 +14,11 @@ export async function fetchPrinterData(): Promise<{
     const baseUrl = getBaseUrl()
     
     const [statusResponse, tempResponse] = await Promise.all([
-      fetch(`${baseUrl}/api/printer/status`, { 
+      fetch(withPrinterId(`${baseUrl}/api/printer/status`, printerId), { 
         cache: 'no-store',
         next: { revalidate: 0 }
       }),
-      fetch(`${baseUrl}/api/printer/temperature-history`, { 
+      fetch(withPrinterId(`${baseUrl}/api/printer/temperature-history`, printerId), { 
         cache: 'no-store',
         next: { revalidate: 0 }
       })
@@ -0,0 +1,63 @@
+import { spawn } from 'child_process'
+
+/**
+ * Optional ffmpeg support. The binary is found through `FFMPEG_PATH` or the
+ * PATH; features that need it fall back or turn themselves off without it.
+ */
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+const VERSION_TIMEOUT_MS = 5000
+
+const globalForFfmpeg = globalThis as unknown as {
+  ffmpegAvailable?: Promise<boolean>
+}
+
+/**
+ * Whether ffmpeg can be run, checked once per server process
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  if (!globalForFfmpeg.ffmpegAvailable) {
+    globalForFfmpeg.ffmpegAvailable = runFfmpeg(['-version'], VERSION_TIMEOUT_MS)
+      .then(() => true)
+      .catch(() => {
+        console.log(`ffmpeg not found at "${FFMPEG_PATH}"; timelapse features that need it are disabled`)
+        return false
+      })
+  }
+  return globalForFfmpeg.ffmpegAvailable
+}
+
+/**
+ * Run ffmpeg and return what it wrote to stdout. Rejects with the end of
+ * stderr when it exits with an error or runs longer than `timeoutMs`.
+ */
+export function runFfmpeg(args: string[], timeoutMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', ...args], { stdio: ['ignore', 'pipe', 'pipe'] })
+    const stdout: Buffer[] = []
+    let stderr = ''
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL')
+      reject(new Error(`ffmpeg timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk))
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Only the end is useful and ffmpeg can be chatty
+      stderr = (stderr + chunk.toString()).slice(-2000)
+    })
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve(Buffer.concat(stdout))
+      } else {
+        reject(new Error(stderr.trim() || `ffmpeg exited with code ${code}`))
+      }
+    })
+  })
+}
@@ -3,3 +3,6 @@ export { useLocalStorageState, useLocalStorageToggle } from './use-local-storage
 export { useInterval, usePolling } from './use-interval'
 export { useStableCallback, useEventCallback } from './use-stable-callback'
 export { usePrinterData } from './use-printer-data'
+export { useSession } from './use-session'
+export { useGcodeConsole } from './use-gcode-console'
+export { usePrintQueue } from './use-print-queue'
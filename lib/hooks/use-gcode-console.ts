@@ -0,0 +1,138 @@
+'use client'
+
+/**
+ * Hook for the G-code console
+ *
+ * Keeps a scrollback buffer of console output (seeded from Moonraker's
+ * gcode store), the list of known commands for autocomplete and the
+ * user's command history.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useWebSocket } from '../contexts/websocket-context'
+import { useLocalStorageState } from './use-local-storage'
+
+export interface ConsoleLine {
+  id: number
+  time: number // Unix milliseconds
+  message: string
+  type: 'command' | 'response'
+}
+
+const MAX_SCROLLBACK_LINES = 500
+const MAX_HISTORY_ENTRIES = 100
+
+// Replies to M105 and the periodic reports some macros print, e.g. "ok B:60.1 /60.0 T0:210.3 /210.0"
+const TEMPERATURE_REPORT_PATTERN = /^(ok\s+)?(B|C|T\d*):\s*-?\d+(\.\d+)?\s*\/-?\d+(\.\d+)?/i
+
+export function isTemperatureReport(message: string): boolean {
+  return TEMPERATURE_REPORT_PATTERN.test(message.trim())
+}
+
+let nextLineId = 0
+
+function createLine(message: string, type: ConsoleLine['type'], time = Date.now()): ConsoleLine {
+  return { id: nextLineId++, time, message, type }
+}
+
+export function useGcodeConsole() {
+  const { client, isConnected, isReady } = useWebSocket()
+  const [lines, setLines] = useState<ConsoleLine[]>([])
+  const [commands, setCommands] = useState<Record<string, string>>({})
+  const [history, setHistory] = useLocalStorageState<string[]>('gcode-console-history', [], {
+    validate: (value) => Array.isArray(value)
+  })
+  const [hideTemperatureReports, setHideTemperatureReports] = useLocalStorageState('gcode-console-hide-temperatures', true)
+  const storeLoadedRef = useRef(false)
+
+  const appendLines = useCallback((newLines: ConsoleLine[]) => {
+    setLines(prev => {
+      const next = [...prev, ...newLines]
+      return next.length > MAX_SCROLLBACK_LINES ? next.slice(-MAX_SCROLLBACK_LINES) : next
+    })
+  }, [])
+
+  // Stream live output
+  useEffect(() => {
+    if (!client) return
+    return client.onGcodeResponse((message) => {
+      appendLines([createLine(message, 'response')])
+    })
+  }, [client, appendLines])
+
+  // Load past output once per connection
+  useEffect(() => {
+    if (!client || !isConnected || storeLoadedRef.current) return
+    storeLoadedRef.current = true
+
+    // Lines created from here on arrived while the store was loading
+    const firstLiveId = nextLineId
+
+    client.getGcodeStore(MAX_SCROLLBACK_LINES)
+      .then((entries) => {
+        const past = entries.map(entry => createLine(entry.message, entry.type, entry.time * 1000))
+        setLines(prev => {
+          // The store already holds the scrollback from before a reconnect, and may
+          // hold the newest live lines too; keep only live lines it does not end with
+          const live = prev.filter(line => line.id >= firstLiveId)
+          const tail = past.slice(-live.length)
+          const missing = live.filter(line => !tail.some(entry => entry.type === line.type && entry.message === line.message))
+          return [...past, ...missing].slice(-MAX_SCROLLBACK_LINES)
+        })
+      })
+      .catch((error) => {
+        // Hidden from anonymous visitors in private mode
+        console.warn('[GcodeConsole] Could not load console history:', error)
+      })
+  }, [client, isConnected])
+
+  useEffect(() => {
+    if (!isConnected) {
+      storeLoadedRef.current = false
+    }
+  }, [isConnected])
+
+  // Commands are only registered once Klipper is ready
+  useEffect(() => {
+    if (!client || !isReady) return
+
+    client.getGcodeHelp()
+      .then(setCommands)
+      .catch((error) => {
+        console.warn('[GcodeConsole] Could not load G-code help:', error)
+      })
+  }, [client, isReady])
+
+  /**
+   * Send a command and record it in the scrollback and history.
+   * Throws when the server rejects it; Klipper's own errors arrive as "!!" output.
+   */
+  const sendCommand = useCallback(async (script: string) => {
+    const command = script.trim()
+    if (!command) return
+    if (!client) {
+      throw new Error('Printer not connected')
+    }
+
+    appendLines([createLine(command, 'command')])
+    setHistory(prev => [...prev.filter(entry => entry !== command), command].slice(-MAX_HISTORY_ENTRIES))
+    await client.sendGcode(command)
+  }, [client, appendLines, setHistory])
+
+  const clear = useCallback(() => setLines([]), [])
+
+  const visibleLines = hideTemperatureReports
+    ? lines.filter(line => line.type === 'command' || !isTemperatureReport(line.message))
+    : lines
+
+  return {
+    lines: visibleLines,
+    commands,
+    history,
+    hideTemperatureReports,
+    setHideTemperatureReports,
+    sendCommand,
+    clear,
+    isConnected,
+  }
+}
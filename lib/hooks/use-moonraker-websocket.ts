@@ -1,9 +1,9 @@
 'use client'
 
 /**
- * React Hook for Moonraker WebSocket Connection
+ * React Hook for a live printer connection
  * 
- * Provides real-time printer status updates via WebSocket.
+ * Provides real-time printer status updates through the server's Moonraker relay.
  * Automatically handles connection, reconnection, and subscriptions.
  * 
  * Usage:
@@ -13,12 +13,11 @@
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react'
-import { MoonrakerWebSocketClient } from '../websocket-client'
+import { PrinterRelayClient } from '../relay-client'
 import type { PrinterStatus } from '../types'
 
 interface UseMoonrakerWebSocketOptions {
-  printerHost?: string
-  port?: number
+  printerId?: number
   autoConnect?: boolean
   onConnect?: () => void
   onDisconnect?: () => void
@@ -30,7 +29,7 @@ interface UseMoonrakerWebSocketReturn {
   isConnected: boolean
   isReady: boolean
   error: Error | null
-  client: MoonrakerWebSocketClient | null
+  client: PrinterRelayClient | null
   connect: () => Promise<void>
   disconnect: () => void
 }
@@ -42,8 +41,7 @@ export function useMoonrakerWebSocket(
   options: UseMoonrakerWebSocketOptions = {}
 ): UseMoonrakerWebSocketReturn {
   const {
-    printerHost = process.env.NEXT_PUBLIC_PRINTER_HOST || 'localhost',
-    port = parseInt(process.env.NEXT_PUBLIC_MOONRAKER_PORT || '7127'),
+    printerId,
     autoConnect = true,
     onConnect,
     onDisconnect,
@@ -55,7 +53,7 @@ export function useMoonrakerWebSocket(
   const [isReady, setIsReady] = useState(false)
   const [error, setError] = useState<Error | null>(null)
   
-  const clientRef = useRef<MoonrakerWebSocketClient | null>(null)
+  const clientRef = useRef<PrinterRelayClient | null>(null)
   const mountedRef = useRef(true)
 
   /**
@@ -89,7 +87,7 @@ export function useMoonrakerWebSocket(
       setError(null)
       
       if (!clientRef.current) {
-        clientRef.current = new MoonrakerWebSocketClient(printerHost, port)
+        clientRef.current = new PrinterRelayClient(printerId)
         
         // Set up event handlers
         clientRef.current.onStatus(handleStatusUpdate)
@@ -117,7 +115,7 @@ export function useMoonrakerWebSocket(
       
       if (!mountedRef.current) return
       
-      setIsConnected(true)
+      setIsConnected(clientRef.current.isConnected)
       setIsReady(clientRef.current.isReady)
       
       if (onConnect) {
@@ -137,7 +135,7 @@ export function useMoonrakerWebSocket(
         onError(error)
       }
     }
-  }, [printerHost, port, handleStatusUpdate, onConnect, onError])
+  }, [printerId, handleStatusUpdate, onConnect, onError])
 
   /**
    * Handle WebSocket disconnection
@@ -0,0 +1,41 @@
+'use client'
+
+/**
+ * Hook for the print queue
+ *
+ * Polls the queue of the surrounding provider's printer and exposes `send`
+ * for queue requests. `queue` stays null while loading and when no queue is
+ * available for this printer or visitor.
+ */
+
+import { useState, useCallback } from 'react'
+import { usePolling } from './use-interval'
+import { usePrinterId } from '../contexts/websocket-context'
+import { fetchPrintQueue, sendPrintQueueRequest, type PrintQueueRequest, type PrintQueueStatus } from '../print-queue'
+
+const POLL_INTERVAL_MS = 5000
+
+export function usePrintQueue() {
+  const [queue, setQueue] = useState<PrintQueueStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const printerId = usePrinterId()
+
+  const refresh = usePolling(() => fetchPrintQueue(printerId), POLL_INTERVAL_MS, {
+    onSuccess: (data) => {
+      setQueue(data)
+      setIsLoading(false)
+    },
+    onError: (error) => {
+      console.error('Error fetching print queue:', error)
+      setIsLoading(false)
+    }
+  })
+
+  const send = useCallback(async (request: PrintQueueRequest) => {
+    const result = await sendPrintQueueRequest(request, printerId)
+    setQueue(result.queue)
+    return result
+  }, [printerId])
+
+  return { queue, isLoading, refresh, send }
+}
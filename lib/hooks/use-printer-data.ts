@@ -10,14 +10,38 @@ import { useState, useEffect, useMemo, useRef } from 'react'
 import { useWebSocket } from '../contexts/websocket-context'
 import { transformWebSocketToPrinterStatus } from '../websocket-transformer'
 import type { PrinterStatus } from '../types'
+import type { PrintEstimateBasis } from '../print-eta'
 
 export function usePrinterData() {
-  const { printerStatus: wsStatus, isConnected, isReady, error } = useWebSocket()
+  const { printerStatus: wsStatus, client, isConnected, isReady, error } = useWebSocket()
   const [printerStatus, setPrinterStatus] = useState<PrinterStatus | null>(null)
+  const [estimateBasis, setEstimateBasis] = useState<PrintEstimateBasis | null>(null)
   const [temperatureHistory, setTemperatureHistory] = useState<any[]>([])
   const lastUpdateRef = useRef<number>(0)
   const lastTempRef = useRef<{ extruder: number; bed: number }>({ extruder: 0, bed: 0 })
   
+  const printFilename: string | undefined = wsStatus?.print_stats?.filename
+  const isPrintActive = wsStatus?.print_stats?.state === 'printing' || wsStatus?.print_stats?.state === 'paused'
+  
+  // Load the slicer estimate and learned correction whenever a print starts
+  useEffect(() => {
+    if (!client || !isPrintActive) {
+      setEstimateBasis(null)
+      return
+    }
+    
+    let cancelled = false
+    client.getPrintEstimateBasis()
+      .then(basis => {
+        if (!cancelled) setEstimateBasis(basis)
+      })
+      .catch(err => console.error('Failed to load print estimate:', err))
+    
+    return () => {
+      cancelled = true
+    }
+  }, [client, printFilename, isPrintActive])
+  
   // Transform WebSocket data to PrinterStatus format
   useEffect(() => {
     if (!wsStatus) {
@@ -25,7 +49,7 @@ export function usePrinterData() {
       return
     }
     
-    const transformed = transformWebSocketToPrinterStatus(wsStatus)
+    const transformed = transformWebSocketToPrinterStatus(wsStatus, estimateBasis)
     setPrinterStatus(transformed)
     
     // Only update temperature history every 1 second and if temperature changed significantly
@@ -71,7 +95,7 @@ export function usePrinterData() {
       const updated = [...prev, newPoint].slice(-300)
       return updated
     })
-  }, [wsStatus])
+  }, [wsStatus, estimateBasis])
   
   // Format temperature history for charts - memoized to prevent recreation on every render
   const formattedTemperatureHistory = useMemo(() => {
@@ -0,0 +1,45 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { AuthUser } from '@/lib/permissions'
+
+/**
+ * Hook for reading the signed-in dashboard user
+ * Returns null for anonymous visitors
+ */
+export function useSession() {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session', { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setUser(data.user ?? null)
+      } else {
+        setUser(null)
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error)
+      setUser(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Failed to sign out:', error)
+    }
+    setUser(null)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { user, isLoading, refresh, logout }
+}
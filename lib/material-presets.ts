@@ -0,0 +1,176 @@
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+
+/**
+ * Material presets: named extruder/bed temperatures (and optionally a part fan
+ * speed) offered as preheat buttons in the temperature controls.
+ *
+ * Presets live in the `material_presets` table, which is seeded with common
+ * materials when it is empty. Without a database the defaults are used as-is.
+ */
+
+export interface MaterialPreset {
+  id: number
+  name: string
+  extruder_temp: number
+  bed_temp: number
+  fan_speed: number | null // percent
+  display_order: number
+  created_at: string
+  updated_at: string
+}
+
+export interface MaterialPresetInput {
+  name: string
+  extruder_temp: number
+  bed_temp: number
+  fan_speed?: number | null
+  display_order?: number
+}
+
+const DEFAULT_PRESETS: MaterialPresetInput[] = [
+  { name: 'PLA', extruder_temp: 210, bed_temp: 60, fan_speed: 100 },
+  { name: 'PETG', extruder_temp: 240, bed_temp: 80, fan_speed: 50 },
+  { name: 'ABS', extruder_temp: 250, bed_temp: 100, fan_speed: 0 },
+  { name: 'TPU', extruder_temp: 225, bed_temp: 50, fan_speed: 50 },
+]
+
+// Kept on globalThis so every route handler seeds at most once
+const globalForPresets = globalThis as unknown as {
+  materialPresetsSeedPromise?: Promise<void> | null
+}
+
+async function ensurePresetsReady(): Promise<void> {
+  await initializeDatabase()
+
+  if (!globalForPresets.materialPresetsSeedPromise) {
+    globalForPresets.materialPresetsSeedPromise = seedDefaultPresets().catch((error) => {
+      globalForPresets.materialPresetsSeedPromise = null
+      throw error
+    })
+  }
+
+  return globalForPresets.materialPresetsSeedPromise
+}
+
+async function seedDefaultPresets(): Promise<void> {
+  const existing = await query<{ count: string }>('SELECT COUNT(*) as count FROM material_presets')
+  if (parseInt(existing[0]?.count || '0', 10) > 0) {
+    return
+  }
+
+  for (const [index, preset] of DEFAULT_PRESETS.entries()) {
+    await query(
+      `INSERT INTO material_presets (name, extruder_temp, bed_temp, fan_speed, display_order)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (name) DO NOTHING`,
+      [preset.name, preset.extruder_temp, preset.bed_temp, preset.fan_speed ?? null, index]
+    )
+  }
+}
+
+function getDefaultPresets(): MaterialPreset[] {
+  const now = new Date(0).toISOString()
+  return DEFAULT_PRESETS.map((preset, index) => ({
+    id: index + 1,
+    name: preset.name,
+    extruder_temp: preset.extruder_temp,
+    bed_temp: preset.bed_temp,
+    fan_speed: preset.fan_speed ?? null,
+    display_order: index,
+    created_at: now,
+    updated_at: now
+  }))
+}
+
+/**
+ * All presets, in display order
+ */
+export async function getMaterialPresets(): Promise<MaterialPreset[]> {
+  if (!isDatabaseAvailable()) {
+    return getDefaultPresets()
+  }
+
+  try {
+    await ensurePresetsReady()
+    return await query<MaterialPreset>('SELECT * FROM material_presets ORDER BY display_order, id')
+  } catch (error) {
+    console.error('Error fetching material presets:', error)
+    return getDefaultPresets()
+  }
+}
+
+const isTemperature = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 500
+
+export function isValidMaterialPresetInput(input: unknown): input is MaterialPresetInput {
+  if (!input || typeof input !== 'object') return false
+  const { name, extruder_temp, bed_temp, fan_speed } = input as Record<string, unknown>
+  return (
+    typeof name === 'string' && name.trim().length > 0 && name.length <= 50 &&
+    isTemperature(extruder_temp) &&
+    isTemperature(bed_temp) &&
+    (fan_speed === undefined || fan_speed === null ||
+      (typeof fan_speed === 'number' && Number.isInteger(fan_speed) && fan_speed >= 0 && fan_speed <= 100))
+  )
+}
+
+export async function createMaterialPreset(input: MaterialPresetInput): Promise<MaterialPreset | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await ensurePresetsReady()
+  const rows = await query<MaterialPreset>(
+    `INSERT INTO material_presets (name, extruder_temp, bed_temp, fan_speed, display_order)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [input.name.trim(), input.extruder_temp, input.bed_temp, input.fan_speed ?? null, input.display_order ?? 0]
+  )
+  return rows[0] || null
+}
+
+/**
+ * Update a preset. Send `fan_speed: null` to stop the preset from changing the fan.
+ */
+export async function updateMaterialPreset(id: number, input: Partial<MaterialPresetInput>): Promise<MaterialPreset | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await ensurePresetsReady()
+  const rows = await query<MaterialPreset>(
+    `UPDATE material_presets SET
+       name = COALESCE($1, name),
+       extruder_temp = COALESCE($2, extruder_temp),
+       bed_temp = COALESCE($3, bed_temp),
+       fan_speed = CASE WHEN $4::boolean THEN $5 ELSE fan_speed END,
+       display_order = COALESCE($6, display_order),
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $7
+     RETURNING *`,
+    [
+      input.name?.trim() ?? null,
+      input.extruder_temp ?? null,
+      input.bed_temp ?? null,
+      input.fan_speed !== undefined,
+      input.fan_speed ?? null,
+      input.display_order ?? null,
+      id
+    ]
+  )
+  return rows[0] || null
+}
+
+export async function deleteMaterialPreset(id: number): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await ensurePresetsReady()
+  const rows = await query<{ id: number }>('DELETE FROM material_presets WHERE id = $1 RETURNING id', [id])
+  return rows.length > 0
+}
+
+// Postgres unique_violation, raised when a preset name is taken
+export function isDuplicatePresetError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505'
+}
@@ -0,0 +1,129 @@
+/**
+ * Prometheus text exposition for `/api/metrics`, and the request latency
+ * histograms the Moonraker client and database record into.
+ *
+ * Latencies are kept in memory on globalThis, so they start over when the
+ * server restarts, as Prometheus counters are expected to.
+ */
+
+export type MetricLabels = Record<string, string | number>
+export type MetricSample = [MetricLabels, number]
+
+export const MOONRAKER_LATENCY_METRIC = 's1pper_moonraker_request_duration_seconds'
+export const DATABASE_LATENCY_METRIC = 's1pper_database_query_duration_seconds'
+
+// Seconds, from a cached response to a slow Moonraker on Wi-Fi
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+interface LatencyHistogram {
+  labels: MetricLabels
+  counts: number[] // per bucket, not cumulative
+  sum: number
+  count: number
+}
+
+// metric name -> label set -> histogram
+const globalForMetrics = globalThis as unknown as {
+  latencyHistograms?: Map<string, Map<string, LatencyHistogram>>
+}
+
+/**
+ * Record how long a request took, in seconds
+ */
+export function observeLatency(name: string, labels: MetricLabels, seconds: number): void {
+  if (!globalForMetrics.latencyHistograms) {
+    globalForMetrics.latencyHistograms = new Map()
+  }
+
+  const histograms = globalForMetrics.latencyHistograms
+  if (!histograms.has(name)) {
+    histograms.set(name, new Map())
+  }
+
+  const byLabels = histograms.get(name)!
+  const key = JSON.stringify(labels)
+  let histogram = byLabels.get(key)
+  if (!histogram) {
+    histogram = { labels, counts: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 }
+    byLabels.set(key, histogram)
+  }
+
+  const bucket = LATENCY_BUCKETS.findIndex(bound => seconds <= bound)
+  if (bucket !== -1) {
+    histogram.counts[bucket]++
+  }
+  histogram.sum += seconds
+  histogram.count++
+}
+
+const escapeLabelValue = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+/**
+ * Builds a metrics page. Each metric is written once with its HELP and TYPE
+ * lines, followed by one sample per label set; metrics without samples are left out.
+ */
+export class MetricsWriter {
+  private lines: string[] = []
+
+  gauge(name: string, help: string, samples: MetricSample[]): this {
+    return this.write(name, 'gauge', help, samples)
+  }
+
+  counter(name: string, help: string, samples: MetricSample[]): this {
+    return this.write(name, 'counter', help, samples)
+  }
+
+  /**
+   * Write the histogram recorded with `observeLatency(name, ...)`
+   */
+  latencyHistogram(name: string, help: string): this {
+    const histograms = globalForMetrics.latencyHistograms?.get(name)
+    if (!histograms || histograms.size === 0) {
+      return this
+    }
+
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`)
+    for (const { labels, counts, sum, count } of histograms.values()) {
+      let cumulative = 0
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        cumulative += counts[index]
+        this.lines.push(`${name}_bucket${formatLabels({ ...labels, le: bound })} ${cumulative}`)
+      })
+      this.lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      )
+    }
+    return this
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n'
+  }
+
+  private write(name: string, type: 'gauge' | 'counter', help: string, samples: MetricSample[]): this {
+    if (samples.length === 0) {
+      return this
+    }
+
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+    for (const [labels, value] of samples) {
+      this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`)
+    }
+    return this
+  }
+}
@@ -0,0 +1,300 @@
+import { getPrinterBaseUrl, type PrinterConfig } from './printers'
+import { observeLatency, MOONRAKER_LATENCY_METRIC } from './metrics'
+import type {
+  KlipperResponse,
+  KlipperInfoResponse,
+  KlipperObjectListResponse,
+  KlipperTemperatureStore,
+  MoonrakerTotalsResponse,
+  MoonrakerWebcamListResponse,
+  MoonrakerMetadataResponse,
+  MoonrakerServerInfoResponse,
+  MoonrakerJobQueueResponse
+} from './types'
+
+/**
+ * Server-side Moonraker HTTP client.
+ *
+ * One client per printer, shared through `getMoonrakerClient`. Requests get a
+ * timeout, retries for idempotent calls and auth headers: the printer's API
+ * key as X-Api-Key, or a JWT from /access/login as a bearer token. GET
+ * responses can be cached for a TTL; concurrent requests for the same key
+ * share one upstream call so a burst of page loads hits Moonraker once.
+ */
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_RETRIES = 1
+const RETRY_DELAY_MS = 250
+// Webcam configuration rarely changes and is read by every camera request
+const WEBCAM_LIST_CACHE_TTL_MS = 10000
+
+export class MoonrakerError extends Error {
+  constructor(
+    message: string,
+    // HTTP status from Moonraker, or null when it could not be reached
+    readonly status: number | null = null
+  ) {
+    super(message)
+    this.name = 'MoonrakerError'
+  }
+
+  get isUnreachable(): boolean {
+    return this.status === null
+  }
+}
+
+export interface MoonrakerRequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE'
+  body?: BodyInit | null
+  headers?: Record<string, string>
+  // 0 disables the timeout, e.g. for uploads and downloads
+  timeoutMs?: number
+  // Defaults to one retry for GET and none for other methods
+  retries?: number
+  // Cache a GET response for this long and share in-flight requests
+  cacheTtlMs?: number
+}
+
+export interface MoonrakerClientOptions {
+  timeoutMs?: number
+  retries?: number
+  // Sent as X-Api-Key
+  apiKey?: string | null
+  // JWT from /access/login, sent as a bearer token
+  accessToken?: string | null
+}
+
+interface CacheEntry {
+  value: unknown
+  expiresAt: number
+}
+
+// Kept on globalThis so every route handler shares clients and cached responses
+const globalForMoonraker = globalThis as unknown as {
+  moonrakerClients?: Map<number, MoonrakerHttpClient>
+  moonrakerCache?: Map<string, CacheEntry>
+  moonrakerInFlight?: Map<string, Promise<unknown>>
+}
+
+function getResponseCache(): Map<string, CacheEntry> {
+  if (!globalForMoonraker.moonrakerCache) {
+    globalForMoonraker.moonrakerCache = new Map()
+  }
+  return globalForMoonraker.moonrakerCache
+}
+
+function getInFlightRequests(): Map<string, Promise<unknown>> {
+  if (!globalForMoonraker.moonrakerInFlight) {
+    globalForMoonraker.moonrakerInFlight = new Map()
+  }
+  return globalForMoonraker.moonrakerInFlight
+}
+
+function isRetryable(error: unknown): boolean {
+  // Network errors, timeouts and server errors; 4xx will not change on retry
+  return !(error instanceof MoonrakerError) || error.status === null || error.status >= 500
+}
+
+/**
+ * HTTP status for a route to return when a Moonraker call fails: 503 when the
+ * printer is unreachable, Moonraker's own status for client errors (e.g. a
+ * missing file) and 502 for anything else.
+ */
+export function getMoonrakerErrorStatus(error: unknown): number {
+  if (!(error instanceof MoonrakerError) || error.isUnreachable) {
+    return 503
+  }
+  return error.status! < 500 ? error.status! : 502
+}
+
+export class MoonrakerHttpClient {
+  readonly baseUrl: string
+  private readonly timeoutMs: number
+  private readonly retries: number
+  private readonly apiKey: string | null
+  private readonly accessToken: string | null
+
+  constructor(readonly printer: PrinterConfig, options: MoonrakerClientOptions = {}) {
+    this.baseUrl = getPrinterBaseUrl(printer)
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.retries = options.retries ?? DEFAULT_RETRIES
+    this.apiKey = options.apiKey ?? printer.api_key
+    this.accessToken = options.accessToken ?? null
+  }
+
+  /**
+   * Headers that authorize a request against this printer's Moonraker
+   */
+  getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {}
+    if (this.apiKey) {
+      headers['X-Api-Key'] = this.apiKey
+    }
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`
+    }
+    return headers
+  }
+
+  /**
+   * Send a request and return the raw response. Throws `MoonrakerError` for
+   * non-2xx responses and unreachable printers.
+   */
+  async fetch(path: string, options: MoonrakerRequestOptions = {}): Promise<Response> {
+    const method = options.method || 'GET'
+    const retries = options.retries ?? (method === 'GET' ? this.retries : 0)
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(path, method, options, timeoutMs)
+      } catch (error) {
+        if (attempt >= retries || !isRetryable(error)) {
+          throw error
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)))
+      }
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response body
+   */
+  async request<T>(path: string, options: MoonrakerRequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET'
+    if (method !== 'GET' || !options.cacheTtlMs) {
+      return (await this.fetch(path, options)).json() as Promise<T>
+    }
+
+    const key = `${this.printer.id}:${path}`
+    const cached = getResponseCache().get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value as T
+    }
+
+    const inFlight = getInFlightRequests()
+    const pending = inFlight.get(key)
+    if (pending) {
+      return pending as Promise<T>
+    }
+
+    const promise = this.fetch(path, options)
+      .then(response => response.json() as Promise<T>)
+      .then((value) => {
+        getResponseCache().set(key, { value, expiresAt: Date.now() + options.cacheTtlMs! })
+        return value
+      })
+      .finally(() => inFlight.delete(key))
+
+    inFlight.set(key, promise)
+    return promise
+  }
+
+  private async send(path: string, method: string, options: MoonrakerRequestOptions, timeoutMs: number): Promise<Response> {
+    const startedAt = performance.now()
+    const observe = (outcome: 'ok' | 'error' | 'unreachable') => {
+      observeLatency(MOONRAKER_LATENCY_METRIC, { printer: this.printer.name, outcome }, (performance.now() - startedAt) / 1000)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: { ...this.getAuthHeaders(), ...options.headers },
+        body: options.body,
+        cache: 'no-store',
+        signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+        // Required by Node's fetch to send a streaming body
+        ...(options.body instanceof ReadableStream ? { duplex: 'half' } : {})
+      } as RequestInit)
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError'
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error)
+      observe('unreachable')
+      throw new MoonrakerError(`${this.printer.name} is unreachable: ${reason}`)
+    }
+
+    observe(response.ok ? 'ok' : 'error')
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new MoonrakerError(text || `Moonraker returned ${response.status}`, response.status)
+    }
+
+    return response
+  }
+
+  queryObjects(objects: string[], options?: MoonrakerRequestOptions): Promise<KlipperResponse> {
+    // Names like "heater_generic chamber" contain spaces
+    return this.request<KlipperResponse>(`/printer/objects/query?${objects.map(encodeURIComponent).join('&')}`, options)
+  }
+
+  listObjects(options?: MoonrakerRequestOptions): Promise<KlipperObjectListResponse> {
+    return this.request<KlipperObjectListResponse>('/printer/objects/list', options)
+  }
+
+  getPrinterInfo(options?: MoonrakerRequestOptions): Promise<KlipperInfoResponse> {
+    return this.request<KlipperInfoResponse>('/printer/info', options)
+  }
+
+  getServerInfo(options?: MoonrakerRequestOptions): Promise<MoonrakerServerInfoResponse> {
+    return this.request<MoonrakerServerInfoResponse>('/server/info', options)
+  }
+
+  getJobQueue(options?: MoonrakerRequestOptions): Promise<MoonrakerJobQueueResponse> {
+    return this.request<MoonrakerJobQueueResponse>('/server/job_queue/status', options)
+  }
+
+  getFileMetadata(filename: string, options?: MoonrakerRequestOptions): Promise<MoonrakerMetadataResponse> {
+    return this.request<MoonrakerMetadataResponse>(`/server/files/metadata?filename=${encodeURIComponent(filename)}`, options)
+  }
+
+  getHistoryTotals(options?: MoonrakerRequestOptions): Promise<MoonrakerTotalsResponse> {
+    return this.request<MoonrakerTotalsResponse>('/server/history/totals', options)
+  }
+
+  getTemperatureStore(options?: MoonrakerRequestOptions): Promise<KlipperTemperatureStore> {
+    return this.request<KlipperTemperatureStore>('/server/temperature_store', options)
+  }
+
+  // Parsed printer.cfg, keyed by lowercase section name
+  async getConfigSettings(options?: MoonrakerRequestOptions): Promise<Record<string, Record<string, any>>> {
+    const data = await this.request<{ result: { status: { configfile?: { settings?: Record<string, Record<string, any>> } } } }>(
+      '/printer/objects/query?configfile=settings',
+      options
+    )
+    return data.result.status.configfile?.settings || {}
+  }
+
+  /**
+   * Single-use token for opening a WebSocket without sending the API key.
+   * Moonraker expires it after 5 seconds, so it is never cached.
+   */
+  async getOneshotToken(): Promise<string> {
+    const data = await this.request<{ result: string }>('/access/oneshot_token')
+    return data.result
+  }
+
+  getWebcams(options?: MoonrakerRequestOptions): Promise<MoonrakerWebcamListResponse> {
+    return this.request<MoonrakerWebcamListResponse>('/server/webcams/list', { cacheTtlMs: WEBCAM_LIST_CACHE_TTL_MS, ...options })
+  }
+}
+
+/**
+ * Shared client for `printer`. A new client is created when the printer's settings change.
+ */
+export function getMoonrakerClient(printer: PrinterConfig): MoonrakerHttpClient {
+  if (!globalForMoonraker.moonrakerClients) {
+    globalForMoonraker.moonrakerClients = new Map()
+  }
+
+  const clients = globalForMoonraker.moonrakerClients
+  const existing = clients.get(printer.id)
+  if (existing && existing.printer.updated_at === printer.updated_at) {
+    return existing
+  }
+
+  const client = new MoonrakerHttpClient(printer)
+  clients.set(printer.id, client)
+  return client
+}
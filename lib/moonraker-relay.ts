@@ -0,0 +1,368 @@
+import { EventEmitter } from 'events'
+import type { PrinterConfig } from './printers'
+import { getMoonrakerClient } from './moonraker-client'
+import { selectPrinterObjects } from './printer-objects'
+
+/**
+ * Server-side Moonraker WebSocket relay.
+ *
+ * Browsers never connect to Moonraker. Instead, each printer gets one upstream
+ * WebSocket from the Next server, opened when the first browser subscribes
+ * through `/api/printer/stream` and closed shortly after the last one leaves.
+ * The relay subscribes to every heater, sensor and fan Klipper reports (see
+ * `printer-objects.ts`) and keeps their merged status so new subscribers
+ * start from a full snapshot. It also forwards JSON-RPC calls from
+ * `/api/printer/rpc` once the route has checked the caller's permissions.
+ */
+
+const REQUEST_TIMEOUT_MS = 10000
+const IDLE_DISCONNECT_MS = 30000
+const MAX_RECONNECT_DELAY_MS = 30000
+
+export type KlippyState = 'disconnected' | 'startup' | 'ready' | 'shutdown' | 'error'
+
+export interface RelayState {
+  connected: boolean // upstream WebSocket is open
+  klippyState: KlippyState
+}
+
+export interface RelaySnapshot extends RelayState {
+  status: Record<string, any>
+}
+
+export interface MoonrakerRelayEvents {
+  // Changed objects only, as sent by notify_status_update
+  status: [Record<string, any>]
+  state: [RelayState]
+  // One line of G-code console output
+  gcode: [string]
+  // The relay was replaced or removed; subscribers should reconnect
+  closed: []
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+export class MoonrakerRelay extends EventEmitter<MoonrakerRelayEvents> {
+  private ws: WebSocket | null = null
+  private status: Record<string, any> = {}
+  private state: RelayState = { connected: false, klippyState: 'disconnected' }
+  private requestId = 0
+  private pendingRequests = new Map<number, PendingRequest>()
+  private subscribers = 0
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private connecting = false
+  private closed = false
+
+  constructor(readonly printer: PrinterConfig) {
+    super()
+    // One listener per browser tab
+    this.setMaxListeners(0)
+  }
+
+  getSnapshot(): RelaySnapshot {
+    return { ...this.state, status: this.status }
+  }
+
+  /**
+   * Register a subscriber, connecting upstream if this is the first one
+   */
+  acquire(): void {
+    this.subscribers++
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (!this.ws && !this.reconnectTimer && !this.connecting) {
+      this.connect()
+    }
+  }
+
+  /**
+   * Drop a subscriber. The upstream connection stays open for a while so a
+   * page reload does not reconnect to Moonraker.
+   */
+  release(): void {
+    this.subscribers = Math.max(0, this.subscribers - 1)
+    if (this.subscribers === 0 && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null
+        if (this.subscribers === 0) {
+          this.disconnect()
+        }
+      }, IDLE_DISCONNECT_MS)
+    }
+  }
+
+  /**
+   * Close the upstream connection for good, e.g. when the printer is edited or removed
+   */
+  close(): void {
+    this.closed = true
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    this.disconnect()
+    this.emit('closed')
+    this.removeAllListeners()
+  }
+
+  /**
+   * Send a JSON-RPC request upstream. Callers are responsible for deciding
+   * whether the requesting user may call `method`.
+   */
+  request(method: string, params?: Record<string, unknown>): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        reject(new Error(`${this.printer.name} is not connected`))
+        return
+      }
+
+      const id = ++this.requestId
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id)
+        reject(new Error(`Request timeout: ${method}`))
+      }, REQUEST_TIMEOUT_MS)
+
+      this.pendingRequests.set(id, { resolve, reject, timer })
+      this.ws.send(JSON.stringify({ jsonrpc: '2.0', method, id, ...(params && { params }) }))
+    })
+  }
+
+  private async connect(): Promise<void> {
+    if (typeof WebSocket === 'undefined') {
+      console.error('[Relay] This Node.js version has no WebSocket client; Node.js 22 or newer is required for live updates')
+      return
+    }
+
+    let url = `ws://${this.printer.host}:${this.printer.port}/websocket`
+    this.connecting = true
+    try {
+      // The API key cannot be sent as a header by the WebSocket client, so trade it for a oneshot token
+      if (this.printer.api_key) {
+        const token = await getMoonrakerClient(this.printer).getOneshotToken()
+        url += `?token=${encodeURIComponent(token)}`
+      }
+    } catch (error) {
+      console.warn(`[Relay] ${this.printer.name}: could not get a connection token:`, error)
+      this.scheduleReconnect()
+      return
+    } finally {
+      this.connecting = false
+    }
+
+    if (this.closed || this.subscribers === 0) {
+      return
+    }
+
+    const ws = new WebSocket(url)
+    this.ws = ws
+
+    ws.onopen = () => {
+      console.log(`[Relay] Connected to ${this.printer.name}`)
+      this.reconnectAttempts = 0
+      this.setState({ connected: true })
+      this.handleConnect().catch((error) => {
+        console.error(`[Relay] ${this.printer.name}: connection setup failed:`, error)
+      })
+    }
+
+    ws.onmessage = (event) => {
+      this.handleMessage(String(event.data))
+    }
+
+    ws.onerror = () => {
+      // onclose follows and handles reconnection
+    }
+
+    ws.onclose = () => {
+      if (this.ws !== ws) {
+        return
+      }
+      this.ws = null
+      this.rejectPendingRequests()
+      this.setState({ connected: false, klippyState: 'disconnected' })
+      this.scheduleReconnect()
+    }
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
+    const ws = this.ws
+    this.ws = null
+    if (ws) {
+      ws.close()
+      console.log(`[Relay] Disconnected from ${this.printer.name}`)
+    }
+
+    this.rejectPendingRequests()
+    this.status = {}
+    this.setState({ connected: false, klippyState: 'disconnected' })
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.subscribers === 0 || this.reconnectTimer) {
+      return
+    }
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS)
+    this.reconnectAttempts++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, delay)
+  }
+
+  private async handleConnect(): Promise<void> {
+    await this.request('server.connection.identify', {
+      client_name: 's1pper-dashboard',
+      version: '1.0.0',
+      type: 'other',
+      url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    })
+
+    const info = await this.request('printer.info')
+    this.setState({ klippyState: info.state })
+
+    if (info.state === 'ready') {
+      await this.subscribe()
+    }
+  }
+
+  private async subscribe(): Promise<void> {
+    // Discovered on every subscribe, since a Klipper restart may follow a config change
+    const { objects: available } = await this.request('printer.objects.list')
+    const objects = Object.fromEntries(selectPrinterObjects(available).map(name => [name, null]))
+    const result = await this.request('printer.objects.subscribe', { objects })
+    if (result.status) {
+      // The subscription result is the complete state, so it replaces what we had
+      this.status = result.status
+      this.emit('status', result.status)
+    }
+  }
+
+  private handleMessage(data: string): void {
+    let message: any
+    try {
+      message = JSON.parse(data)
+    } catch (error) {
+      console.error(`[Relay] ${this.printer.name}: invalid message:`, error)
+      return
+    }
+
+    if (message.id !== undefined) {
+      const pending = this.pendingRequests.get(message.id)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pendingRequests.delete(message.id)
+        if (message.error) {
+          pending.reject(new Error(message.error.message))
+        } else {
+          pending.resolve(message.result)
+        }
+      }
+      return
+    }
+
+    switch (message.method) {
+      case 'notify_status_update':
+        // params is [changed objects, eventtime]
+        if (message.params?.[0]) {
+          this.mergeStatus(message.params[0])
+          this.emit('status', message.params[0])
+        }
+        break
+
+      case 'notify_gcode_response':
+        if (typeof message.params?.[0] === 'string') {
+          this.emit('gcode', message.params[0])
+        }
+        break
+
+      case 'notify_klippy_ready':
+        this.setState({ klippyState: 'ready' })
+        // Subscriptions do not survive a Klipper restart
+        this.subscribe().catch((error) => {
+          console.error(`[Relay] ${this.printer.name}: failed to subscribe:`, error)
+        })
+        break
+
+      case 'notify_klippy_disconnected':
+        this.setState({ klippyState: 'disconnected' })
+        break
+
+      case 'notify_klippy_shutdown':
+        this.setState({ klippyState: 'shutdown' })
+        break
+    }
+  }
+
+  // Updates only carry changed fields, so merge them one level deep
+  private mergeStatus(update: Record<string, any>): void {
+    for (const key in update) {
+      const value = update[key]
+      this.status[key] = typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? { ...this.status[key], ...value }
+        : value
+    }
+  }
+
+  private setState(changes: Partial<RelayState>): void {
+    const next = { ...this.state, ...changes }
+    if (next.connected !== this.state.connected || next.klippyState !== this.state.klippyState) {
+      this.state = next
+      this.emit('state', next)
+    }
+  }
+
+  private rejectPendingRequests(): void {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer)
+      pending.reject(new Error(`Connection to ${this.printer.name} closed`))
+    }
+    this.pendingRequests.clear()
+  }
+}
+
+// Kept on globalThis so every route handler shares one upstream connection per printer
+const globalForRelay = globalThis as unknown as {
+  moonrakerRelays?: Map<number, MoonrakerRelay>
+}
+
+/**
+ * Shared relay for `printer`. The relay is replaced when the printer's settings change.
+ */
+export function getMoonrakerRelay(printer: PrinterConfig): MoonrakerRelay {
+  if (!globalForRelay.moonrakerRelays) {
+    globalForRelay.moonrakerRelays = new Map()
+  }
+
+  const relays = globalForRelay.moonrakerRelays
+  const existing = relays.get(printer.id)
+  if (existing && existing.printer.updated_at === printer.updated_at) {
+    return existing
+  }
+
+  existing?.close()
+  const relay = new MoonrakerRelay(printer)
+  relays.set(printer.id, relay)
+  return relay
+}
+
+export function removeMoonrakerRelay(printerId: number): void {
+  const relay = globalForRelay.moonrakerRelays?.get(printerId)
+  if (relay) {
+    relay.close()
+    globalForRelay.moonrakerRelays!.delete(printerId)
+  }
+}
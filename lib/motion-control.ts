@@ -0,0 +1,186 @@
+/**
+ * Motion control shared by the API route and the UI.
+ * Validates moves against the current print state and homed axes, and
+ * builds the G-code for each action.
+ */
+
+import type { PrintState } from './print-job'
+import { withPrinterId } from './utils/api'
+
+export type MotionAxis = 'x' | 'y' | 'z'
+
+export type MotionRequest =
+  | { action: 'home'; axes?: MotionAxis[] } // all axes when omitted
+  | { action: 'jog'; axis: MotionAxis; distance: number } // mm, relative
+  | { action: 'extrude'; distance: number } // mm of filament, negative retracts
+  | { action: 'disable_motors' }
+  | { action: 'park' }
+
+export type MotionAction = MotionRequest['action']
+
+export const MOTION_AXES: MotionAxis[] = ['x', 'y', 'z']
+
+// Step sizes offered by the jog pad, in mm
+export const JOG_STEPS = [0.1, 1, 10, 50]
+export const EXTRUDE_LENGTHS = [1, 5, 10, 25]
+
+const MAX_JOG_DISTANCE = 100
+const MAX_EXTRUDE_LENGTH = 100
+
+// Feed rates in mm/min
+const XY_FEED_RATE = 6000
+const Z_FEED_RATE = 600
+const EXTRUDE_FEED_RATE = 300
+
+// Lift before parking so the nozzle clears the print
+const PARK_Z_LIFT = 10
+
+// Saved around relative moves, which may run while a print is paused
+const GCODE_STATE_NAME = 'DASHBOARD_MOTION'
+
+// G-code that moves the toolhead or releases the motors
+const MOTION_GCODE_COMMANDS = ['G0', 'G1', 'G2', 'G3', 'G28', 'M84', 'M18']
+
+export interface MotionState {
+  printState: PrintState
+  homedAxes: string // Klipper's toolhead.homed_axes, e.g. "xyz"
+}
+
+// From Klipper's toolhead object, each as [x, y, z, e]
+export interface ToolheadGeometry {
+  position: number[]
+  minimum: number[]
+  maximum: number[]
+}
+
+const isAxis = (value: unknown): value is MotionAxis =>
+  typeof value === 'string' && MOTION_AXES.includes(value as MotionAxis)
+
+const isDistance = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value !== 0 && Math.abs(value) <= max
+
+export function isMotionRequest(body: unknown): body is MotionRequest {
+  if (!body || typeof body !== 'object') return false
+  const request = body as Record<string, unknown>
+
+  switch (request.action) {
+    case 'home':
+      return request.axes === undefined || (Array.isArray(request.axes) && request.axes.length > 0 && request.axes.every(isAxis))
+    case 'jog':
+      return isAxis(request.axis) && isDistance(request.distance, MAX_JOG_DISTANCE)
+    case 'extrude':
+      return isDistance(request.distance, MAX_EXTRUDE_LENGTH)
+    case 'disable_motors':
+    case 'park':
+      return true
+    default:
+      return false
+  }
+}
+
+export function isMotionGcodeCommand(command: string): boolean {
+  return MOTION_GCODE_COMMANDS.includes(command.toUpperCase())
+}
+
+/**
+ * Check whether the toolhead may move in `printState`, for motion requests
+ * and for motion G-code sent as a script. Returns an error message or null.
+ */
+export function validateMotionPrintState(printState: PrintState): string | null {
+  if (printState === 'printing') {
+    return 'Cannot move while printing; pause the print first'
+  }
+  if (printState === 'offline') {
+    return 'Cannot move: printer is offline'
+  }
+  return null
+}
+
+/**
+ * Check whether `request` may run in `state`.
+ * Returns an error message when it may not, or null when the move may proceed.
+ */
+export function validateMotionRequest(request: MotionRequest, state: MotionState): string | null {
+  const stateError = validateMotionPrintState(state.printState)
+  if (stateError) {
+    return stateError
+  }
+
+  const homed = state.homedAxes.toLowerCase()
+  switch (request.action) {
+    case 'jog':
+      return homed.includes(request.axis) ? null : `Cannot jog ${request.axis.toUpperCase()}: axis is not homed`
+    case 'park': {
+      const unhomed = MOTION_AXES.filter(axis => !homed.includes(axis))
+      return unhomed.length === 0 ? null : `Cannot park: ${unhomed.join('').toUpperCase()} not homed`
+    }
+    default:
+      return null
+  }
+}
+
+const withSavedGcodeState = (script: string) =>
+  `SAVE_GCODE_STATE NAME=${GCODE_STATE_NAME}\n${script}\nRESTORE_GCODE_STATE NAME=${GCODE_STATE_NAME}`
+
+/**
+ * G-code for `request`. Moves save and restore the G-code state, so a paused
+ * print resumes with its own positioning and extrusion modes.
+ */
+export function buildMotionScript(request: MotionRequest, toolhead: ToolheadGeometry | null): string {
+  switch (request.action) {
+    case 'home':
+      return request.axes ? `G28 ${request.axes.map(axis => axis.toUpperCase()).join(' ')}` : 'G28'
+    case 'jog': {
+      const feedRate = request.axis === 'z' ? Z_FEED_RATE : XY_FEED_RATE
+      return withSavedGcodeState(`G91\nG1 ${request.axis.toUpperCase()}${request.distance} F${feedRate}`)
+    }
+    case 'extrude':
+      return withSavedGcodeState(`M83\nG1 E${request.distance} F${EXTRUDE_FEED_RATE}`)
+    case 'disable_motors':
+      return 'M84'
+    case 'park': {
+      if (!toolhead) {
+        return withSavedGcodeState(`G91\nG1 Z${PARK_Z_LIFT} F${Z_FEED_RATE}`)
+      }
+      // Back left corner, so the bed is presented to the front
+      const x = toolhead.minimum[0]
+      const y = toolhead.maximum[1]
+      const z = Math.min(toolhead.position[2] + PARK_Z_LIFT, toolhead.maximum[2])
+      return withSavedGcodeState(`G90\nG1 Z${z} F${Z_FEED_RATE}\nG1 X${x} Y${y} F${XY_FEED_RATE}`)
+    }
+  }
+}
+
+// Human-readable summary for toasts and the audit log
+export function describeMotionRequest(request: MotionRequest): string {
+  switch (request.action) {
+    case 'home':
+      return request.axes ? `Homed ${request.axes.join('').toUpperCase()}` : 'Homed all axes'
+    case 'jog':
+      return `Moved ${request.axis.toUpperCase()} ${request.distance > 0 ? '+' : ''}${request.distance} mm`
+    case 'extrude':
+      return request.distance > 0 ? `Extruded ${request.distance} mm` : `Retracted ${-request.distance} mm`
+    case 'disable_motors':
+      return 'Motors disabled'
+    case 'park':
+      return 'Moved to park position'
+  }
+}
+
+/**
+ * Send a motion request through the dashboard API (requires operator role)
+ */
+export async function sendMotionRequest(request: MotionRequest, printerId?: number): Promise<{ message: string }> {
+  const response = await fetch(withPrinterId('/api/printer/motion', printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Move failed')
+  }
+
+  return { message: data.message }
+}
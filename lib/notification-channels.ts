@@ -0,0 +1,251 @@
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import { getSmtpConfig, sendMail } from './smtp'
+import type {
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationEvent,
+  NotificationSeverity,
+  PublicNotificationChannel
+} from './notifications'
+
+/**
+ * Notification channels: stored in the `notification_channels` table and
+ * delivered to by the dispatcher. Each channel lists the events it receives.
+ * Without a database no channels can be configured.
+ */
+
+const SEND_TIMEOUT_MS = 10000
+
+// A channel as stored, including its access token
+export type StoredNotificationChannel = NotificationChannel & { token: string | null }
+
+interface NotificationChannelRow extends Omit<NotificationChannel, 'config'> {
+  url: string | null
+  recipients: string | null
+  token: string | null
+}
+
+function toChannel(row: NotificationChannelRow): StoredNotificationChannel {
+  const { url, recipients, ...channel } = row
+  return { ...channel, config: { url, to: recipients } }
+}
+
+export function toPublicChannel(channel: StoredNotificationChannel): PublicNotificationChannel {
+  const { token, ...info } = channel
+  return { ...info, has_token: !!token }
+}
+
+export async function getNotificationChannels(): Promise<StoredNotificationChannel[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  await initializeDatabase()
+  const rows = await query<NotificationChannelRow>('SELECT * FROM notification_channels ORDER BY id')
+  return rows.map(toChannel)
+}
+
+export async function getNotificationChannel(id: number): Promise<StoredNotificationChannel | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<NotificationChannelRow>('SELECT * FROM notification_channels WHERE id = $1', [id])
+  return rows[0] ? toChannel(rows[0]) : null
+}
+
+export async function createNotificationChannel(input: NotificationChannelInput): Promise<PublicNotificationChannel | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<NotificationChannelRow>(
+    `INSERT INTO notification_channels (name, type, url, recipients, token, events, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.type,
+      input.config.url || null,
+      input.config.to || null,
+      input.token || null,
+      input.events,
+      input.enabled ?? true
+    ]
+  )
+  return rows[0] ? toPublicChannel(toChannel(rows[0])) : null
+}
+
+/**
+ * Replace a channel's settings. The token is only changed when provided; pass an empty string to clear it.
+ */
+export async function updateNotificationChannel(id: number, input: NotificationChannelInput): Promise<PublicNotificationChannel | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<NotificationChannelRow>(
+    `UPDATE notification_channels SET
+       name = $1,
+       type = $2,
+       url = $3,
+       recipients = $4,
+       token = CASE WHEN $5::text IS NULL THEN token ELSE NULLIF($5, '') END,
+       events = $6,
+       enabled = $7,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $8
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.type,
+      input.config.url || null,
+      input.config.to || null,
+      input.token ?? null,
+      input.events,
+      input.enabled ?? true,
+      id
+    ]
+  )
+  return rows[0] ? toPublicChannel(toChannel(rows[0])) : null
+}
+
+export async function deleteNotificationChannel(id: number): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ id: number }>('DELETE FROM notification_channels WHERE id = $1 RETURNING id', [id])
+  return rows.length > 0
+}
+
+const DISCORD_COLORS: Record<NotificationSeverity, number> = {
+  info: 0x06b6d4,
+  success: 0x22c55e,
+  warning: 0xf59e0b,
+  error: 0xef4444
+}
+
+const NTFY_PRIORITIES: Record<NotificationSeverity, string> = {
+  info: 'default',
+  success: 'default',
+  warning: 'high',
+  error: 'urgent'
+}
+
+const GOTIFY_PRIORITIES: Record<NotificationSeverity, number> = {
+  info: 4,
+  success: 4,
+  warning: 7,
+  error: 9
+}
+
+async function post(url: string, body: BodyInit, headers: Record<string, string>): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '')
+    throw new Error(`${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`)
+  }
+}
+
+// Header values must be ASCII; ntfy decodes RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+
+const postJson = (url: string, payload: unknown, headers: Record<string, string> = {}) =>
+  post(url, JSON.stringify(payload), { 'Content-Type': 'application/json', ...headers })
+
+/**
+ * Deliver `event` through one channel. Throws when the channel refuses it.
+ */
+export async function sendNotification(channel: StoredNotificationChannel, event: NotificationEvent): Promise<void> {
+  const { url, to } = channel.config
+  const { attachment, ...details } = event
+  const heading = `${event.printer.name}: ${event.title}`
+
+  switch (channel.type) {
+    case 'webhook':
+      return postJson(url!, attachment
+        ? { ...details, attachment: { filename: attachment.filename, content_type: attachment.content_type, data: attachment.data.toString('base64') } }
+        : details)
+    case 'discord': {
+      const payload = {
+        embeds: [{
+          title: heading,
+          description: event.message,
+          color: DISCORD_COLORS[event.severity],
+          timestamp: event.timestamp,
+          ...(attachment && { image: { url: `attachment://${attachment.filename}` } })
+        }]
+      }
+      if (!attachment) {
+        return postJson(url!, payload)
+      }
+      // Files are uploaded as multipart form data next to the JSON payload
+      const form = new FormData()
+      form.append('payload_json', JSON.stringify(payload))
+      form.append('files[0]', new Blob([new Uint8Array(attachment.data)], { type: attachment.content_type }), attachment.filename)
+      return post(url!, form, {})
+    }
+    case 'slack':
+      return postJson(url!, { text: `*${heading}*\n${event.message}` })
+    case 'ntfy':
+      // With an attachment the body is the file and the text moves to the Message header
+      return post(url!, attachment ? new Uint8Array(attachment.data) : event.message, {
+        'Title': encodeHeader(heading),
+        'Priority': NTFY_PRIORITIES[event.severity],
+        'Tags': event.type,
+        ...(attachment && { 'Filename': attachment.filename, 'Message': encodeHeader(event.message) }),
+        ...(channel.token && { 'Authorization': `Bearer ${channel.token}` })
+      })
+    case 'gotify':
+      return postJson(`${url!.replace(/\/+$/, '')}/message`, {
+        title: heading,
+        message: event.message,
+        priority: GOTIFY_PRIORITIES[event.severity]
+      }, channel.token ? { 'X-Gotify-Key': channel.token } : {})
+    case 'email': {
+      const smtp = getSmtpConfig()
+      if (!smtp) {
+        throw new Error('SMTP_HOST is not configured')
+      }
+      return sendMail(smtp, {
+        to: to!.split(',').map(address => address.trim()),
+        subject: heading,
+        text: `${event.message}\n\n${new Date(event.timestamp).toLocaleString()}`,
+        attachments: attachment ? [attachment] : undefined
+      })
+    }
+  }
+}
+
+/**
+ * Send `event` to every enabled channel that subscribes to it.
+ * Failures are logged; one channel failing does not stop the others.
+ */
+export async function dispatchNotification(event: NotificationEvent): Promise<void> {
+  const { type } = event
+  if (type === 'test') {
+    return
+  }
+
+  const channels = (await getNotificationChannels()).filter(channel => channel.enabled && channel.events.includes(type))
+
+  await Promise.all(channels.map(async (channel) => {
+    try {
+      await sendNotification(channel, event)
+    } catch (error) {
+      console.error(`[Notifications] ${channel.name} (${channel.type}) failed for ${event.type}:`, error)
+    }
+  }))
+}
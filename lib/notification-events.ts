@@ -0,0 +1,125 @@
+import { dispatchNotification } from './notification-channels'
+import { isDatabaseAvailable } from './database'
+import { formatTime } from './utils/formatting'
+import type { PrinterMonitor, PrinterSample, PrinterTransition } from './printer-monitor'
+import { NOTIFICATION_EVENT_LABELS, type NotificationEvent, type NotificationEventType, type NotificationSeverity } from './notifications'
+
+/**
+ * Detects printer events worth a notification from the monitor's samples:
+ * print state changes, Klippy shutdowns (heater faults reported separately)
+ * and lost connections to the printer.
+ */
+
+// Consecutive failed polls before the printer counts as disconnected
+const DISCONNECT_THRESHOLD = 3
+
+// Klipper shutdown reasons raised by heater and sensor checks
+const HEATER_FAULT_PATTERN = /heater|thermal|thermistor|thermocouple|adc out of range|max31/i
+
+const SEVERITIES: Record<NotificationEventType, NotificationSeverity> = {
+  print_started: 'info',
+  print_paused: 'warning',
+  print_complete: 'success',
+  print_failed: 'error',
+  print_cancelled: 'warning',
+  klippy_shutdown: 'error',
+  klippy_disconnected: 'error',
+  heater_fault: 'error',
+  failure_detected: 'error'
+}
+
+const percent = (sample: PrinterSample) => `${Math.round(sample.progress * 100)}%`
+
+class NotificationEventDetector {
+  private failedPolls = 0
+  private disconnected = false
+  private lastKlippyState: string | null = null
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  start(): void {
+    this.monitor.on('transition', (transition) => this.handleTransition(transition))
+    this.monitor.on('sample', (sample) => this.handleSample(sample))
+    this.monitor.on('unreachable', (error) => this.handleUnreachable(error))
+  }
+
+  private notify(type: NotificationEventType, message: string, filename: string | null = null): void {
+    const event: NotificationEvent = {
+      type,
+      severity: SEVERITIES[type],
+      printer: { id: this.monitor.printerId, name: this.monitor.printer.name },
+      title: NOTIFICATION_EVENT_LABELS[type],
+      message,
+      timestamp: new Date().toISOString(),
+      filename
+    }
+
+    dispatchNotification(event).catch((error) => {
+      console.error(`[Notifications] ${this.monitor.printer.name}: could not send ${type}:`, error)
+    })
+  }
+
+  private handleTransition({ from, to, current }: PrinterTransition): void {
+    const filename = current.filename || 'Unknown file'
+    const wasActive = from === 'printing' || from === 'paused'
+
+    if (to === 'printing' && from !== 'paused') {
+      this.notify('print_started', `Started ${filename}`, current.filename)
+    } else if (to === 'paused' && from === 'printing') {
+      this.notify('print_paused', `${filename} paused at ${percent(current)}`, current.filename)
+    } else if (wasActive && to === 'complete') {
+      this.notify('print_complete', `${filename} finished in ${formatTime(current.printDuration)}`, current.filename)
+    } else if (wasActive && to === 'cancelled') {
+      this.notify('print_cancelled', `${filename} cancelled at ${percent(current)}`, current.filename)
+    } else if (wasActive && to === 'error') {
+      const reason = current.message || current.klippyMessage
+      this.notify('print_failed', `${filename} failed at ${percent(current)}${reason ? `: ${reason}` : ''}`, current.filename)
+    }
+  }
+
+  private handleSample(sample: PrinterSample): void {
+    this.failedPolls = 0
+    this.disconnected = false
+
+    const previous = this.lastKlippyState
+    this.lastKlippyState = sample.klippyState
+
+    // Only report entering shutdown, not every sample while shut down or the state found on startup
+    const isShutdown = sample.klippyState === 'shutdown' || sample.klippyState === 'error'
+    if (!isShutdown || previous === null || previous === sample.klippyState) {
+      return
+    }
+
+    const reason = sample.klippyMessage.trim() || 'No reason reported'
+    if (HEATER_FAULT_PATTERN.test(reason)) {
+      this.notify('heater_fault', reason, sample.filename)
+    } else {
+      this.notify('klippy_shutdown', reason, sample.filename)
+    }
+  }
+
+  private handleUnreachable(error: Error): void {
+    this.failedPolls++
+
+    // Never connected since the dashboard started: nothing was lost
+    if (this.disconnected || this.lastKlippyState === null || this.failedPolls < DISCONNECT_THRESHOLD) {
+      return
+    }
+
+    this.disconnected = true
+    this.lastKlippyState = 'disconnected'
+    this.notify('klippy_disconnected', `Lost connection to the printer: ${error.message}`)
+  }
+}
+
+/**
+ * Send notifications for events on the printer watched by `monitor`.
+ * Does nothing without a database, since channels are stored there.
+ */
+export function attachNotificationDetector(monitor: PrinterMonitor): void {
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  new NotificationEventDetector(monitor).start()
+}
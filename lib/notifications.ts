@@ -0,0 +1,165 @@
+/**
+ * Notifications shared by the API routes, the dispatcher and the settings UI.
+ *
+ * Printer events are detected on the server (see `notification-events.ts`) and
+ * sent to every enabled channel that subscribes to them
+ * (see `notification-channels.ts`).
+ */
+
+export type NotificationEventType =
+  | 'print_started'
+  | 'print_paused'
+  | 'print_complete'
+  | 'print_failed'
+  | 'print_cancelled'
+  | 'klippy_shutdown'
+  | 'klippy_disconnected'
+  | 'heater_fault'
+  | 'failure_detected'
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'print_started',
+  'print_paused',
+  'print_complete',
+  'print_failed',
+  'print_cancelled',
+  'klippy_shutdown',
+  'klippy_disconnected',
+  'heater_fault',
+  'failure_detected'
+]
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  print_started: 'Print started',
+  print_paused: 'Print paused',
+  print_complete: 'Print complete',
+  print_failed: 'Print failed',
+  print_cancelled: 'Print cancelled',
+  klippy_shutdown: 'Klipper shutdown',
+  klippy_disconnected: 'Printer disconnected',
+  heater_fault: 'Heater fault',
+  failure_detected: 'Print failure detected'
+}
+
+export type NotificationChannelType = 'webhook' | 'discord' | 'slack' | 'email' | 'ntfy' | 'gotify'
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'discord', 'slack', 'email', 'ntfy', 'gotify']
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook (JSON)',
+  discord: 'Discord',
+  slack: 'Slack',
+  email: 'Email (SMTP)',
+  ntfy: 'ntfy',
+  gotify: 'Gotify'
+}
+
+export interface NotificationChannelConfig {
+  url: string | null // webhook, Discord, Slack, ntfy topic or Gotify server URL
+  to: string | null // email recipients, comma separated
+}
+
+export interface NotificationChannel {
+  id: number
+  name: string
+  type: NotificationChannelType
+  config: NotificationChannelConfig
+  events: NotificationEventType[]
+  enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+// A channel as sent to the browser: the access token is never returned
+export type PublicNotificationChannel = NotificationChannel & { has_token: boolean }
+
+export interface NotificationChannelInput {
+  name: string
+  type: NotificationChannelType
+  config: Partial<NotificationChannelConfig>
+  // ntfy access token or Gotify application token; an empty string clears it
+  token?: string
+  events: NotificationEventType[]
+  enabled?: boolean
+}
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error'
+
+// An image sent along with an event, e.g. the snapshot that triggered failure detection
+export interface NotificationAttachment {
+  filename: string
+  content_type: string
+  data: Buffer
+}
+
+export interface NotificationEvent {
+  type: NotificationEventType | 'test'
+  severity: NotificationSeverity
+  printer: { id: number; name: string }
+  title: string
+  message: string
+  timestamp: string // ISO date
+  filename?: string | null
+  // Discord, ntfy and email attach it; webhooks receive it base64 encoded; Slack and Gotify get the text only
+  attachment?: NotificationAttachment
+}
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+$/
+
+const isEmailList = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  value.split(',').every(address => EMAIL_PATTERN.test(address.trim()))
+
+/**
+ * Check a channel. Returns an error message, or null when the channel may be saved.
+ */
+export function validateNotificationChannelInput(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid channel'
+  const { name, type, config, token, events, enabled } = input as Record<string, unknown>
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    return 'A channel needs a name of at most 100 characters'
+  }
+  if (!NOTIFICATION_CHANNEL_TYPES.includes(type as NotificationChannelType)) {
+    return `Type must be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`
+  }
+  if (!Array.isArray(events) || !events.every(event => NOTIFICATION_EVENT_TYPES.includes(event))) {
+    return 'Events must be a list of known event types'
+  }
+  if (token !== undefined && typeof token !== 'string') {
+    return 'Token must be a string'
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'Enabled must be true or false'
+  }
+
+  const { url, to } = (config || {}) as Record<string, unknown>
+  if (type === 'email') {
+    return isEmailList(to) ? null : 'Email channels need one or more recipient addresses'
+  }
+  return isHttpUrl(url) ? null : 'This channel needs an http(s) URL'
+}
+
+/**
+ * Send a test notification through a saved channel (admin only)
+ */
+export async function sendTestNotification(channelId: number): Promise<string> {
+  const response = await fetch(`/api/notifications/${channelId}/test`, { method: 'POST' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Test notification failed')
+  }
+
+  return data.message
+}
@@ -0,0 +1,32 @@
+/**
+ * Roles and permission helpers shared by the server and the browser.
+ * Roles are ordered: each role includes everything the roles below it can do.
+ */
+
+export type UserRole = 'viewer' | 'operator' | 'admin'
+
+export const USER_ROLES: UserRole[] = ['viewer', 'operator', 'admin']
+
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+}
+
+export interface AuthUser {
+  id: number
+  username: string
+  role: UserRole
+}
+
+export function isValidRole(role: unknown): role is UserRole {
+  return typeof role === 'string' && USER_ROLES.includes(role as UserRole)
+}
+
+// Check whether a user has at least the required role
+export function hasRole(user: AuthUser | null | undefined, required: UserRole): boolean {
+  if (!user) {
+    return false
+  }
+  return ROLE_LEVELS[user.role] >= ROLE_LEVELS[required]
+}
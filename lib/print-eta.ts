@@ -0,0 +1,131 @@
+/**
+ * Print time estimates shared by the status route and the live views.
+ *
+ * Blends three estimates of the time left, each weighted by how much it can
+ * be trusted at the current progress:
+ *  - the slicer estimate, scaled by a correction factor learned from past jobs
+ *    (trusted most at the start of a print)
+ *  - the rate of progress through the G-code file
+ *  - the rate of progress through the layers (coarser, layers differ in size)
+ *
+ * The spread between the estimates and the uncertainty left in the slicer
+ * estimate give a confidence range around the blended value.
+ */
+
+import type { PrinterStatus } from './types'
+
+// What is known about the file being printed, from its metadata and past jobs
+export interface PrintEstimateBasis {
+  slicerEstimate: number | null // seconds
+  gcodeStartByte: number | null
+  gcodeEndByte: number | null
+  correctionFactor: number | null // actual / slicer time of past jobs
+  correctionSpread: number | null // typical relative deviation of that ratio
+}
+
+export interface PrintProgressSample {
+  printDuration: number // seconds spent printing
+  progress: number // virtual_sdcard.progress, 0-1
+  filePosition: number // bytes
+  currentLayer: number | null
+  totalLayers: number | null
+}
+
+export type PrintEta = NonNullable<PrinterStatus['print']['eta']>
+
+export type EtaConfidence = PrintEta['confidence']
+
+export const EMPTY_ESTIMATE_BASIS: PrintEstimateBasis = {
+  slicerEstimate: null,
+  gcodeStartByte: null,
+  gcodeEndByte: null,
+  correctionFactor: null,
+  correctionSpread: null
+}
+
+// Rate-based estimates swing wildly before this much progress
+const MIN_RATE_PROGRESS = 0.02
+const LAYER_WEIGHT = 0.5
+// Relative uncertainty of the slicer estimate without learned history
+const DEFAULT_SLICER_UNCERTAINTY = 0.15
+// Relative uncertainty of rate-based estimates when there is no slicer estimate
+const RATE_ONLY_UNCERTAINTY = 0.3
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+/**
+ * Progress through the G-code itself. Uses the metadata's start and end bytes
+ * so a large header or thumbnail block does not skew it, falling back to
+ * Klipper's file progress.
+ */
+export function getFileProgress(sample: PrintProgressSample, basis: PrintEstimateBasis): number {
+  const { gcodeStartByte: start, gcodeEndByte: end } = basis
+  if (start !== null && end !== null && end > start && sample.filePosition > 0) {
+    return clamp((sample.filePosition - start) / (end - start))
+  }
+  return clamp(sample.progress)
+}
+
+// Layers completed, as a fraction of the total
+function getLayerProgress(sample: PrintProgressSample): number {
+  if (!sample.totalLayers || !sample.currentLayer || sample.totalLayers <= 0) {
+    return 0
+  }
+  return clamp((sample.currentLayer - 1) / sample.totalLayers)
+}
+
+/**
+ * Estimate the time left. Returns null before there is enough to go on,
+ * i.e. no slicer estimate and too little progress.
+ */
+export function estimatePrintTimeLeft(sample: PrintProgressSample, basis: PrintEstimateBasis): PrintEta | null {
+  const progress = getFileProgress(sample, basis)
+  const elapsed = sample.printDuration
+
+  if (progress >= 1) {
+    return { remaining: 0, low: 0, high: 0, confidence: 'high' }
+  }
+
+  const estimates: { remaining: number; weight: number }[] = []
+
+  if (basis.slicerEstimate && basis.slicerEstimate > 0) {
+    const total = basis.slicerEstimate * (basis.correctionFactor ?? 1)
+    estimates.push({ remaining: total * (1 - progress), weight: 1 - progress })
+  }
+
+  if (progress >= MIN_RATE_PROGRESS && elapsed > 0) {
+    estimates.push({ remaining: elapsed / progress - elapsed, weight: progress })
+  }
+
+  const layerProgress = getLayerProgress(sample)
+  if (layerProgress >= MIN_RATE_PROGRESS && elapsed > 0) {
+    estimates.push({ remaining: elapsed / layerProgress - elapsed, weight: layerProgress * LAYER_WEIGHT })
+  }
+
+  const totalWeight = estimates.reduce((sum, estimate) => sum + estimate.weight, 0)
+  if (estimates.length === 0 || totalWeight <= 0) {
+    return null
+  }
+
+  const remaining = estimates.reduce((sum, estimate) => sum + estimate.remaining * estimate.weight, 0) / totalWeight
+
+  // What is left of the slicer's uncertainty shrinks as the print goes on
+  const uncertainty = basis.slicerEstimate
+    ? basis.correctionSpread ?? DEFAULT_SLICER_UNCERTAINTY
+    : RATE_ONLY_UNCERTAINTY
+  const margin = remaining * uncertainty * (1 - progress)
+  const values = estimates.map(estimate => estimate.remaining)
+  const low = Math.max(0, Math.min(remaining - margin, ...values))
+  const high = Math.max(remaining + margin, ...values)
+
+  // Relative width of the range; a minute either way is fine near the end
+  const width = (high - low) / Math.max(remaining, 60)
+  const confidence: EtaConfidence = width <= 0.15 ? 'high' : width <= 0.4 ? 'medium' : 'low'
+
+  return {
+    remaining: Math.round(remaining),
+    low: Math.round(low),
+    high: Math.round(high),
+    confidence
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Print job control shared by the API route, the WebSocket client and the UI.
+ * Validates actions against the current `PrinterStatus.print.state`.
+ */
+
+import type { PrinterStatus } from './types'
+import { withPrinterId } from './utils/api'
+
+export type PrintState = PrinterStatus['print']['state']
+
+export type PrintJobAction = 'pause' | 'resume' | 'cancel' | 'start'
+
+export const PRINT_JOB_ACTIONS: PrintJobAction[] = ['pause', 'resume', 'cancel', 'start']
+
+export function isPrintJobAction(action: unknown): action is PrintJobAction {
+  return typeof action === 'string' && PRINT_JOB_ACTIONS.includes(action as PrintJobAction)
+}
+
+// Map Klipper's print_stats/webhooks state to our frontend print state
+export function mapPrintState(printStatsState: string | undefined, klippyState: string | undefined): PrintState {
+  switch ((printStatsState || '').toLowerCase()) {
+    case 'printing':
+      return 'printing'
+    case 'paused':
+      return 'paused'
+    case 'cancelled':
+      return 'cancelled'
+    case 'complete':
+      return 'complete'
+    case 'error':
+      return 'error'
+    default:
+      return klippyState === 'ready' ? 'ready' : 'offline'
+  }
+}
+
+/**
+ * Check whether `action` is allowed in `state`.
+ * Returns an error message when it is not, or null when the action may proceed.
+ */
+export function validatePrintJobAction(state: PrintState, action: PrintJobAction): string | null {
+  switch (action) {
+    case 'pause':
+      return state === 'printing' ? null : `Cannot pause: printer is ${state}, not printing`
+    case 'resume':
+      return state === 'paused' ? null : `Cannot resume: printer is ${state}, not paused`
+    case 'cancel':
+      return state === 'printing' || state === 'paused' ? null : `Cannot cancel: no print in progress (printer is ${state})`
+    case 'start':
+      if (state === 'printing' || state === 'paused') {
+        return 'Cannot start: a print is already in progress'
+      }
+      return state === 'offline' ? 'Cannot start: printer is offline' : null
+  }
+}
+
+// Actions that can be offered in the current state
+export function getAvailablePrintJobActions(state: PrintState): PrintJobAction[] {
+  return PRINT_JOB_ACTIONS.filter(action => validatePrintJobAction(state, action) === null)
+}
+
+/**
+ * Send a print job action through the dashboard API (requires operator role)
+ */
+export async function sendPrintJobAction(action: PrintJobAction, filename?: string, printerId?: number): Promise<{ message: string }> {
+  const response = await fetch(withPrinterId('/api/printer/job', printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, filename })
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Failed to ${action} print`)
+  }
+
+  return { message: data.message }
+}
@@ -0,0 +1,389 @@
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import type { PrinterMonitor, PrinterSample, PrinterTransition } from './printer-monitor'
+import { getThumbnailPath } from './printer-files'
+import { captureCameraSnapshot } from './camera-snapshot'
+import type { PrinterConfig } from './printers'
+import { getMoonrakerClient } from './moonraker-client'
+import type { PrintEstimateBasis } from './print-eta'
+
+/**
+ * Print job history: a recorder that turns print state transitions from the
+ * printer monitor into `print_jobs` rows, and the queries behind `/api/printer/jobs`.
+ */
+
+export type PrintJobStatus = 'printing' | 'complete' | 'cancelled' | 'error' | 'interrupted'
+
+export const PRINT_JOB_STATUSES: PrintJobStatus[] = ['printing', 'complete', 'cancelled', 'error', 'interrupted']
+
+export interface PrintJob {
+  id: number
+  printer_id: number
+  filename: string
+  status: PrintJobStatus
+  started_at: string
+  ended_at: string | null
+  print_duration: number | null // seconds
+  total_duration: number | null // seconds, including pauses
+  filament_used: number | null // mm
+  estimated_time: number | null // slicer estimate in seconds
+  thumbnail_path: string | null
+  message: string | null
+  has_snapshot: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface PrintJobFilters {
+  printerId?: number
+  status?: PrintJobStatus
+  filename?: string
+  from?: Date
+  to?: Date
+}
+
+export function isPrintJobStatus(status: unknown): status is PrintJobStatus {
+  return typeof status === 'string' && PRINT_JOB_STATUSES.includes(status as PrintJobStatus)
+}
+
+const PRINT_JOB_COLUMNS = `
+  id, printer_id, filename, status, started_at, ended_at, print_duration, total_duration, filament_used,
+  estimated_time, thumbnail_path, message, final_snapshot IS NOT NULL AS has_snapshot, created_at, updated_at
+`
+
+// Build the WHERE clause shared by the list and count queries
+function buildFilterClause(filters: PrintJobFilters): { where: string; params: unknown[] } {
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  if (filters.printerId !== undefined) {
+    params.push(filters.printerId)
+    conditions.push(`printer_id = $${params.length}`)
+  }
+  if (filters.status) {
+    params.push(filters.status)
+    conditions.push(`status = $${params.length}`)
+  }
+  if (filters.filename) {
+    params.push(`%${filters.filename}%`)
+    conditions.push(`filename ILIKE $${params.length}`)
+  }
+  if (filters.from) {
+    params.push(filters.from)
+    conditions.push(`started_at >= $${params.length}`)
+  }
+  if (filters.to) {
+    params.push(filters.to)
+    conditions.push(`started_at <= $${params.length}`)
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  }
+}
+
+/**
+ * Get a page of print jobs, newest first
+ */
+export async function getPrintJobs(
+  filters: PrintJobFilters,
+  page: number = 1,
+  limit: number = 20
+): Promise<{ jobs: PrintJob[]; total: number }> {
+  if (!isDatabaseAvailable()) {
+    return { jobs: [], total: 0 }
+  }
+
+  await initializeDatabase()
+  const { where, params } = buildFilterClause(filters)
+
+  const countResult = await query<{ count: string }>(`SELECT COUNT(*) as count FROM print_jobs ${where}`, params)
+  const jobs = await query<PrintJob>(
+    `SELECT ${PRINT_JOB_COLUMNS} FROM print_jobs ${where}
+     ORDER BY started_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, (page - 1) * limit]
+  )
+
+  return { jobs, total: parseInt(countResult[0]?.count || '0', 10) }
+}
+
+export async function getPrintJob(id: number): Promise<PrintJob | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<PrintJob>(`SELECT ${PRINT_JOB_COLUMNS} FROM print_jobs WHERE id = $1`, [id])
+  return rows[0] || null
+}
+
+export async function getPrintJobSnapshot(
+  id: number,
+  printerId: number
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ final_snapshot: Buffer | null; final_snapshot_type: string | null }>(
+    'SELECT final_snapshot, final_snapshot_type FROM print_jobs WHERE id = $1 AND printer_id = $2',
+    [id, printerId]
+  )
+  const row = rows[0]
+  if (!row?.final_snapshot) {
+    return null
+  }
+
+  return { buffer: row.final_snapshot, contentType: row.final_snapshot_type || 'image/jpeg' }
+}
+
+export interface EstimateCorrection {
+  factor: number // median of actual / slicer print time
+  spread: number // median relative deviation from that factor
+  samples: number
+}
+
+// Recent completed jobs used to learn how far off the slicer tends to be
+const CORRECTION_SAMPLE_SIZE = 20
+const MIN_CORRECTION_SAMPLES = 3
+const MIN_CORRECTION_SPREAD = 0.05
+const CORRECTION_CACHE_TTL_MS = 5 * 60 * 1000
+// Slicer metadata only changes when a file is re-uploaded
+const METADATA_CACHE_TTL_MS = 60 * 1000
+
+// Kept on globalThis so the status route and relay clients share one lookup per printer
+const globalForCorrection = globalThis as unknown as {
+  estimateCorrections?: Map<number, { correction: EstimateCorrection | null; expiresAt: number }>
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * How long prints on this printer actually take compared to the slicer
+ * estimate, from recent completed jobs. Null without enough history.
+ */
+export async function getEstimateCorrection(printerId: number): Promise<EstimateCorrection | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  if (!globalForCorrection.estimateCorrections) {
+    globalForCorrection.estimateCorrections = new Map()
+  }
+  const cache = globalForCorrection.estimateCorrections
+  const cached = cache.get(printerId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.correction
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ ratio: number }>(
+    `SELECT print_duration / estimated_time AS ratio FROM print_jobs
+     WHERE printer_id = $1 AND status = 'complete' AND estimated_time > 0 AND print_duration > 0
+     ORDER BY ended_at DESC
+     LIMIT $2`,
+    [printerId, CORRECTION_SAMPLE_SIZE]
+  )
+
+  // Ignore jobs whose estimate was clearly for something else, e.g. an edited file
+  const ratios = rows.map(row => Number(row.ratio)).filter(ratio => ratio >= 0.5 && ratio <= 2)
+
+  let correction: EstimateCorrection | null = null
+  if (ratios.length >= MIN_CORRECTION_SAMPLES) {
+    const factor = median(ratios)
+    correction = {
+      factor,
+      spread: Math.max(MIN_CORRECTION_SPREAD, median(ratios.map(ratio => Math.abs(ratio - factor) / factor))),
+      samples: ratios.length
+    }
+  }
+
+  cache.set(printerId, { correction, expiresAt: Date.now() + CORRECTION_CACHE_TTL_MS })
+  return correction
+}
+
+/**
+ * Everything the ETA engine knows about `filename` beyond live progress:
+ * its slicer estimate and G-code byte range, and the printer's learned correction
+ */
+export async function getPrintEstimateBasis(printer: PrinterConfig, filename: string): Promise<PrintEstimateBasis> {
+  const [metadata, correction] = await Promise.all([
+    getMoonrakerClient(printer)
+      .getFileMetadata(filename, { cacheTtlMs: METADATA_CACHE_TTL_MS })
+      .then(data => data.result)
+      .catch((error) => {
+        console.warn(`Failed to fetch metadata for ${filename}:`, error)
+        return null
+      }),
+    getEstimateCorrection(printer.id).catch((error) => {
+      console.error('Error learning estimate correction:', error)
+      return null
+    })
+  ])
+
+  return {
+    slicerEstimate: metadata?.estimated_time ?? null,
+    gcodeStartByte: metadata?.gcode_start_byte ?? null,
+    gcodeEndByte: metadata?.gcode_end_byte ?? null,
+    correctionFactor: correction?.factor ?? null,
+    correctionSpread: correction?.spread ?? null
+  }
+}
+
+// Slicer estimate and thumbnail for the file being printed
+async function fetchJobFileDetails(
+  printer: PrinterConfig,
+  filename: string
+): Promise<{ estimatedTime: number | null; thumbnailPath: string | null }> {
+  try {
+    const data = await getMoonrakerClient(printer).getFileMetadata(filename)
+    return {
+      estimatedTime: data.result?.estimated_time ?? null,
+      thumbnailPath: getThumbnailPath(filename, data.result?.thumbnails) ?? null
+    }
+  } catch {
+    return { estimatedTime: null, thumbnailPath: null }
+  }
+}
+
+/**
+ * Records print jobs from monitor transitions.
+ * Work is queued so a start and finish arriving close together are written in order.
+ */
+class PrintJobRecorder {
+  private activeJobId: number | null = null
+  private reconciled = false
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  start(): void {
+    this.monitor.on('sample', (sample) => {
+      if (!this.reconciled) {
+        this.reconciled = true
+        this.enqueue(() => this.reconcile(sample))
+      }
+    })
+    this.monitor.on('transition', (transition) => this.enqueue(() => this.handleTransition(transition)))
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.error('Error recording print job:', error)
+    })
+  }
+
+  private async handleTransition({ from, to, previous, current }: PrinterTransition): Promise<void> {
+    const wasActive = from === 'printing' || from === 'paused'
+
+    if (to === 'printing' && from !== 'paused') {
+      await this.startJob(current)
+    } else if (wasActive && (to === 'complete' || to === 'cancelled' || to === 'error')) {
+      await this.finishJob(to, current)
+    } else if (wasActive && (to === 'ready' || to === 'offline')) {
+      // Klipper restarted or lost the print without reporting an end state
+      await this.finishJob('interrupted', previous)
+    }
+  }
+
+  /**
+   * Match the printer's current state against jobs left open in the database,
+   * e.g. when the dashboard restarts in the middle of a print.
+   */
+  private async reconcile(sample: PrinterSample): Promise<void> {
+    const openJobs = await query<{ id: number; filename: string }>(
+      "SELECT id, filename FROM print_jobs WHERE printer_id = $1 AND status = 'printing' ORDER BY started_at DESC",
+      [this.monitor.printerId]
+    )
+    const matching = openJobs.find(job => job.filename === sample.filename)
+
+    for (const job of openJobs) {
+      if (job !== matching) {
+        await this.closeJob(job.id, 'interrupted', null, 'Dashboard lost track of this print')
+      }
+    }
+
+    if (sample.printState === 'printing' || sample.printState === 'paused') {
+      if (matching) {
+        this.activeJobId = matching.id
+      } else {
+        await this.startJob(sample)
+      }
+    } else if (matching) {
+      const status = sample.printState === 'complete' || sample.printState === 'cancelled' || sample.printState === 'error'
+        ? sample.printState
+        : 'interrupted'
+      this.activeJobId = matching.id
+      await this.finishJob(status, sample)
+    }
+  }
+
+  private async startJob(sample: PrinterSample): Promise<void> {
+    if (!sample.filename) {
+      return
+    }
+
+    const { estimatedTime, thumbnailPath } = await fetchJobFileDetails(this.monitor.printer, sample.filename)
+    const startedAt = new Date(sample.timestamp - sample.totalDuration * 1000)
+
+    const rows = await query<{ id: number }>(
+      `INSERT INTO print_jobs (printer_id, filename, status, started_at, estimated_time, thumbnail_path)
+       VALUES ($1, $2, 'printing', $3, $4, $5)
+       RETURNING id`,
+      [this.monitor.printerId, sample.filename, startedAt, estimatedTime, thumbnailPath]
+    )
+    this.activeJobId = rows[0]?.id ?? null
+    console.log(`[Jobs] ${this.monitor.printer.name}: started job ${this.activeJobId} (${sample.filename})`)
+  }
+
+  private async finishJob(status: PrintJobStatus, sample: PrinterSample): Promise<void> {
+    const jobId = this.activeJobId
+    this.activeJobId = null
+
+    if (jobId === null) {
+      return
+    }
+
+    await this.closeJob(jobId, status, sample, sample.message || null)
+    console.log(`[Jobs] ${this.monitor.printer.name}: job ${jobId} ended (${status})`)
+
+    // The camera may be slow or missing; the job row is already complete without it
+    try {
+      const snapshot = await captureCameraSnapshot(this.monitor.printer)
+      await query(
+        'UPDATE print_jobs SET final_snapshot = $1, final_snapshot_type = $2 WHERE id = $3',
+        [snapshot.buffer, snapshot.contentType, jobId]
+      )
+    } catch (error) {
+      console.warn(`[Jobs] Could not capture final snapshot for job ${jobId}:`, error)
+    }
+  }
+
+  private async closeJob(jobId: number, status: PrintJobStatus, sample: PrinterSample | null, message: string | null): Promise<void> {
+    await query(
+      `UPDATE print_jobs
+       SET status = $1, ended_at = CURRENT_TIMESTAMP, print_duration = COALESCE($2, print_duration),
+           total_duration = COALESCE($3, total_duration), filament_used = COALESCE($4, filament_used),
+           message = $5, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6`,
+      [status, sample?.printDuration ?? null, sample?.totalDuration ?? null, sample?.filamentUsed ?? null, message, jobId]
+    )
+  }
+}
+
+/**
+ * Record print jobs for the printer watched by `monitor`. Does nothing without a database.
+ */
+export function attachPrintJobRecorder(monitor: PrinterMonitor): void {
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  new PrintJobRecorder(monitor).start()
+}
@@ -0,0 +1,337 @@
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import { getMoonrakerClient } from './moonraker-client'
+import { mapPrintState } from './print-job'
+import type { PrinterConfig } from './printers'
+import type { PrinterMonitor, PrinterTransition } from './printer-monitor'
+import type { PrintQueueBackendType, PrintQueueRequest, PrintQueueStatus, QueuedPrintJob } from './print-queue'
+
+/**
+ * Server side of the print queue: the Moonraker `[job_queue]` and database
+ * backends, per-printer queue settings, and the scheduler that starts the next
+ * job when a print completes.
+ *
+ * Moonraker's own `automatic_transition` should stay disabled (the default);
+ * otherwise Moonraker starts the next job before the bed-clear check runs.
+ */
+
+// Loaded components rarely change; checked at most once a minute
+const SERVER_INFO_CACHE_TTL_MS = 60 * 1000
+
+interface QueueSettings {
+  paused: boolean // database backend only; Moonraker tracks its own queue state
+  requireBedClear: boolean
+  awaitingBedClear: boolean
+}
+
+const DEFAULT_SETTINGS: QueueSettings = { paused: false, requireBedClear: false, awaitingBedClear: false }
+
+// Without a database, settings are kept in memory until the server restarts
+const globalForQueue = globalThis as unknown as {
+  printQueueSettings?: Map<number, QueueSettings>
+}
+
+function getMemorySettings(): Map<number, QueueSettings> {
+  if (!globalForQueue.printQueueSettings) {
+    globalForQueue.printQueueSettings = new Map()
+  }
+  return globalForQueue.printQueueSettings
+}
+
+async function getQueueSettings(printerId: number): Promise<QueueSettings> {
+  if (!isDatabaseAvailable()) {
+    return getMemorySettings().get(printerId) || DEFAULT_SETTINGS
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ paused: boolean; require_bed_clear: boolean; awaiting_bed_clear: boolean }>(
+    'SELECT paused, require_bed_clear, awaiting_bed_clear FROM print_queue_state WHERE printer_id = $1',
+    [printerId]
+  )
+  const row = rows[0]
+  return row
+    ? { paused: row.paused, requireBedClear: row.require_bed_clear, awaitingBedClear: row.awaiting_bed_clear }
+    : DEFAULT_SETTINGS
+}
+
+async function updateQueueSettings(printerId: number, changes: Partial<QueueSettings>): Promise<void> {
+  const settings = { ...(await getQueueSettings(printerId)), ...changes }
+
+  if (!isDatabaseAvailable()) {
+    getMemorySettings().set(printerId, settings)
+    return
+  }
+
+  await query(
+    `INSERT INTO print_queue_state (printer_id, paused, require_bed_clear, awaiting_bed_clear)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (printer_id) DO UPDATE SET
+       paused = EXCLUDED.paused,
+       require_bed_clear = EXCLUDED.require_bed_clear,
+       awaiting_bed_clear = EXCLUDED.awaiting_bed_clear,
+       updated_at = CURRENT_TIMESTAMP`,
+    [printerId, settings.paused, settings.requireBedClear, settings.awaitingBedClear]
+  )
+}
+
+export interface PrintQueueBackend {
+  readonly type: PrintQueueBackendType
+  list(): Promise<{ jobs: QueuedPrintJob[]; paused: boolean }>
+  enqueue(filenames: string[]): Promise<void>
+  remove(jobIds: string[]): Promise<void>
+  reorder(jobIds: string[]): Promise<void>
+  pause(): Promise<void>
+  // Resume the queue and start the next job if the printer is idle
+  start(): Promise<void>
+}
+
+class MoonrakerQueueBackend implements PrintQueueBackend {
+  readonly type = 'moonraker' as const
+
+  constructor(private printer: PrinterConfig) {}
+
+  private get client() {
+    return getMoonrakerClient(this.printer)
+  }
+
+  async list(): Promise<{ jobs: QueuedPrintJob[]; paused: boolean }> {
+    const data = await this.client.getJobQueue()
+    return {
+      jobs: data.result.queued_jobs.map(job => ({
+        id: job.job_id,
+        filename: job.filename,
+        addedAt: new Date(job.time_added * 1000).toISOString()
+      })),
+      paused: data.result.queue_state === 'paused'
+    }
+  }
+
+  async enqueue(filenames: string[]): Promise<void> {
+    await this.client.request('/server/job_queue/job', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filenames })
+    })
+  }
+
+  async remove(jobIds: string[]): Promise<void> {
+    await this.client.request(`/server/job_queue/job?job_ids=${jobIds.map(encodeURIComponent).join(',')}`, { method: 'DELETE' })
+  }
+
+  // Moonraker cannot move jobs, so the queue is cleared and refilled in the new order.
+  // If refilling fails, the jobs are put back in their original order.
+  async reorder(jobIds: string[]): Promise<void> {
+    const { jobs } = await this.list()
+    const ordered = [
+      ...jobIds.map(id => jobs.find(job => job.id === id)).filter((job): job is QueuedPrintJob => !!job),
+      ...jobs.filter(job => !jobIds.includes(job.id))
+    ]
+
+    await this.client.request('/server/job_queue/job?all=true', { method: 'DELETE' })
+    try {
+      await this.enqueue(ordered.map(job => job.filename))
+    } catch (error) {
+      // Clear again first in case part of the new order made it in
+      await this.client.request('/server/job_queue/job?all=true', { method: 'DELETE' })
+        .then(() => this.enqueue(jobs.map(job => job.filename)))
+        .catch(restoreError => {
+          console.error('Failed to restore the print queue after a failed reorder:', restoreError)
+        })
+      throw error
+    }
+  }
+
+  async pause(): Promise<void> {
+    await this.client.request('/server/job_queue/pause', { method: 'POST' })
+  }
+
+  async start(): Promise<void> {
+    await this.client.request('/server/job_queue/start', { method: 'POST' })
+  }
+}
+
+class DatabaseQueueBackend implements PrintQueueBackend {
+  readonly type = 'database' as const
+
+  constructor(private printer: PrinterConfig) {}
+
+  async list(): Promise<{ jobs: QueuedPrintJob[]; paused: boolean }> {
+    await initializeDatabase()
+    const rows = await query<{ id: number; filename: string; created_at: Date }>(
+      'SELECT id, filename, created_at FROM print_queue_jobs WHERE printer_id = $1 ORDER BY position, id',
+      [this.printer.id]
+    )
+    const { paused } = await getQueueSettings(this.printer.id)
+
+    return {
+      jobs: rows.map(row => ({ id: String(row.id), filename: row.filename, addedAt: new Date(row.created_at).toISOString() })),
+      paused
+    }
+  }
+
+  async enqueue(filenames: string[]): Promise<void> {
+    // Moonraker's queue refuses missing files; do the same here
+    const client = getMoonrakerClient(this.printer)
+    for (const filename of filenames) {
+      await client.getFileMetadata(filename)
+    }
+
+    await initializeDatabase()
+    for (const filename of filenames) {
+      await query(
+        `INSERT INTO print_queue_jobs (printer_id, filename, position)
+         SELECT $1, $2, COALESCE(MAX(position) + 1, 0) FROM print_queue_jobs WHERE printer_id = $1`,
+        [this.printer.id, filename]
+      )
+    }
+  }
+
+  async remove(jobIds: string[]): Promise<void> {
+    await initializeDatabase()
+    await query(
+      'DELETE FROM print_queue_jobs WHERE printer_id = $1 AND id = ANY($2::int[])',
+      [this.printer.id, jobIds.map(id => parseInt(id, 10)).filter(Number.isFinite)]
+    )
+  }
+
+  async reorder(jobIds: string[]): Promise<void> {
+    await initializeDatabase()
+    // One statement, so a concurrent read never sees a half-applied order
+    await query(
+      `UPDATE print_queue_jobs SET position = ordered.ordinality - 1
+       FROM unnest($2::int[]) WITH ORDINALITY AS ordered(id, ordinality)
+       WHERE print_queue_jobs.printer_id = $1 AND print_queue_jobs.id = ordered.id`,
+      [this.printer.id, jobIds.map(id => parseInt(id, 10)).filter(Number.isFinite)]
+    )
+  }
+
+  async pause(): Promise<void> {
+    await updateQueueSettings(this.printer.id, { paused: true })
+  }
+
+  async start(): Promise<void> {
+    await updateQueueSettings(this.printer.id, { paused: false })
+
+    const client = getMoonrakerClient(this.printer)
+    const stateData = await client.queryObjects(['print_stats', 'webhooks'])
+    const printState = mapPrintState(stateData.result?.status?.print_stats?.state, stateData.result?.status?.webhooks?.state)
+    if (printState === 'printing' || printState === 'paused' || printState === 'offline') {
+      return
+    }
+
+    const { jobs } = await this.list()
+    const next = jobs[0]
+    if (!next) {
+      return
+    }
+
+    await client.request(`/printer/print/start?filename=${encodeURIComponent(next.filename)}`, { method: 'POST' })
+    await query('DELETE FROM print_queue_jobs WHERE id = $1', [parseInt(next.id, 10)])
+  }
+}
+
+/**
+ * Queue backend for `printer`: Moonraker's job queue when the component is
+ * loaded, otherwise the database. Null when neither is available.
+ */
+export async function getPrintQueueBackend(printer: PrinterConfig): Promise<PrintQueueBackend | null> {
+  const info = await getMoonrakerClient(printer).getServerInfo({ cacheTtlMs: SERVER_INFO_CACHE_TTL_MS })
+  if (info.result.components.includes('job_queue')) {
+    return new MoonrakerQueueBackend(printer)
+  }
+  return isDatabaseAvailable() ? new DatabaseQueueBackend(printer) : null
+}
+
+export async function getPrintQueueStatus(printer: PrinterConfig, backend: PrintQueueBackend): Promise<PrintQueueStatus> {
+  const [{ jobs, paused }, settings] = await Promise.all([backend.list(), getQueueSettings(printer.id)])
+  return {
+    backend: backend.type,
+    paused,
+    requireBedClear: settings.requireBedClear,
+    awaitingBedClear: settings.awaitingBedClear,
+    jobs
+  }
+}
+
+/**
+ * Apply a validated queue request. Reorders should be checked with `validateQueueOrder` first.
+ */
+export async function applyPrintQueueRequest(printer: PrinterConfig, backend: PrintQueueBackend, request: PrintQueueRequest): Promise<void> {
+  switch (request.action) {
+    case 'enqueue':
+      return backend.enqueue(request.filenames)
+    case 'remove':
+      return backend.remove(request.jobIds)
+    case 'reorder':
+      return backend.reorder(request.jobIds)
+    case 'pause':
+      return backend.pause()
+    case 'start':
+      await updateQueueSettings(printer.id, { awaitingBedClear: false })
+      return backend.start()
+    case 'configure':
+      return updateQueueSettings(printer.id, {
+        requireBedClear: request.requireBedClear,
+        ...(!request.requireBedClear && { awaitingBedClear: false })
+      })
+  }
+}
+
+/**
+ * Starts the next queued job when a print completes, or marks the queue as
+ * waiting for the bed to be cleared.
+ */
+class PrintQueueScheduler {
+  constructor(private monitor: PrinterMonitor) {}
+
+  start(): void {
+    this.monitor.on('transition', (transition) => {
+      this.handleTransition(transition).catch((error) => {
+        console.error(`[Queue] ${this.monitor.printer.name}: could not advance the print queue:`, error)
+      })
+    })
+  }
+
+  private async handleTransition({ from, to }: PrinterTransition): Promise<void> {
+    const printer = this.monitor.printer
+
+    if (to === 'printing' && from !== 'paused') {
+      // A print started, whether from the queue or by hand; the bed is in use again
+      const settings = await getQueueSettings(printer.id)
+      if (settings.awaitingBedClear) {
+        await updateQueueSettings(printer.id, { awaitingBedClear: false })
+      }
+      return
+    }
+
+    if (from !== 'printing' || to !== 'complete') {
+      return
+    }
+
+    const backend = await getPrintQueueBackend(printer)
+    if (!backend) {
+      return
+    }
+
+    const { jobs, paused } = await backend.list()
+    if (paused || jobs.length === 0) {
+      return
+    }
+
+    const settings = await getQueueSettings(printer.id)
+    if (settings.requireBedClear) {
+      await updateQueueSettings(printer.id, { awaitingBedClear: true })
+      console.log(`[Queue] ${printer.name}: waiting for the bed to be cleared before ${jobs[0].filename}`)
+      return
+    }
+
+    console.log(`[Queue] ${printer.name}: starting ${jobs[0].filename}`)
+    await backend.start()
+  }
+}
+
+/**
+ * Advance the print queue of the printer watched by `monitor`
+ */
+export function attachPrintQueueScheduler(monitor: PrinterMonitor): void {
+  new PrintQueueScheduler(monitor).start()
+}
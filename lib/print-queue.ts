@@ -0,0 +1,136 @@
+/**
+ * Print queue shared by the API route, the scheduler and the UI.
+ *
+ * The queue is backed by Moonraker's `[job_queue]` component when it is loaded,
+ * otherwise by the `print_queue_jobs` table (see `print-queue-backend.ts`).
+ * Either way the dashboard starts the next job when a print completes, unless
+ * the queue is paused or waiting for the bed to be cleared.
+ */
+
+import { withPrinterId } from './utils/api'
+
+export type PrintQueueBackendType = 'moonraker' | 'database'
+
+export interface QueuedPrintJob {
+  id: string
+  filename: string
+  addedAt: string // ISO date
+}
+
+export interface PrintQueueStatus {
+  backend: PrintQueueBackendType
+  paused: boolean
+  // Wait for an operator to confirm the bed is clear before starting the next job
+  requireBedClear: boolean
+  // A print completed and the next job is waiting for that confirmation
+  awaitingBedClear: boolean
+  jobs: QueuedPrintJob[]
+}
+
+export type PrintQueueRequest =
+  | { action: 'enqueue'; filenames: string[] }
+  | { action: 'remove'; jobIds: string[] }
+  | { action: 'reorder'; jobIds: string[] } // every queued job, in the new order
+  | { action: 'pause' }
+  | { action: 'start' } // resume the queue; also confirms the bed is clear
+  | { action: 'configure'; requireBedClear: boolean }
+
+export type PrintQueueAction = PrintQueueRequest['action']
+
+const MAX_FILENAMES = 50
+
+const isStringList = (value: unknown, max: number): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.length <= max &&
+  value.every(item => typeof item === 'string' && item.length > 0)
+
+export function isPrintQueueRequest(body: unknown): body is PrintQueueRequest {
+  if (!body || typeof body !== 'object') return false
+  const request = body as Record<string, unknown>
+
+  switch (request.action) {
+    case 'enqueue':
+      return isStringList(request.filenames, MAX_FILENAMES)
+    case 'remove':
+    case 'reorder':
+      return isStringList(request.jobIds, 1000)
+    case 'pause':
+    case 'start':
+      return true
+    case 'configure':
+      return typeof request.requireBedClear === 'boolean'
+    default:
+      return false
+  }
+}
+
+/**
+ * Check that a reorder lists every queued job exactly once.
+ * Returns an error message, or null when the order may be applied.
+ */
+export function validateQueueOrder(jobs: QueuedPrintJob[], jobIds: string[]): string | null {
+  const queued = new Set(jobs.map(job => job.id))
+  if (jobIds.length !== queued.size || new Set(jobIds).size !== jobIds.length || !jobIds.every(id => queued.has(id))) {
+    return 'The queue changed; reload it and try again'
+  }
+  return null
+}
+
+// Human-readable summary for toasts and the audit log
+export function describePrintQueueRequest(request: PrintQueueRequest): string {
+  switch (request.action) {
+    case 'enqueue':
+      return request.filenames.length === 1
+        ? `Queued ${request.filenames[0]}`
+        : `Queued ${request.filenames.length} files`
+    case 'remove':
+      return request.jobIds.length === 1 ? 'Removed a queued job' : `Removed ${request.jobIds.length} queued jobs`
+    case 'reorder':
+      return 'Reordered the print queue'
+    case 'pause':
+      return 'Print queue paused'
+    case 'start':
+      return 'Print queue started'
+    case 'configure':
+      return request.requireBedClear
+        ? 'Print queue waits for the bed to be cleared'
+        : 'Print queue starts the next job automatically'
+  }
+}
+
+/**
+ * Fetch the print queue through the dashboard API.
+ * Returns null when no queue is available (no `[job_queue]` and no database) or it is hidden.
+ */
+export async function fetchPrintQueue(printerId?: number): Promise<PrintQueueStatus | null> {
+  const response = await fetch(withPrinterId('/api/printer/queue', printerId))
+  if (response.status === 503 || response.status === 403) {
+    return null
+  }
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to load the print queue')
+  }
+
+  return data.queue
+}
+
+/**
+ * Send a print queue request through the dashboard API (requires operator role)
+ */
+export async function sendPrintQueueRequest(request: PrintQueueRequest, printerId?: number): Promise<{ message: string; queue: PrintQueueStatus }> {
+  const response = await fetch(withPrinterId('/api/printer/queue', printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Print queue request failed')
+  }
+
+  return { message: data.message, queue: data.queue }
+}
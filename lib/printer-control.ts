@@ -0,0 +1,206 @@
+import crypto from 'crypto'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import type { AuthUser } from './permissions'
+
+/**
+ * Printer control actions: confirmation tokens for destructive actions
+ * and the audit trail of who triggered what.
+ */
+
+export type PrinterControlAction =
+  | 'emergency_stop'
+  | 'shutdown'
+  | 'firmware_restart'
+  | 'klipper_restart'
+  | 'moonraker_restart'
+  | 'print_pause'
+  | 'print_resume'
+  | 'print_cancel'
+  | 'print_start'
+  | 'gcode_script'
+  | 'motion'
+  | 'print_queue'
+
+// Actions that need a confirmation token before they run
+export type DestructiveAction = Extract<PrinterControlAction, 'emergency_stop' | 'shutdown'>
+
+export const DESTRUCTIVE_ACTIONS: DestructiveAction[] = ['emergency_stop', 'shutdown']
+
+const CONFIRMATION_TOKEN_TTL_MS = 60 * 1000
+
+// G-code that stops or restarts the printer. It is refused in scripts, so the
+// emergency stop and restart controls stay the only way to send it.
+const RESTRICTED_GCODE_COMMANDS = ['M112', 'FIRMWARE_RESTART', 'RESTART']
+
+export interface ControlAuditEntry {
+  id: number
+  user_id: number | null
+  printer_id: number | null
+  username: string
+  action: PrinterControlAction
+  success: boolean
+  message: string | null
+  ip_address: string | null
+  created_at: string
+}
+
+interface PendingConfirmation {
+  userId: number
+  printerId: number
+  action: DestructiveAction
+  expiresAt: number
+}
+
+// Kept on globalThis so every route handler sees the same pending tokens
+const globalForControl = globalThis as unknown as {
+  pendingConfirmations?: Map<string, PendingConfirmation>
+}
+
+function getPendingConfirmations(): Map<string, PendingConfirmation> {
+  if (!globalForControl.pendingConfirmations) {
+    globalForControl.pendingConfirmations = new Map()
+  }
+  return globalForControl.pendingConfirmations
+}
+
+export function isDestructiveAction(action: unknown): action is DestructiveAction {
+  return typeof action === 'string' && DESTRUCTIVE_ACTIONS.includes(action as DestructiveAction)
+}
+
+/**
+ * The command of each line of a G-code script, upper case, e.g. `G1` or `SET_HEATER_TEMPERATURE`
+ */
+export function getGcodeCommands(script: string): string[] {
+  const commands: string[] = []
+
+  for (const rawLine of script.split('\n')) {
+    // Drop comments, checksums and line numbers
+    const line = rawLine.split(/[;*]/)[0].trim().replace(/^N\d+\s*/i, '')
+    if (!line) continue
+
+    // Klipper reads G01 as G1
+    const classic = line.match(/^([GM])(\d+)/i)
+    commands.push(classic ? `${classic[1].toUpperCase()}${parseInt(classic[2], 10)}` : line.split(/\s+/)[0].toUpperCase())
+  }
+
+  return commands
+}
+
+/**
+ * The first command in `script` that must go through its dedicated route, or null
+ */
+export function findRestrictedGcodeCommand(script: string): string | null {
+  return getGcodeCommands(script).find(command => RESTRICTED_GCODE_COMMANDS.includes(command)) ?? null
+}
+
+/**
+ * Issue a single-use token that lets `user` perform `action` on a printer within the next minute
+ */
+export function issueConfirmationToken(
+  user: AuthUser,
+  action: DestructiveAction,
+  printerId: number
+): { token: string; expiresAt: Date } {
+  const pending = getPendingConfirmations()
+  const now = Date.now()
+
+  // Drop expired tokens
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt < now) {
+      pending.delete(token)
+    }
+  }
+
+  const token = crypto.randomBytes(24).toString('base64url')
+  const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS
+  pending.set(token, { userId: user.id, printerId, action, expiresAt })
+
+  return { token, expiresAt: new Date(expiresAt) }
+}
+
+/**
+ * Validate and consume a confirmation token. Tokens are bound to the user, action and printer they were issued for.
+ */
+export function consumeConfirmationToken(
+  user: AuthUser,
+  action: DestructiveAction,
+  printerId: number,
+  token: unknown
+): boolean {
+  if (typeof token !== 'string' || !token) {
+    return false
+  }
+
+  const pending = getPendingConfirmations()
+  const entry = pending.get(token)
+  if (!entry) {
+    return false
+  }
+
+  pending.delete(token)
+  return (
+    entry.userId === user.id &&
+    entry.printerId === printerId &&
+    entry.action === action &&
+    entry.expiresAt >= Date.now()
+  )
+}
+
+/**
+ * Record a control action in the audit log
+ */
+export async function recordControlAction(entry: {
+  user: AuthUser
+  printerId?: number | null
+  action: PrinterControlAction
+  success: boolean
+  message?: string | null
+  ipAddress?: string | null
+}): Promise<void> {
+  const { user, printerId = null, action, success, message = null, ipAddress = null } = entry
+
+  console.log(
+    `[Audit] ${user.username} ${action}${printerId ? ` on printer ${printerId}` : ''} ${success ? 'succeeded' : 'failed'}${message ? `: ${message}` : ''}`
+  )
+
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  try {
+    await initializeDatabase()
+    await query(
+      `INSERT INTO printer_control_audit (user_id, printer_id, username, action, success, message, ip_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [user.id || null, printerId, user.username, action, success, message, ipAddress]
+    )
+  } catch (error) {
+    console.error('Error recording control action:', error)
+  }
+}
+
+/**
+ * Get the most recent control actions, optionally for a single printer
+ */
+export async function getControlAuditLog(limit: number = 50, printerId?: number): Promise<ControlAuditEntry[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  try {
+    await initializeDatabase()
+    if (printerId !== undefined) {
+      return await query<ControlAuditEntry>(
+        'SELECT * FROM printer_control_audit WHERE printer_id = $1 ORDER BY created_at DESC LIMIT $2',
+        [printerId, limit]
+      )
+    }
+    return await query<ControlAuditEntry>(
+      'SELECT * FROM printer_control_audit ORDER BY created_at DESC LIMIT $1',
+      [limit]
+    )
+  } catch (error) {
+    console.error('Error fetching control audit log:', error)
+    return []
+  }
+}
@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events'
+import type { PrinterConfig } from './printers'
+import type { PrinterStatus } from './types'
+import type { PrintEstimateBasis } from './print-eta'
+import type { PrinterStatusDiff } from './privacy'
+import { getMoonrakerRelay, type MoonrakerRelay, type RelayState } from './moonraker-relay'
+import { transformWebSocketToPrinterStatus } from './websocket-transformer'
+import { getPrintEstimateBasis } from './print-jobs'
+
+/**
+ * Transformed printer events for `/api/printer/events`.
+ *
+ * Each printer gets one hub on top of its Moonraker relay. The hub turns the
+ * relay's raw objects into `PrinterStatus`, emits what changed, and keeps the
+ * last events in a ring buffer so a client reconnecting with `Last-Event-ID`
+ * gets what it missed instead of starting over.
+ */
+
+// Relay updates are coalesced, since toolhead position changes many times a second while printing
+const STATUS_INTERVAL_MS = 500
+const TEMPERATURE_INTERVAL_MS = 1000
+// About a minute of events while printing
+const BUFFER_SIZE = 200
+// Like the relay, stay attached for a while so a reconnecting client can replay
+const IDLE_DETACH_MS = 30000
+
+// Sent as temperature events rather than in status diffs
+const TEMPERATURE_KEYS = ['temperatures', 'heaters', 'sensors'] as const
+
+export interface PrinterEventState {
+  connected: boolean // Moonraker WebSocket is open
+  klippyState: RelayState['klippyState']
+  printState: PrinterStatus['print']['state']
+}
+
+export interface PrinterEventSnapshot extends PrinterEventState {
+  status: PrinterStatus | null // null until the relay has received the printer's objects
+}
+
+export interface TemperatureSample {
+  timestamp: number
+  extruder: PrinterStatus['temperatures']['extruder']
+  bed: PrinterStatus['temperatures']['bed']
+  heaters: PrinterStatus['heaters']
+  sensors: PrinterStatus['sensors']
+}
+
+export type BufferedPrinterEvent =
+  | { id: string; event: 'status'; data: PrinterStatusDiff }
+  | { id: string; event: 'temperature'; data: TemperatureSample }
+  | { id: string; event: 'state'; data: PrinterEventState }
+
+interface PrinterEventHubEvents {
+  event: [BufferedPrinterEvent]
+  // The printer was edited or removed; subscribers should reconnect
+  closed: []
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * What changed between two statuses, two levels deep: sections such as `print`
+ * only carry their changed fields, while arrays are replaced whole.
+ * Temperatures are left out. Returns null when nothing changed.
+ */
+function diffPrinterStatus(previous: PrinterStatus | null, next: PrinterStatus): PrinterStatusDiff | null {
+  const diff: Record<string, unknown> = {}
+
+  for (const key of Object.keys(next) as (keyof PrinterStatus)[]) {
+    if ((TEMPERATURE_KEYS as readonly string[]).includes(key)) continue
+
+    const before: unknown = previous?.[key]
+    const after: unknown = next[key]
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+      const changed = Object.keys(after).filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      if (changed.length > 0) {
+        diff[key] = Object.fromEntries(changed.map(field => [field, after[field]]))
+      }
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      diff[key] = after
+    }
+  }
+
+  return Object.keys(diff).length > 0 ? diff as PrinterStatusDiff : null
+}
+
+export class PrinterEventHub extends EventEmitter<PrinterEventHubEvents> {
+  // Ids are `${epoch}-${sequence}`, so ids from an earlier hub or an earlier attachment never match
+  private epoch = ''
+  private sequence = 0
+  private buffer: BufferedPrinterEvent[] = []
+  private status: PrinterStatus | null = null
+  private state: PrinterEventState = { connected: false, klippyState: 'disconnected', printState: 'offline' }
+  private estimateBasis: PrintEstimateBasis | null = null
+  private estimateFilename: string | null = null
+  private lastTemperatureAt = 0
+  private subscribers = 0
+  private attached = false
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(readonly relay: MoonrakerRelay) {
+    super()
+    // One listener per client
+    this.setMaxListeners(0)
+  }
+
+  /**
+   * Register a subscriber, attaching to the relay if the hub was idle
+   */
+  acquire(): void {
+    this.subscribers++
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (!this.attached) {
+      this.attach()
+    }
+  }
+
+  release(): void {
+    this.subscribers = Math.max(0, this.subscribers - 1)
+    if (this.subscribers === 0 && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null
+        if (this.subscribers === 0) {
+          this.detach()
+        }
+      }, IDLE_DETACH_MS)
+    }
+  }
+
+  getSnapshot(): { id: string; snapshot: PrinterEventSnapshot } {
+    return { id: this.currentId(), snapshot: { ...this.state, status: this.status } }
+  }
+
+  /**
+   * Events after `lastEventId`, or null when that id is not in the buffer
+   * (too old, or from before a restart) and the client needs a snapshot
+   */
+  getEventsSince(lastEventId: string): BufferedPrinterEvent[] | null {
+    if (lastEventId === this.currentId()) {
+      return []
+    }
+
+    const index = this.buffer.findIndex(event => event.id === lastEventId)
+    return index === -1 ? null : this.buffer.slice(index + 1)
+  }
+
+  close(): void {
+    this.detach()
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    this.emit('closed')
+    this.removeAllListeners()
+  }
+
+  private currentId(): string {
+    return `${this.epoch}-${this.sequence}`
+  }
+
+  private onStatus = () => this.scheduleFlush()
+
+  private onState = (state: RelayState) => {
+    this.setState(state)
+    // A disconnect clears the relay's objects without a status update
+    this.scheduleFlush()
+  }
+
+  private onClosed = () => this.close()
+
+  private attach(): void {
+    this.attached = true
+    // Events were not recorded while detached, so earlier ids can no longer be replayed
+    this.epoch = Date.now().toString(36)
+    this.sequence = 0
+    this.buffer = []
+    this.status = null
+
+    this.relay.on('status', this.onStatus)
+    this.relay.on('state', this.onState)
+    this.relay.on('closed', this.onClosed)
+    this.relay.acquire()
+
+    this.setState(this.relay.getSnapshot())
+    this.flush()
+  }
+
+  private detach(): void {
+    if (!this.attached) {
+      return
+    }
+    this.attached = false
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    this.relay.off('status', this.onStatus)
+    this.relay.off('state', this.onState)
+    this.relay.off('closed', this.onClosed)
+    this.relay.release()
+  }
+
+  private scheduleFlush(): void {
+    if (!this.flushTimer && this.attached) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        this.flush()
+      }, STATUS_INTERVAL_MS)
+    }
+  }
+
+  private flush(): void {
+    const objects = this.relay.getSnapshot().status
+    if (Object.keys(objects).length === 0) {
+      this.status = null
+      this.setState({ printState: 'offline' })
+      return
+    }
+
+    const next = transformWebSocketToPrinterStatus(objects, this.estimateBasis)
+    const diff = diffPrinterStatus(this.status, next)
+    this.status = next
+    this.updateEstimateBasis(next)
+
+    if (diff) {
+      this.push({ event: 'status', data: diff })
+    }
+
+    const now = Date.now()
+    if (now - this.lastTemperatureAt >= TEMPERATURE_INTERVAL_MS) {
+      this.lastTemperatureAt = now
+      this.push({
+        event: 'temperature',
+        data: {
+          timestamp: now,
+          extruder: next.temperatures.extruder,
+          bed: next.temperatures.bed,
+          heaters: next.heaters,
+          sensors: next.sensors
+        }
+      })
+    }
+
+    this.setState({ printState: next.print.state })
+  }
+
+  // Load the slicer estimate and learned correction for the file being printed, as the browser does
+  private updateEstimateBasis(status: PrinterStatus): void {
+    const active = status.print.state === 'printing' || status.print.state === 'paused'
+    const filename = active ? status.print.filename : null
+    if (filename === this.estimateFilename) {
+      return
+    }
+
+    this.estimateFilename = filename
+    this.estimateBasis = null
+    if (!filename) {
+      return
+    }
+
+    getPrintEstimateBasis(this.relay.printer, filename)
+      .then((basis) => {
+        if (this.estimateFilename === filename) {
+          this.estimateBasis = basis
+          this.scheduleFlush()
+        }
+      })
+      .catch((error) => {
+        console.error(`[Events] ${this.relay.printer.name}: failed to load print estimate:`, error)
+      })
+  }
+
+  private setState(changes: Partial<PrinterEventState>): void {
+    const next: PrinterEventState = {
+      connected: changes.connected ?? this.state.connected,
+      klippyState: changes.klippyState ?? this.state.klippyState,
+      printState: changes.printState ?? this.state.printState
+    }
+    if (next.connected !== this.state.connected ||
+      next.klippyState !== this.state.klippyState ||
+      next.printState !== this.state.printState) {
+      this.state = next
+      this.push({ event: 'state', data: next })
+    }
+  }
+
+  private push(event: Omit<BufferedPrinterEvent, 'id'>): void {
+    this.sequence++
+    const buffered = { ...event, id: this.currentId() } as BufferedPrinterEvent
+    this.buffer.push(buffered)
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift()
+    }
+    this.emit('event', buffered)
+  }
+}
+
+// Kept on globalThis so every route handler shares one hub per printer
+const globalForEvents = globalThis as unknown as {
+  printerEventHubs?: Map<number, PrinterEventHub>
+}
+
+/**
+ * Shared event hub for `printer`, replaced together with its relay when the printer's settings change
+ */
+export function getPrinterEventHub(printer: PrinterConfig): PrinterEventHub {
+  if (!globalForEvents.printerEventHubs) {
+    globalForEvents.printerEventHubs = new Map()
+  }
+
+  const hubs = globalForEvents.printerEventHubs
+  const relay = getMoonrakerRelay(printer)
+  const existing = hubs.get(printer.id)
+  if (existing && existing.relay === relay) {
+    return existing
+  }
+
+  existing?.close()
+  const hub = new PrinterEventHub(relay)
+  hubs.set(printer.id, hub)
+  return hub
+}
@@ -0,0 +1,136 @@
+/**
+ * G-code file management shared by the file API routes and the file manager UI.
+ * Paths are relative to Moonraker's `gcodes` root, e.g. `parts/bracket.gcode`.
+ */
+
+import type { ThumbnailInfo } from './types'
+import { withPrinterId } from './utils/api'
+
+export interface PrinterFileEntry {
+  path: string
+  filename: string
+  size: number
+  modified: number // unix seconds
+  estimated_time?: number
+  thumbnail_path?: string // relative to the gcodes root, for /api/printer/thumbnail
+}
+
+export interface PrinterDirectoryEntry {
+  path: string
+  dirname: string
+}
+
+export interface PrinterFileListing {
+  path: string
+  directories: PrinterDirectoryEntry[]
+  files: PrinterFileEntry[]
+}
+
+export type FileSortKey = 'modified' | 'size' | 'estimated_time' | 'filename'
+
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * Normalize a path relative to the gcodes root.
+ * Returns null for paths that try to escape the root.
+ */
+export function normalizeFilePath(path: string | null | undefined): string | null {
+  const segments = (path || '').split('/').filter(segment => segment && segment !== '.')
+
+  if (segments.some(segment => segment === '..')) {
+    return null
+  }
+
+  return segments.join('/')
+}
+
+// Percent-encode each segment of a normalized path for a Moonraker file URL
+export const encodePath = (filePath: string) => filePath.split('/').map(encodeURIComponent).join('/')
+
+// Parent directory of a path, '' for the root
+export function getParentPath(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+/**
+ * Pick the largest thumbnail of a gcode file and return its path relative to the gcodes root.
+ * Moonraker reports thumbnail paths relative to the directory containing the file.
+ */
+export function getThumbnailPath(filePath: string, thumbnails: ThumbnailInfo[] | undefined): string | undefined {
+  const largest = (thumbnails || []).reduce<ThumbnailInfo | null>(
+    (best, thumb) => (!best || thumb.width > best.width ? thumb : best),
+    null
+  )
+  if (!largest) {
+    return undefined
+  }
+
+  const directory = getParentPath(filePath)
+  return directory ? `${directory}/${largest.relative_path}` : largest.relative_path
+}
+
+export function sortPrinterFiles(files: PrinterFileEntry[], key: FileSortKey, direction: SortDirection): PrinterFileEntry[] {
+  const multiplier = direction === 'asc' ? 1 : -1
+
+  return [...files].sort((a, b) => {
+    if (key === 'filename') {
+      return a.filename.localeCompare(b.filename) * multiplier
+    }
+    // Files without an estimate always sort last
+    const aValue = a[key] ?? null
+    const bValue = b[key] ?? null
+    if (aValue === null && bValue === null) return 0
+    if (aValue === null) return 1
+    if (bValue === null) return -1
+    return (aValue - bValue) * multiplier
+  })
+}
+
+/**
+ * List a directory through the dashboard API
+ */
+export async function fetchPrinterFiles(path: string = '', printerId?: number): Promise<PrinterFileListing> {
+  const response = await fetch(withPrinterId(`/api/printer/files?path=${encodeURIComponent(path)}`, printerId), { cache: 'no-store' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to list files')
+  }
+
+  return data
+}
+
+/**
+ * Upload a file into `path` (requires operator role).
+ * The file is sent as the raw request body so the server can stream it on to Moonraker.
+ */
+export async function uploadPrinterFile(file: File, path: string = '', printerId?: number): Promise<{ message: string; path: string }> {
+  const params = new URLSearchParams({ filename: file.name, path })
+  const response = await fetch(withPrinterId(`/api/printer/files/upload?${params}`, printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to upload file')
+  }
+
+  return { message: data.message, path: data.path }
+}
+
+/**
+ * Delete a file (requires operator role)
+ */
+export async function deletePrinterFile(path: string, printerId?: number): Promise<{ message: string }> {
+  const response = await fetch(withPrinterId(`/api/printer/files?path=${encodeURIComponent(path)}`, printerId), { method: 'DELETE' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to delete file')
+  }
+
+  return { message: data.message }
+}
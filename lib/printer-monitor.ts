@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events'
+import { mapPrintState, type PrintState } from './print-job'
+import { getPrinterBaseUrl, type PrinterConfig } from './printers'
+import { getMoonrakerClient } from './moonraker-client'
+
+/**
+ * Server-side printer monitor.
+ *
+ * One monitor per printer polls Moonraker on an interval and emits a `sample`
+ * for every successful poll, plus a `transition` whenever the print state changes.
+ * Background services (job history, temperature recording, ...) subscribe to it
+ * instead of each polling the printer themselves. See `printer-services.ts`.
+ */
+
+const POLL_INTERVAL_MS = parseInt(process.env.PRINTER_MONITOR_INTERVAL_MS || '2000', 10)
+
+const MONITORED_OBJECTS = ['webhooks', 'print_stats', 'virtual_sdcard', 'extruder', 'heater_bed']
+
+export interface HeaterSample {
+  actual: number
+  target: number
+  power: number
+}
+
+export interface PrinterSample {
+  timestamp: number // ms since epoch
+  klippyState: string
+  klippyMessage: string // webhooks.state_message, e.g. the shutdown reason
+  printState: PrintState
+  message: string
+  filename: string | null
+  progress: number // 0-1
+  printDuration: number // seconds spent actually printing
+  totalDuration: number // seconds including pauses
+  filamentUsed: number // mm
+  currentLayer: number | null
+  totalLayers: number | null
+  temperatures: {
+    extruder: HeaterSample
+    bed: HeaterSample
+  }
+}
+
+export interface PrinterTransition {
+  from: PrintState
+  to: PrintState
+  previous: PrinterSample
+  current: PrinterSample
+}
+
+export interface PrinterMonitorEvents {
+  sample: [PrinterSample]
+  transition: [PrinterTransition]
+  unreachable: [Error]
+}
+
+function toHeaterSample(heater: { temperature?: number; target?: number; power?: number } | undefined): HeaterSample {
+  return {
+    actual: heater?.temperature ?? 0,
+    target: heater?.target ?? 0,
+    power: heater?.power ?? 0
+  }
+}
+
+export class PrinterMonitor extends EventEmitter<PrinterMonitorEvents> {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private latest: PrinterSample | null = null
+  private running = false
+
+  constructor(readonly printer: PrinterConfig) {
+    super()
+  }
+
+  get printerId(): number {
+    return this.printer.id
+  }
+
+  get isRunning(): boolean {
+    return this.running
+  }
+
+  // Most recent successful sample, or null before the first poll completes
+  getLatest(): PrinterSample | null {
+    return this.latest
+  }
+
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    this.running = true
+    console.log(`[Monitor] Polling ${this.printer.name} (${getPrinterBaseUrl(this.printer)}) every ${POLL_INTERVAL_MS}ms`)
+    this.poll()
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const sample = await this.fetchSample()
+      const previous = this.latest
+      this.latest = sample
+      this.emit('sample', sample)
+
+      if (previous && previous.printState !== sample.printState) {
+        this.emit('transition', { from: previous.printState, to: sample.printState, previous, current: sample })
+      }
+    } catch (error) {
+      // Keep the last known state; a network blip is not a print state change
+      this.emit('unreachable', error instanceof Error ? error : new Error(String(error)))
+    } finally {
+      if (this.running) {
+        this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS)
+      }
+    }
+  }
+
+  private async fetchSample(): Promise<PrinterSample> {
+    // No retries: the next poll is the retry
+    const data = await getMoonrakerClient(this.printer).queryObjects(MONITORED_OBJECTS, { retries: 0 })
+    const status = data.result?.status || {}
+    const printStats = status.print_stats || {}
+    const klippyState = status.webhooks?.state || 'offline'
+
+    return {
+      timestamp: Date.now(),
+      klippyState,
+      klippyMessage: status.webhooks?.state_message || '',
+      printState: mapPrintState(printStats.state, klippyState),
+      message: printStats.message || '',
+      filename: printStats.filename || null,
+      progress: status.virtual_sdcard?.progress ?? 0,
+      printDuration: printStats.print_duration ?? 0,
+      totalDuration: printStats.total_duration ?? 0,
+      filamentUsed: printStats.filament_used ?? 0,
+      currentLayer: printStats.info?.current_layer ?? null,
+      totalLayers: printStats.info?.total_layer ?? null,
+      temperatures: {
+        extruder: toHeaterSample(status.extruder),
+        bed: toHeaterSample(status.heater_bed)
+      }
+    }
+  }
+}
+
+// Kept on globalThis so instrumentation and route handlers share the same monitors
+const globalForMonitor = globalThis as unknown as {
+  printerMonitors?: Map<number, PrinterMonitor>
+}
+
+function getMonitorRegistry(): Map<number, PrinterMonitor> {
+  if (!globalForMonitor.printerMonitors) {
+    globalForMonitor.printerMonitors = new Map()
+  }
+  return globalForMonitor.printerMonitors
+}
+
+export function getPrinterMonitor(printerId: number): PrinterMonitor | null {
+  return getMonitorRegistry().get(printerId) || null
+}
+
+export function getPrinterMonitors(): PrinterMonitor[] {
+  return [...getMonitorRegistry().values()]
+}
+
+/**
+ * Create and register a monitor for `printer`, replacing any existing one
+ */
+export function createPrinterMonitor(printer: PrinterConfig): PrinterMonitor {
+  removePrinterMonitor(printer.id)
+  const monitor = new PrinterMonitor(printer)
+  getMonitorRegistry().set(printer.id, monitor)
+  return monitor
+}
+
+export function removePrinterMonitor(printerId: number): void {
+  const monitor = getMonitorRegistry().get(printerId)
+  if (monitor) {
+    monitor.stop()
+    monitor.removeAllListeners()
+    getMonitorRegistry().delete(printerId)
+  }
+}
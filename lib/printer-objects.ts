@@ -0,0 +1,168 @@
+import type { HeaterStatus, TemperatureSensorStatus, FanStatus, FilamentSensorStatus } from './types'
+
+/**
+ * Klipper object discovery.
+ *
+ * Printers differ in how many heaters, sensors and fans they have, so instead
+ * of a fixed object list the relay and the status route ask Klipper for
+ * `printer.objects.list` and pick every object of the kinds below.
+ */
+
+// Objects every printer has, read by the dashboard directly
+export const BASE_OBJECTS = [
+  // Print status
+  'print_stats',
+  'virtual_sdcard',
+  'display_status',
+
+  // Positions and movement
+  'toolhead',
+  'gcode_move',
+  'motion_report',
+
+  // System
+  'webhooks',
+  'idle_timeout',
+  'system_stats',
+
+  // Heaters list
+  'heaters',
+]
+
+type ComponentCategory = 'heater' | 'sensor' | 'fan' | 'filament'
+
+// Klipper config sections, matched against the first word of an object name
+const COMPONENT_TYPES: Record<string, ComponentCategory[]> = {
+  heater_bed: ['heater'],
+  heater_generic: ['heater'],
+  temperature_sensor: ['sensor'],
+  // Has a temperature and a fan speed, so it shows up in both collections
+  temperature_fan: ['sensor', 'fan'],
+  fan: ['fan'],
+  fan_generic: ['fan'],
+  controller_fan: ['fan'],
+  heater_fan: ['fan'],
+  filament_switch_sensor: ['filament'],
+  filament_motion_sensor: ['filament'],
+}
+
+// extruder, extruder1, extruder2, ...
+const EXTRUDER_PATTERN = /^extruder\d*$/
+
+function getObjectType(name: string): string {
+  const type = name.split(' ')[0]
+  return EXTRUDER_PATTERN.test(type) ? 'extruder' : type
+}
+
+function getCategories(name: string): ComponentCategory[] {
+  const type = getObjectType(name)
+  return type === 'extruder' ? ['heater'] : COMPONENT_TYPES[type] || []
+}
+
+// "heater_generic chamber" -> "chamber", "extruder1" -> "extruder1", "fan" -> "fan"
+function getLabel(name: string): string {
+  const space = name.indexOf(' ')
+  return space === -1 ? name : name.slice(space + 1)
+}
+
+/**
+ * Objects to subscribe to or query, given everything Klipper reports
+ */
+export function selectPrinterObjects(available: string[]): string[] {
+  const components = available.filter(name => getCategories(name).length > 0)
+  return [...BASE_OBJECTS, ...components]
+}
+
+// Primary extruder first, then the rest in Klipper's order
+function sortHeaters(a: HeaterStatus, b: HeaterStatus): number {
+  const rank = (heater: HeaterStatus) => heater.name === 'extruder' ? 0 : heater.type === 'extruder' ? 1 : heater.type === 'heater_bed' ? 2 : 3
+  return rank(a) - rank(b)
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Build the heater, sensor and fan collections of `PrinterStatus` from raw
+ * Klipper objects. Objects are found by name, so anything selected by
+ * `selectPrinterObjects` and present in `status` is included.
+ */
+export function extractPrinterComponents(status: Record<string, any>): {
+  heaters: HeaterStatus[]
+  sensors: TemperatureSensorStatus[]
+  fans: FanStatus[]
+  filamentSensors: FilamentSensorStatus[]
+} {
+  const heaters: HeaterStatus[] = []
+  const sensors: TemperatureSensorStatus[] = []
+  const fans: FanStatus[] = []
+  const filamentSensors: FilamentSensorStatus[] = []
+
+  for (const name of Object.keys(status)) {
+    const object = status[name]
+    if (!object || typeof object !== 'object') continue
+
+    const type = getObjectType(name)
+    const label = getLabel(name)
+
+    for (const category of getCategories(name)) {
+      switch (category) {
+        case 'heater':
+          heaters.push({
+            name,
+            label,
+            type: type as HeaterStatus['type'],
+            actual: round1(object.temperature || 0),
+            target: object.target || 0,
+            power: round2(object.power || 0),
+          })
+          break
+        case 'sensor':
+          sensors.push({
+            name,
+            label,
+            type: type as TemperatureSensorStatus['type'],
+            actual: round1(object.temperature || 0),
+            target: type === 'temperature_fan' ? object.target ?? null : null,
+          })
+          break
+        case 'fan':
+          fans.push({
+            name,
+            label,
+            type: type as FanStatus['type'],
+            speed: round2(object.speed || 0),
+            rpm: typeof object.rpm === 'number' ? Math.round(object.rpm) : null,
+          })
+          break
+        case 'filament':
+          filamentSensors.push({
+            name,
+            label,
+            type: type as FilamentSensorStatus['type'],
+            enabled: object.enabled ?? true,
+            detected: !!object.filament_detected,
+          })
+          break
+      }
+    }
+  }
+
+  heaters.sort(sortHeaters)
+  return { heaters, sensors, fans, filamentSensors }
+}
+
+/**
+ * Heaters and sensors other than the primary extruder and bed, which
+ * views already show from `PrinterStatus.temperatures`
+ */
+export function getAdditionalTemperatures(status: {
+  heaters?: HeaterStatus[]
+  sensors?: TemperatureSensorStatus[]
+}): { name: string; label: string; actual: number; target: number | null }[] {
+  const heaters = (status.heaters || [])
+    .filter(heater => heater.name !== 'extruder' && heater.name !== 'heater_bed')
+    .map(({ name, label, actual, target }) => ({ name, label, actual, target }))
+  const sensors = (status.sensors || []).map(({ name, label, actual, target }) => ({ name, label, actual, target }))
+  return [...heaters, ...sensors]
+}
@@ -0,0 +1,111 @@
+import { initializeDatabase, isDatabaseAvailable } from './database'
+import { getPrinters, type PrinterConfig } from './printers'
+import { createPrinterMonitor, getPrinterMonitors, removePrinterMonitor } from './printer-monitor'
+import { attachPrintJobRecorder } from './print-jobs'
+import { attachPrintQueueScheduler } from './print-queue-backend'
+import { attachNotificationDetector } from './notification-events'
+import { attachWebhookEmitter } from './webhook-events'
+import { startWebhookDelivery } from './webhook-delivery'
+import { removeMoonrakerRelay } from './moonraker-relay'
+import { attachTemperatureRecorder, startTemperatureRollup } from './temperature-history'
+import { attachTimelapseRecorder } from './timelapse-recorder'
+import { attachCameraRecorder, removeCameraRecorder } from './camera-recorder'
+import { attachFailureDetector, removeFailureDetector } from './failure-detector'
+
+/**
+ * Background services per printer: a monitor polling Moonraker plus the
+ * recorders that listen to it. Started from `instrumentation.ts` and kept in
+ * sync with the printers table when printers are added, edited or removed.
+ */
+
+function startPrinterServices(printer: PrinterConfig): void {
+  const monitor = createPrinterMonitor(printer)
+
+  try {
+    attachPrintJobRecorder(monitor)
+  } catch (error) {
+    console.error(`Failed to start print job recorder for ${printer.name}:`, error)
+  }
+
+  try {
+    attachPrintQueueScheduler(monitor)
+  } catch (error) {
+    console.error(`Failed to start print queue scheduler for ${printer.name}:`, error)
+  }
+
+  try {
+    attachNotificationDetector(monitor)
+  } catch (error) {
+    console.error(`Failed to start notifications for ${printer.name}:`, error)
+  }
+
+  try {
+    attachWebhookEmitter(monitor)
+  } catch (error) {
+    console.error(`Failed to start webhooks for ${printer.name}:`, error)
+  }
+
+  try {
+    attachTemperatureRecorder(monitor)
+  } catch (error) {
+    console.error(`Failed to start temperature recorder for ${printer.name}:`, error)
+  }
+
+  try {
+    attachTimelapseRecorder(monitor)
+  } catch (error) {
+    console.error(`Failed to start timelapse recorder for ${printer.name}:`, error)
+  }
+
+  try {
+    attachCameraRecorder(monitor)
+  } catch (error) {
+    console.error(`Failed to start camera recorder for ${printer.name}:`, error)
+  }
+
+  try {
+    attachFailureDetector(monitor)
+  } catch (error) {
+    console.error(`Failed to start failure detection for ${printer.name}:`, error)
+  }
+
+  monitor.start()
+}
+
+/**
+ * Start services for every enabled printer
+ */
+export async function startAllPrinterServices(): Promise<void> {
+  if (isDatabaseAvailable()) {
+    await initializeDatabase()
+  }
+
+  startTemperatureRollup()
+  startWebhookDelivery()
+  await syncPrinterServices()
+}
+
+/**
+ * Restart services whose printer changed, and stop those whose printer was disabled or removed
+ */
+export async function syncPrinterServices(): Promise<void> {
+  const printers = (await getPrinters()).filter(printer => printer.enabled)
+  const running = new Map(getPrinterMonitors().map(monitor => [monitor.printerId, monitor]))
+
+  for (const printer of printers) {
+    const monitor = running.get(printer.id)
+    running.delete(printer.id)
+
+    if (monitor && monitor.printer.updated_at === printer.updated_at) {
+      continue
+    }
+    startPrinterServices(printer)
+  }
+
+  for (const printerId of running.keys()) {
+    removePrinterMonitor(printerId)
+    removeMoonrakerRelay(printerId)
+    removeCameraRecorder(printerId)
+    removeFailureDetector(printerId)
+  }
+}
@@ -0,0 +1,255 @@
+import { NextRequest } from 'next/server'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+
+/**
+ * Printer registry.
+ *
+ * Printers live in the `printers` table. On first use the table is seeded with
+ * the printer from `PRINTER_HOST`/`MOONRAKER_PORT`, and without a database that
+ * environment printer is the only one. API routes pick a printer with the
+ * `printerId` query parameter and fall back to the first printer.
+ */
+
+export interface PrinterConfig {
+  id: number
+  name: string
+  host: string
+  port: number
+  api_key: string | null
+  camera_url_prefix: string | null
+  enabled: boolean
+  display_order: number
+  created_at: string
+  updated_at: string
+}
+
+// What the browser is allowed to see about a printer
+export type PublicPrinterInfo = Omit<PrinterConfig, 'api_key'> & { has_api_key: boolean }
+
+export interface PrinterInput {
+  name: string
+  host: string
+  port: number
+  api_key?: string | null
+  camera_url_prefix?: string | null
+  enabled?: boolean
+  display_order?: number
+}
+
+// Printer ID used for the environment printer when there is no database
+export const DEFAULT_PRINTER_ID = 1
+
+const PRINTER_CACHE_TTL_MS = 30 * 1000
+
+// Kept on globalThis so route handlers and background services share the cached list
+const globalForPrinters = globalThis as unknown as {
+  printerCache?: { printers: PrinterConfig[]; fetchedAt: number }
+  printersSeedPromise?: Promise<void> | null
+}
+
+function getEnvironmentPrinter(): PrinterConfig | null {
+  const host = process.env.PRINTER_HOST
+  if (!host) {
+    return null
+  }
+
+  const now = new Date(0).toISOString()
+  return {
+    id: DEFAULT_PRINTER_ID,
+    name: process.env.PRINTER_NAME || 'Printer',
+    host,
+    port: parseInt(process.env.MOONRAKER_PORT || '7127', 10),
+    api_key: process.env.MOONRAKER_API_KEY || null,
+    camera_url_prefix: process.env.CAMERA_URL_PREFIX || null,
+    enabled: true,
+    display_order: 0,
+    created_at: now,
+    updated_at: now
+  }
+}
+
+// Seed the printers table from the environment when it is empty
+async function ensurePrintersReady(): Promise<void> {
+  await initializeDatabase()
+
+  if (!globalForPrinters.printersSeedPromise) {
+    globalForPrinters.printersSeedPromise = seedEnvironmentPrinter().catch((error) => {
+      globalForPrinters.printersSeedPromise = null
+      throw error
+    })
+  }
+
+  return globalForPrinters.printersSeedPromise
+}
+
+async function seedEnvironmentPrinter(): Promise<void> {
+  const printer = getEnvironmentPrinter()
+  if (!printer) {
+    return
+  }
+
+  const existing = await query<{ count: string }>('SELECT COUNT(*) as count FROM printers')
+  if (parseInt(existing[0]?.count || '0', 10) > 0) {
+    return
+  }
+
+  await query(
+    `INSERT INTO printers (name, host, port, api_key, camera_url_prefix)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [printer.name, printer.host, printer.port, printer.api_key, printer.camera_url_prefix]
+  )
+  console.log(`Added printer "${printer.name}" from PRINTER_HOST`)
+}
+
+function invalidatePrinterCache(): void {
+  globalForPrinters.printerCache = undefined
+}
+
+/**
+ * All configured printers, in display order
+ */
+export async function getPrinters(): Promise<PrinterConfig[]> {
+  if (!isDatabaseAvailable()) {
+    const printer = getEnvironmentPrinter()
+    return printer ? [printer] : []
+  }
+
+  const cache = globalForPrinters.printerCache
+  if (cache && Date.now() - cache.fetchedAt < PRINTER_CACHE_TTL_MS) {
+    return cache.printers
+  }
+
+  try {
+    await ensurePrintersReady()
+    const printers = await query<PrinterConfig>('SELECT * FROM printers ORDER BY display_order, id')
+    globalForPrinters.printerCache = { printers, fetchedAt: Date.now() }
+    return printers
+  } catch (error) {
+    console.error('Error fetching printers:', error)
+    // Keep working with the environment printer if the database is down
+    const printer = getEnvironmentPrinter()
+    return printer ? [printer] : []
+  }
+}
+
+export async function getPrinter(id: number): Promise<PrinterConfig | null> {
+  const printers = await getPrinters()
+  return printers.find(printer => printer.id === id) || null
+}
+
+/**
+ * Resolve a `printerId` query parameter, from an API request or a page URL.
+ * Without the parameter the first enabled printer is used; disabled printers
+ * are never resolved.
+ */
+export async function resolvePrinterId(printerId: string | null | undefined): Promise<PrinterConfig | null> {
+  const printers = await getPrinters()
+
+  if (printerId) {
+    return printers.find(printer => printer.id === parseInt(printerId, 10) && printer.enabled) || null
+  }
+
+  return printers.find(printer => printer.enabled) || null
+}
+
+/**
+ * Resolve the printer for an API request from its `printerId` query parameter
+ */
+export async function resolvePrinter(request: NextRequest): Promise<PrinterConfig | null> {
+  return resolvePrinterId(request.nextUrl.searchParams.get('printerId'))
+}
+
+export function getPrinterBaseUrl(printer: PrinterConfig): string {
+  return `http://${printer.host}:${printer.port}`
+}
+
+// Prefix for relative webcam URLs reported by Moonraker
+export function getCameraUrlPrefix(printer: PrinterConfig): string {
+  return printer.camera_url_prefix || `http://${printer.host}`
+}
+
+export function toPublicPrinterInfo(printer: PrinterConfig): PublicPrinterInfo {
+  const { api_key, ...info } = printer
+  return { ...info, has_api_key: !!api_key }
+}
+
+export function isValidPrinterInput(input: unknown): input is PrinterInput {
+  if (!input || typeof input !== 'object') return false
+  const { name, host, port } = input as Record<string, unknown>
+  return (
+    typeof name === 'string' && name.trim().length > 0 && name.length <= 100 &&
+    typeof host === 'string' && /^[a-zA-Z0-9.-]+$/.test(host) &&
+    typeof port === 'number' && Number.isInteger(port) && port > 0 && port < 65536
+  )
+}
+
+export async function createPrinter(input: PrinterInput): Promise<PrinterConfig | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await ensurePrintersReady()
+  const rows = await query<PrinterConfig>(
+    `INSERT INTO printers (name, host, port, api_key, camera_url_prefix, enabled, display_order)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.host,
+      input.port,
+      input.api_key || null,
+      input.camera_url_prefix || null,
+      input.enabled ?? true,
+      input.display_order ?? 0
+    ]
+  )
+  invalidatePrinterCache()
+  return rows[0] || null
+}
+
+/**
+ * Update a printer. `api_key` is only changed when provided; pass an empty string to clear it.
+ */
+export async function updatePrinter(id: number, input: Partial<PrinterInput>): Promise<PrinterConfig | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await ensurePrintersReady()
+  const rows = await query<PrinterConfig>(
+    `UPDATE printers SET
+       name = COALESCE($1, name),
+       host = COALESCE($2, host),
+       port = COALESCE($3, port),
+       api_key = CASE WHEN $4::text IS NULL THEN api_key ELSE NULLIF($4, '') END,
+       camera_url_prefix = CASE WHEN $5::text IS NULL THEN camera_url_prefix ELSE NULLIF($5, '') END,
+       enabled = COALESCE($6, enabled),
+       display_order = COALESCE($7, display_order),
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $8
+     RETURNING *`,
+    [
+      input.name?.trim() ?? null,
+      input.host ?? null,
+      input.port ?? null,
+      input.api_key ?? null,
+      input.camera_url_prefix ?? null,
+      input.enabled ?? null,
+      input.display_order ?? null,
+      id
+    ]
+  )
+  invalidatePrinterCache()
+  return rows[0] || null
+}
+
+export async function deletePrinter(id: number): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await ensurePrintersReady()
+  const rows = await query<{ id: number }>('DELETE FROM printers WHERE id = $1 RETURNING id', [id])
+  invalidatePrinterCache()
+  return rows.length > 0
+}
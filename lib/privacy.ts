@@ -0,0 +1,79 @@
+/**
+ * Redaction helpers for private mode, shared by the status route and the
+ * live streams so all of them hide the same details from anonymous visitors.
+ */
+
+import type { PrinterStatus } from './types'
+
+// A full PrinterStatus or a partial update of it, as sent by /api/printer/events
+export type PrinterStatusDiff = {
+  [K in keyof PrinterStatus]?: Partial<PrinterStatus[K]>
+}
+
+// Replace the name with '█' of the same length, keeping the extension
+export function createRedactedFilename(originalFilename: string | null): string | null {
+  if (!originalFilename) return null
+
+  const length = originalFilename.length
+  const extension = originalFilename.split('.').pop()
+  const nameLength = originalFilename.lastIndexOf('.') > 0 ? originalFilename.lastIndexOf('.') : length
+
+  const redactedName = '█'.repeat(nameLength)
+
+  return extension && originalFilename.includes('.') ? `${redactedName}.${extension}` : redactedName
+}
+
+/**
+ * Redact a `PrinterStatus` or a diff of one: filenames are masked and layer
+ * numbers become -1. Fields missing from a diff stay missing.
+ */
+export function redactPrinterStatus<T extends PrinterStatusDiff>(status: T): T {
+  const redacted = { ...status }
+
+  if (status.print) {
+    redacted.print = {
+      ...status.print,
+      ...('filename' in status.print && { filename: createRedactedFilename(status.print.filename ?? null) }),
+      ...('currentLayer' in status.print && { currentLayer: status.print.currentLayer ? -1 : null }),
+      ...('totalLayers' in status.print && { totalLayers: status.print.totalLayers ? -1 : null })
+    }
+  }
+
+  if (status.file && 'name' in status.file) {
+    redacted.file = { ...status.file, name: createRedactedFilename(status.file.name ?? null) }
+  }
+
+  return redacted
+}
+
+/**
+ * Redact raw Klipper objects (a full status or a partial update) the same way
+ * `redactPrinterStatus` redacts `PrinterStatus`.
+ */
+export function redactPrinterObjects(status: Record<string, any>): Record<string, any> {
+  const redacted = { ...status }
+
+  if (status.print_stats) {
+    const printStats = { ...status.print_stats }
+    if ('filename' in printStats) {
+      printStats.filename = createRedactedFilename(printStats.filename)
+    }
+    if (printStats.info) {
+      printStats.info = {
+        ...printStats.info,
+        ...('current_layer' in printStats.info && { current_layer: printStats.info.current_layer ? -1 : null }),
+        ...('total_layer' in printStats.info && { total_layer: printStats.info.total_layer ? -1 : null })
+      }
+    }
+    redacted.print_stats = printStats
+  }
+
+  if (status.virtual_sdcard && 'file_path' in status.virtual_sdcard) {
+    redacted.virtual_sdcard = {
+      ...status.virtual_sdcard,
+      file_path: createRedactedFilename(status.virtual_sdcard.file_path)
+    }
+  }
+
+  return redacted
+}
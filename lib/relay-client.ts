@@ -0,0 +1,305 @@
+/**
+ * Printer Relay Client
+ *
+ * Browser side of the server's Moonraker relay. Live status arrives as
+ * server-sent events from `/api/printer/stream`; JSON-RPC calls go through
+ * `/api/printer/rpc`, which checks permissions before forwarding them.
+ * Browsers never connect to Moonraker themselves.
+ *
+ * Method names follow Moonraker's JSON-RPC API:
+ * https://moonraker.readthedocs.io/en/latest/web_api/
+ */
+
+import type { PrintEstimateBasis } from './print-eta'
+
+type NotificationCallback = (data: any) => void
+
+export interface GcodeStoreEntry {
+  message: string
+  time: number // Unix seconds
+  type: 'command' | 'response'
+}
+
+type KlippyState = 'disconnected' | 'startup' | 'ready' | 'shutdown' | 'error'
+
+interface RelayState {
+  connected: boolean
+  klippyState: KlippyState
+}
+
+interface SubscriptionObjects {
+  [key: string]: null | string[]
+}
+
+export class PrinterRelayClient {
+  private eventSource: EventSource | null = null
+  private query: string
+  private klippyState: KlippyState = 'disconnected'
+
+  // Notification handlers
+  private onStatusUpdate: NotificationCallback | null = null
+  private onKlippyReady: (() => void) | null = null
+  private onKlippyDisconnected: (() => void) | null = null
+  private onKlippyShutdown: (() => void) | null = null
+  // Several console panels may be open at once, so G-code output supports many listeners
+  private gcodeListeners = new Set<(line: string) => void>()
+
+  // Connection state
+  public isConnected = false
+  public isReady = false
+
+  constructor(printerId?: number) {
+    this.query = printerId !== undefined ? `?printerId=${printerId}` : ''
+  }
+
+  /**
+   * Open the event stream. Resolves with the first snapshot; the browser
+   * reconnects on its own afterwards and the server sends a fresh snapshot.
+   */
+  async connect(): Promise<void> {
+    if (this.eventSource) {
+      console.log('[Relay] Already connected')
+      return
+    }
+
+    return new Promise((resolve, reject) => {
+      let settled = false
+      const eventSource = new EventSource(`/api/printer/stream${this.query}`)
+      this.eventSource = eventSource
+
+      eventSource.addEventListener('snapshot', (event) => {
+        const snapshot = JSON.parse((event as MessageEvent).data)
+        this.handleState(snapshot)
+        if (this.onStatusUpdate && Object.keys(snapshot.status).length > 0) {
+          this.onStatusUpdate(snapshot.status)
+        }
+        if (!settled) {
+          settled = true
+          resolve()
+        }
+      })
+
+      eventSource.addEventListener('status', (event) => {
+        if (this.onStatusUpdate) {
+          this.onStatusUpdate(JSON.parse((event as MessageEvent).data))
+        }
+      })
+
+      eventSource.addEventListener('state', (event) => {
+        this.handleState(JSON.parse((event as MessageEvent).data))
+      })
+
+      eventSource.addEventListener('gcode', (event) => {
+        const line: string = JSON.parse((event as MessageEvent).data)
+        this.gcodeListeners.forEach(listener => listener(line))
+      })
+
+      eventSource.onerror = (error) => {
+        // EventSource retries by itself; only the first attempt is reported
+        this.isConnected = false
+        if (!settled) {
+          settled = true
+          console.error('[Relay] Connection error:', error)
+          this.disconnect()
+          reject(new Error('Could not connect to the printer stream'))
+        }
+      }
+    })
+  }
+
+  private handleState(state: RelayState) {
+    const previous = this.klippyState
+    this.isConnected = state.connected
+    this.klippyState = state.klippyState
+    this.isReady = state.connected && state.klippyState === 'ready'
+
+    if (state.klippyState === previous) {
+      return
+    }
+
+    if (state.klippyState === 'ready') {
+      this.onKlippyReady?.()
+    } else if (state.klippyState === 'shutdown') {
+      this.onKlippyShutdown?.()
+    } else if (previous === 'ready') {
+      this.onKlippyDisconnected?.()
+    }
+  }
+
+  /**
+   * Send a JSON-RPC request through the server
+   */
+  private async request(method: string, params?: any): Promise<any> {
+    const response = await fetch(`/api/printer/rpc${this.query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method, params }),
+    })
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `Request failed: ${method}`)
+    }
+    return data.result
+  }
+
+  /**
+   * Set status update callback
+   */
+  public onStatus(callback: NotificationCallback) {
+    this.onStatusUpdate = callback
+  }
+
+  /**
+   * Set Klippy ready callback
+   */
+  public onReady(callback: () => void) {
+    this.onKlippyReady = callback
+  }
+
+  /**
+   * Set Klippy disconnected callback
+   */
+  public onDisconnected(callback: () => void) {
+    this.onKlippyDisconnected = callback
+  }
+
+  /**
+   * Set Klippy shutdown callback
+   */
+  public onShutdown(callback: () => void) {
+    this.onKlippyShutdown = callback
+  }
+
+  /**
+   * Listen for G-code console output. Returns a function that removes the listener.
+   */
+  public onGcodeResponse(callback: (line: string) => void): () => void {
+    this.gcodeListeners.add(callback)
+    return () => {
+      this.gcodeListeners.delete(callback)
+    }
+  }
+
+  /**
+   * Get server info
+   */
+  public async getServerInfo(): Promise<any> {
+    return this.request('server.info')
+  }
+
+  /**
+   * Get printer info
+   */
+  public async getPrinterInfo(): Promise<any> {
+    return this.request('printer.info')
+  }
+
+  /**
+   * Get printer objects list
+   */
+  public async getPrinterObjectsList(): Promise<string[]> {
+    const result = await this.request('printer.objects.list')
+    return result.objects || []
+  }
+
+  /**
+   * Query specific printer objects
+   */
+  public async queryPrinterObjects(objects: SubscriptionObjects): Promise<any> {
+    const result = await this.request('printer.objects.query', { objects })
+    return result.status
+  }
+
+  /**
+   * Get temperature store (history)
+   */
+  public async getTemperatureStore(): Promise<any> {
+    return this.request('server.temperature_store')
+  }
+
+  /**
+   * Get job history totals (lifetime stats)
+   */
+  public async getJobHistoryTotals(): Promise<any> {
+    return this.request('server.history.totals')
+  }
+
+  /**
+   * Get every registered G-code command with its help text
+   */
+  public async getGcodeHelp(): Promise<Record<string, string>> {
+    return this.request('printer.gcode.help')
+  }
+
+  /**
+   * Get recent console output kept by Moonraker, oldest first
+   */
+  public async getGcodeStore(count = 100): Promise<GcodeStoreEntry[]> {
+    const result = await this.request('server.gcode_store', { count })
+    return result.gcode_store || []
+  }
+
+  /**
+   * Slicer estimate and learned correction for the file being printed,
+   * or null when nothing is printing. Not a Moonraker method; see `print-eta.ts`.
+   */
+  public async getPrintEstimateBasis(): Promise<PrintEstimateBasis | null> {
+    const response = await fetch(`/api/printer/print-estimate${this.query}`)
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Failed to load print estimate')
+    }
+    return data.basis
+  }
+
+  /**
+   * Send GCode command (operator only)
+   */
+  public async sendGcode(script: string): Promise<void> {
+    await this.request('printer.gcode.script', { script })
+  }
+
+  /**
+   * Pause the current print (operator only)
+   */
+  public async pausePrint(): Promise<void> {
+    await this.request('printer.print.pause')
+  }
+
+  /**
+   * Resume a paused print (operator only)
+   */
+  public async resumePrint(): Promise<void> {
+    await this.request('printer.print.resume')
+  }
+
+  /**
+   * Cancel the current print (operator only)
+   */
+  public async cancelPrint(): Promise<void> {
+    await this.request('printer.print.cancel')
+  }
+
+  /**
+   * Start printing a file from the gcodes root (operator only)
+   */
+  public async startPrint(filename: string): Promise<void> {
+    await this.request('printer.print.start', { filename })
+  }
+
+  /**
+   * Disconnect and cleanup
+   */
+  public disconnect() {
+    if (this.eventSource) {
+      this.eventSource.close()
+      this.eventSource = null
+    }
+
+    this.isConnected = false
+    this.isReady = false
+    this.klippyState = 'disconnected'
+  }
+}
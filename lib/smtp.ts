@@ -0,0 +1,246 @@
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import crypto from 'crypto'
+
+/**
+ * Minimal SMTP client for notification emails: plain text messages, optionally
+ * with attachments, over implicit TLS (port 465) or STARTTLS, with AUTH PLAIN or LOGIN.
+ * Configured from the SMTP_* environment variables.
+ */
+
+const SMTP_TIMEOUT_MS = 15000
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // implicit TLS; otherwise STARTTLS when the server offers it, required with credentials
+  user: string | null
+  password: string | null
+  from: string
+}
+
+export interface MailAttachment {
+  filename: string
+  content_type: string
+  data: Buffer
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+  attachments?: MailAttachment[]
+}
+
+/**
+ * SMTP settings from the environment, or null when SMTP_HOST is not set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    return null
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER || null,
+    password: process.env.SMTP_PASSWORD || null,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || `dashboard@${os.hostname()}`
+  }
+}
+
+interface SmtpResponse {
+  code: number
+  text: string
+}
+
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private responses: SmtpResponse[] = []
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')))
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private receive(data: string): void {
+    this.buffer += data
+    let index
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line)
+
+      // "250-..." continues a multiline response, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.responses.push({ code: parseInt(line.slice(0, 3), 10), text: this.lines.map(l => l.slice(4)).join('\n') })
+        this.lines = []
+        this.flush()
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error
+    this.flush()
+  }
+
+  private flush(): void {
+    if (!this.waiting) return
+    const response = this.responses.shift()
+    if (response) {
+      this.waiting.resolve(response)
+      this.waiting = null
+    } else if (this.failure) {
+      this.waiting.reject(this.failure)
+      this.waiting = null
+    }
+  }
+
+  read(expected: number | number[]): Promise<SmtpResponse> {
+    return new Promise<SmtpResponse>((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    }).then((response) => {
+      if (![expected].flat().includes(response.code)) {
+        throw new Error(`SMTP server replied ${response.code}: ${response.text}`)
+      }
+      return response
+    })
+  }
+
+  async command(line: string, expected: number | number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`)
+    return this.read(expected)
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('close')
+    const secureSocket = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve)
+      secureSocket.once('error', reject)
+    })
+    this.attach(secureSocket)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+// RFC 2047 encoded word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+// Base64 in lines of 76 characters, as MIME requires
+const encodeBody = (data: Buffer) => data.toString('base64').replace(/.{76}/g, '$&\r\n')
+
+function formatMessage(config: SmtpConfig, message: MailMessage): string {
+  const domain = config.from.split('@')[1] || os.hostname()
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ]
+  const text = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(Buffer.from(message.text))
+  ]
+
+  if (!message.attachments?.length) {
+    return [...headers, ...text].join('\r\n')
+  }
+
+  const boundary = `=_${crypto.randomUUID()}`
+  const parts = message.attachments.map(attachment => {
+    const filename = encodeHeader(attachment.filename).replace(/"/g, '')
+    return [
+      `Content-Type: ${attachment.content_type}; name="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${filename}"`,
+      '',
+      encodeBody(attachment.data)
+    ]
+  })
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...[text, ...parts].flatMap(part => [`--${boundary}`, ...part]),
+    `--${boundary}--`
+  ].join('\r\n')
+}
+
+/**
+ * Send a plain text email with any attachments. Throws when the server refuses it.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const session = new SmtpSession(await connect(config))
+
+  try {
+    await session.read(220)
+    let ehlo = await session.command(`EHLO ${os.hostname()}`, 250)
+
+    if (!config.secure && /^STARTTLS$/m.test(ehlo.text)) {
+      await session.command('STARTTLS', 220)
+      await session.startTls(config.host)
+      ehlo = await session.command(`EHLO ${os.hostname()}`, 250)
+    } else if (!config.secure && config.user && config.password) {
+      throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted')
+    }
+
+    if (config.user && config.password) {
+      if (/^AUTH .*\bPLAIN\b/m.test(ehlo.text)) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.password}`).toString('base64')
+        await session.command(`AUTH PLAIN ${credentials}`, 235)
+      } else {
+        await session.command('AUTH LOGIN', 334)
+        await session.command(Buffer.from(config.user).toString('base64'), 334)
+        await session.command(Buffer.from(config.password).toString('base64'), 235)
+      }
+    }
+
+    await session.command(`MAIL FROM:<${config.from.replace(/^.*<|>.*$/g, '')}>`, 250)
+    for (const recipient of message.to) {
+      // 251: the server forwards to another address
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251])
+    }
+    await session.command('DATA', 354)
+    await session.command(`${formatMessage(config, message)}\r\n.`, 250)
+    await session.command('QUIT', 221).catch(() => {})
+  } finally {
+    session.close()
+  }
+}
@@ -0,0 +1,202 @@
+import type { MoonrakerHttpClient } from './moonraker-client'
+
+/**
+ * Host statistics for the Task Manager and the metrics exporter
+ */
+
+// Cache for rate limiting, per printer
+const CACHE_DURATION = 1000 // 1 second
+
+export interface SystemStats {
+  moonraker: {
+    time: number
+    cpuUsage: number
+    memory: number
+    memUnits: string
+  }
+  system: {
+    cpuUsage: {
+      total: number
+      cores: number[]
+    }
+    memory: {
+      total: number
+      available: number
+      used: number
+    }
+    cpuTemp: number | null
+    uptime: number
+  }
+  network: {
+    [interface_name: string]: {
+      rxBytes: number
+      txBytes: number
+      bandwidth: number
+    }
+  }
+  websocketConnections: number
+  throttledState: {
+    bits: number
+    flags: string[]
+  }
+}
+
+export interface SystemInfo {
+  cpuInfo: {
+    cpuCount: number
+    bits: string
+    processor: string
+    cpuDesc: string
+    model: string
+    totalMemory: number
+    memoryUnits: string
+  }
+  distribution: {
+    name: string
+    id: string
+    version: string
+  }
+  services: {
+    [name: string]: {
+      activeState: string
+      subState: string
+    }
+  }
+}
+
+/**
+ * Host statistics from Moonraker's proc_stats and system_info, or null when the printer cannot be reached
+ */
+export async function fetchSystemStats(client: MoonrakerHttpClient): Promise<{ stats: SystemStats; info: SystemInfo } | null> {
+  try {
+    const [statsData, infoData] = await Promise.all([
+      client.request<{ result: any }>('/machine/proc_stats', { cacheTtlMs: CACHE_DURATION }),
+      client.request<{ result: any }>('/machine/system_info', { cacheTtlMs: CACHE_DURATION })
+    ])
+
+    const procStats = statsData.result
+    const systemInfo = infoData.result.system_info
+
+    // Get the most recent moonraker stats entry
+    const moonrakerStats = Array.isArray(procStats.moonraker_stats)
+      ? procStats.moonraker_stats[procStats.moonraker_stats.length - 1]
+      : procStats.moonraker_stats
+
+    // Calculate Moonraker uptime from the stats array
+    // The 'time' field is a Unix timestamp, not uptime
+    // We calculate uptime as the difference between the latest and earliest timestamps
+    // Note: moonraker_stats only keeps recent samples, so this gives us process running time
+    let moonrakerUptime = 0
+    if (Array.isArray(procStats.moonraker_stats) && procStats.moonraker_stats.length > 0) {
+      const latestTime = procStats.moonraker_stats[procStats.moonraker_stats.length - 1]?.time || 0
+      const earliestTime = procStats.moonraker_stats[0]?.time || latestTime
+      // The stats array typically spans about 10 seconds of samples
+      // For actual Moonraker uptime, we use system_uptime as a proxy since Moonraker
+      // starts with the system in most setups, or we could track start time separately
+      // For now, use the time since the earliest sample as a minimum running indicator
+      moonrakerUptime = latestTime - earliestTime
+      
+      // If the stats array only gives us a few seconds, fall back to system uptime
+      // as Moonraker typically runs since system boot
+      if (moonrakerUptime < 60) {
+        moonrakerUptime = procStats.system_uptime || 0
+      }
+    }
+
+    // Transform system CPU usage
+    const systemCpuUsage = procStats.system_cpu_usage || {}
+    const totalCpuUsage = systemCpuUsage.cpu || 0
+    const cores: number[] = []
+    
+    // Extract per-core CPU usage
+    Object.keys(systemCpuUsage).forEach(key => {
+      if (key.startsWith('cpu') && key !== 'cpu') {
+        const coreIndex = parseInt(key.replace('cpu', ''))
+        if (!isNaN(coreIndex)) {
+          cores[coreIndex] = systemCpuUsage[key]
+        }
+      }
+    })
+
+    // Transform network data
+    const networkData: SystemStats['network'] = {}
+    if (procStats.network) {
+      Object.entries(procStats.network).forEach(([iface, data]: [string, any]) => {
+        networkData[iface] = {
+          rxBytes: data.rx_bytes,
+          txBytes: data.tx_bytes,
+          bandwidth: data.bandwidth
+        }
+      })
+    }
+
+    // Calculate memory usage
+    const memoryInfo = systemInfo?.cpu_info
+    const totalMemoryKb = memoryInfo?.total_memory || 0
+    
+    // Memory calculation from Moonraker stats if available
+    const memUsed = moonrakerStats?.memory || 0
+    
+    const stats: SystemStats = {
+      moonraker: {
+        time: moonrakerUptime,
+        cpuUsage: moonrakerStats?.cpu_usage || 0,
+        memory: memUsed,
+        memUnits: moonrakerStats?.mem_units || 'kB'
+      },
+      system: {
+        cpuUsage: {
+          total: totalCpuUsage,
+          cores: cores
+        },
+        memory: {
+          total: totalMemoryKb,
+          available: procStats.system_memory?.available || 0,
+          used: procStats.system_memory?.used || 0
+        },
+        cpuTemp: procStats.cpu_temp || null,
+        uptime: procStats.system_uptime || 0
+      },
+      network: networkData,
+      websocketConnections: procStats.websocket_connections || 0,
+      throttledState: {
+        bits: procStats.throttled_state?.bits || 0,
+        flags: procStats.throttled_state?.flags || []
+      }
+    }
+
+    // Transform service states
+    const services: SystemInfo['services'] = {}
+    if (systemInfo?.service_state) {
+      Object.entries(systemInfo.service_state).forEach(([name, data]: [string, any]) => {
+        services[name] = {
+          activeState: data.active_state,
+          subState: data.sub_state
+        }
+      })
+    }
+
+    const info: SystemInfo = {
+      cpuInfo: {
+        cpuCount: systemInfo?.cpu_info?.cpu_count || 0,
+        bits: systemInfo?.cpu_info?.bits || '',
+        processor: systemInfo?.cpu_info?.processor || '',
+        cpuDesc: systemInfo?.cpu_info?.cpu_desc || '',
+        model: systemInfo?.cpu_info?.model || '',
+        totalMemory: totalMemoryKb,
+        memoryUnits: systemInfo?.cpu_info?.memory_units || 'kB'
+      },
+      distribution: {
+        name: systemInfo?.distribution?.name || '',
+        id: systemInfo?.distribution?.id || '',
+        version: systemInfo?.distribution?.version || ''
+      },
+      services
+    }
+
+    return { stats, info }
+  } catch (error) {
+    console.error('Error fetching system stats:', error)
+    return null
+  }
+}
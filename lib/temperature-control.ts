@@ -0,0 +1,173 @@
+/**
+ * Temperature and fan control shared by the controls panel and the RPC route.
+ *
+ * The panel builds G-code with the helpers below and sends it through the
+ * relay's `sendGcode`. The RPC route parses every script for heater targets
+ * and rejects targets outside the heater's `min_temp`/`max_temp` from
+ * Klipper's `configfile` settings, whichever way the script was typed.
+ */
+
+import type { HeaterStatus, FanStatus, TemperatureSensorStatus } from './types'
+
+export interface HeaterLimit {
+  min: number
+  max: number
+}
+
+// Keyed by Klipper object name, e.g. "extruder", "heater_bed", "heater_generic chamber"
+export type HeaterLimits = Record<string, HeaterLimit>
+
+export interface TemperatureTarget {
+  heater: string
+  target: number
+}
+
+// Config sections with a settable target temperature
+const LIMITED_SECTION_PATTERN = /^(extruder\d*|heater_bed|heater_generic .+|temperature_fan .+)$/
+
+/**
+ * Pick the min/max temperatures of every heater from `configfile.settings`
+ */
+export function extractHeaterLimits(settings: Record<string, Record<string, any>>): HeaterLimits {
+  const limits: HeaterLimits = {}
+  for (const [section, values] of Object.entries(settings)) {
+    if (LIMITED_SECTION_PATTERN.test(section) && typeof values?.max_temp === 'number') {
+      limits[section] = { min: typeof values.min_temp === 'number' ? values.min_temp : 0, max: values.max_temp }
+    }
+  }
+  return limits
+}
+
+// Classic G-code: Klipper also accepts "M104S210" and lowercase, so parameters are matched by letter
+function parseClassicParameters(rest: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const match of rest.matchAll(/([A-Z])\s*(-?\d*\.?\d+)/gi)) {
+    params[match[1].toUpperCase()] = match[2]
+  }
+  return params
+}
+
+// Extended commands: "SET_HEATER_TEMPERATURE HEATER=bed TARGET=60"
+function parseExtendedParameters(rest: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const match of rest.matchAll(/(\S+?)=(\S*)/g)) {
+    params[match[1].toUpperCase()] = match[2]
+  }
+  return params
+}
+
+/**
+ * Find every target temperature a G-code script sets. Heater names are
+ * resolved to Klipper object names so they can be looked up in `HeaterLimits`.
+ */
+export function parseTemperatureTargets(script: string): TemperatureTarget[] {
+  const targets: TemperatureTarget[] = []
+
+  for (const rawLine of script.split('\n')) {
+    // Drop comments, checksums and line numbers
+    const line = rawLine.split(/[;*]/)[0].trim().replace(/^N\d+\s*/i, '')
+    if (!line) continue
+
+    const classic = line.match(/^([GM]\d+)(.*)$/i)
+    if (classic) {
+      const command = classic[1].toUpperCase()
+      const params = parseClassicParameters(classic[2])
+      if (params.S === undefined) continue
+
+      if (command === 'M104' || command === 'M109') {
+        const tool = parseInt(params.T ?? '0', 10)
+        targets.push({ heater: tool > 0 ? `extruder${tool}` : 'extruder', target: Number(params.S) })
+      } else if (command === 'M140' || command === 'M190') {
+        targets.push({ heater: 'heater_bed', target: Number(params.S) })
+      }
+      continue
+    }
+
+    const [command, ...rest] = line.split(/\s+/)
+    const params = parseExtendedParameters(rest.join(' '))
+
+    switch (command.toUpperCase()) {
+      case 'SET_HEATER_TEMPERATURE': {
+        const heater = params.HEATER?.toLowerCase()
+        if (heater) {
+          const objectName = /^(extruder\d*|heater_bed)$/.test(heater) ? heater : `heater_generic ${heater}`
+          targets.push({ heater: objectName, target: Number(params.TARGET ?? 0) })
+        }
+        break
+      }
+      case 'SET_TEMPERATURE_FAN_TARGET': {
+        const fan = params.TEMPERATURE_FAN?.toLowerCase()
+        if (fan && params.TARGET !== undefined) {
+          targets.push({ heater: `temperature_fan ${fan}`, target: Number(params.TARGET) })
+        }
+        break
+      }
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Check every target in `script` against `limits`.
+ * Returns an error message, or null when the script may be sent. 0 (off) is always allowed.
+ */
+export function validateTemperatureTargets(script: string, limits: HeaterLimits): string | null {
+  for (const { heater, target } of parseTemperatureTargets(script)) {
+    if (!Number.isFinite(target) || target < 0) {
+      return `Invalid target temperature for ${heater}`
+    }
+    if (target === 0) continue
+
+    const limit = limits[heater]
+    if (!limit) continue // Unknown heater; Klipper rejects it itself
+    if (target > limit.max) {
+      return `${target}°C is above the ${heater} maximum of ${limit.max}°C`
+    }
+    if (target < limit.min) {
+      return `${target}°C is below the ${heater} minimum of ${limit.min}°C`
+    }
+  }
+  return null
+}
+
+// Command builders used by the controls panel
+
+export function buildHeaterTargetCommand(heater: Pick<HeaterStatus, 'label'> | Pick<TemperatureSensorStatus, 'label' | 'type'>, target: number): string {
+  if ('type' in heater && heater.type === 'temperature_fan') {
+    return `SET_TEMPERATURE_FAN_TARGET TEMPERATURE_FAN=${heater.label} TARGET=${target}`
+  }
+  return `SET_HEATER_TEMPERATURE HEATER=${heater.label} TARGET=${target}`
+}
+
+// Only the part fan and fan_generic can be set; other fans are controlled by Klipper
+export function isControllableFan(fan: Pick<FanStatus, 'type'>): boolean {
+  return fan.type === 'fan' || fan.type === 'fan_generic'
+}
+
+// `speed` is 0-1
+export function buildFanSpeedCommand(fan: Pick<FanStatus, 'type' | 'label'>, speed: number): string {
+  if (fan.type === 'fan') {
+    return speed > 0 ? `M106 S${Math.round(speed * 255)}` : 'M107'
+  }
+  return `SET_FAN_SPEED FAN=${fan.label} SPEED=${Math.round(speed * 100) / 100}`
+}
+
+// `percent` is 100 for normal speed / flow
+export function buildSpeedFactorCommand(percent: number): string {
+  return `M220 S${Math.round(percent)}`
+}
+
+export function buildFlowFactorCommand(percent: number): string {
+  return `M221 S${Math.round(percent)}`
+}
+
+export function buildPreheatCommand(preset: { extruder_temp: number; bed_temp: number; fan_speed: number | null }): string {
+  const lines = [`M104 S${preset.extruder_temp}`, `M140 S${preset.bed_temp}`]
+  if (preset.fan_speed !== null) {
+    lines.push(preset.fan_speed > 0 ? `M106 S${Math.round(preset.fan_speed / 100 * 255)}` : 'M107')
+  }
+  return lines.join('\n')
+}
+
+export const COOL_DOWN_COMMAND = 'TURN_OFF_HEATERS\nM107'
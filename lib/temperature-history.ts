@@ -0,0 +1,263 @@
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import type { PrinterMonitor, PrinterSample } from './printer-monitor'
+import type { TemperatureHistory } from './types'
+
+/**
+ * Long-term temperature history.
+ *
+ * A recorder persists heater samples from the printer monitor and rolls them up:
+ * raw samples are kept for 24 hours, 1-minute averages for 30 days and hourly
+ * averages forever. Queries pick the table matching the requested resolution.
+ */
+
+export type TemperatureResolution = 'raw' | 'minute' | 'hour'
+
+export const TEMPERATURE_RESOLUTIONS: TemperatureResolution[] = ['raw', 'minute', 'hour']
+
+const SAMPLE_INTERVAL_MS = parseInt(process.env.TEMPERATURE_SAMPLE_INTERVAL_MS || '5000', 10)
+const ROLLUP_INTERVAL_MS = 10 * 60 * 1000
+
+const RAW_RETENTION_HOURS = 24
+const MINUTE_RETENTION_DAYS = 30
+
+// Upper bound on rows returned by a single query
+const MAX_POINTS = 20000
+
+// Sensor names match Klipper object names
+const SENSORS = {
+  extruder: 'extruder',
+  bed: 'heater_bed'
+} as const
+
+export function isTemperatureResolution(value: unknown): value is TemperatureResolution {
+  return typeof value === 'string' && TEMPERATURE_RESOLUTIONS.includes(value as TemperatureResolution)
+}
+
+/**
+ * Choose the finest resolution that still has data for `from` and keeps the point count reasonable
+ */
+export function chooseResolution(from: Date, to: Date): TemperatureResolution {
+  const ageHours = (Date.now() - from.getTime()) / (60 * 60 * 1000)
+  const spanHours = (to.getTime() - from.getTime()) / (60 * 60 * 1000)
+
+  if (ageHours <= RAW_RETENTION_HOURS && spanHours <= 2) {
+    return 'raw'
+  }
+  if (ageHours <= MINUTE_RETENTION_DAYS * 24 && spanHours <= 48) {
+    return 'minute'
+  }
+  return 'hour'
+}
+
+interface TemperatureRow {
+  sensor: string
+  time: Date
+  temperature: number
+  target: number | null
+  power: number | null
+}
+
+const RESOLUTION_QUERIES: Record<TemperatureResolution, string> = {
+  raw: `SELECT sensor, recorded_at AS time, temperature, target, power
+        FROM temperature_samples
+        WHERE printer_id = $1 AND recorded_at >= $2 AND recorded_at <= $3
+        ORDER BY recorded_at
+        LIMIT $4`,
+  minute: `SELECT sensor, bucket AS time, temperature, target, power
+           FROM temperature_samples_minute
+           WHERE printer_id = $1 AND bucket >= $2 AND bucket <= $3
+           ORDER BY bucket
+           LIMIT $4`,
+  hour: `SELECT sensor, bucket AS time, temperature, target, power
+         FROM temperature_samples_hour
+         WHERE printer_id = $1 AND bucket >= $2 AND bucket <= $3
+         ORDER BY bucket
+         LIMIT $4`
+}
+
+function formatChartTime(date: Date, resolution: TemperatureResolution): string {
+  const time = `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`
+  return resolution === 'hour' ? `${date.getMonth() + 1}/${date.getDate()} ${time}` : time
+}
+
+/**
+ * Load recorded history between `from` and `to` in the chart-friendly `TemperatureHistory` shape.
+ * Extruder and bed are recorded together, so points are aligned by timestamp.
+ */
+export async function getTemperatureHistory(
+  printerId: number,
+  from: Date,
+  to: Date,
+  resolution: TemperatureResolution = chooseResolution(from, to)
+): Promise<TemperatureHistory> {
+  const history: TemperatureHistory = {
+    extruder: { temperatures: [], targets: [], powers: [] },
+    bed: { temperatures: [], targets: [], powers: [] },
+    timestamps: [],
+    times: [],
+    resolution
+  }
+
+  if (!isDatabaseAvailable()) {
+    return history
+  }
+
+  await initializeDatabase()
+  const rows = await query<TemperatureRow>(RESOLUTION_QUERIES[resolution], [printerId, from, to, MAX_POINTS])
+
+  const points = new Map<number, { extruder?: TemperatureRow; bed?: TemperatureRow }>()
+  for (const row of rows) {
+    const key = new Date(row.time).getTime()
+    const point = points.get(key) || {}
+    if (row.sensor === SENSORS.extruder) point.extruder = row
+    if (row.sensor === SENSORS.bed) point.bed = row
+    points.set(key, point)
+  }
+
+  for (const [time, point] of points) {
+    const date = new Date(time)
+    history.times!.push(date.toISOString())
+    history.timestamps.push(formatChartTime(date, resolution))
+
+    for (const [key, row] of [['extruder', point.extruder], ['bed', point.bed]] as const) {
+      const series = history[key]
+      // Carry the previous value forward if one sensor missed a sample
+      series.temperatures.push(row ? Math.round(row.temperature * 10) / 10 : series.temperatures.at(-1) ?? 0)
+      series.targets.push(row ? row.target ?? 0 : series.targets.at(-1) ?? 0)
+      series.powers.push(row ? Math.round((row.power ?? 0) * 100) / 100 : series.powers.at(-1) ?? 0)
+    }
+  }
+
+  return history
+}
+
+/**
+ * Whether raw samples have been recorded recently (i.e. the recorder is running)
+ */
+export async function hasRecentTemperatureSamples(printerId: number): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ exists: boolean }>(
+    `SELECT EXISTS (
+       SELECT 1 FROM temperature_samples
+       WHERE printer_id = $1 AND recorded_at > CURRENT_TIMESTAMP - INTERVAL '1 minute'
+     ) AS exists`,
+    [printerId]
+  )
+  return rows[0]?.exists ?? false
+}
+
+// Roll raw samples into minute buckets, starting from the newest existing bucket
+const MINUTE_ROLLUP = `
+  INSERT INTO temperature_samples_minute (printer_id, sensor, bucket, temperature, min_temperature, max_temperature, target, power, sample_count)
+  SELECT printer_id, sensor, date_trunc('minute', recorded_at), AVG(temperature), MIN(temperature), MAX(temperature), AVG(target), AVG(power), COUNT(*)
+  FROM temperature_samples
+  WHERE recorded_at >= COALESCE((SELECT MAX(bucket) FROM temperature_samples_minute), '-infinity'::timestamptz)
+    AND recorded_at < date_trunc('minute', CURRENT_TIMESTAMP)
+  GROUP BY printer_id, sensor, date_trunc('minute', recorded_at)
+  ON CONFLICT (printer_id, sensor, bucket) DO UPDATE SET
+    temperature = EXCLUDED.temperature,
+    min_temperature = EXCLUDED.min_temperature,
+    max_temperature = EXCLUDED.max_temperature,
+    target = EXCLUDED.target,
+    power = EXCLUDED.power,
+    sample_count = EXCLUDED.sample_count
+`
+
+// Roll minute buckets into hours, weighting each minute by its sample count
+const HOUR_ROLLUP = `
+  INSERT INTO temperature_samples_hour (printer_id, sensor, bucket, temperature, min_temperature, max_temperature, target, power, sample_count)
+  SELECT printer_id, sensor, date_trunc('hour', bucket),
+    SUM(temperature * sample_count) / SUM(sample_count), MIN(min_temperature), MAX(max_temperature),
+    SUM(target * sample_count) / SUM(sample_count), SUM(power * sample_count) / SUM(sample_count), SUM(sample_count)
+  FROM temperature_samples_minute
+  WHERE bucket >= COALESCE((SELECT MAX(bucket) FROM temperature_samples_hour), '-infinity'::timestamptz)
+    AND bucket < date_trunc('hour', CURRENT_TIMESTAMP)
+  GROUP BY printer_id, sensor, date_trunc('hour', bucket)
+  ON CONFLICT (printer_id, sensor, bucket) DO UPDATE SET
+    temperature = EXCLUDED.temperature,
+    min_temperature = EXCLUDED.min_temperature,
+    max_temperature = EXCLUDED.max_temperature,
+    target = EXCLUDED.target,
+    power = EXCLUDED.power,
+    sample_count = EXCLUDED.sample_count
+`
+
+/**
+ * Aggregate and prune the history tables. Safe to run repeatedly.
+ */
+export async function rollUpTemperatureHistory(): Promise<void> {
+  await query(MINUTE_ROLLUP)
+  await query(HOUR_ROLLUP)
+  await query(`DELETE FROM temperature_samples WHERE recorded_at < CURRENT_TIMESTAMP - INTERVAL '${RAW_RETENTION_HOURS} hours'`)
+  await query(`DELETE FROM temperature_samples_minute WHERE bucket < CURRENT_TIMESTAMP - INTERVAL '${MINUTE_RETENTION_DAYS} days'`)
+}
+
+class TemperatureRecorder {
+  private lastRecordedAt = 0
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  start(): void {
+    this.monitor.on('sample', (sample) => {
+      if (sample.timestamp - this.lastRecordedAt < SAMPLE_INTERVAL_MS) {
+        return
+      }
+      this.lastRecordedAt = sample.timestamp
+      this.record(sample).catch((error) => {
+        console.error('Error recording temperature sample:', error)
+      })
+    })
+  }
+
+  private async record(sample: PrinterSample): Promise<void> {
+    // Don't fill the history with zeros while Klipper is down
+    if (sample.klippyState !== 'ready') {
+      return
+    }
+
+    const recordedAt = new Date(sample.timestamp)
+    const { extruder, bed } = sample.temperatures
+
+    await query(
+      `INSERT INTO temperature_samples (printer_id, sensor, recorded_at, temperature, target, power)
+       VALUES ($1, $2, $3, $4, $5, $6), ($1, $7, $3, $8, $9, $10)`,
+      [this.monitor.printerId, SENSORS.extruder, recordedAt, extruder.actual, extruder.target, extruder.power,
+       SENSORS.bed, bed.actual, bed.target, bed.power]
+    )
+  }
+}
+
+/**
+ * Record temperatures for the printer watched by `monitor`. Does nothing without a database.
+ */
+export function attachTemperatureRecorder(monitor: PrinterMonitor): void {
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  new TemperatureRecorder(monitor).start()
+}
+
+// Kept on globalThis so the rollup only runs once for all printers
+const globalForTemperature = globalThis as unknown as {
+  temperatureRollupTimer?: ReturnType<typeof setInterval>
+}
+
+/**
+ * Periodically roll up and prune the history tables. Does nothing without a database.
+ */
+export function startTemperatureRollup(): void {
+  if (globalForTemperature.temperatureRollupTimer || !isDatabaseAvailable()) {
+    return
+  }
+
+  globalForTemperature.temperatureRollupTimer = setInterval(() => {
+    rollUpTemperatureHistory().catch((error) => {
+      console.error('Error rolling up temperature history:', error)
+    })
+  }, ROLLUP_INTERVAL_MS)
+}
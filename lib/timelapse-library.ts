@@ -0,0 +1,309 @@
+import crypto from 'crypto'
+import { promises as fs, type Dirent } from 'fs'
+import path from 'path'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import { DEFAULT_PRINTER_ID, type PrinterConfig } from './printers'
+import { getMoonrakerClient, MoonrakerError } from './moonraker-client'
+import { isFfmpegAvailable, runFfmpeg } from './ffmpeg'
+import { encodePath, normalizeFilePath } from './printer-files'
+import {
+  getTimelapseContentType,
+  getTimelapseQuery,
+  parseTimelapseFilename,
+  type TimelapseJob,
+  type TimelapseSource,
+  type TimelapseVideo
+} from './timelapses'
+
+/**
+ * Server side of the timelapse library: listing videos from Moonraker's
+ * `timelapse` root and the local directory, linking them to print jobs,
+ * and finding or generating their thumbnails.
+ *
+ * The local directory belongs to the first printer, as written by
+ * `scripts/sync-timelapse.sh`; other printers use a subdirectory named after
+ * their id, e.g. `TIMELAPSE_DIR/2/`.
+ */
+
+const THUMBNAIL_DIRNAME = '.thumbnails'
+const THUMBNAIL_WIDTH = 480
+const THUMBNAIL_TIMEOUT_MS = 30000
+// Preview images moonraker-timelapse leaves next to a video; deleted along with it
+const PREVIEW_TYPES: Record<string, string> = { jpg: 'image/jpeg', png: 'image/png' }
+// moonraker-timelapse renders after the print ends, which can take a while on a Pi
+const JOB_MATCH_BEFORE_MS = 2 * 60 * 60 * 1000
+const JOB_MATCH_AFTER_MS = 10 * 60 * 1000
+
+type ListedTimelapse = Omit<TimelapseVideo, 'job'>
+
+export interface TimelapseThumbnail {
+  buffer: Buffer
+  contentType: string
+}
+
+interface MoonrakerFileInfo {
+  path: string
+  modified: number
+  size: number
+}
+
+export function getTimelapseRoot(): string {
+  return path.resolve(process.env.TIMELAPSE_DIR || path.join(process.cwd(), 'public', 'timelapse'))
+}
+
+export function getLocalTimelapseDirectory(printerId: number): string {
+  const root = getTimelapseRoot()
+  return printerId === DEFAULT_PRINTER_ID ? root : path.join(root, String(printerId))
+}
+
+/**
+ * Absolute path of a local timelapse, or null when `relativePath` leaves the printer's directory
+ */
+export function resolveLocalTimelapse(printerId: number, relativePath: string): string | null {
+  const normalized = normalizeFilePath(relativePath)
+  if (!normalized) {
+    return null
+  }
+
+  const directory = getLocalTimelapseDirectory(printerId)
+  const resolved = path.resolve(directory, normalized)
+  return resolved.startsWith(directory + path.sep) ? resolved : null
+}
+
+function toTimelapse(printerId: number, source: TimelapseSource, file: MoonrakerFileInfo): ListedTimelapse | null {
+  const filename = file.path.split('/').pop() || file.path
+  const contentType = getTimelapseContentType(filename)
+  if (!contentType || filename.startsWith('.')) {
+    return null
+  }
+
+  const printFilename = parseTimelapseFilename(filename)
+  const query = getTimelapseQuery({ printer_id: printerId, source, path: file.path })
+  const videoUrl = `/api/timelapse/video?${query}`
+
+  return {
+    source,
+    path: file.path,
+    filename,
+    title: printFilename || filename.replace(/\.[^.]+$/, ''),
+    size: file.size,
+    modified: file.modified,
+    content_type: contentType,
+    printer_id: printerId,
+    print_filename: printFilename,
+    video_url: videoUrl,
+    // Animated images are their own thumbnail
+    thumbnail_url: contentType.startsWith('image/') ? videoUrl : `/api/timelapse/thumbnail?${query}`
+  }
+}
+
+async function listPrinterTimelapses(printer: PrinterConfig): Promise<ListedTimelapse[]> {
+  try {
+    const { result } = await getMoonrakerClient(printer).request<{ result: MoonrakerFileInfo[] }>('/server/files/list?root=timelapse')
+    return (result || []).flatMap(file => toTimelapse(printer.id, 'printer', file) ?? [])
+  } catch (error) {
+    // Moonraker only has a timelapse root when moonraker-timelapse is installed
+    if (!(error instanceof MoonrakerError) || error.isUnreachable) {
+      console.warn(`[Timelapse] Could not list timelapses on ${printer.name}:`, error instanceof Error ? error.message : error)
+    }
+    return []
+  }
+}
+
+async function listLocalTimelapses(printerId: number): Promise<ListedTimelapse[]> {
+  const directory = getLocalTimelapseDirectory(printerId)
+  let entries: Dirent[]
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const files = await Promise.all(entries
+    .filter(entry => entry.isFile() && getTimelapseContentType(entry.name))
+    .map(async (entry) => {
+      const stats = await fs.stat(path.join(directory, entry.name))
+      return toTimelapse(printerId, 'local', { path: entry.name, size: stats.size, modified: stats.mtimeMs / 1000 })
+    }))
+
+  return files.flatMap(file => file ?? [])
+}
+
+/**
+ * Every timelapse of `printer`, newest first. A video synced to the local
+ * directory is listed once, from the local copy.
+ */
+export async function listTimelapses(printer: PrinterConfig): Promise<ListedTimelapse[]> {
+  const [remote, local] = await Promise.all([listPrinterTimelapses(printer), listLocalTimelapses(printer.id)])
+  const localNames = new Set(local.map(video => video.filename))
+
+  return [...local, ...remote.filter(video => !localNames.has(video.filename))]
+    .sort((a, b) => b.modified - a.modified)
+}
+
+// Compare G-code names loosely, since moonraker-timelapse drops the extension and may rewrite characters
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+const normalizeJobFilename = (filename: string) => normalizeName((filename.split('/').pop() || filename).replace(/\.[^.]+$/, ''))
+
+/**
+ * Attach the print job each video was rendered for: the job that ended
+ * shortly before the video was written and printed the file it names.
+ * Videos stay unlinked without print history.
+ */
+export async function linkTimelapseJobs(printerId: number, videos: ListedTimelapse[]): Promise<TimelapseVideo[]> {
+  if (!isDatabaseAvailable() || videos.length === 0) {
+    return videos.map(video => ({ ...video, job: null }))
+  }
+
+  const times = videos.map(video => video.modified * 1000)
+  await initializeDatabase()
+  const jobs = await query<TimelapseJob & { filename: string; ended_at: string }>(
+    `SELECT id, filename, status, started_at, ended_at, print_duration, filament_used
+     FROM print_jobs
+     WHERE printer_id = $1 AND ended_at BETWEEN $2 AND $3`,
+    [printerId, new Date(Math.min(...times) - JOB_MATCH_BEFORE_MS), new Date(Math.max(...times) + JOB_MATCH_AFTER_MS)]
+  )
+
+  return videos.map((video) => {
+    const writtenAt = video.modified * 1000
+    const printName = video.print_filename ? normalizeName(video.print_filename) : null
+
+    let best: (typeof jobs)[number] | null = null
+    for (const job of jobs) {
+      const endedAt = new Date(job.ended_at).getTime()
+      if (endedAt < writtenAt - JOB_MATCH_BEFORE_MS || endedAt > writtenAt + JOB_MATCH_AFTER_MS) continue
+      if (printName && normalizeJobFilename(job.filename) !== printName) continue
+      if (!best || Math.abs(writtenAt - endedAt) < Math.abs(writtenAt - new Date(best.ended_at).getTime())) {
+        best = job
+      }
+    }
+
+    return {
+      ...video,
+      job: best && {
+        id: best.id,
+        status: best.status,
+        started_at: best.started_at,
+        print_duration: best.print_duration,
+        filament_used: best.filament_used
+      }
+    }
+  })
+}
+
+// Paths of the preview images moonraker-timelapse writes next to a video
+const getPreviewPaths = (videoPath: string) =>
+  Object.keys(PREVIEW_TYPES).map(extension => videoPath.replace(/\.[^.]+$/, `.${extension}`))
+
+function getThumbnailCachePath(printerId: number, source: TimelapseSource, videoPath: string): string {
+  const hash = crypto.createHash('sha1').update(`${printerId}:${source}:${videoPath}`).digest('hex')
+  return path.join(getTimelapseRoot(), THUMBNAIL_DIRNAME, `${hash}.jpg`)
+}
+
+async function readPreviewImage(printer: PrinterConfig, source: TimelapseSource, videoPath: string): Promise<TimelapseThumbnail | null> {
+  for (const previewPath of getPreviewPaths(videoPath)) {
+    const contentType = PREVIEW_TYPES[previewPath.slice(previewPath.lastIndexOf('.') + 1)]
+    try {
+      if (source === 'local') {
+        const file = resolveLocalTimelapse(printer.id, previewPath)
+        if (file) return { buffer: await fs.readFile(file), contentType }
+      } else {
+        const response = await getMoonrakerClient(printer).fetch(`/server/files/timelapse/${encodePath(previewPath)}`, { retries: 0 })
+        return { buffer: Buffer.from(await response.arrayBuffer()), contentType }
+      }
+    } catch {
+      // Try the next extension
+    }
+  }
+  return null
+}
+
+/**
+ * A thumbnail for a video: the preview moonraker-timelapse saved with it,
+ * or a JPEG frame extracted with ffmpeg and cached. Null when neither is available.
+ */
+export async function getTimelapseThumbnail(
+  printer: PrinterConfig,
+  source: TimelapseSource,
+  videoPath: string
+): Promise<TimelapseThumbnail | null> {
+  const preview = await readPreviewImage(printer, source, videoPath)
+  if (preview) {
+    return preview
+  }
+
+  const cachePath = getThumbnailCachePath(printer.id, source, videoPath)
+  const cached = await fs.readFile(cachePath).catch(() => null)
+  if (cached) {
+    return { buffer: cached, contentType: 'image/jpeg' }
+  }
+
+  if (!(await isFfmpegAvailable())) {
+    return null
+  }
+
+  const input: string[] = []
+  if (source === 'local') {
+    const file = resolveLocalTimelapse(printer.id, videoPath)
+    if (!file) return null
+    input.push('-i', file)
+  } else {
+    const client = getMoonrakerClient(printer)
+    const headers = Object.entries(client.getAuthHeaders()).map(([name, value]) => `${name}: ${value}\r\n`).join('')
+    input.push(...(headers ? ['-headers', headers] : []), '-i', `${client.baseUrl}/server/files/timelapse/${encodePath(videoPath)}`)
+  }
+
+  try {
+    // The thumbnail filter picks a representative frame from the first second or so
+    const frame = await runFfmpeg(
+      [...input, '-vf', `thumbnail,scale=${THUMBNAIL_WIDTH}:-2`, '-frames:v', '1', '-f', 'image2', '-c:v', 'mjpeg', 'pipe:1'],
+      THUMBNAIL_TIMEOUT_MS
+    )
+    if (frame.length === 0) {
+      return null
+    }
+
+    await fs.mkdir(path.dirname(cachePath), { recursive: true })
+    await fs.writeFile(cachePath, frame)
+    return { buffer: frame, contentType: 'image/jpeg' }
+  } catch (error) {
+    console.warn(`[Timelapse] Could not generate a thumbnail for ${videoPath}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Delete a video with its preview images and cached thumbnail. Returns false when the video does not exist.
+ */
+export async function deleteTimelapseFile(printer: PrinterConfig, source: TimelapseSource, videoPath: string): Promise<boolean> {
+  if (source === 'local') {
+    const file = resolveLocalTimelapse(printer.id, videoPath)
+    if (!file) {
+      return false
+    }
+    try {
+      await fs.unlink(file)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+      throw error
+    }
+    await Promise.all(getPreviewPaths(videoPath).map((previewPath) => {
+      const preview = resolveLocalTimelapse(printer.id, previewPath)
+      return preview ? fs.rm(preview, { force: true }) : null
+    }))
+  } else {
+    const client = getMoonrakerClient(printer)
+    try {
+      await client.fetch(`/server/files/timelapse/${encodePath(videoPath)}`, { method: 'DELETE' })
+    } catch (error) {
+      if (error instanceof MoonrakerError && error.status === 404) return false
+      throw error
+    }
+    await Promise.all(getPreviewPaths(videoPath).map(previewPath =>
+      client.fetch(`/server/files/timelapse/${encodePath(previewPath)}`, { method: 'DELETE' }).catch(() => null)
+    ))
+  }
+
+  await fs.rm(getThumbnailCachePath(printer.id, source, videoPath), { force: true })
+  return true
+}
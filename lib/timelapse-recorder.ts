@@ -0,0 +1,403 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import type { PrinterMonitor, PrinterSample } from './printer-monitor'
+import { captureCameraSnapshot } from './camera-snapshot'
+import { isFfmpegAvailable, runFfmpeg } from './ffmpeg'
+import { getLocalTimelapseDirectory, getTimelapseRoot } from './timelapse-library'
+import {
+  DEFAULT_TIMELAPSE_CAPTURE_SETTINGS,
+  type TimelapseCaptureSettings,
+  type TimelapseRecordingState
+} from './timelapses'
+
+/**
+ * Dashboard-side timelapse recorder for printers without moonraker-timelapse.
+ *
+ * While a print runs, a frame is taken from the configured camera on every
+ * layer change or at a fixed interval and written to
+ * `TIMELAPSE_DIR/.frames/<printer id>/`. When the print ends the frames are
+ * rendered with ffmpeg, or into an animated WebP with sharp when ffmpeg is
+ * missing, and the result lands in the printer's local timelapse directory
+ * where the timelapse card picks it up.
+ */
+
+const FRAMES_DIRNAME = '.frames'
+const SESSION_FILENAME = 'session.json'
+const FRAME_PATTERN = /^frame_\d{6}\.jpg$/
+const CAPTURE_TIMEOUT_MS = 10000
+const RENDER_TIMEOUT_MS = 30 * 60 * 1000
+const MIN_RENDER_FRAMES = 2
+// The start of a print is derived from its duration, so allow for drift when resuming after a restart
+const SESSION_MATCH_TOLERANCE_MS = 2 * 60 * 1000
+// The WebP fallback holds every frame in memory, so it is kept short and small
+const FALLBACK_MAX_FRAMES = 240
+const FALLBACK_WIDTH = 640
+
+interface FrameSession {
+  directory: string
+  filename: string
+  startedAt: number // ms since epoch
+  frames: number
+  lastLayer: number | null
+  lastCaptureAt: number
+  failures: number
+}
+
+// Kept on globalThis so the settings route sees the recorders started from instrumentation
+const globalForTimelapse = globalThis as unknown as {
+  timelapseCaptureSettings?: Map<number, TimelapseCaptureSettings>
+  timelapseRecorders?: Map<number, TimelapseRecorder>
+  timelapseRenderingDirectories?: Set<string>
+}
+
+function getSettingsCache(): Map<number, TimelapseCaptureSettings> {
+  if (!globalForTimelapse.timelapseCaptureSettings) {
+    globalForTimelapse.timelapseCaptureSettings = new Map()
+  }
+  return globalForTimelapse.timelapseCaptureSettings
+}
+
+function getRecorderRegistry(): Map<number, TimelapseRecorder> {
+  if (!globalForTimelapse.timelapseRecorders) {
+    globalForTimelapse.timelapseRecorders = new Map()
+  }
+  return globalForTimelapse.timelapseRecorders
+}
+
+// Frame directories being rendered, which a new print must not clean up
+function getRenderingDirectories(): Set<string> {
+  if (!globalForTimelapse.timelapseRenderingDirectories) {
+    globalForTimelapse.timelapseRenderingDirectories = new Set()
+  }
+  return globalForTimelapse.timelapseRenderingDirectories
+}
+
+/**
+ * Recorder settings of a printer. Read once from the database, then served
+ * from memory; without a database they only live in memory.
+ */
+export async function getTimelapseCaptureSettings(printerId: number): Promise<TimelapseCaptureSettings> {
+  const cache = getSettingsCache()
+  const cached = cache.get(printerId)
+  if (cached) {
+    return cached
+  }
+
+  if (!isDatabaseAvailable()) {
+    return DEFAULT_TIMELAPSE_CAPTURE_SETTINGS
+  }
+
+  await initializeDatabase()
+  const rows = await query<TimelapseCaptureSettings>(
+    `SELECT enabled, camera_uid, trigger, interval_seconds, framerate, format
+     FROM timelapse_settings WHERE printer_id = $1`,
+    [printerId]
+  )
+  const settings = rows[0] || DEFAULT_TIMELAPSE_CAPTURE_SETTINGS
+  cache.set(printerId, settings)
+  return settings
+}
+
+export async function updateTimelapseCaptureSettings(
+  printerId: number,
+  input: TimelapseCaptureSettings
+): Promise<TimelapseCaptureSettings> {
+  const settings: TimelapseCaptureSettings = {
+    enabled: input.enabled,
+    camera_uid: input.camera_uid,
+    trigger: input.trigger,
+    interval_seconds: input.interval_seconds,
+    framerate: input.framerate,
+    format: input.format
+  }
+
+  if (isDatabaseAvailable()) {
+    await initializeDatabase()
+    await query(
+      `INSERT INTO timelapse_settings (printer_id, enabled, camera_uid, trigger, interval_seconds, framerate, format)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (printer_id) DO UPDATE SET
+         enabled = EXCLUDED.enabled,
+         camera_uid = EXCLUDED.camera_uid,
+         trigger = EXCLUDED.trigger,
+         interval_seconds = EXCLUDED.interval_seconds,
+         framerate = EXCLUDED.framerate,
+         format = EXCLUDED.format,
+         updated_at = CURRENT_TIMESTAMP`,
+      [printerId, settings.enabled, settings.camera_uid, settings.trigger, settings.interval_seconds, settings.framerate, settings.format]
+    )
+  }
+
+  getSettingsCache().set(printerId, settings)
+  return settings
+}
+
+export function getTimelapseRecordingState(printerId: number): TimelapseRecordingState {
+  return getRecorderRegistry().get(printerId)?.state ?? { recording: false, frames: 0, rendering: false }
+}
+
+const getFramesDirectory = (printerId: number) => path.join(getTimelapseRoot(), FRAMES_DIRNAME, String(printerId))
+const getFramePath = (directory: string, frame: number) => path.join(directory, `frame_${String(frame).padStart(6, '0')}.jpg`)
+
+// Same naming as moonraker-timelapse, so the library links the video to its print job
+function getTimelapseBasename(filename: string, renderedAt: Date): string {
+  const printName = (filename.split('/').pop() || filename).replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const date = `${renderedAt.getFullYear()}${pad(renderedAt.getMonth() + 1)}${pad(renderedAt.getDate())}`
+  const time = `${pad(renderedAt.getHours())}${pad(renderedAt.getMinutes())}${pad(renderedAt.getSeconds())}`
+  return `timelapse_${printName}_${date}_${time}`
+}
+
+async function listFrames(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory).catch(() => [] as string[])
+  return entries.filter(entry => FRAME_PATTERN.test(entry)).sort().map(entry => path.join(directory, entry))
+}
+
+function getVideoCodecArgs(settings: TimelapseCaptureSettings): string[] {
+  return settings.format === 'webm'
+    ? ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '35', '-row-mt', '1', '-deadline', 'good', '-cpu-used', '4']
+    : ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-movflags', '+faststart']
+}
+
+async function renderVideo(directory: string, output: string, settings: TimelapseCaptureSettings): Promise<void> {
+  await runFfmpeg([
+    '-y',
+    '-framerate', String(settings.framerate),
+    '-start_number', '1',
+    '-i', path.join(directory, 'frame_%06d.jpg'),
+    // Encoders need even dimensions
+    '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+    '-pix_fmt', 'yuv420p',
+    ...getVideoCodecArgs(settings),
+    output
+  ], RENDER_TIMEOUT_MS)
+}
+
+async function renderAnimatedWebp(frames: string[], output: string, settings: TimelapseCaptureSettings): Promise<void> {
+  // Spread the frames that are kept evenly over the print
+  const step = Math.max(1, frames.length / FALLBACK_MAX_FRAMES)
+  const picked: string[] = []
+  for (let index = 0; index < frames.length; index += step) {
+    picked.push(frames[Math.floor(index)])
+  }
+
+  // One at a time to keep memory flat on small hosts
+  const resized: Buffer[] = []
+  for (const frame of picked) {
+    resized.push(await sharp(frame).resize({ width: FALLBACK_WIDTH, withoutEnlargement: true }).jpeg({ quality: 80 }).toBuffer())
+  }
+
+  await sharp(resized, { join: { animated: true } })
+    .webp({ delay: Math.round(1000 / settings.framerate), loop: 0, quality: 70, effort: 2 })
+    .toFile(output)
+}
+
+/**
+ * Records one printer's timelapses from monitor samples. Frame capture runs
+ * one step at a time; renders are queued so two prints ending close together
+ * do not run ffmpeg side by side.
+ */
+class TimelapseRecorder {
+  private session: FrameSession | null = null
+  private step: Promise<void> = Promise.resolve()
+  private busy = false
+  private renders: Promise<void> = Promise.resolve()
+  private pendingRenders = 0
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  get state(): TimelapseRecordingState {
+    return {
+      recording: this.session !== null,
+      frames: this.session?.frames ?? 0,
+      rendering: this.pendingRenders > 0
+    }
+  }
+
+  start(): void {
+    this.monitor.on('sample', (sample) => this.handleSample(sample))
+    this.monitor.on('transition', ({ from, to }) => {
+      const wasActive = from === 'printing' || from === 'paused'
+      if (wasActive && to !== 'printing' && to !== 'paused') {
+        this.finish().catch((error) => {
+          console.error(`[Timelapse] ${this.monitor.printer.name}: error finishing timelapse:`, error)
+        })
+      }
+    })
+  }
+
+  private handleSample(sample: PrinterSample): void {
+    // Samples keep coming while a slow camera answers; skip them rather than queueing up
+    if (this.busy || (sample.printState !== 'printing' && sample.printState !== 'paused')) {
+      return
+    }
+
+    this.busy = true
+    this.step = this.captureIfDue(sample)
+      .catch((error) => {
+        console.error(`[Timelapse] ${this.monitor.printer.name}: error recording timelapse:`, error)
+      })
+      .finally(() => {
+        this.busy = false
+      })
+  }
+
+  private async captureIfDue(sample: PrinterSample): Promise<void> {
+    const settings = await getTimelapseCaptureSettings(this.monitor.printerId)
+    if (!settings.enabled || !sample.filename) {
+      return
+    }
+
+    if (this.session && this.session.filename !== sample.filename) {
+      // A new print started without the monitor seeing the last one end
+      this.queueRender(this.session)
+      this.session = null
+    }
+    if (!this.session) {
+      this.session = await this.openSession(sample)
+    }
+
+    const session = this.session
+    if (sample.printState === 'paused') {
+      return
+    }
+
+    // Slicers that do not report layers fall back to the interval
+    const layer = sample.currentLayer
+    const useLayers = settings.trigger === 'layer' && layer !== null && layer > 0
+    const due = useLayers
+      ? layer !== session.lastLayer
+      : sample.timestamp - session.lastCaptureAt >= settings.interval_seconds * 1000
+    if (!due) {
+      return
+    }
+
+    session.lastLayer = layer
+    session.lastCaptureAt = sample.timestamp
+
+    try {
+      const snapshot = await captureCameraSnapshot(this.monitor.printer, settings.camera_uid ?? undefined, CAPTURE_TIMEOUT_MS)
+      const frame = snapshot.contentType.includes('jpeg')
+        ? snapshot.buffer
+        : await sharp(snapshot.buffer).jpeg({ quality: 90 }).toBuffer()
+
+      await fs.writeFile(getFramePath(session.directory, session.frames + 1), frame)
+      session.frames++
+    } catch (error) {
+      // A camera that is down would otherwise log on every layer
+      if (session.failures++ === 0) {
+        console.warn(`[Timelapse] ${this.monitor.printer.name}: could not capture frame:`, error instanceof Error ? error.message : error)
+      }
+    }
+  }
+
+  /**
+   * Start frames for the current print, or pick up the ones written before
+   * the dashboard restarted in the middle of it
+   */
+  private async openSession(sample: PrinterSample): Promise<FrameSession> {
+    const filename = sample.filename as string
+    const startedAt = sample.timestamp - sample.totalDuration * 1000
+    const root = getFramesDirectory(this.monitor.printerId)
+    const rendering = getRenderingDirectories()
+
+    const entries = await fs.readdir(root).catch(() => [] as string[])
+    for (const entry of entries) {
+      const directory = path.join(root, entry)
+      if (rendering.has(directory)) {
+        continue
+      }
+
+      const saved = await fs.readFile(path.join(directory, SESSION_FILENAME), 'utf8')
+        .then(data => JSON.parse(data) as { filename: string; startedAt: number })
+        .catch(() => null)
+
+      if (saved && saved.filename === filename && Math.abs(saved.startedAt - startedAt) < SESSION_MATCH_TOLERANCE_MS) {
+        const frames = (await listFrames(directory)).length
+        console.log(`[Timelapse] ${this.monitor.printer.name}: resuming timelapse of ${filename} at frame ${frames}`)
+        return { directory, filename, startedAt: saved.startedAt, frames, lastLayer: null, lastCaptureAt: 0, failures: 0 }
+      }
+
+      // Frames of a print that ended while the dashboard was down
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+
+    const directory = path.join(root, String(Math.round(startedAt)))
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(path.join(directory, SESSION_FILENAME), JSON.stringify({ filename, startedAt }))
+    console.log(`[Timelapse] ${this.monitor.printer.name}: recording timelapse of ${filename}`)
+    return { directory, filename, startedAt, frames: 0, lastLayer: null, lastCaptureAt: 0, failures: 0 }
+  }
+
+  private async finish(): Promise<void> {
+    // Let a capture in flight write its frame first
+    await this.step
+
+    const session = this.session
+    this.session = null
+    if (session) {
+      this.queueRender(session)
+    }
+  }
+
+  private queueRender(session: FrameSession): void {
+    getRenderingDirectories().add(session.directory)
+    this.pendingRenders++
+
+    this.renders = this.renders
+      .then(() => this.render(session))
+      .catch((error) => {
+        // The frames stay until the next print, for a look at what went wrong
+        console.error(`[Timelapse] ${this.monitor.printer.name}: failed to render timelapse of ${session.filename}:`, error)
+      })
+      .finally(() => {
+        this.pendingRenders--
+        getRenderingDirectories().delete(session.directory)
+      })
+  }
+
+  private async render(session: FrameSession): Promise<void> {
+    const frames = await listFrames(session.directory)
+    if (frames.length < MIN_RENDER_FRAMES) {
+      console.log(`[Timelapse] ${this.monitor.printer.name}: not enough frames to render ${session.filename}`)
+      await fs.rm(session.directory, { recursive: true, force: true })
+      return
+    }
+
+    const settings = await getTimelapseCaptureSettings(this.monitor.printerId)
+    const useFfmpeg = await isFfmpegAvailable()
+    const extension = useFfmpeg ? settings.format : 'webp'
+    const directory = getLocalTimelapseDirectory(this.monitor.printerId)
+    const basename = getTimelapseBasename(session.filename, new Date())
+    // Rendered next to the frames and moved into place, so the card never lists a partial file
+    const partial = path.join(session.directory, `render.${extension}`)
+
+    const startedAt = Date.now()
+    if (useFfmpeg) {
+      await renderVideo(session.directory, partial, settings)
+    } else {
+      await renderAnimatedWebp(frames, partial, settings)
+    }
+
+    await fs.mkdir(directory, { recursive: true })
+    if (useFfmpeg) {
+      // The last frame doubles as the preview the library shows as thumbnail
+      await fs.copyFile(frames[frames.length - 1], path.join(directory, `${basename}.jpg`))
+    }
+    await fs.rename(partial, path.join(directory, `${basename}.${extension}`))
+    await fs.rm(session.directory, { recursive: true, force: true })
+
+    console.log(`[Timelapse] ${this.monitor.printer.name}: rendered ${basename}.${extension} from ${frames.length} frames in ${Math.round((Date.now() - startedAt) / 1000)}s`)
+  }
+}
+
+/**
+ * Record timelapses for the printer watched by `monitor` while its recorder is enabled
+ */
+export function attachTimelapseRecorder(monitor: PrinterMonitor): void {
+  const recorder = new TimelapseRecorder(monitor)
+  recorder.start()
+  getRecorderRegistry().set(monitor.printerId, recorder)
+}
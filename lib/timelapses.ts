@@ -0,0 +1,195 @@
+/**
+ * Timelapse videos shared by the timelapse API routes and the timelapse card.
+ *
+ * Videos come from two places: Moonraker's `timelapse` root, where
+ * moonraker-timelapse renders them, and a local directory on the dashboard
+ * host (`TIMELAPSE_DIR`, filled by `scripts/sync-timelapse.sh` and the
+ * dashboard's own recorder). A video is addressed by its source and its path
+ * relative to that root.
+ */
+
+import type { PrintJobStatus } from './print-jobs'
+
+export type TimelapseSource = 'printer' | 'local'
+
+export const TIMELAPSE_SOURCES: TimelapseSource[] = ['printer', 'local']
+
+// Animated WebP and GIF are shown as images rather than played
+export const TIMELAPSE_CONTENT_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  webp: 'image/webp',
+  gif: 'image/gif'
+}
+
+export interface TimelapseJob {
+  id: number
+  status: PrintJobStatus
+  started_at: string
+  print_duration: number | null // seconds
+  filament_used: number | null // mm
+}
+
+export interface TimelapseVideo {
+  source: TimelapseSource
+  path: string // relative to the source's root
+  filename: string
+  title: string // print name without the timelapse prefix and render date
+  size: number
+  modified: number // unix seconds
+  content_type: string
+  printer_id: number
+  print_filename: string | null // G-code name from the video's filename, without extension
+  job: TimelapseJob | null // the print job the video was rendered for, when history is recorded
+  video_url: string
+  thumbnail_url: string
+}
+
+export interface TimelapseListResponse {
+  timelapse: TimelapseVideo[]
+  count: number
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+}
+
+// How the dashboard's recorder decides when to take a frame
+export type TimelapseTrigger = 'layer' | 'interval'
+
+export const TIMELAPSE_TRIGGERS: TimelapseTrigger[] = ['layer', 'interval']
+
+export const TIMELAPSE_TRIGGER_LABELS: Record<TimelapseTrigger, string> = {
+  layer: 'Every layer',
+  interval: 'Fixed interval'
+}
+
+// Video format rendered with ffmpeg; without it the recorder writes an animated WebP
+export type TimelapseFormat = 'mp4' | 'webm'
+
+export const TIMELAPSE_FORMATS: TimelapseFormat[] = ['mp4', 'webm']
+
+export interface TimelapseCaptureSettings {
+  enabled: boolean
+  camera_uid: string | null // null for the printer's first camera
+  trigger: TimelapseTrigger
+  interval_seconds: number // between frames with the interval trigger, or when the slicer reports no layers
+  framerate: number // frames per second of the rendered video
+  format: TimelapseFormat
+}
+
+export const DEFAULT_TIMELAPSE_CAPTURE_SETTINGS: TimelapseCaptureSettings = {
+  enabled: false,
+  camera_uid: null,
+  trigger: 'layer',
+  interval_seconds: 30,
+  framerate: 30,
+  format: 'mp4'
+}
+
+export const TIMELAPSE_INTERVAL_RANGE = { min: 2, max: 3600 }
+export const TIMELAPSE_FRAMERATE_RANGE = { min: 1, max: 60 }
+
+// What the recorder is doing for a printer right now
+export interface TimelapseRecordingState {
+  recording: boolean
+  frames: number // frames captured for the current print
+  rendering: boolean
+}
+
+export interface TimelapseSettingsResponse {
+  settings: TimelapseCaptureSettings
+  state: TimelapseRecordingState
+  ffmpegAvailable: boolean
+}
+
+export function isTimelapseSource(source: unknown): source is TimelapseSource {
+  return typeof source === 'string' && TIMELAPSE_SOURCES.includes(source as TimelapseSource)
+}
+
+const getExtension = (filename: string) => filename.slice(filename.lastIndexOf('.') + 1).toLowerCase()
+
+export function getTimelapseContentType(filename: string): string | null {
+  return TIMELAPSE_CONTENT_TYPES[getExtension(filename)] ?? null
+}
+
+export function isTimelapseImage(video: Pick<TimelapseVideo, 'content_type'>): boolean {
+  return video.content_type.startsWith('image/')
+}
+
+/**
+ * The G-code name in a moonraker-timelapse filename such as
+ * `timelapse_benchy_20240102_1530.mp4`, or null for other names
+ */
+export function parseTimelapseFilename(filename: string): string | null {
+  const match = filename.match(/^timelapse_(.+)_\d{8}_\d{4,6}\.[^.]+$/)
+  return match ? match[1] : null
+}
+
+/**
+ * The video addressed by the `source` and `path` query parameters, or null when either is invalid
+ */
+export function parseTimelapseParams(searchParams: URLSearchParams): { source: TimelapseSource; path: string } | null {
+  const source = searchParams.get('source')
+  const path = searchParams.get('path')
+  const segments = (path || '').split('/')
+
+  if (!isTimelapseSource(source) || !path || segments.some(segment => !segment || segment === '.' || segment === '..')) {
+    return null
+  }
+  return { source, path }
+}
+
+/**
+ * Query string addressing a video, for the video and thumbnail routes
+ */
+export function getTimelapseQuery(video: Pick<TimelapseVideo, 'printer_id' | 'source' | 'path'>): string {
+  return new URLSearchParams({ printerId: String(video.printer_id), source: video.source, path: video.path }).toString()
+}
+
+const isIntegerIn = (value: unknown, range: { min: number; max: number }) =>
+  Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+
+export function validateTimelapseCaptureSettings(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid timelapse settings'
+  const { enabled, camera_uid, trigger, interval_seconds, framerate, format } = input as Record<string, unknown>
+
+  if (typeof enabled !== 'boolean') {
+    return 'Enabled must be true or false'
+  }
+  if (camera_uid !== null && (typeof camera_uid !== 'string' || camera_uid.length === 0 || camera_uid.length > 255)) {
+    return 'Camera must be a webcam uid or null for the first camera'
+  }
+  if (!TIMELAPSE_TRIGGERS.includes(trigger as TimelapseTrigger)) {
+    return `Trigger must be one of ${TIMELAPSE_TRIGGERS.join(', ')}`
+  }
+  if (!isIntegerIn(interval_seconds, TIMELAPSE_INTERVAL_RANGE)) {
+    return `Interval must be between ${TIMELAPSE_INTERVAL_RANGE.min} and ${TIMELAPSE_INTERVAL_RANGE.max} seconds`
+  }
+  if (!isIntegerIn(framerate, TIMELAPSE_FRAMERATE_RANGE)) {
+    return `Frame rate must be between ${TIMELAPSE_FRAMERATE_RANGE.min} and ${TIMELAPSE_FRAMERATE_RANGE.max} fps`
+  }
+  if (!TIMELAPSE_FORMATS.includes(format as TimelapseFormat)) {
+    return `Format must be one of ${TIMELAPSE_FORMATS.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Delete a timelapse and its preview image (requires operator role)
+ */
+export async function deleteTimelapse(video: TimelapseVideo): Promise<{ message: string }> {
+  const response = await fetch(`/api/timelapse/video?${getTimelapseQuery(video)}`, { method: 'DELETE' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to delete timelapse')
+  }
+
+  return { message: data.message }
+}
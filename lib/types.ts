@@ -1,4 +1,6 @@
 // Types for Klipper/Moonraker API responses and our internal API
+import type { CameraImageSettings } from './camera-processing'
+
 export interface PrinterStatus {
   // Print job information
   print: {
@@ -10,6 +12,13 @@ export interface PrinterStatus {
     printTime: number // seconds
     estimatedTimeLeft: number | null
     slicerEstimatedTime: number | null // total estimated time from slicer
+    // Time left with a confidence range, see lib/print-eta.ts
+    eta: {
+      remaining: number // seconds
+      low: number
+      high: number
+      confidence: 'high' | 'medium' | 'low'
+    } | null
     filamentUsed: number // mm
   }
   
@@ -38,7 +47,8 @@ export interface PrinterStatus {
   // Speeds and settings
   speeds: {
     current: number
-    factor: number
+    factor: number // speed multiplier (M220)
+    flowFactor: number // extrusion multiplier (M221)
   }
   
   // System state
@@ -54,6 +64,48 @@ export interface PrinterStatus {
     size: number
     position: number
   }
+
+  // Every heater, sensor and fan Klipper reports, discovered from printer.objects.list.
+  // `temperatures` above keeps the primary extruder and bed for existing views.
+  heaters: HeaterStatus[]
+  sensors: TemperatureSensorStatus[]
+  fans: FanStatus[]
+  filamentSensors: FilamentSensorStatus[]
+}
+
+// `name` is the Klipper object name (e.g. "heater_generic chamber"),
+// `label` the part after the type prefix for display (e.g. "chamber")
+export interface HeaterStatus {
+  name: string
+  label: string
+  type: 'extruder' | 'heater_bed' | 'heater_generic'
+  actual: number
+  target: number
+  power: number // 0-1
+}
+
+export interface TemperatureSensorStatus {
+  name: string
+  label: string
+  type: 'temperature_sensor' | 'temperature_fan'
+  actual: number
+  target: number | null // temperature_fan only
+}
+
+export interface FanStatus {
+  name: string
+  label: string
+  type: 'fan' | 'fan_generic' | 'controller_fan' | 'heater_fan' | 'temperature_fan'
+  speed: number // 0-1
+  rpm: number | null // null without a tachometer
+}
+
+export interface FilamentSensorStatus {
+  name: string
+  label: string
+  type: 'filament_switch_sensor' | 'filament_motion_sensor'
+  enabled: boolean
+  detected: boolean
 }
 
 export interface TemperatureHistory {
@@ -68,6 +120,8 @@ export interface TemperatureHistory {
     powers: number[]
   }
   timestamps: string[] // formatted time strings for chart display
+  times?: string[] // ISO timestamps of each point, when recorded by the dashboard
+  resolution?: 'raw' | 'minute' | 'hour'
 }
 
 // Raw Klipper API response types
@@ -111,12 +165,15 @@ export interface KlipperPrinterObjects {
   toolhead?: {
     homed_axes: string
     position: number[]
+    axis_minimum?: number[]
+    axis_maximum?: number[]
     print_time: number
     estimated_print_time: number
   }
   gcode_move?: {
     speed: number
     speed_factor: number
+    extrude_factor?: number
     position: number[]
   }
 }
@@ -128,6 +185,12 @@ export interface KlipperResponse {
   }
 }
 
+export interface KlipperObjectListResponse {
+  result: {
+    objects: string[]
+  }
+}
+
 export interface KlipperTemperatureStore {
   result: {
     extruder: {
@@ -224,7 +287,7 @@ export interface MoonrakerWebcamListResponse {
 }
 
 // Camera settings stored in our database
-export interface CameraSettings {
+export interface CameraSettings extends CameraImageSettings {
   id: number
   uid: string
   name: string
@@ -268,3 +331,34 @@ export interface GcodeMetadata {
   print_start_time?: number
   job_id?: string
 }
+
+export interface MoonrakerMetadataResponse {
+  result: GcodeMetadata
+}
+
+// Moonraker server info; `components` lists the loaded optional components
+export interface MoonrakerServerInfoResponse {
+  result: {
+    klippy_connected: boolean
+    klippy_state: string
+    components: string[]
+    failed_components: string[]
+    moonraker_version: string
+    api_version_string: string
+  }
+}
+
+// Moonraker job queue (`[job_queue]` component)
+export interface MoonrakerQueuedJob {
+  filename: string
+  job_id: string
+  time_added: number // seconds since epoch
+  time_in_queue: number // seconds
+}
+
+export interface MoonrakerJobQueueResponse {
+  result: {
+    queued_jobs: MoonrakerQueuedJob[]
+    queue_state: 'ready' | 'paused' | 'loading' | 'starting'
+  }
+}
@@ -90,3 +90,22 @@ export async function apiFetch<T = any>(endpoint: string, options?: RequestInit)
     return null
   }
 }
+
+/**
+ * Content-Disposition for a download. Header values must be Latin-1, so
+ * non-ASCII names go in `filename*` (RFC 6266) with an ASCII fallback.
+ */
+export function getAttachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '')
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Add the `printerId` query parameter every printer route accepts.
+ * Without one the route uses the first enabled printer.
+ */
+export function withPrinterId(endpoint: string, printerId?: number): string {
+  if (printerId === undefined) return endpoint
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}printerId=${printerId}`
+}
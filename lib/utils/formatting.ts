@@ -33,6 +33,13 @@ export function formatLifetimeTime(seconds: number): string {
   }
 }
 
+// Confidence range of an ETA, e.g. "1h 20m – 1h 35m"
+export function formatEtaRange(eta: { low: number; high: number }): string {
+  const low = formatLifetimeTime(eta.low)
+  const high = formatLifetimeTime(eta.high)
+  return low === high ? low : `${low} – ${high}`
+}
+
 export function formatFinishTime(estimatedTimeLeft: number): string {
   const finishTime = new Date(Date.now() + estimatedTimeLeft * 1000)
   const now = new Date()
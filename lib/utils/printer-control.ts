@@ -0,0 +1,43 @@
+/**
+ * Browser helpers for destructive printer actions.
+ * The server requires a confirmation token, requested when the confirm dialog opens.
+ * The token is bound to the printer, so both calls must name the same `printerId`.
+ */
+
+import { withPrinterId } from './api'
+
+export type DestructivePrinterAction = 'emergency_stop' | 'shutdown'
+
+export async function requestConfirmationToken(action: DestructivePrinterAction, printerId?: number): Promise<string> {
+  const response = await fetch(withPrinterId('/api/printer/confirm', printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action })
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || !data.confirmation_token) {
+    throw new Error(data.message || data.error || 'Failed to request confirmation')
+  }
+
+  return data.confirmation_token
+}
+
+export async function performDestructiveAction(
+  action: DestructivePrinterAction,
+  confirmationToken: string,
+  printerId?: number
+): Promise<{ success: boolean; message: string }> {
+  const response = await fetch(withPrinterId('/api/printer/emergency-stop', printerId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, confirmation_token: confirmationToken })
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `${action} failed`)
+  }
+
+  return { success: true, message: data.message }
+}
@@ -0,0 +1,335 @@
+import crypto from 'crypto'
+import { query, initializeDatabase, isDatabaseAvailable } from './database'
+import {
+  crossesProgressStep,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEndpointInput,
+  type WebhookEventType,
+  type WebhookPayload
+} from './webhooks'
+
+/**
+ * Server side of the outgoing webhooks: endpoint storage, the
+ * `webhook_deliveries` outbox and the worker that sends and retries it.
+ * Deliveries survive restarts; pending rows are picked up again on startup.
+ */
+
+const DELIVERY_INTERVAL_MS = 10 * 1000
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+const DELIVERY_BATCH_SIZE = 20
+// Retried after 30 s, 1, 2, 4 ... minutes; about an hour before giving up
+const RETRY_BASE_MS = 30 * 1000
+const MAX_ATTEMPTS = 8
+const DELIVERY_RETENTION_DAYS = 14
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+// Kept on globalThis so route handlers and the worker share one timer
+const globalForWebhooks = globalThis as unknown as {
+  webhookDeliveryTimer?: ReturnType<typeof setInterval>
+  webhookDeliveryRun?: Promise<void> | null
+  webhookDeliveryRerun?: boolean
+  webhookDeliveryPrunedAt?: number
+}
+
+export async function getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  await initializeDatabase()
+  return query<WebhookEndpoint>('SELECT * FROM webhook_endpoints ORDER BY id')
+}
+
+export async function getWebhookEndpoint(id: number): Promise<WebhookEndpoint | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<WebhookEndpoint>('SELECT * FROM webhook_endpoints WHERE id = $1', [id])
+  return rows[0] || null
+}
+
+export async function createWebhookEndpoint(input: WebhookEndpointInput): Promise<WebhookEndpoint | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<WebhookEndpoint>(
+    `INSERT INTO webhook_endpoints (name, url, secret, events, progress_step, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.url,
+      `whsec_${crypto.randomBytes(24).toString('hex')}`,
+      input.events,
+      input.progress_step ?? 10,
+      input.enabled ?? true
+    ]
+  )
+  return rows[0] || null
+}
+
+export async function updateWebhookEndpoint(id: number, input: WebhookEndpointInput): Promise<WebhookEndpoint | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<WebhookEndpoint>(
+    `UPDATE webhook_endpoints SET
+       name = $1,
+       url = $2,
+       events = $3,
+       progress_step = $4,
+       enabled = $5,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $6
+     RETURNING *`,
+    [input.name.trim(), input.url, input.events, input.progress_step ?? 10, input.enabled ?? true, id]
+  )
+  return rows[0] || null
+}
+
+export async function deleteWebhookEndpoint(id: number): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await initializeDatabase()
+  const rows = await query<{ id: number }>('DELETE FROM webhook_endpoints WHERE id = $1 RETURNING id', [id])
+  return rows.length > 0
+}
+
+/**
+ * Whether any enabled endpoint receives `event`, e.g. to skip work nobody listens for
+ */
+export async function hasWebhookSubscribers(event: WebhookEventType): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false
+  }
+
+  await initializeDatabase()
+  const rows = await query('SELECT 1 FROM webhook_endpoints WHERE enabled AND $1 = ANY(events) LIMIT 1', [event])
+  return rows.length > 0
+}
+
+export async function getRecentWebhookDeliveries(limit = 50): Promise<WebhookDelivery[]> {
+  if (!isDatabaseAvailable()) {
+    return []
+  }
+
+  await initializeDatabase()
+  return query<WebhookDelivery>(
+    `SELECT d.id, d.endpoint_id, e.name AS endpoint_name, d.event, d.status, d.attempts,
+            d.response_status, d.error, d.next_attempt_at, d.created_at, d.delivered_at
+     FROM webhook_deliveries d
+     JOIN webhook_endpoints e ON e.id = d.endpoint_id
+     ORDER BY d.created_at DESC, d.id DESC
+     LIMIT $1`,
+    [limit]
+  )
+}
+
+/**
+ * The endpoint a delivery was sent to, e.g. to find the secret that signed it
+ */
+export async function getDeliveryEndpoint(deliveryId: number): Promise<WebhookEndpoint | null> {
+  if (!isDatabaseAvailable()) {
+    return null
+  }
+
+  await initializeDatabase()
+  const rows = await query<WebhookEndpoint>(
+    'SELECT e.* FROM webhook_endpoints e JOIN webhook_deliveries d ON d.endpoint_id = e.id WHERE d.id = $1',
+    [deliveryId]
+  )
+  return rows[0] || null
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Check an `X-Webhook-Signature` header against the raw body
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(`sha256=${signWebhookPayload(secret, timestamp, body)}`)
+  const received = Buffer.from(signature)
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+async function queueDeliveries(endpoints: WebhookEndpoint[], event: WebhookEventType | 'ping', data: Record<string, unknown>): Promise<void> {
+  if (endpoints.length === 0) {
+    return
+  }
+
+  const timestamp = new Date().toISOString()
+  for (const endpoint of endpoints) {
+    await query(
+      `INSERT INTO webhook_deliveries (endpoint_id, event, payload, next_attempt_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP)`,
+      [endpoint.id, event, JSON.stringify({ event, timestamp, data })]
+    )
+  }
+
+  // Send now rather than on the next tick
+  runWebhookDeliveries()
+}
+
+/**
+ * Queue `event` for every enabled endpoint that receives it.
+ * For print_progress, `data.progress` and `data.previous_progress` (percent)
+ * decide which endpoints' progress steps were crossed.
+ */
+export async function emitWebhookEvent(event: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  const endpoints = (await getWebhookEndpoints()).filter(endpoint =>
+    endpoint.enabled &&
+    endpoint.events.includes(event) &&
+    (event !== 'print_progress' ||
+      crossesProgressStep(Number(data.previous_progress), Number(data.progress), endpoint.progress_step))
+  )
+
+  await queueDeliveries(endpoints, event, data)
+}
+
+/**
+ * Queue a ping to one endpoint, whether or not it is enabled
+ */
+export async function pingWebhookEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+  await queueDeliveries([endpoint], 'ping', { message: `Test delivery to ${endpoint.name}` })
+}
+
+interface DueDelivery {
+  id: number
+  event: WebhookPayload['event']
+  payload: Omit<WebhookPayload, 'id'>
+  attempts: number
+  url: string
+  secret: string
+}
+
+async function deliver(delivery: DueDelivery): Promise<void> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload })
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const attempts = delivery.attempts + 1
+
+  let responseStatus: number | null = null
+  let error: string | null = null
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 's1pper-dashboard-webhooks',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(delivery.secret, timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+    responseStatus = response.status
+    if (!response.ok) {
+      error = `${response.status} ${response.statusText}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  if (!error) {
+    await query(
+      `UPDATE webhook_deliveries SET status = 'delivered', attempts = $1, response_status = $2, error = NULL,
+         next_attempt_at = NULL, delivered_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [attempts, responseStatus, delivery.id]
+    )
+    return
+  }
+
+  const giveUp = attempts >= MAX_ATTEMPTS
+  await query(
+    `UPDATE webhook_deliveries SET status = $1, attempts = $2, response_status = $3, error = $4,
+       next_attempt_at = $5
+     WHERE id = $6`,
+    [
+      giveUp ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      error.slice(0, 500),
+      giveUp ? null : new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+      delivery.id
+    ]
+  )
+}
+
+async function processDueDeliveries(): Promise<void> {
+  await initializeDatabase()
+
+  const due = await query<DueDelivery>(
+    `SELECT d.id, d.event, d.payload, d.attempts, e.url, e.secret
+     FROM webhook_deliveries d
+     JOIN webhook_endpoints e ON e.id = d.endpoint_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= CURRENT_TIMESTAMP
+     ORDER BY d.next_attempt_at
+     LIMIT $1`,
+    [DELIVERY_BATCH_SIZE]
+  )
+
+  for (const delivery of due) {
+    await deliver(delivery)
+  }
+
+  if (Date.now() - (globalForWebhooks.webhookDeliveryPrunedAt ?? 0) > PRUNE_INTERVAL_MS) {
+    globalForWebhooks.webhookDeliveryPrunedAt = Date.now()
+    await query(
+      `DELETE FROM webhook_deliveries WHERE status <> 'pending' AND created_at < CURRENT_TIMESTAMP - INTERVAL '${DELIVERY_RETENTION_DAYS} days'`
+    )
+  }
+}
+
+// Send due deliveries, at most one run at a time; events queued during a run get another
+function runWebhookDeliveries(): void {
+  if (globalForWebhooks.webhookDeliveryRun) {
+    globalForWebhooks.webhookDeliveryRerun = true
+    return
+  }
+
+  globalForWebhooks.webhookDeliveryRun = processDueDeliveries()
+    .catch((error) => {
+      console.error('Error delivering webhooks:', error)
+    })
+    .finally(() => {
+      globalForWebhooks.webhookDeliveryRun = null
+      if (globalForWebhooks.webhookDeliveryRerun) {
+        globalForWebhooks.webhookDeliveryRerun = false
+        runWebhookDeliveries()
+      }
+    })
+}
+
+/**
+ * Periodically send pending and retried deliveries. Does nothing without a database.
+ */
+export function startWebhookDelivery(): void {
+  if (globalForWebhooks.webhookDeliveryTimer || !isDatabaseAvailable()) {
+    return
+  }
+
+  globalForWebhooks.webhookDeliveryTimer = setInterval(runWebhookDeliveries, DELIVERY_INTERVAL_MS)
+  runWebhookDeliveries()
+}
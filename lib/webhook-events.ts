@@ -0,0 +1,129 @@
+import { emitWebhookEvent, hasWebhookSubscribers } from './webhook-delivery'
+import { isDatabaseAvailable } from './database'
+import { captureCameraSnapshot } from './camera-snapshot'
+import { getMoonrakerClient } from './moonraker-client'
+import type { PrinterMonitor, PrinterSample, PrinterTransition } from './printer-monitor'
+import type { WebhookEventType } from './webhooks'
+
+/**
+ * Turns the monitor's samples into webhook events: print start, progress,
+ * completion and failure, plus camera_offline from a periodic snapshot check
+ * that only runs while an endpoint receives it.
+ */
+
+const CAMERA_CHECK_INTERVAL_MS = 60 * 1000
+const CAMERA_CHECK_TIMEOUT_MS = 10 * 1000
+
+class WebhookEventEmitter {
+  private lastPercent: number | null = null
+  private lastCameraCheck = 0
+  private checkingCameras = false
+  // uid -> whether the camera answered the last check
+  private cameraOnline = new Map<string, boolean>()
+
+  constructor(private monitor: PrinterMonitor) {}
+
+  start(): void {
+    this.monitor.on('transition', (transition) => this.handleTransition(transition))
+    this.monitor.on('sample', (sample) => this.handleSample(sample))
+  }
+
+  private get printer() {
+    return { id: this.monitor.printerId, name: this.monitor.printer.name }
+  }
+
+  private emit(event: WebhookEventType, data: Record<string, unknown>): void {
+    emitWebhookEvent(event, { printer: this.printer, ...data }).catch((error) => {
+      console.error(`[Webhooks] ${this.monitor.printer.name}: could not queue ${event}:`, error)
+    })
+  }
+
+  private handleTransition({ from, to, current }: PrinterTransition): void {
+    const wasActive = from === 'printing' || from === 'paused'
+
+    if (to === 'printing' && from !== 'paused') {
+      this.lastPercent = 0
+      this.emit('print_started', { filename: current.filename })
+    } else if (wasActive && to === 'complete') {
+      this.emit('print_complete', {
+        filename: current.filename,
+        print_duration: current.printDuration,
+        filament_used: current.filamentUsed
+      })
+    } else if (wasActive && to === 'error') {
+      this.emit('print_failed', {
+        filename: current.filename,
+        progress: Math.floor(current.progress * 100),
+        message: current.message || current.klippyMessage || null
+      })
+    }
+  }
+
+  private handleSample(sample: PrinterSample): void {
+    if (sample.printState === 'printing') {
+      const percent = Math.floor(sample.progress * 100)
+      // Starts counting from the first sample when the dashboard starts mid-print
+      if (this.lastPercent !== null && percent > this.lastPercent) {
+        this.emit('print_progress', {
+          filename: sample.filename,
+          progress: percent,
+          previous_progress: this.lastPercent,
+          print_duration: sample.printDuration
+        })
+      }
+      this.lastPercent = percent
+    } else if (sample.printState !== 'paused') {
+      this.lastPercent = null
+    }
+
+    if (!this.checkingCameras && sample.timestamp - this.lastCameraCheck >= CAMERA_CHECK_INTERVAL_MS) {
+      this.lastCameraCheck = sample.timestamp
+      this.checkingCameras = true
+      this.checkCameras()
+        .catch((error) => {
+          console.error(`[Webhooks] ${this.monitor.printer.name}: camera check failed:`, error)
+        })
+        .finally(() => {
+          this.checkingCameras = false
+        })
+    }
+  }
+
+  private async checkCameras(): Promise<void> {
+    if (!(await hasWebhookSubscribers('camera_offline'))) {
+      this.cameraOnline.clear()
+      return
+    }
+
+    const printer = this.monitor.printer
+    const { result } = await getMoonrakerClient(printer).getWebcams()
+
+    for (const webcam of result.webcams.filter(webcam => webcam.enabled)) {
+      let error: string | null = null
+      try {
+        await captureCameraSnapshot(printer, webcam.uid, CAMERA_CHECK_TIMEOUT_MS, { raw: true })
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err)
+      }
+
+      const wasOnline = this.cameraOnline.get(webcam.uid)
+      this.cameraOnline.set(webcam.uid, error === null)
+
+      // Reported once per outage, including a camera already down when checks begin
+      if (error !== null && wasOnline !== false) {
+        this.emit('camera_offline', { camera: { uid: webcam.uid, name: webcam.name }, error })
+      }
+    }
+  }
+}
+
+/**
+ * Queue webhook events for the printer watched by `monitor`. Does nothing without a database.
+ */
+export function attachWebhookEmitter(monitor: PrinterMonitor): void {
+  if (!isDatabaseAvailable()) {
+    return
+  }
+
+  new WebhookEventEmitter(monitor).start()
+}
@@ -0,0 +1,148 @@
+/**
+ * Outgoing webhooks shared by the API routes, the delivery worker and the settings UI.
+ *
+ * Every event is stored as a row in `webhook_deliveries` for each endpoint that
+ * subscribes to it, then POSTed with an HMAC signature and retried with
+ * exponential backoff until it succeeds or runs out of attempts
+ * (see `webhook-delivery.ts`).
+ *
+ * Receivers verify a delivery by computing
+ *   hex(HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${raw body}`))
+ * and comparing it with the `sha256=` value of `X-Webhook-Signature`.
+ */
+
+export type WebhookEventType =
+  | 'print_started'
+  | 'print_progress'
+  | 'print_complete'
+  | 'print_failed'
+  | 'guestbook_entry_created'
+  | 'camera_offline'
+  | 'failure_detected'
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'print_started',
+  'print_progress',
+  'print_complete',
+  'print_failed',
+  'guestbook_entry_created',
+  'camera_offline',
+  'failure_detected'
+]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  print_started: 'Print started',
+  print_progress: 'Print progress',
+  print_complete: 'Print complete',
+  print_failed: 'Print failed',
+  guestbook_entry_created: 'Guestbook entry',
+  camera_offline: 'Camera offline',
+  failure_detected: 'Print failure detected'
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event'
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery'
+
+export interface WebhookEndpoint {
+  id: number
+  name: string
+  url: string
+  secret: string // HMAC key, generated when the endpoint is created
+  events: WebhookEventType[]
+  progress_step: number // print_progress is sent every this many percent
+  enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookEndpointInput {
+  name: string
+  url: string
+  events: WebhookEventType[]
+  progress_step?: number
+  enabled?: boolean
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: number
+  endpoint_id: number
+  endpoint_name: string
+  event: WebhookEventType | 'ping'
+  status: WebhookDeliveryStatus
+  attempts: number
+  response_status: number | null
+  error: string | null
+  next_attempt_at: string | null
+  created_at: string
+  delivered_at: string | null
+}
+
+// The JSON body of every delivery
+export interface WebhookPayload {
+  id: number // delivery id, also sent as X-Webhook-Delivery
+  event: WebhookEventType | 'ping'
+  timestamp: string // ISO date the event happened
+  data: Record<string, unknown>
+}
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check an endpoint. Returns an error message, or null when the endpoint may be saved.
+ */
+export function validateWebhookEndpointInput(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Invalid webhook'
+  const { name, url, events, progress_step, enabled } = input as Record<string, unknown>
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    return 'A webhook needs a name of at most 100 characters'
+  }
+  if (!isHttpUrl(url)) {
+    return 'A webhook needs an http(s) URL'
+  }
+  if (!Array.isArray(events) || !events.every(event => WEBHOOK_EVENT_TYPES.includes(event))) {
+    return 'Events must be a list of known event types'
+  }
+  if (progress_step !== undefined &&
+    (typeof progress_step !== 'number' || !Number.isInteger(progress_step) || progress_step < 1 || progress_step > 50)) {
+    return 'Progress step must be a whole percentage between 1 and 50'
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'Enabled must be true or false'
+  }
+  return null
+}
+
+/**
+ * Whether a print_progress event from `from` to `to` percent crosses one of
+ * the endpoint's progress steps
+ */
+export function crossesProgressStep(from: number, to: number, step: number): boolean {
+  return Math.floor(to / step) > Math.floor(from / step)
+}
+
+/**
+ * Queue a ping to a saved endpoint (admin only)
+ */
+export async function sendWebhookPing(endpointId: number): Promise<string> {
+  const response = await fetch(`/api/webhooks/${endpointId}/test`, { method: 'POST' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Webhook ping failed')
+  }
+
+  return data.message
+}
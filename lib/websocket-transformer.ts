@@ -6,11 +6,14 @@
  */
 
 import type { PrinterStatus } from './types'
+import { extractPrinterComponents } from './printer-objects'
+import { estimatePrintTimeLeft, EMPTY_ESTIMATE_BASIS, type PrintEstimateBasis } from './print-eta'
 
 /**
  * Transform WebSocket status data to PrinterStatus
+ * `estimateBasis` comes from `/api/printer/print-estimate` so the ETA matches the status route
  */
-export function transformWebSocketToPrinterStatus(wsData: any): PrinterStatus {
+export function transformWebSocketToPrinterStatus(wsData: any, estimateBasis: PrintEstimateBasis | null = null): PrinterStatus {
   const printStats = wsData.print_stats || {}
   const virtualSdcard = wsData.virtual_sdcard || {}
   const extruder = wsData.extruder || {}
@@ -51,18 +54,18 @@ export function transformWebSocketToPrinterStatus(wsData: any): PrinterStatus {
       printState = webhooks.state === 'ready' ? 'ready' : 'offline'
   }
   
-  // Calculate estimated time left
-  let estimatedTimeLeft: number | null = null
   const progress = virtualSdcard.progress || 0
   
-  if (printState === 'printing' && progress > 0) {
-    const printDuration = printStats.print_duration || 0
-    if (printDuration > 0 && progress < 1) {
-      // Calculate based on current progress
-      const totalEstimatedTime = printDuration / progress
-      estimatedTimeLeft = totalEstimatedTime - printDuration
-    }
-  }
+  // Same ETA engine as the status route
+  const eta = printState === 'printing' || printState === 'paused'
+    ? estimatePrintTimeLeft({
+        printDuration: printStats.print_duration || 0,
+        progress,
+        filePosition: virtualSdcard.file_position || 0,
+        currentLayer: printStats.info?.current_layer ?? null,
+        totalLayers: printStats.info?.total_layer ?? null,
+      }, estimateBasis ?? EMPTY_ESTIMATE_BASIS)
+    : null
   
   return {
     print: {
@@ -72,8 +75,9 @@ export function transformWebSocketToPrinterStatus(wsData: any): PrinterStatus {
       currentLayer: printStats.info?.current_layer || null,
       totalLayers: printStats.info?.total_layer || null,
       printTime: printStats.print_duration || 0,
-      estimatedTimeLeft,
-      slicerEstimatedTime: null, // This would come from file metadata
+      estimatedTimeLeft: eta?.remaining ?? null,
+      slicerEstimatedTime: estimateBasis?.slicerEstimate ?? null,
+      eta,
       filamentUsed: printStats.filament_used || 0,
     },
     temperatures: {
@@ -97,6 +101,7 @@ export function transformWebSocketToPrinterStatus(wsData: any): PrinterStatus {
     speeds: {
       current: gcodeMove.speed || 0,
       factor: gcodeMove.speed_factor || 1,
+      flowFactor: gcodeMove.extrude_factor || 1,
     },
     system: {
       klippyState: webhooks.state || 'offline',
@@ -108,6 +113,7 @@ export function transformWebSocketToPrinterStatus(wsData: any): PrinterStatus {
       size: virtualSdcard.file_size || 0,
       position: virtualSdcard.file_position || 0,
     },
+    ...extractPrinterComponents(wsData),
   }
 }
 
@@ -16,7 +16,7 @@ if [ -z "$PRINTER_IP" ]; then
     echo -e "${BLUE}Example: PRINTER_HOST=192.168.1.100${NC}"
     exit 1
 fi
-LOCAL_TIMELAPSE_DIR="./public/timelapse"
+LOCAL_TIMELAPSE_DIR="${TIMELAPSE_DIR:-./public/timelapse}"
 PRINTER_API_URL="http://${PRINTER_IP}:${PRINTER_PORT}"
 
 # Colors for output